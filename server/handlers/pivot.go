@@ -0,0 +1,276 @@
+package handlers
+
+import (
+	"database/sql"
+	"fmt"
+	"net/http"
+	"strings"
+
+	"div_table_server/config"
+	"div_table_server/models"
+	"div_table_server/utils"
+
+	"github.com/gin-gonic/gin"
+	"gorm.io/gorm"
+)
+
+// 聚合类型 -> SQL 表达式, avg 和前端一样保留两位小数
+var pivotAggregations = map[string]string{
+	"sum": "SUM(%s)",
+	"avg": "ROUND(AVG(%s), 2)",
+	"max": "MAX(%s)",
+	"min": "MIN(%s)",
+}
+
+// 校验过的数值字段: 前端 key + 聚合 SQL 表达式
+type pivotValueField struct {
+	key  string
+	expr string
+}
+
+// 一行 GROUP BY 结果: 行分组值 + 列分组值 + 行数 + 各数值字段的聚合值
+type pivotCell struct {
+	group    sql.NullString
+	cols     []string
+	rowCount int64
+	values   []sql.NullFloat64
+}
+
+// 获取透视数据
+// 一次只聚合一层: 按 rowGroups[len(groupPath)] + colGroups 分组, 前端展开分组时再来拉下一层
+func GetPivotData(c *gin.Context) {
+	var body models.PivotQueryBody
+
+	if err := c.ShouldBindJSON(&body); err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+
+	rowCols, err := resolvePivotColumns(body.Config.RowGroups)
+	if err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+	colCols, err := resolvePivotColumns(body.Config.ColGroups)
+	if err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+	valueFields, err := resolvePivotValueFields(body.Config.ValueFields)
+	if err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+
+	level := len(body.GroupPath)
+	if level >= len(rowCols) {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "groupPath 超出行分组层数"})
+		return
+	}
+
+	db := config.DB.Model(&models.TableData{})
+
+	// 表格上的列筛选 + 全局搜索 + 高级筛选, 透视和表格看的是同一份数据
+	if len(body.Filters) > 0 {
+		db = utils.ApplyFilters(db, body.Filters)
+	}
+	db = utils.ApplySearch(db, body.FilterText, tableColumns)
+	db, err = utils.ApplyWhere(db, body.Where, tableColumns)
+	if err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+
+	// 透视自己的行分组筛选, 空数组 = 不过滤
+	for field, allowed := range body.Config.RowFilters {
+		if len(allowed) == 0 {
+			continue
+		}
+		col, ok := tableColumns[field]
+		if !ok {
+			c.JSON(http.StatusBadRequest, gin.H{"error": "不支持的筛选字段: " + field})
+			return
+		}
+		db = db.Where(fmt.Sprintf("%s in ?", col), allowed)
+	}
+
+	// 限定在要展开的分组下面, 前端把 null 分组传成空串
+	for i, val := range body.GroupPath {
+		if val == "" {
+			db = db.Where(fmt.Sprintf("(%s = '' or %s is null)", rowCols[i], rowCols[i]))
+		} else {
+			db = db.Where(fmt.Sprintf("%s = ?", rowCols[i]), val)
+		}
+	}
+
+	// 下面可能要查两次 (分组 + 总计), 开个新会话, 条件共用, 互不影响
+	db = db.Session(&gorm.Session{})
+
+	cells, err := queryPivotCells(db, rowCols[level], colCols, valueFields)
+	if err != nil {
+		c.JSON(http.StatusInternalServerError, gin.H{"error": "查询透视数据失败"})
+		return
+	}
+
+	response := models.PivotResponse{
+		Groups: buildPivotGroups(cells, valueFields),
+	}
+
+	// 第一层额外返回 列分组值组合 + 总计, 展开子分组时用不到
+	if level == 0 {
+		totals, err := queryPivotCells(db, "", colCols, valueFields)
+		if err != nil {
+			c.JSON(http.StatusInternalServerError, gin.H{"error": "查询透视总计失败"})
+			return
+		}
+
+		grandTotal := make(map[string]interface{})
+		for _, cell := range totals {
+			fillPivotValues(grandTotal, cell, valueFields)
+			if len(colCols) > 0 {
+				response.ColValues = append(response.ColValues, cell.cols)
+			}
+		}
+		response.GrandTotal = grandTotal
+	}
+
+	c.JSON(http.StatusOK, response)
+}
+
+// 字段 key 转列名, 不在白名单里直接报错
+func resolvePivotColumns(keys []string) ([]string, error) {
+	cols := make([]string, 0, len(keys))
+	for _, key := range keys {
+		col, ok := tableColumns[key]
+		if !ok {
+			return nil, fmt.Errorf("不支持的分组字段: %s", key)
+		}
+		cols = append(cols, col)
+	}
+	return cols, nil
+}
+
+func resolvePivotValueFields(fields []models.PivotValueField) ([]pivotValueField, error) {
+	result := make([]pivotValueField, 0, len(fields))
+	for _, field := range fields {
+		col, ok := tableColumns[field.Key]
+		if !ok {
+			return nil, fmt.Errorf("不支持的数值字段: %s", field.Key)
+		}
+
+		// count 和前端一样数行数, 不管字段有没有值
+		if field.Aggregation == "count" {
+			result = append(result, pivotValueField{key: field.Key, expr: "COUNT(*)"})
+			continue
+		}
+
+		format, ok := pivotAggregations[field.Aggregation]
+		if !ok {
+			return nil, fmt.Errorf("不支持的聚合方式: %s", field.Aggregation)
+		}
+		result = append(result, pivotValueField{key: field.Key, expr: fmt.Sprintf(format, col)})
+	}
+	return result, nil
+}
+
+// 按 groupCol (可为空, 查总计时) + colCols 分组聚合
+// 结果按分组列排序, 同一个行分组的几行 (不同列分组) 挨在一起
+func queryPivotCells(db *gorm.DB, groupCol string, colCols []string, valueFields []pivotValueField) ([]pivotCell, error) {
+	var selects, groupBy []string
+
+	if groupCol != "" {
+		selects = append(selects, groupCol+" as g")
+		groupBy = append(groupBy, groupCol)
+	}
+	for i, col := range colCols {
+		selects = append(selects, fmt.Sprintf("%s as c%d", col, i))
+		groupBy = append(groupBy, col)
+	}
+	selects = append(selects, "count(*) as row_count")
+	for i, vf := range valueFields {
+		selects = append(selects, fmt.Sprintf("%s as v%d", vf.expr, i))
+	}
+
+	query := db.Select(strings.Join(selects, ", "))
+	if len(groupBy) > 0 {
+		query = query.Group(strings.Join(groupBy, ", ")).Order(strings.Join(groupBy, ", "))
+	}
+
+	rows, err := query.Rows()
+	if err != nil {
+		return nil, err
+	}
+	defer rows.Close()
+
+	var cells []pivotCell
+	for rows.Next() {
+		cell := pivotCell{
+			cols:   make([]string, len(colCols)),
+			values: make([]sql.NullFloat64, len(valueFields)),
+		}
+		colVals := make([]sql.NullString, len(colCols))
+
+		dest := make([]interface{}, 0, len(selects))
+		if groupCol != "" {
+			dest = append(dest, &cell.group)
+		}
+		for i := range colVals {
+			dest = append(dest, &colVals[i])
+		}
+		dest = append(dest, &cell.rowCount)
+		for i := range cell.values {
+			dest = append(dest, &cell.values[i])
+		}
+
+		if err := rows.Scan(dest...); err != nil {
+			return nil, err
+		}
+		for i, val := range colVals {
+			cell.cols[i] = val.String
+		}
+		cells = append(cells, cell)
+	}
+
+	return cells, rows.Err()
+}
+
+// 同一个行分组的几行 (不同列分组组合) 合成一个 PivotGroup
+func buildPivotGroups(cells []pivotCell, valueFields []pivotValueField) []models.PivotGroup {
+	groups := []models.PivotGroup{}
+	for i, cell := range cells {
+		// 已按分组列排序, 和上一行分组值不同就是新分组
+		if i == 0 || cell.group != cells[i-1].group {
+			var value interface{}
+			if cell.group.Valid {
+				value = cell.group.String
+			}
+			groups = append(groups, models.PivotGroup{
+				Value:  value,
+				Values: make(map[string]interface{}),
+			})
+		}
+
+		group := &groups[len(groups)-1]
+		group.RowCount += cell.rowCount
+		fillPivotValues(group.Values, cell, valueFields)
+	}
+
+	return groups
+}
+
+// 把一行聚合结果按 cellKey 写进 values
+// cellKey 和前端 PivotDataProcessor.buildCellKey 一致: 无列分组 'salary', 有列分组 'salary__华东__Product-0'
+func fillPivotValues(values map[string]interface{}, cell pivotCell, valueFields []pivotValueField) {
+	for i, vf := range valueFields {
+		cellKey := vf.key
+		if len(cell.cols) > 0 {
+			cellKey = vf.key + "__" + strings.Join(cell.cols, "__")
+		}
+
+		if cell.values[i].Valid {
+			values[cellKey] = cell.values[i].Float64
+		} else {
+			values[cellKey] = nil
+		}
+	}
+}
@@ -1,6 +1,7 @@
 package handlers
 
 import (
+	"encoding/json"
 	"net/http"
 
 	"div_table_server/config"
@@ -11,6 +12,19 @@ import (
 	"gorm.io/gorm"
 )
 
+// 前端字段 key -> 数据库列名
+// 高级筛选 / 透视的分组聚合字段都要直接拼进 SQL, 只认这里面的, 防注入
+var tableColumns = map[string]string{
+	"id":         "id",
+	"name":       "name",
+	"age":        "age",
+	"region":     "region",
+	"department": "department",
+	"salary":     "salary",
+	"status":     "status",
+	"joinDate":   "join_date",
+}
+
 // 获取分页数据
 func GetTablePage(c *gin.Context) {
 	var params models.PageQueryBody
@@ -33,6 +47,16 @@ func GetTablePage(c *gin.Context) {
 		db = utils.ApplyFilters(db, params.Filters)
 	}
 
+	// 全局搜索
+	db = utils.ApplySearch(db, params.FilterText, tableColumns)
+
+	// 高级筛选条件组
+	db, err := utils.ApplyWhere(db, params.Where, tableColumns)
+	if err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+
 	// 应用排序
 	if params.Sort != "" {
 		db = utils.ApplySort(db, params.Sort)
@@ -96,8 +120,26 @@ func GetSummary(c *gin.Context) {
 	// 应用筛选, 如果有
 	var filters map[string]interface{}
 	if err := c.ShouldBindQuery(&filters); err == nil && len(filters) > 0 {
+		// 搜索 / 高级筛选单独处理, 不是列名
+		delete(filters, "filterText")
+		delete(filters, "where")
 		db = utils.ApplyFilters(db, filters)
 	}
+	db = utils.ApplySearch(db, c.Query("filterText"), tableColumns)
+
+	// 高级筛选条件组, GET 请求里是 where=JSON
+	if raw := c.Query("where"); raw != "" {
+		var where models.FilterNode
+		if err := json.Unmarshal([]byte(raw), &where); err != nil {
+			c.JSON(http.StatusBadRequest, gin.H{"error": "where 参数格式错误"})
+			return
+		}
+		var err error
+		if db, err = utils.ApplyWhere(db, &where, tableColumns); err != nil {
+			c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+			return
+		}
+	}
 
 	summary := calculateSummary(db)
 
@@ -113,11 +155,28 @@ func GetFilterOptions(c *gin.Context) {
 		return
 	}
 
-	var options []string
-	query := "select distinct " + body.Columnkey + " from table_data where " + body.Columnkey + " is not null"
+	// 列名要拼进 SQL, 只认白名单里的
+	col, ok := tableColumns[body.Columnkey]
+	if !ok {
+		c.JSON(http.StatusBadRequest, gin.H{"error": "不支持的筛选字段: " + body.Columnkey})
+		return
+	}
 
-	if err := config.DB.Raw(query).Scan(&options).Error; err != nil {
+	// 可选值跟着当前的列筛选 + 高级筛选走
+	db := config.DB.Model(&models.TableData{}).Where(col + " is not null")
+	if len(body.Filters) > 0 {
+		db = utils.ApplyFilters(db, body.Filters)
+	}
+	db, err := utils.ApplyWhere(db, body.Where, tableColumns)
+	if err != nil {
+		c.JSON(http.StatusBadRequest, gin.H{"error": err.Error()})
+		return
+	}
+
+	var options []string
+	if err := db.Distinct(col).Pluck(col, &options).Error; err != nil {
 		c.JSON(http.StatusInternalServerError, gin.H{"error": "查询筛选选项失败"})
+		return
 	}
 
 	c.JSON(http.StatusOK, options)
@@ -126,7 +185,7 @@ func GetFilterOptions(c *gin.Context) {
 // 获取全量数据 (用于 client 模式 一次性全加载)
 func GetAllData(c *gin.Context) {
 	var params struct {
-		Sort   string                 `form:"sort"`   // 格式: "name:asc" 或 "age:desc"
+		Sort   string                 `form:"sort"`   // 格式: "name:asc" 或 "age:desc", 多列逗号分隔
 		Filter map[string]interface{} `form:"filter"` // 筛选条件
 		Limit  int                    `form:"limit"`  // 最大返回量, 防止数据过大
 	}
@@ -35,6 +35,7 @@ func main() {
 		api.POST("/table/all", handlers.GetAllData)
 		api.GET("/table/filter-options", handlers.GetFilterOptions)
 		api.GET("/table/summary", handlers.GetSummary)
+		api.POST("/table/pivot", handlers.GetPivotData)
 	}
 
 	// 健康检查
@@ -32,19 +32,71 @@ type PageResponse struct {
 type QueryParms struct {
 	PageIndex int                    ` form:"pageIndex" binding:"gte=0"`
 	PageSize  int                    `form:"pageSize" binding:"required,max=100000"` // 10w一页试试
-	Sort      string                 `form:"sort"`                                   // 格式: "name:asc" 或 "age:desc"
+	Sort      string                 `form:"sort"`                                   // 格式: "name:asc" 或 "age:desc", 多列逗号分隔
 	Filter    map[string]interface{} `form:"filter"`                                 // 筛选条件
 }
 
 // post 请求体结构 (用于分页 和 筛选项接口)
 type PageQueryBody struct {
-	PageIndex int                    `json:"pageIndex" binding:"gte=0"`
-	PageSize  int                    `json:"pageSize" binding:"omitempty,min=1,max=100000"`
-	Sort      string                 `json:"sort"`
-	Filters   map[string]interface{} `json:"filters"`
+	PageIndex  int                    `json:"pageIndex" binding:"gte=0"`
+	PageSize   int                    `json:"pageSize" binding:"omitempty,min=1,max=100000"`
+	Sort       string                 `json:"sort"`
+	Filters    map[string]interface{} `json:"filters"`
+	FilterText string                 `json:"filterText"` // 全局搜索
+	Where      *FilterNode            `json:"where"`      // 高级筛选条件组
 }
 
 type FilterOptionsBody struct {
 	Columnkey string                 `json:"columnKey" binding:"required"`
 	Filters   map[string]interface{} `json:"filters"`
+	Where     *FilterNode            `json:"where"`
+}
+
+// 高级筛选条件树, 对应前端 FilterNode
+// type = "group" 看 Logic + Conditions, type = "condition" 看 Field + Operator + 值
+type FilterNode struct {
+	Type       string       `json:"type"`
+	Logic      string       `json:"logic"` // and / or
+	Conditions []FilterNode `json:"conditions"`
+	Field      string       `json:"field"`
+	Operator   string       `json:"operator"` // equals / contains / between / in ... 和前端 FilterOperator 一样
+	Value      string       `json:"value"`
+	ValueTo    string       `json:"valueTo"` // between 的上限
+	Values     []string     `json:"values"`  // in / notIn 的候选值
+}
+
+// 透视查询请求体, 对应前端 fetchPivotData
+type PivotQueryBody struct {
+	Config     PivotConfig            `json:"config" binding:"required"`
+	GroupPath  []string               `json:"groupPath"` // 要展开的分组路径, 空 = 第一层
+	Filters    map[string]interface{} `json:"filters"`
+	FilterText string                 `json:"filterText"` // 表格的全局搜索
+	Where      *FilterNode            `json:"where"`      // 表格的高级筛选条件组
+}
+
+// 透视配置, 只有后端聚合要用的字段
+type PivotConfig struct {
+	RowGroups   []string            `json:"rowGroups" binding:"required,min=1"`
+	ColGroups   []string            `json:"colGroups"`
+	ValueFields []PivotValueField   `json:"valueFields" binding:"required,min=1"`
+	RowFilters  map[string][]string `json:"rowFilters"`
+}
+
+type PivotValueField struct {
+	Key         string `json:"key"`
+	Aggregation string `json:"aggregation"` // sum / count / avg / max / min
+}
+
+// 一个分组的聚合结果, Values 的 key 是前端的 cellKey
+type PivotGroup struct {
+	Value    interface{}            `json:"value"`
+	RowCount int64                  `json:"rowCount"`
+	Values   map[string]interface{} `json:"values"`
+}
+
+// 透视响应, ColValues / GrandTotal 只在第一层返回
+type PivotResponse struct {
+	Groups     []PivotGroup           `json:"groups"`
+	ColValues  [][]string             `json:"colValues,omitempty"`
+	GrandTotal map[string]interface{} `json:"grandTotal,omitempty"`
 }
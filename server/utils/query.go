@@ -2,8 +2,13 @@ package utils
 
 import (
 	"fmt"
+	"regexp"
+	"sort"
+	"strconv"
 	"strings"
 
+	"div_table_server/models"
+
 	"gorm.io/gorm"
 )
 
@@ -13,20 +18,25 @@ func ApplySort(db *gorm.DB, sortStr string) *gorm.DB {
 		return db
 	}
 
-	// 格式: "name:asc" 或者 "age:desc"
-	parts := strings.Split(sortStr, ":")
-	if len(parts) != 2 {
-		return db
-	}
+	// 格式: "name:asc" 或者 "age:desc", 多列用逗号分隔: "region:asc,salary:desc"
+	// 按出现顺序依次 Order, 前面的优先级更高; 格式不对的项直接跳过
+	for _, item := range strings.Split(sortStr, ",") {
+		parts := strings.Split(strings.TrimSpace(item), ":")
+		if len(parts) != 2 || parts[0] == "" {
+			continue
+		}
 
-	field := parts[0]
-	direction := strings.ToUpper(parts[1])
+		field := parts[0]
+		direction := strings.ToUpper(parts[1])
 
-	if direction != "ASC" && direction != "DESC" {
-		return db
+		if direction != "ASC" && direction != "DESC" {
+			continue
+		}
+
+		db = db.Order(fmt.Sprintf("%s %s", field, direction))
 	}
 
-	return db.Order(fmt.Sprintf("%s %s", field, direction))
+	return db
 }
 
 // 应用筛选条件
@@ -55,3 +65,147 @@ func ApplyFilters(db *gorm.DB, filters map[string]interface{}) *gorm.DB {
 
 	return db
 }
+
+// 应用全局搜索: 任意一列 (转成文本, 不分大小写) 包含关键词就算, 和前端搜索框一致
+func ApplySearch(db *gorm.DB, text string, columns map[string]string) *gorm.DB {
+	text = strings.TrimSpace(text)
+	if text == "" {
+		return db
+	}
+
+	// map 遍历顺序不固定, 排一下, SQL 每次拼出来一样
+	cols := make([]string, 0, len(columns))
+	for _, col := range columns {
+		cols = append(cols, col)
+	}
+	sort.Strings(cols)
+
+	pattern := "%" + escapeLike(strings.ToLower(text)) + "%"
+	parts := make([]string, len(cols))
+	args := make([]interface{}, len(cols))
+	for i, col := range cols {
+		parts[i] = fmt.Sprintf("LOWER(%s) LIKE ?", col)
+		args[i] = pattern
+	}
+
+	return db.Where(strings.Join(parts, " OR "), args...)
+}
+
+// 应用高级筛选条件树 (前端筛选器面板的 且 / 或 条件组)
+// 字段名要拼进 SQL, 只认 columns 白名单里的 (前端 key -> 列名), 不认识的字段 / 运算符直接报错
+func ApplyWhere(db *gorm.DB, where *models.FilterNode, columns map[string]string) (*gorm.DB, error) {
+	if where == nil {
+		return db, nil
+	}
+
+	expr, args, err := buildFilterNode(*where, columns)
+	if err != nil {
+		return nil, err
+	}
+	if expr == "" {
+		return db, nil
+	}
+
+	return db.Where(expr, args...), nil
+}
+
+// 条件树转 SQL 片段, 空的组返回 "" (不限制), 和前端 compileFilterGroup 一致
+func buildFilterNode(node models.FilterNode, columns map[string]string) (string, []interface{}, error) {
+	if node.Type != "group" {
+		return buildFilterCondition(node, columns)
+	}
+
+	joiner := " AND "
+	if node.Logic == "or" {
+		joiner = " OR "
+	}
+
+	var parts []string
+	var args []interface{}
+	for _, child := range node.Conditions {
+		expr, childArgs, err := buildFilterNode(child, columns)
+		if err != nil {
+			return "", nil, err
+		}
+		if expr == "" {
+			continue
+		}
+		parts = append(parts, "("+expr+")")
+		args = append(args, childArgs...)
+	}
+
+	return strings.Join(parts, joiner), args, nil
+}
+
+// 单个条件, 语义对齐前端 clientQuery.compileCondition:
+// 文本类 (contains / startsWith ...) 不分大小写, 空值单元格不参与大小比较
+func buildFilterCondition(cond models.FilterNode, columns map[string]string) (string, []interface{}, error) {
+	col, ok := columns[cond.Field]
+	if !ok {
+		return "", nil, fmt.Errorf("不支持的筛选字段: %s", cond.Field)
+	}
+	lower := strings.ToLower(cond.Value)
+
+	switch cond.Operator {
+	case "equals":
+		return fmt.Sprintf("%s = ?", col), []interface{}{compareValue(cond.Value)}, nil
+	case "notEquals":
+		return fmt.Sprintf("%s <> ? OR %s IS NULL", col, col), []interface{}{compareValue(cond.Value)}, nil
+	case "contains":
+		return fmt.Sprintf("LOWER(%s) LIKE ?", col), []interface{}{"%" + escapeLike(lower) + "%"}, nil
+	case "notContains":
+		return fmt.Sprintf("LOWER(%s) NOT LIKE ? OR %s IS NULL", col, col), []interface{}{"%" + escapeLike(lower) + "%"}, nil
+	case "startsWith":
+		return fmt.Sprintf("LOWER(%s) LIKE ?", col), []interface{}{escapeLike(lower) + "%"}, nil
+	case "endsWith":
+		return fmt.Sprintf("LOWER(%s) LIKE ?", col), []interface{}{"%" + escapeLike(lower)}, nil
+	case "regex":
+		// 正则写错了就谁都不匹配, 和前端一样不报错
+		if _, err := regexp.Compile(cond.Value); err != nil {
+			return "1 = 0", nil, nil
+		}
+		return fmt.Sprintf("%s REGEXP ?", col), []interface{}{cond.Value}, nil
+	case "isEmpty":
+		return fmt.Sprintf("%s IS NULL OR TRIM(%s) = ''", col, col), nil, nil
+	case "isNotEmpty":
+		return fmt.Sprintf("%s IS NOT NULL AND TRIM(%s) <> ''", col, col), nil, nil
+	case "gt", "gte", "lt", "lte":
+		// 比较值没填, 前端那边比较结果是 NaN, 谁都不满足
+		if strings.TrimSpace(cond.Value) == "" {
+			return "1 = 0", nil, nil
+		}
+		op := map[string]string{"gt": ">", "gte": ">=", "lt": "<", "lte": "<="}[cond.Operator]
+		return fmt.Sprintf("%s %s ?", col, op), []interface{}{compareValue(cond.Value)}, nil
+	case "between":
+		if strings.TrimSpace(cond.Value) == "" || strings.TrimSpace(cond.ValueTo) == "" {
+			return "1 = 0", nil, nil
+		}
+		return fmt.Sprintf("%s BETWEEN ? AND ?", col), []interface{}{compareValue(cond.Value), compareValue(cond.ValueTo)}, nil
+	case "in":
+		// 一个候选值都没有 = 谁都不匹配
+		if len(cond.Values) == 0 {
+			return "1 = 0", nil, nil
+		}
+		return fmt.Sprintf("%s IN ?", col), []interface{}{cond.Values}, nil
+	case "notIn":
+		if len(cond.Values) == 0 {
+			return "", nil, nil
+		}
+		return fmt.Sprintf("%s NOT IN ? OR %s IS NULL", col, col), []interface{}{cond.Values}, nil
+	}
+
+	return "", nil, fmt.Errorf("不支持的筛选运算符: %s", cond.Operator)
+}
+
+// 能解析成数字的按数字比, 不然 '9' > '10' 这种按字符串比就错了
+func compareValue(value string) interface{} {
+	if num, err := strconv.ParseFloat(strings.TrimSpace(value), 64); err == nil {
+		return num
+	}
+	return value
+}
+
+// LIKE 里的 % _ \ 要转义, 不然用户输入的 % 会被当成通配符
+func escapeLike(text string) string {
+	return strings.NewReplacer(`\`, `\\`, "%", `\%`, "_", `\_`).Replace(text)
+}
@@ -16,4 +16,5 @@ export const API_ENDPOINTS = {
   TABLE_ALL: '/api/table/all',    // 全量数据
   TABLE_SUMMARY: '/api/table/summary', // 汇总行数据
   TABLE_FILTER_OPTIONS: '/api/table/filter-options', // 筛选选项
+  TABLE_PIVOT: '/api/table/pivot', // 透视聚合 (按层 GROUP BY)
 } as const 
\ No newline at end of file
@@ -0,0 +1,186 @@
+// 内置的数据源适配器: 自家 REST 接口 + 通用查询串接口
+import { API_ENDPOINTS } from "@/api/config";
+import { request } from "@/api/request";
+import { serializeAdvancedFilter, serializeFilters, serializeSort } from "@/api/serialize";
+import type { IAllDataResponse } from "@/api/types";
+import type { ColumnFilterValue, IDataSource, IPageResponse, ITableQuery } from "@/types";
+
+
+// ========== REST: 和自带的 Go 服务同一套接口 ==========
+
+export interface IRestDataSourceOptions {
+  baseURL?: string // 接口前缀, 如 'https://api.xxx.com', 不传就走 API_CONFIG.baseURL
+  endpoints?: {
+    page?: string          // POST { pageIndex, pageSize, sort, filters, filterText, where }
+    all?: string           // GET ?limit=
+    summary?: string       // GET ?字段=筛选值&filterText=搜索词&where=高级筛选JSON
+    filterOptions?: string // POST { columnKey, filters, where }
+  }
+  headers?: Record<string, string> // 鉴权之类的额外请求头
+  allLimit?: number // getAll 最多拉多少行, 默认 100000
+}
+
+export function createRestDataSource(options: IRestDataSourceOptions = {}): IDataSource {
+  const { baseURL = '', headers, allLimit = 100000 } = options
+  const endpoints = {
+    page: API_ENDPOINTS.TABLE_PAGE,
+    all: API_ENDPOINTS.TABLE_ALL,
+    summary: API_ENDPOINTS.TABLE_SUMMARY,
+    filterOptions: API_ENDPOINTS.TABLE_FILTER_OPTIONS,
+    ...options.endpoints
+  }
+
+  const post = <T>(path: string, body: Record<string, unknown>, signal?: AbortSignal) =>
+    request<T>(`${baseURL}${path}`, { method: 'POST', body: JSON.stringify(body), headers, signal })
+  const get = <T>(path: string, params: Record<string, string>, signal?: AbortSignal) => {
+    const queryString = new URLSearchParams(params).toString()
+    return request<T>(`${baseURL}${path}${queryString ? `?${queryString}` : ''}`, { method: 'GET', headers, signal })
+  }
+
+  return {
+    getPage(pageIndex, pageSize, query, signal) {
+      const body: Record<string, unknown> = { pageIndex, pageSize }
+      const sort = serializeSort(query)
+      if (sort) body.sort = sort
+      if (query.filterText) body.filterText = query.filterText
+      if (query.columnFilters) body.filters = serializeFilters(query.columnFilters)
+      if (query.advancedFilter) body.where = query.advancedFilter
+      return post<IPageResponse>(endpoints.page, body, signal)
+    },
+
+    getSummary(query, signal) {
+      // 汇总接口是 GET, 筛选值摊平成 字段=值, 多选用逗号拼
+      const params: Record<string, string> = {}
+      for (const [key, value] of Object.entries(serializeFilters(query.columnFilters ?? {}))) {
+        if (Array.isArray(value)) params[key] = value.join(',')
+        else if (typeof value === 'string') params[key] = value
+      }
+      if (query.filterText) params.filterText = query.filterText
+      const where = serializeAdvancedFilter(query)
+      if (where) params.where = where
+      return get<Record<string, any>>(endpoints.summary, params, signal)
+    },
+
+    getFilterOptions(key, query, signal) {
+      const body: Record<string, unknown> = { columnKey: key }
+      if (query.columnFilters) body.filters = serializeFilters(query.columnFilters)
+      if (query.advancedFilter) body.where = query.advancedFilter
+      return post<string[]>(endpoints.filterOptions, body, signal)
+    },
+
+    async getAll() {
+      const res = await get<IAllDataResponse>(endpoints.all, { limit: String(allLimit) })
+      return res.list as Record<string, any>[]
+    }
+  }
+}
+
+
+// ========== 查询串: GET ?page=1&pageSize=50&sort=...&filter.region=a,b ==========
+
+export interface IQueryStringDataSourceOptions {
+  url: string // 分页接口地址
+  summaryURL?: string
+  filterOptionsURL?: string // 会带上 ?key=字段名
+  allURL?: string
+  headers?: Record<string, string>
+  params?: {  // 参数名, 不同后端叫法不一样
+    page?: string      // 默认 'page'
+    pageSize?: string  // 默认 'pageSize'
+    sort?: string      // 默认 'sort', 值 "region:asc,salary:desc"
+    search?: string    // 默认 'q', 全局搜索
+    filterPrefix?: string // 默认 'filter.', 列筛选 filter.region=a,b / filter.salary.min=100
+    where?: string     // 默认 'where', 高级筛选条件组的 JSON
+  }
+  pageBase?: 0 | 1 // 页码从几开始, 默认 1 (表格内部从 0 开始)
+  // 响应转 { list, totalRows }, 默认认 list/data/items/rows 和 totalRows/total/count
+  mapResponse?: (json: any) => IPageResponse
+}
+
+export function createQueryStringDataSource(options: IQueryStringDataSourceOptions): IDataSource {
+  const { headers, pageBase = 1 } = options
+  const names = {
+    page: 'page',
+    pageSize: 'pageSize',
+    sort: 'sort',
+    search: 'q',
+    filterPrefix: 'filter.',
+    where: 'where',
+    ...options.params
+  }
+  const mapResponse = options.mapResponse ?? defaultMapResponse
+
+  const get = <T>(url: string, params: URLSearchParams, signal?: AbortSignal) => {
+    const queryString = params.toString()
+    const sep = url.includes('?') ? '&' : '?'
+    return request<T>(queryString ? `${url}${sep}${queryString}` : url, { method: 'GET', headers, signal })
+  }
+
+  // 排序 + 搜索 + 列筛选 + 高级筛选 (分页以外的部分)
+  const queryParams = (query: ITableQuery): URLSearchParams => {
+    const params = new URLSearchParams()
+    const sort = serializeSort(query)
+    if (sort) params.set(names.sort, sort)
+    if (query.filterText) params.set(names.search, query.filterText)
+    for (const [key, filter] of Object.entries(query.columnFilters ?? {})) {
+      appendFilterParams(params, `${names.filterPrefix}${key}`, filter)
+    }
+    const where = serializeAdvancedFilter(query)
+    if (where) params.set(names.where, where)
+    return params
+  }
+
+  const source: IDataSource = {
+    async getPage(pageIndex, pageSize, query, signal) {
+      const params = queryParams(query)
+      params.set(names.page, String(pageIndex + pageBase))
+      params.set(names.pageSize, String(pageSize))
+      return mapResponse(await get<any>(options.url, params, signal))
+    }
+  }
+
+  if (options.summaryURL) {
+    const url = options.summaryURL
+    source.getSummary = (query, signal) => get<Record<string, any>>(url, queryParams(query), signal)
+  }
+  if (options.filterOptionsURL) {
+    const url = options.filterOptionsURL
+    source.getFilterOptions = (key, query, signal) => {
+      const params = queryParams(query)
+      params.set('key', key)
+      return get<string[]>(url, params, signal)
+    }
+  }
+  if (options.allURL) {
+    const url = options.allURL
+    source.getAll = async (query) => mapResponse(await get<any>(url, queryParams(query ?? {}))).list
+  }
+
+  return source
+}
+
+/** 列筛选摊成查询参数, 空的筛选不带 */
+function appendFilterParams(params: URLSearchParams, name: string, filter: ColumnFilterValue): void {
+  if (filter.kind === 'set') {
+    if (filter.values.length > 0) params.set(name, filter.values.join(','))
+
+  } else if (filter.kind === 'text') {
+    if (filter.value) params.set(name, filter.value)
+
+  } else if (filter.kind === 'numberRange') {
+    if (filter.min !== undefined) params.set(`${name}.min`, String(filter.min))
+    if (filter.max !== undefined) params.set(`${name}.max`, String(filter.max))
+
+  } else if (filter.kind === 'dateRange') {
+    if (filter.start) params.set(`${name}.min`, filter.start)
+    if (filter.end) params.set(`${name}.max`, filter.end)
+  }
+}
+
+/** 常见的几种分页响应结构都认一下, 直接是数组的当成全部数据 */
+function defaultMapResponse(json: any): IPageResponse {
+  if (Array.isArray(json)) return { list: json, totalRows: json.length }
+  const list = json?.list ?? json?.data ?? json?.items ?? json?.rows ?? []
+  const totalRows = json?.totalRows ?? json?.total ?? json?.count ?? list.length
+  return { list, totalRows: Number(totalRows), summary: json?.summary }
+}
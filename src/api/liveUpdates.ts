@@ -0,0 +1,125 @@
+// 实时推送适配器: 把 WebSocket / EventSource 的消息流接到 table.transaction 上
+import type { IRowTransaction, IRowTransactionResult } from "@/types";
+
+// WebSocket 和 EventSource 都满足; 测试时随便一个 EventTarget 派发 MessageEvent 就行
+export interface ILiveMessageSource {
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void
+  removeEventListener(type: 'message', listener: (event: MessageEvent) => void): void
+  close?(): void
+}
+
+export interface ILiveUpdateOptions {
+  // 消息转成事务, 默认按 JSON 解析, 消息体就是 { add?, update?, remove? }; 返回 null 表示这条不处理 (心跳之类)
+  parse?: (data: any) => IRowTransaction | null
+  // 攒多久的消息合成一个事务再应用 (ms), 默认 100; 推得再快一批也只重画一两次
+  batchInterval?: number
+  onApplied?: (result: IRowTransactionResult) => void
+  onError?: (error: Error) => void // 消息解析失败
+  closeOnDispose?: boolean // 断开时顺带关掉连接, 默认 true
+}
+
+export interface ILiveUpdateHandle {
+  flush(): void   // 不等攒批, 马上应用
+  dispose(): void // 断开, 还没应用的丢掉
+}
+
+/**
+ * 订阅消息流, 按批调 table.transaction
+ * 断线重连不在这里管: EventSource 自己会重连, WebSocket 重连后重新 connect 一次
+ */
+export function connectLiveUpdates(
+  table: { transaction(transaction: IRowTransaction): IRowTransactionResult },
+  source: ILiveMessageSource,
+  options: ILiveUpdateOptions = {}
+): ILiveUpdateHandle {
+  const { batchInterval = 100, closeOnDispose = true } = options
+  const parse = options.parse ?? defaultParse
+  let pending: IRowTransaction[] = []
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const flush = () => {
+    if (timer !== null) {
+      clearTimeout(timer)
+      timer = null
+    }
+    if (pending.length === 0) return
+    const batches = mergeTransactions(pending)
+    pending = []
+    if (batches.length === 0) return
+    const results = batches.map(batch => table.transaction(batch))
+    options.onApplied?.(sumResults(results))
+  }
+
+  const onMessage = (event: MessageEvent) => {
+    let transaction: IRowTransaction | null
+    try {
+      transaction = parse(event.data)
+    } catch (err) {
+      options.onError?.(err instanceof Error ? err : new Error(String(err)))
+      return
+    }
+    if (!transaction) return
+    pending.push(transaction)
+    if (batchInterval <= 0) flush()
+    else timer ??= setTimeout(flush, batchInterval)
+  }
+
+  source.addEventListener('message', onMessage)
+
+  return {
+    flush,
+    dispose() {
+      source.removeEventListener('message', onMessage)
+      if (timer !== null) clearTimeout(timer)
+      timer = null
+      pending = []
+      if (closeOnDispose) source.close?.()
+    }
+  }
+}
+
+function defaultParse(data: any): IRowTransaction | null {
+  const message = typeof data === 'string' ? JSON.parse(data) : data
+  if (!message || typeof message !== 'object') return null
+  const { add, update, remove } = message
+  if (!add && !update && !remove) return null
+  return { add, update, remove }
+}
+
+// 策略里一个事务固定按 删 -> 加 -> 改 的顺序应用
+const PHASES: (keyof IRowTransaction)[] = ['remove', 'add', 'update']
+
+/**
+ * 一批消息按到达顺序拼成尽量少的事务
+ * 只要后面的消息不比前面的 "往回走" (先加后删 / 先改后加 之类), 拼起来和逐条应用结果一样;
+ * 一旦往回走就另起一个事务, 同一行先加后删不会留下幽灵行, 先改后删也不会报改的找不到
+ */
+function mergeTransactions(transactions: IRowTransaction[]): IRowTransaction[] {
+  const batches: Required<IRowTransaction>[] = []
+  let current: Required<IRowTransaction> | null = null
+  let maxPhase = -1
+  for (const transaction of transactions) {
+    const phases = PHASES.map((op, phase) => transaction[op]?.length ? phase : -1).filter(phase => phase >= 0)
+    if (phases.length === 0) continue
+    if (!current || Math.min(...phases) < maxPhase) {
+      current = { add: [], update: [], remove: [] }
+      batches.push(current)
+      maxPhase = -1
+    }
+    const { add, update, remove } = transaction
+    if (add) current.add.push(...add)
+    if (update) current.update.push(...update)
+    if (remove) current.remove.push(...remove)
+    maxPhase = Math.max(maxPhase, ...phases)
+  }
+  return batches
+}
+
+function sumResults(results: IRowTransactionResult[]): IRowTransactionResult {
+  return results.reduce<IRowTransactionResult>((sum, result) => ({
+    added: sum.added + result.added,
+    updated: sum.updated + result.updated,
+    removed: sum.removed + result.removed,
+    missing: [...sum.missing, ...result.missing],
+  }), { added: 0, updated: 0, removed: 0, missing: [] })
+}
@@ -29,9 +29,13 @@ export async function request<T = any>(
     ...options.headers,
   }
 
-  // 创建 AbortController 实现超时
+  // 创建 AbortController 实现超时, 调用方传的 signal (查询换了要取消) 也接到它上面
   const controller = new AbortController()
   const timeoutID = setTimeout(() => controller.abort(), timeout)
+  const callerSignal = options.signal
+  const onCallerAbort = () => controller.abort()
+  if (callerSignal?.aborted) controller.abort()
+  callerSignal?.addEventListener('abort', onCallerAbort)
 
   try {
     // 发 fetch 请求
@@ -42,6 +46,7 @@ export async function request<T = any>(
     })
 
     clearTimeout(timeoutID)
+    callerSignal?.removeEventListener('abort', onCallerAbort)
 
     // 处理非 2xx 响应
     if (!response.ok) {
@@ -58,6 +63,7 @@ export async function request<T = any>(
     
   } catch (error) {
     clearTimeout(timeoutID)    
+    callerSignal?.removeEventListener('abort', onCallerAbort)
 
     if (error instanceof RequestError) {
       throw error 
@@ -67,6 +73,8 @@ export async function request<T = any>(
     const err = error as any 
 
     if (err.name === 'AbortError') {
+      // 调用方主动取消的, 原样抛 AbortError, 上层按 name 判断后静默丢掉
+      if (callerSignal?.aborted) throw err
       throw new RequestError('请求超时')
     }
 
@@ -80,18 +88,19 @@ export async function request<T = any>(
 /**
  * GET 请求
  */
-export function get<T = any>(url: string, params?: Record<string, any>): Promise<T> {
+export function get<T = any>(url: string, params?: Record<string, any>, signal?: AbortSignal): Promise<T> {
   // 构建查询参数
   const queryString = params ? `?${new URLSearchParams(params).toString()}` : ''
-  return request<T>(`${url}${queryString}`, { method: 'GET' })
+  return request<T>(`${url}${queryString}`, { method: 'GET', signal })
 }
 
 /**
  * POST 请求
  */
-export function post<T = any>(url: string, data?: any): Promise<T> {
+export function post<T = any>(url: string, data?: any, signal?: AbortSignal): Promise<T> {
   return request<T>(url, {
     method: 'POST',
     body: JSON.stringify(data),
+    signal,
   })
 }
\ No newline at end of file
@@ -0,0 +1,43 @@
+// 查询条件 -> 后端参数 的序列化, 各个数据源适配器共用
+import type { ColumnFilterValue, ITableQuery } from "@/types";
+
+
+/** 将前端 ColumnFilterValue 转换为后端可识别的格式 */
+export function serializeFilters(
+  columnFilters: Record<string, ColumnFilterValue>
+): Record<string, unknown> {
+
+  const result: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(columnFilters)) {
+    if (value.kind === 'set') {
+      result[key] = value.values
+
+    } else if (value.kind === 'text') {
+      result[key] = value.value
+
+    } else if (value.kind === 'numberRange') {
+      result[key] = { min: value.min, max: value.max }
+
+    } else if (value.kind === 'dateRange') {
+      result[key] = { min: value.start, max: value.end }
+    }
+  }
+
+  return result
+}
+
+/** 高级筛选 (条件组) 序列化为 JSON 字符串, 给只能走查询串的接口用; POST 的直接放进 body 就行 */
+export function serializeAdvancedFilter(query: ITableQuery): string | undefined {
+  return query.advancedFilter ? JSON.stringify(query.advancedFilter) : undefined
+}
+
+/** 多列排序序列化为 "region:asc,salary:desc", 没有 sorts 时退回单列 sortKey */
+export function serializeSort(query: ITableQuery): string | undefined {
+  if (query.sorts && query.sorts.length > 0) {
+    return query.sorts.map(s => `${s.key}:${s.direction}`).join(',')
+  }
+  if (query.sortKey && query.sortDirection) {
+    return `${query.sortKey}:${query.sortDirection}`
+  }
+  return undefined
+}
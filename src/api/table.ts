@@ -1,40 +1,18 @@
 // 表格数据接口
 import { API_ENDPOINTS } from "@/api/config";
 import { get, post } from "@/api/request";
+import { serializeFilters, serializeSort } from "@/api/serialize";
 import { IAllDataResponse } from "@/api/types";
-import { ColumnFilterValue, IPageResponse, ITableQuery } from "@/types";
-
-
-/** 将前端 ColumnFilterValue 转换为后端可识别的格式 */
-function serializeFilters(
-  columnFilters: Record<string, ColumnFilterValue>
-): Record<string, unknown> {
-
-  const result: Record<string, unknown> = {}
-  for (const [key, value] of Object.entries(columnFilters)) {
-    if (value.kind === 'set') {
-      result[key] = value.values
-
-    } else if (value.kind === 'text') {
-      result[key] = value.value
-
-    } else if (value.kind === 'numberRange') {
-      result[key] = { min: value.min, max: value.max }
-
-    } else if (value.kind === 'dateRange') {
-      result[key] = { min: value.start, max: value.end }
-    }
-  }
-
-  return result
-}
+import { IPageResponse, ITableQuery } from "@/types";
+import type { IPivotConfig, IPivotDataQuery, IPivotDataResponse } from "@/types/pivot";
 
 
 /** 获取分页数据 */
 export async function fetchTablePage(
   pageIndex: number,
   pageSize: number = 50,
-  query?: ITableQuery
+  query?: ITableQuery,
+  signal?: AbortSignal
 
 ): Promise<IPageResponse> {
   const body: Record<string, unknown> = {
@@ -43,16 +21,24 @@ export async function fetchTablePage(
   }
 
   // 添加排序参数
-  if (query?.sortKey && query?.sortDirection) {
-    body.sort = `${query.sortKey}:${query.sortDirection}`
+  const sort = query ? serializeSort(query) : undefined
+  if (sort) {
+    body.sort = sort
   }
 
   // 添加筛选参数
+  if (query?.filterText) {
+    body.filterText = query.filterText
+  }
   if (query?.columnFilters) {
     body.filters = serializeFilters(query.columnFilters)
   }
+  // 高级筛选条件组, 原样传 JSON
+  if (query?.advancedFilter) {
+    body.where = query.advancedFilter
+  }
 
-  return post<IPageResponse>(API_ENDPOINTS.TABLE_PAGE, body)
+  return post<IPageResponse>(API_ENDPOINTS.TABLE_PAGE, body, signal)
 }
 
 
@@ -68,6 +54,7 @@ export async function fetchTableAll(
 export async function fetchFilterOptions(
   columnKey: string,
   query?: ITableQuery,
+  signal?: AbortSignal
 
 ): Promise<string[]> {
   const body: Record<string, unknown> = { columnKey }
@@ -75,7 +62,41 @@ export async function fetchFilterOptions(
   if (query?.columnFilters) {
     body.filters = serializeFilters(query.columnFilters)
   }
+  if (query?.advancedFilter) {
+    body.where = query.advancedFilter
+  }
 
-  return post<string[]>(API_ENDPOINTS.TABLE_FILTER_OPTIONS, body)
+  return post<string[]>(API_ENDPOINTS.TABLE_FILTER_OPTIONS, body, signal)
 }
 
+/** 获取透视聚合数据 (server 模式透视, 一次一层) */
+export async function fetchPivotData(
+  config: IPivotConfig,
+  query: IPivotDataQuery,
+
+): Promise<IPivotDataResponse> {
+  const body: Record<string, unknown> = {
+    // 只传后端聚合要用的部分, 排序 / 小计这些前端自己处理
+    config: {
+      rowGroups: config.rowGroups,
+      colGroups: config.colGroups ?? [],
+      valueFields: config.valueFields.map(vf => ({ key: vf.key, aggregation: vf.aggregation })),
+      rowFilters: config.rowFilters ?? {},
+    },
+    groupPath: query.groupPath,
+  }
+
+  // 透视和表格看的是同一份数据, 全局搜索 + 列筛选都要带上
+  if (query.filterText) {
+    body.filterText = query.filterText
+  }
+  if (query.columnFilters) {
+    body.filters = serializeFilters(query.columnFilters)
+  }
+  // 高级筛选条件组, 和分页接口一样原样传 JSON
+  if (query.advancedFilter) {
+    body.where = query.advancedFilter
+  }
+
+  return post<IPivotDataResponse>(API_ENDPOINTS.TABLE_PIVOT, body)
+}
@@ -6,7 +6,7 @@ import { IPageResponse, ITableQuery } from "@/types";
 export interface IPageRequest {
   pageIndex: number 
   pageSize: number 
-  sort?: string  // 格式: "fieldKey:asc" 或 "fieldKey:desc"
+  sort?: string  // 格式: "fieldKey:asc" 或 "fieldKey:desc", 多列用逗号分隔 "region:asc,salary:desc"
   filter?: Record<string, any>
 }
 
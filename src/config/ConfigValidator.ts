@@ -1,4 +1,5 @@
-import type { IUserConfig } from "@/types";
+import type { IColumnGroup, IUserConfig } from "@/types";
+import { CalculatedColumns } from "@/table/model/CalculatedColumns";
 
 /**
  * 配置验证器
@@ -12,6 +13,10 @@ export class ConfigValidator {
     if (!config.columns || config.columns.length === 0) {
       throw new Error('[ConfigValidator] columns 是必填, 且不能为空数组')
     }
+    // 策略有没有注册, 等创建策略时 (createDataStrategy) 再查, 这里不引注册表
+    if (config.dataStrategy !== undefined && (typeof config.dataStrategy !== 'string' || !config.dataStrategy)) {
+      throw new Error('[ConfigValidator] dataStrategy 必须是注册过的策略名')
+    }
     // 2. 右侧面板验证
     if (config.sidePanel?.enabled) {
       // 取消严格验证,允许 panel 为空
@@ -40,6 +45,18 @@ export class ConfigValidator {
     if (config.tableHeight !== undefined && config.tableHeight !== 'auto' && config.tableHeight < 100) {
       throw new Error('[ConfigValidator] tableHeight 不能小于 100px')
     }
+    if (config.getRowHeight !== undefined && typeof config.getRowHeight !== 'function') {
+      throw new Error('[ConfigValidator] getRowHeight 必须是函数')
+    }
+    if (config.getRowHeight && config.autoRowHeight) {
+      throw new Error('[ConfigValidator] getRowHeight 和 autoRowHeight 只能配一个')
+    }
+    if (config.detailRenderer !== undefined && typeof config.detailRenderer !== 'function') {
+      throw new Error('[ConfigValidator] detailRenderer 必须是函数')
+    }
+    if (config.detailHeight !== undefined && !(config.detailHeight > 0)) {
+      throw new Error('[ConfigValidator] detailHeight 必须大于 0')
+    }
     // 4. 分页参数验证
     if (config.pageSize !== undefined && config.pageSize < 1) {
       throw new Error('[ConfigValidator] pageSize 必须大于 0')
@@ -56,6 +73,20 @@ export class ConfigValidator {
         throw new Error('[ConfigValidator] 冻结列数不能超过总表列数')
       }
     }
+    // 5.1 右侧固定列验证
+    if (config.pinnedRightColumns !== undefined) {
+      if (!Array.isArray(config.pinnedRightColumns)) {
+        throw new Error('[ConfigValidator] pinnedRightColumns 必须是列 key 数组')
+      }
+      const keys = new Set(config.columns.map(col => col.key))
+      const unknown = config.pinnedRightColumns.filter(key => !keys.has(key))
+      if (unknown.length > 0) {
+        throw new Error(`[ConfigValidator] pinnedRightColumns 里的列不存在: ${unknown.join(', ')}`)
+      }
+      if ((config.frozenColumns ?? 0) + config.pinnedRightColumns.length > config.columns.length) {
+        throw new Error('[ConfigValidator] 左侧冻结列数 + 右侧固定列数不能超过总表列数')
+      }
+    }
     // 6. 列配置验证
     const columnKeys = new Set<string>()
     config.columns.forEach((col, index) => {
@@ -75,8 +106,100 @@ export class ConfigValidator {
       if (col.flex !== undefined && col.flex <= 0) {
         throw new Error(`[ConfigValidator] 列 "${col.key}" 的 flex 必须大于 0`)
       }
+      if (col.expression !== undefined && col.editable) {
+        throw new Error(`[ConfigValidator] 计算列 "${col.key}" 的值是算出来的, 不能配 editable`)
+      }
     })
 
+    // 6.1 计算列表达式验证 (语法 + 循环引用)
+    try {
+      new CalculatedColumns(config.columns)
+    } catch (err) {
+      throw new Error(`[ConfigValidator] ${err instanceof Error ? err.message : String(err)}`)
+    }
+
+    // 6.2 表头分组验证: 分组 id 不重复, 子项不为空, 每列最多属于一个分组
+    if (config.columnGroups !== undefined) {
+      if (!Array.isArray(config.columnGroups)) {
+        throw new Error('[ConfigValidator] columnGroups 必须是数组')
+      }
+      const groupIds = new Set<string>()
+      const groupedKeys = new Set<string>()
+      const walk = (group: IColumnGroup) => {
+        if (!group.groupId) {
+          throw new Error('[ConfigValidator] columnGroups 里的分组缺少 groupId')
+        }
+        if (groupIds.has(group.groupId)) {
+          throw new Error(`[ConfigValidator] 表头分组 "${group.groupId}" 重复`)
+        }
+        groupIds.add(group.groupId)
+        if (!Array.isArray(group.children) || group.children.length === 0) {
+          throw new Error(`[ConfigValidator] 表头分组 "${group.groupId}" 的 children 不能为空`)
+        }
+        for (const child of group.children) {
+          if (typeof child !== 'string') {
+            walk(child)
+            continue
+          }
+          if (!columnKeys.has(child)) {
+            throw new Error(`[ConfigValidator] 表头分组 "${group.groupId}" 里的列 "${child}" 不存在`)
+          }
+          if (groupedKeys.has(child)) {
+            throw new Error(`[ConfigValidator] 列 "${child}" 只能属于一个表头分组`)
+          }
+          groupedKeys.add(child)
+        }
+      }
+      config.columnGroups.forEach(walk)
+    }
+
+    // 7. 行主键验证
+    if (config.rowKey !== undefined) {
+      if (typeof config.rowKey === 'string' && !config.rowKey) {
+        throw new Error('[ConfigValidator] rowKey 不能为空字符串')
+      }
+      if (typeof config.rowKey !== 'string' && typeof config.rowKey !== 'function') {
+        throw new Error('[ConfigValidator] rowKey 只支持字段名或函数')
+      }
+    }
+
+    // 8. 撤销历史配置验证
+    if (config.history && typeof config.history === 'object') {
+      const { depth, groupWindow } = config.history
+      if (depth !== undefined && (!Number.isInteger(depth) || depth < 1)) {
+        throw new Error('[ConfigValidator] history.depth 必须是正整数')
+      }
+      if (groupWindow !== undefined && groupWindow < 0) {
+        throw new Error('[ConfigValidator] history.groupWindow 不能为负数')
+      }
+    }
+
+    // 8.1 重试配置验证
+    if (config.retry && typeof config.retry === 'object') {
+      const { retries, baseDelay, maxDelay } = config.retry
+      if (retries !== undefined && (!Number.isInteger(retries) || retries < 0)) {
+        throw new Error('[ConfigValidator] retry.retries 必须是非负整数')
+      }
+      if ((baseDelay !== undefined && baseDelay < 0) || (maxDelay !== undefined && maxDelay < 0)) {
+        throw new Error('[ConfigValidator] retry.baseDelay / retry.maxDelay 不能为负数')
+      }
+    }
+
+    // 9. 视图持久化配置验证
+    if (config.viewPersistence && typeof config.viewPersistence === 'object') {
+      const { storage, key } = config.viewPersistence
+      if (typeof storage === 'string' && storage !== 'localStorage' && storage !== 'indexedDB') {
+        throw new Error('[ConfigValidator] viewPersistence.storage 只能是 localStorage / indexedDB 或自定义适配器')
+      }
+      if (storage && typeof storage === 'object' &&
+        (typeof storage.load !== 'function' || typeof storage.save !== 'function' || typeof storage.remove !== 'function')) {
+        throw new Error('[ConfigValidator] viewPersistence.storage 自定义适配器必须实现 load / save / remove')
+      }
+      if (key !== undefined && (typeof key !== 'string' || key.trim() === '')) {
+        throw new Error('[ConfigValidator] viewPersistence.key 不能为空')
+      }
+    }
+
     // ... 其他更多验证
 
   }
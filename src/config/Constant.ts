@@ -1 +1,3 @@
 export const CLIENT_SIDE_MAX_ROWS = 500_000 // 50w 作为分水岭
+export const CLIENT_WORKER_MIN_ROWS = 50_000 // client 模式超过这么多行, 筛选/排序/透视丢到 worker 里算
+export const FILTER_TEXT_DEBOUNCE_MS = 300 // 全局搜索框打字停下来多久才查询
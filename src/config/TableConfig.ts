@@ -2,6 +2,7 @@ import { IUserConfig, IConfig } from '@/types'
 import { createDefaultConfig, getDefaultSidePanelConfig } from './defaultConfig'
 import { ConfigValidator } from './ConfigValidator'
 import { calculateColumnWidth, getContainerWidth } from '@/utils/calculateColumnWidth'
+import { arrangeByGroups } from '@/table/model/ColumnGroupModel'
 
 
 export class TableConfig {
@@ -22,8 +23,18 @@ export class TableConfig {
       } : undefined
      } as IConfig
 
-    // 3. 计算列宽, 若有列没有指定 width
+    // 3. 数据源适配器补上没配的 fetchXxx
+    this.bindDataSource(merged)
+    // 游标分页没有总数, 只能走 cursor 策略
+    if (merged.fetchCursorPage && !merged.dataStrategy) {
+      merged.dataStrategy = 'cursor'
+    }
+    // 4. 计算列宽, 若有列没有指定 width
     this.initColumnWidths(merged)
+    // 5. 右侧固定列挪到最后
+    this.initPinnedRight(merged)
+    // 6. 同一表头分组的列排到一起
+    merged.columns = arrangeByGroups(merged.columns, merged.columnGroups, merged.frozenColumns, merged.pinnedRightColumns.length)
     this.config = merged
   }
 
@@ -44,6 +55,41 @@ export class TableConfig {
     return `cj-${cleanId}`
   }
 
+  /**
+   * 数据源适配器 -> fetchXxx 回调
+   * 用户自己配了的 fetchXxx 优先, 后面的流程都只认 fetchXxx, 不用管数据从哪来
+   */
+  private bindDataSource(config: IConfig): void {
+    const source = config.dataSource
+    if (!source) return
+
+    if (source.getCursorPage) {
+      config.fetchCursorPage ??= (cursor, query, signal) => source.getCursorPage!(cursor, config.pageSize, query, signal)
+    }
+    config.fetchPageData ??= (pageIndex, query, signal) => source.getPage(pageIndex, config.pageSize, query ?? {}, signal)
+    if (source.getSummary) {
+      config.fetchSummaryData ??= (query, signal) => source.getSummary!(query ?? {}, signal)
+    }
+    if (source.getFilterOptions) {
+      config.fetchFilterOptions ??= ({ key, query, signal }) => source.getFilterOptions!(key, query, signal)
+    }
+    if (source.getAll) {
+      config.fetchAllData ??= () => source.getAll!()
+    }
+  }
+
+  /**
+   * 右侧固定列挪到列配置最后 (sticky right 只能贴在末尾), pinnedRightColumns 按列顺序排好
+   * 后面 state 里的 order 就从这份列配置来, 首次挂载不用再走 applyColumnsFromState
+   */
+  private initPinnedRight(config: IConfig): void {
+    const pinned = new Set(config.pinnedRightColumns)
+    if (pinned.size === 0) return
+    const pinnedColumns = config.columns.filter(col => pinned.has(col.key))
+    config.columns = [...config.columns.filter(col => !pinned.has(col.key)), ...pinnedColumns]
+    config.pinnedRightColumns = pinnedColumns.map(col => col.key)
+  }
+
   /**
    * 初始化列宽
    * 对于没有指定 width 的列, 自动计算宽度
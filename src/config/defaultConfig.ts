@@ -20,8 +20,10 @@ export function createDefaultConfig(): Omit<IConfig, 'columns'> {
     minColumnWidth: 100, // 默认最小列宽
     // 默认数据
     totalRows: 100000,
+    columnGroups: [],
     // 默认功能
     frozenColumns: 1,
+    pinnedRightColumns: [],
     showSummary: true,
     // 默认分页
     pageSize: 200,
@@ -24,6 +24,7 @@ export class DataManager {
     this.currentQuery = {
       sortKey: next.sortKey,
       sortDirection: next.sortDirection,
+      sorts: next.sorts ?? [],
       filterText: next.filterText ?? '',
       columnFilters: next.columnFilters ?? {} // 缓存 key / fetchPageData 入参都依赖它
     }
@@ -40,6 +41,8 @@ export class DataManager {
     const q = query ?? this.currentQuery 
     const sortKey = q.sortKey ?? ''
     const sortDirection = q.sortDirection ?? ''
+    // 多列排序顺序本身就有意义 (优先级), 不能再排序
+    const sortsStr = (q.sorts ?? []).map(s => `${s.key}:${s.direction}`).join(',')
     const filterText = (q.filterText ?? '').toLowerCase()
     // 序列化 columnFilters (保证顺序稳定, 支持 set/text/dateRange/numberRange 等类型)
     let filterStr = ''
@@ -68,7 +71,7 @@ export class DataManager {
         .join('|') // 将数组拼接为字符串, 按照 "|" 分割项
     }
     // ":" 和 "|" 是自定义分隔符
-    return `${sortKey}:${sortDirection}|f=${filterText}|cf=${filterStr}` 
+    return `${sortKey}:${sortDirection}|s=${sortsStr}|f=${filterText}|cf=${filterStr}` 
   }
 
   private getPageCacheKey(pageIndex: number, query?: ITableQuery) {
@@ -71,8 +71,10 @@ function getServerConfig(): IUserConfig {
           pageSize: '50'
         })
 
-        // 添加排序参数
-        if (query?.sortKey && query?.sortDirection) {
+        // 添加排序参数 (多列: "region:asc,salary:desc")
+        if (query?.sorts && query.sorts.length > 0) {
+          params.append('sort', query.sorts.map(s => `${s.key}:${s.direction}`).join(','))
+        } else if (query?.sortKey && query?.sortDirection) {
           params.append('sort', `${query.sortKey}:${query.sortDirection}`)
         }
 
@@ -1,4 +1,5 @@
-import type { IConfig, IColumn } from '@/types'
+import type { IConfig, IColumn, IGroupRow } from '@/types'
+import { buildHeaderGroupRows } from '@/table/model/ColumnGroupModel'
 
 // 纯 dom 创建与更新: 无状态, 只负责如何画, 不关心数据
 
@@ -13,10 +14,15 @@ export class DOMRenderer {
     return !!this.config.rowSelection?.enabled
   }
 
+  private get hasDetail(): boolean {
+    return !!this.config.detailRenderer
+  }
+
   /** 创建 checkbox 表头单元格（全选） */
   public createCheckboxHeaderCell(): HTMLDivElement {
     const cell = document.createElement('div')
     cell.className = 'vt-table-cell vt-checkbox-cell vt-header-cell'
+    cell.setAttribute('role', 'columnheader')
     const cb = document.createElement('input')
     cb.type = 'checkbox'
     cb.className = 'vt-checkbox'
@@ -29,6 +35,7 @@ export class DOMRenderer {
   public createCheckboxCell(rowIndex: number, isSelected: boolean): HTMLDivElement {
     const cell = document.createElement('div')
     cell.className = 'vt-table-cell vt-checkbox-cell'
+    cell.setAttribute('role', 'gridcell')
     const cb = document.createElement('input')
     cb.type = 'checkbox'
     cb.className = 'vt-checkbox'
@@ -45,6 +52,60 @@ export class DOMRenderer {
     if (cb) cb.checked = isSelected
   }
 
+  /**
+   * 主从表的展开按钮列, 跟在复选框列后面; 不带 vt-table-cell, 按列下标取单元格的地方都不用改
+   * 不传 rowIndex 就是占位 (表头 / 总结行 / 分组头), 只为对齐
+   */
+  private appendDetailToggleCell(row: HTMLDivElement, rowIndex?: number): void {
+    if (!this.hasDetail) return
+    const cell = document.createElement('div')
+    cell.className = 'vt-detail-toggle-cell'
+    if (rowIndex !== undefined) {
+      cell.setAttribute('role', 'gridcell')
+      const btn = document.createElement('button')
+      btn.type = 'button'
+      btn.className = 'vt-detail-toggle'
+      btn.dataset.rowIndex = String(rowIndex)
+      btn.setAttribute('aria-label', '展开详情')
+      btn.setAttribute('aria-expanded', 'false')
+      btn.textContent = '▶'
+      cell.appendChild(btn)
+    }
+    row.appendChild(cell)
+  }
+
+  /** 更新行的展开状态 (箭头 + aria) */
+  public setRowExpanded(rowEl: HTMLDivElement, expanded: boolean): void {
+    rowEl.classList.toggle('vt-row-expanded', expanded)
+    const btn = rowEl.querySelector<HTMLButtonElement>('.vt-detail-toggle')
+    if (!btn) return
+    btn.textContent = expanded ? '▼' : '▶'
+    btn.setAttribute('aria-expanded', String(expanded))
+    btn.setAttribute('aria-label', expanded ? '收起详情' : '展开详情')
+  }
+
+  /**
+   * 详情区: 单独一个绝对定位的 div, 由 viewport 摆在主行下面, 占的高度算在主行的行高里
+   * 内容 sticky 在左边、宽度同可视区, 表格横向滚动时详情不跟着跑
+   */
+  public createDetailRow(rowIndex: number, content: HTMLElement | string, viewWidth: number): HTMLDivElement {
+    const row = document.createElement('div')
+    row.className = 'vt-detail-row'
+    row.dataset.detailFor = rowIndex.toString()
+    row.setAttribute('role', 'row')
+    const inner = document.createElement('div')
+    inner.className = 'vt-detail-content'
+    inner.setAttribute('role', 'gridcell')
+    if (viewWidth > 0) inner.style.width = `${viewWidth}px`
+    if (typeof content === 'string') {
+      inner.innerHTML = content
+    } else {
+      inner.appendChild(content)
+    }
+    row.appendChild(inner)
+    return row
+  }
+
   /** 更新全选 checkbox 的三态（全选/半选/未选） */
   public updateSelectAllCheckbox(headerRow: HTMLDivElement, state: 'all' | 'partial' | 'none'): void {
     const cb = headerRow.querySelector<HTMLInputElement>('.vt-checkbox[data-select-all]')
@@ -57,22 +118,87 @@ export class DOMRenderer {
   createHeaderRow(): HTMLDivElement {
     const row = document.createElement('div')
     row.className = 'vt-table-row vt-sticky-header'
+    row.setAttribute('role', 'row')
+    row.setAttribute('aria-rowindex', '1')
     if (this.hasSelection) {
       row.appendChild(this.createCheckboxHeaderCell())
     }
+    this.appendDetailToggleCell(row)
     this.renderCells(row, this.config.columns, 'header')
     return row
   }
 
+  /**
+   * 表头分组行 (多行表头的上面几行), 没配 columnGroups 就是空数组
+   * 分组格子宽度 = 所含列的宽度 css 变量相加, 拖列宽不用重画; 冻结 / 右侧固定的段跟着 sticky
+   */
+  createHeaderGroupRows(): HTMLDivElement[] {
+    const columns = this.config.columns
+    // css 变量还没写上时的兜底宽度 / 冻结偏移, 口径同 renderCells
+    const widthOf = new Map<string, number>()
+    const lefts = new Map<string, number>()
+    let leftOffset = 0
+    columns.forEach(col => {
+      widthOf.set(col.key, col.width || 120)
+      lefts.set(col.key, leftOffset)
+      leftOffset += col.width || 120
+    })
+
+    const rows = buildHeaderGroupRows(
+      columns.map(col => col.key),
+      this.config.columnGroups,
+      this.config.frozenColumns,
+      this.config.pinnedRightColumns.length
+    )
+    return rows.map((segments, level) => {
+      const row = document.createElement('div')
+      row.className = 'vt-table-row vt-header-group-row'
+      row.setAttribute('role', 'row')
+      row.style.top = `calc(var(--header-height, 40px) * ${level})`
+      if (this.hasSelection) {
+        const placeholder = document.createElement('div')
+        placeholder.className = 'vt-table-cell vt-checkbox-cell'
+        row.appendChild(placeholder)
+      }
+      this.appendDetailToggleCell(row)
+      segments.forEach(({ group, keys, zone }) => {
+        const cell = document.createElement('div')
+        cell.className = group ? 'vt-table-cell vt-header-group-cell' : 'vt-table-cell vt-header-group-spacer'
+        cell.style.width = `calc(${keys.map(key => `var(--col-${key}-width, ${widthOf.get(key)}px)`).join(' + ')})`
+        if (group) {
+          cell.dataset.groupId = group.groupId
+          cell.setAttribute('role', 'columnheader')
+          cell.setAttribute('aria-colspan', String(keys.length))
+          const title = document.createElement('span')
+          title.className = 'vt-header-group-title'
+          title.textContent = group.title
+          title.title = group.title
+          cell.appendChild(title)
+        }
+        if (zone === 'left') {
+          cell.classList.add('vt-cell-frozen')
+          cell.style.left = `var(--col-${keys[0]}-left, ${lefts.get(keys[0])}px)`
+        } else if (zone === 'right') {
+          cell.classList.add('vt-cell-pinned-right')
+          cell.style.right = `var(--col-${keys[keys.length - 1]}-right, 0px)`
+        }
+        row.appendChild(cell)
+      })
+      return row
+    })
+  }
+
   // 总结行 (一维)
   createSummaryRow(summaryData?: Record<string, any>): HTMLDivElement {
     const row = document.createElement('div')
     row.className = 'vt-table-row vt-sticky-summary'
+    row.setAttribute('role', 'row')
     if (this.hasSelection) {
       const placeholder = document.createElement('div')
       placeholder.className = 'vt-table-cell vt-checkbox-cell'
       row.appendChild(placeholder)
     }
+    this.appendDetailToggleCell(row)
     this.renderCells(row, this.config.columns, 'summary', summaryData)
     return row
   }
@@ -91,14 +217,115 @@ export class DOMRenderer {
     const row = document.createElement('div')
     row.className = 'vt-table-row vt-virtual-row vt-skeleton'
     row.dataset.rowIndex = rowIndex.toString() // 给每行一个行id, 是后续滚动计算的关键
+    row.setAttribute('role', 'row')
+    row.setAttribute('aria-rowindex', String(rowIndex + 2)) // aria 从 1 开始, 第 1 行是表头
     if (this.hasSelection) {
       row.appendChild(this.createCheckboxCell(rowIndex, isSelected))
       if (isSelected) row.classList.add('vt-row-selected')
     }
+    this.appendDetailToggleCell(row, rowIndex)
+    this.renderCells(row, this.config.columns, 'skeleton')
+    return row
+  }
+
+  // 行分组的分组头: 第一列放 展开箭头 + 分组值 + 行数, 其他列放组内聚合值
+  createGroupRow(rowIndex: number, group: IGroupRow): HTMLDivElement {
+    const row = document.createElement('div')
+    row.className = 'vt-table-row vt-virtual-row vt-group-row'
+    row.dataset.rowIndex = rowIndex.toString()
+    row.dataset.groupId = group.id
+    row.setAttribute('role', 'row')
+    row.setAttribute('aria-rowindex', String(rowIndex + 2))
+    row.setAttribute('aria-level', String(group.level + 1))
+    row.setAttribute('aria-expanded', String(group.expanded))
+    if (this.hasSelection) {
+      // 分组头不能选, 占个位对齐
+      const placeholder = document.createElement('div')
+      placeholder.className = 'vt-table-cell vt-checkbox-cell'
+      row.appendChild(placeholder)
+    }
+    this.appendDetailToggleCell(row)
     this.renderCells(row, this.config.columns, 'skeleton')
+
+    const cells = row.querySelectorAll<HTMLDivElement>('.vt-table-cell:not(.vt-checkbox-cell)')
+    cells.forEach((cell, idx) => {
+      cell.classList.remove('vt-skeleton')
+      if (idx === 0) {
+        const col = this.config.columns.find(c => c.key === group.field)
+        const label = document.createElement('span')
+        label.className = 'vt-group-label'
+        label.style.paddingLeft = `${group.level * 16}px`
+        label.innerHTML = `<span class="vt-group-toggle">${group.expanded ? '▼' : '▶'}</span>`
+        label.append(`${col?.title ?? group.field}: ${group.value ?? '(空)'} (${group.count})`)
+        cell.appendChild(label)
+        return
+      }
+      const value = group.summary[this.config.columns[idx].key]
+      if (value == null) return
+      // 平均值之类的小数只留两位
+      cell.textContent = typeof value === 'number' && !Number.isInteger(value)
+        ? value.toFixed(2)
+        : String(value)
+    })
     return row
   }
 
+  // 无限滚动的 "加载中" 哨兵行, 一个单元格贴在左边, 横向滚动也看得到
+  createLoadingRow(rowIndex: number): HTMLDivElement {
+    const row = document.createElement('div')
+    row.className = 'vt-table-row vt-virtual-row vt-loading-row'
+    row.dataset.rowIndex = rowIndex.toString()
+    row.setAttribute('role', 'row')
+    row.setAttribute('aria-busy', 'true')
+    const cell = document.createElement('div')
+    cell.className = 'vt-loading-row-cell'
+    cell.setAttribute('role', 'gridcell')
+    cell.textContent = '加载中...'
+    row.appendChild(cell)
+    return row
+  }
+
+  // 所在页重试完了还加载失败的占位行, 和哨兵行一样一个单元格贴左边, 点 "重试" 由 viewport 委托处理
+  createErrorRow(rowIndex: number): HTMLDivElement {
+    const row = document.createElement('div')
+    row.className = 'vt-table-row vt-virtual-row vt-error-row'
+    row.dataset.rowIndex = rowIndex.toString()
+    row.setAttribute('role', 'row')
+    const cell = document.createElement('div')
+    cell.className = 'vt-error-row-cell'
+    cell.setAttribute('role', 'gridcell')
+    cell.textContent = '加载失败'
+    const retry = document.createElement('button')
+    retry.type = 'button'
+    retry.className = 'vt-row-retry'
+    retry.textContent = '重试'
+    cell.appendChild(retry)
+    row.appendChild(cell)
+    return row
+  }
+
+  // 首屏加载失败时盖在整个表格上的提示, 重试按钮由调用方绑
+  createErrorOverlay(message: string): HTMLDivElement {
+    const overlay = document.createElement('div')
+    overlay.className = 'vt-error-overlay'
+    overlay.setAttribute('role', 'alert')
+    const box = document.createElement('div')
+    box.className = 'vt-error-overlay-box'
+    const title = document.createElement('div')
+    title.className = 'vt-error-overlay-title'
+    title.textContent = '数据加载失败'
+    const detail = document.createElement('div')
+    detail.className = 'vt-error-overlay-message'
+    detail.textContent = message
+    const retry = document.createElement('button')
+    retry.type = 'button'
+    retry.className = 'vt-error-overlay-retry'
+    retry.textContent = '重试'
+    box.append(title, detail, retry)
+    overlay.appendChild(box)
+    return overlay
+  }
+
   // 更新数据行, 给 cells 在骨架屏之后, 请求到数据, 则填充上
   updateDataRow(rowElement: HTMLDivElement, data: Record<string, any>, rowIndex?: number) {
     const cells = rowElement.querySelectorAll<HTMLDivElement>('.vt-table-cell:not(.vt-checkbox-cell)')
@@ -114,11 +341,7 @@ export class DOMRenderer {
 
       cell.classList.add('vt-table-cell')
       // 重复加一次冻结样式, 兜底冻结列不生效
-      if (idx < this.config.frozenColumns) {
-        cell.classList.add('vt-cell-frozen')
-      } else {
-        cell.classList.remove('vt-cell-frozen')
-      }
+      this.applyPinClass(cell, col.key, idx)
 
       // 优先自定义渲染器
       if (col.render) {
@@ -143,9 +366,7 @@ export class DOMRenderer {
         if (className) {
           cell.className = `vt-table-cell ${className}`
           // 保留冻结列样式
-          if (idx < this.config.frozenColumns) {
-            cell.classList.add('vt-cell-frozen')
-          }
+          this.applyPinClass(cell, col.key, idx)
         }
       }
       // 若配置了 条件 style (约定返回 style 对象)
@@ -172,11 +393,14 @@ export class DOMRenderer {
       // 给所有单元格都标记 列 key, 方便重排/按列更新
       cell.style.width = `var(--col-${col.key}-width, ${col.width}px)`
       cell.dataset.columnKey = col.key 
+      cell.setAttribute('role', type === 'header' ? 'columnheader' : 'gridcell')
 
-      // 处理冻结列
-      if (index < this.config.frozenColumns) {
-        cell.classList.add('vt-cell-frozen')
+      // 处理冻结列 / 右侧固定列
+      const side = this.applyPinClass(cell, col.key, index)
+      if (side === 'left') {
         cell.style.left = `${leftOffset}px`
+      } else if (side === 'right') {
+        cell.style.right = `var(--col-${col.key}-right, 0px)`
       }
       // TODO: 拓展更多字段配置
 
@@ -251,6 +475,7 @@ export class DOMRenderer {
     cell.className = 'vt-table-cell vt-header-cell' 
     cell.style.width = `var(--col-${col.key}-width, ${col.width}px)`
     cell.dataset.columnKey = col.key 
+    cell.setAttribute('role', 'columnheader')
 
     // 添加-表头字段用 span 包裹一下, 方便精准控制
     const textSpan = document.createElement('span')
@@ -299,9 +524,7 @@ export class DOMRenderer {
     cell.appendChild(menuBtn)
 
     // 添加-冻结列处理
-    if (index < this.config.frozenColumns) {
-      cell.classList.add('vt-cell-frozen')
-    }
+    this.applyPinClass(cell, col.key, index)
     return cell 
   }
 
@@ -315,9 +538,7 @@ export class DOMRenderer {
     cell.textContent = summaryData?.[col.key] ?? (index === 0 ? '合计' : '')
 
     // 添加-冻结列处理
-    if (index < this.config.frozenColumns) {
-      cell.classList.add('vt-cell-frozen')
-    }
+    this.applyPinClass(cell, col.key, index)
     return cell
   }
 
@@ -368,29 +589,42 @@ export class DOMRenderer {
       }
     }
     // 处理冻结列
-    if (colIndex < this.config.frozenColumns) {
-      cell.classList.add('vt-cell-frozen')
-    }
+    this.applyPinClass(cell, col.key, colIndex)
     return cell 
   }
 
-  // 辅助方法: 统一应用冻结列样式和位置
+  // 辅助方法: 统一应用冻结列 / 右侧固定列样式和位置
   public applyFrozenStyles(row: HTMLDivElement): void {
     // 优先用 css 变量, 避免用 getBoundingClientRect() 产生重排
     const cells = Array.from(row.querySelectorAll<HTMLDivElement>('.vt-table-cell'))
     cells.forEach((cell, index) => {
       const key = cell.dataset.columnKey
-      // 先移除所有冻结列样式
-      cell.classList.remove('vt-cell-frozen')
+      // 先移除所有固定列样式, 再按当前配置重新应用
       cell.style.left = ''
-      // 根据所有重新应用冻结列样式
-      if (index < this.config.frozenColumns && key) {
-        cell.classList.add('vt-cell-frozen')
-        // 优先使用 css 变量, 比 getBoundingClientRect 性能更好
-        cell.style.left = `var(--col-${key}-left, 0px)`
-      }
+      cell.style.right = ''
+      if (!key) return
+      const side = this.applyPinClass(cell, key, index)
+      // 优先使用 css 变量, 比 getBoundingClientRect 性能更好
+      if (side === 'left') cell.style.left = `var(--col-${key}-left, 0px)`
+      if (side === 'right') cell.style.right = `var(--col-${key}-right, 0px)`
     })
   }
+
+  /**
+   * 固定列的样式类: 左侧是前 frozenColumns 列, 右侧是 pinnedRightColumns (已经排在最后)
+   * 冻结区最后一列 / 右侧固定区第一列带边缘阴影; 只改类名, sticky 偏移由调用方设置
+   */
+  private applyPinClass(cell: HTMLDivElement, key: string, index: number): 'left' | 'right' | null {
+    const frozen = this.config.frozenColumns
+    const pinnedRight = this.config.pinnedRightColumns
+    const isLeft = index < frozen
+    const isRight = !isLeft && pinnedRight.includes(key)
+    cell.classList.toggle('vt-cell-frozen', isLeft)
+    cell.classList.toggle('vt-cell-frozen-last', isLeft && index === frozen - 1)
+    cell.classList.toggle('vt-cell-pinned-right', isRight)
+    cell.classList.toggle('vt-cell-pinned-right-first', isRight && key === pinnedRight[0])
+    return isLeft ? 'left' : isRight ? 'right' : null
+  }
   
 
 }
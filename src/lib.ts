@@ -10,29 +10,70 @@ import './style.css'
 // 核心类
 export { VirtualTable } from '@/table/VirtualTable'
 
+// 数据策略注册 + 内置数据源适配器
+export { registerDataStrategy, unregisterDataStrategy } from '@/table/data/strategyRegistry'
+export { createRestDataSource, createQueryStringDataSource } from '@/api/dataSources'
+export { connectLiveUpdates } from '@/api/liveUpdates'
+// 计算列表达式 (自己做表达式编辑器时可以先编译校验一下)
+export { compileExpression, ExpressionError } from '@/utils/expression'
+// 性能监控 (分页缓存命中率等, 开发时排查用)
+export { PerformanceMonitor } from '@/utils/PerformanceMonitor'
+
 // 公共类型
 export type {
   IUserConfig,
   IConfig,
   IColumn,
+  IColumnGroup,
   IColumnFilterConfig,
   ColumnFilterType,
   ColumnFilterValue,
+  FilterOperator,
+  IFilterCondition,
+  IFilterGroup,
+  FilterNode,
   ColumnDataType,
   ITableQuery,
+  ISortItem,
   IPageResponse,
   IPageInfo,
   ITableCallbacks,
   SidePanelConfig,
   IRowSelectionConfig,
+  RowKey,
+  IRowTransaction,
+  IRowTransactionResult,
+  ICellChange,
+  IRowChange,
+  ICellRange,
+  IHistoryConfig,
+  IRetryConfig,
+  ITableErrorInfo,
+  IViewState,
+  ISavedView,
+  IViewStorageAdapter,
+  IViewPersistenceConfig,
+  IGroupRow,
+  IDataSource,
+  ICursorPageResponse,
 } from '@/types'
 
+export type { DataStrategy, DataStrategyFactoryParams, PageCacheStats } from '@/table/data/DataStrategy'
+export type { DataStrategyFactory } from '@/table/data/strategyRegistry'
+export type { IRestDataSourceOptions, IQueryStringDataSourceOptions } from '@/api/dataSources'
+export type { ILiveMessageSource, ILiveUpdateOptions, ILiveUpdateHandle } from '@/api/liveUpdates'
+export type { CompiledExpression } from '@/utils/expression'
+export type { CalculatedColumns } from '@/table/model/CalculatedColumns'
+
 export type {
   IPivotConfig,
   IPivotTreeNode,
   IPivotFlatRow,
   IPivotColNode,
   AggregationType,
+  IPivotDataQuery,
+  IPivotDataResponse,
 } from '@/types/pivot'
 
 export type { ExportCSVOptions } from '@/utils/exportCSV'
+export type { ExportXLSXOptions } from '@/utils/exportXLSX'
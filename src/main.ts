@@ -3,7 +3,7 @@ import { VirtualTable } from '@/table/VirtualTable'
 import './style.css'
 import { IPageInfo } from '@/types'
 import type { IUserConfig, IPageResponse, ITableQuery } from '@/types'
-import { fetchFilterOptions, fetchTablePage } from '@/api/table'
+import { fetchFilterOptions, fetchPivotData, fetchTablePage } from '@/api/table'
 
 // ##### 场景 01: Client 模式 - 本地数据 ##########
 const smallData = Array.from({ length: 500000 }, (_, i) => ({
@@ -23,6 +23,7 @@ const configSmall: IUserConfig = {
   minTableHeight: 300,
   maxTableHeight: 700,
   initialData: smallData,
+  rowKey: 'id',
   columns: [
     { key: 'name', title: '姓名', width: 180 },
     { key: 'id', title: 'ID' },
@@ -42,6 +43,7 @@ const configSmall: IUserConfig = {
   onRowClick: (row, rowIndex) => {
     console.log('[onRowClick]', rowIndex, row)
   },
+  viewPersistence: true,
   sidePanel: {
     enabled: true,
     defaultOpen: false,
@@ -66,14 +68,19 @@ const configLarge: IUserConfig = {
     { key: 'joinDate', title: '入职日期', filter: { type: 'dateRange'} },
   ],
   // 使用封装的 api 函数
-  fetchPageData: async (pageIndex, query) => {
-    return fetchTablePage(pageIndex, 50, query)
+  fetchPageData: async (pageIndex, query, signal) => {
+    return fetchTablePage(pageIndex, 50, query, signal)
   },
 
-  fetchFilterOptions: async ({ key, query }) => {
-    return fetchFilterOptions(key, query)
+  fetchFilterOptions: async ({ key, query, signal }) => {
+    return fetchFilterOptions(key, query, signal)
   }, 
 
+  // 10w+ 行没有全量数据, 透视交给后端按层聚合
+  fetchPivotData: async (config, query) => {
+    return fetchPivotData(config, query)
+  },
+
   sidePanel: {
     enabled: true,
     defaultOpen: false,
@@ -1,4 +1,5 @@
 import { IConfig } from '@/types'
+import { RowHeightIndex } from '@/scroll/RowHeightIndex'
 
 // 虚拟滚动的核心: 纯计算, 无 dom 操作, 可单元测试
 
@@ -11,41 +12,56 @@ export interface ScrollRange {
 
 const MAX_SCROLL_HEIGHT = 10_000_000 // chrome 极限应该在 1600w
 
+// 配了 getRowHeight / autoRowHeight 就是可变行高, 否则还是固定 rowHeight 直接乘
+// 主从表也算: 展开的行要把详情区的高度算进这一行里
+export function hasVariableRowHeight(config: IConfig): boolean {
+  return !!config.getRowHeight || !!config.autoRowHeight || !!config.detailRenderer
+}
+
 export class VirtualScroller {
   private config: IConfig
   private idealHeight: number // 理想高度
   private scrollScale: number // 缩放比, 仅当理想高度超过 MAX_SCROLL_HEIGHT
   private actualScrollHeight: number // 能真正滚动的高度
+  private heights: RowHeightIndex | null // 可变行高的前缀和索引, 固定行高时为 null
+  private lastViewportHeight = 0 // 上次算滚动信息时的可视区高度, 行 <-> scrollTop 换算要用
 
   constructor(config: IConfig) {
     this.config = config
-    this.idealHeight = config.totalRows * config.rowHeight
-    this.actualScrollHeight = Math.min(this.idealHeight, MAX_SCROLL_HEIGHT)
-    this.scrollScale = this.idealHeight / this.actualScrollHeight || 1
+    // 可变行高: 先都按 rowHeight 估, 算出 (getRowHeight) / 量出 (autoRowHeight) 来再修正
+    this.heights = hasVariableRowHeight(config)
+      ? new RowHeightIndex(config.totalRows, config.rowHeight)
+      : null
+    this.idealHeight = 0
+    this.actualScrollHeight = 0
+    this.scrollScale = 1
+    this.updateScrollHeight()
   }
 
   // 获取滚动信息: 开始行, 结束行, 内容高, 元素位移值等
   getScrollInfo(scrollTop: number, viewportHeight: number): ScrollRange {
     // 必须传入滚动的距离, 可视区高度
-    // 从配置里获取: 行高, 总行数, 缓存行数
-    const { rowHeight, totalRows, bufferRows } = this.config
+    // 从配置里获取: 总行数, 缓存行数
+    const { totalRows, bufferRows } = this.config
+    this.lastViewportHeight = viewportHeight
 
     // 将滚动高度 "还原" 为真实的数据高度
-    const logicalScrollTop = scrollTop * this.scrollScale
+    const logicalScrollTop = this.toLogicalScrollTop(scrollTop)
 
-    const startRow = Math.floor(logicalScrollTop / rowHeight) // 起始行号
-    const visibleRowCount = Math.ceil(viewportHeight / rowHeight) // 能看见多少行
+    const startRow = this.findRow(logicalScrollTop) // 起始行号
+    // 行本身按真实高度画, 从起始行往下铺满一屏
+    const lastRow = this.findRow(logicalScrollTop + viewportHeight)
 
     // 增强户体验, 额外加一个缓冲区行数
     const visibleStart = Math.max(0, startRow - bufferRows)
-    const visibleEnd = Math.min(
-      startRow + visibleRowCount + bufferRows,
-      totalRows - 1
-    )
+    const visibleEnd = Math.min(lastRow + bufferRows, totalRows - 1)
 
-    const translateY = (visibleStart * rowHeight) / this.scrollScale
-    const contentHeight =
-      ((visibleEnd - visibleStart + 1) * rowHeight) / this.scrollScale
+    // 起始行要正好出现在可视区顶部 (行内已滚过的那部分往上让): 缩放时也对得上
+    const startTop = this.getRowOffset(startRow)
+    const translateY = Math.max(0,
+      scrollTop - (logicalScrollTop - startTop) - (startTop - this.getRowOffset(visibleStart))
+    )
+    const contentHeight = this.getRowOffset(visibleEnd + 1) - this.getRowOffset(visibleStart)
 
     return {
       startRow: visibleStart,
@@ -55,6 +71,47 @@ export class VirtualScroller {
     }
   }
 
+  // 某行顶部对应的 scrollTop (已按缩放比换算), 定位到某行时用
+  getScrollTopForRow(rowIndex: number): number {
+    const offset = this.getRowOffset(rowIndex)
+    if (this.scrollScale === 1) return offset
+    const { logicalRange, actualRange } = this.getScrollRanges(this.lastViewportHeight)
+    return logicalRange > 0 ? (offset / logicalRange) * actualRange : 0
+  }
+
+  /** scrollTop (已去掉表头高度) 对应可视区顶部是哪一行 */
+  getRowAtScrollTop(scrollTop: number): number {
+    return this.findRow(this.toLogicalScrollTop(scrollTop))
+  }
+
+  /** 某行顶部在 (未缩放的) 内容里的偏移, 行的 top 都按它相减 */
+  getRowOffset(rowIndex: number): number {
+    if (this.heights) return this.heights.getOffset(rowIndex)
+    return Math.max(0, Math.min(rowIndex, this.config.totalRows)) * this.config.rowHeight
+  }
+
+  getRowHeight(rowIndex: number): number {
+    return this.heights ? this.heights.getHeight(rowIndex) : this.config.rowHeight
+  }
+
+  /**
+   * 修正某行高度 (可变行高才有用), 返回变化量
+   * 调用方攒一批改完再调 updateScrollHeight + 重排, 别一行一重排
+   */
+  setRowHeight(rowIndex: number, height: number): number {
+    if (!this.heights || !(height > 0)) return 0
+    return this.heights.setHeight(rowIndex, height)
+  }
+
+  /** 行高改过之后重算总高 / 缩放比, 返回能滚动的高度有没有变 */
+  updateScrollHeight(): boolean {
+    const prev = this.actualScrollHeight
+    this.idealHeight = this.heights ? this.heights.total : this.config.totalRows * this.config.rowHeight
+    this.actualScrollHeight = Math.min(this.idealHeight, MAX_SCROLL_HEIGHT)
+    this.scrollScale = this.idealHeight / this.actualScrollHeight || 1
+    return this.actualScrollHeight !== prev
+  }
+
   getActualScrollHeight() {
     return this.actualScrollHeight
   }
@@ -62,4 +119,26 @@ export class VirtualScroller {
   getScrollScale() {
     return this.scrollScale
   }
+
+  private findRow(offset: number): number {
+    if (this.heights) return this.heights.findRow(offset)
+    return Math.max(0, Math.min(Math.floor(offset / this.config.rowHeight), this.config.totalRows - 1))
+  }
+
+  /**
+   * scrollTop -> 内容里的偏移
+   * 超过 MAX_SCROLL_HEIGHT 缩放时, 把 [0, 能滚的最大值] 线性映射到 [0, 内容最大偏移], 保证拖到底能看到最后一行
+   */
+  private toLogicalScrollTop(scrollTop: number): number {
+    if (this.scrollScale === 1) return scrollTop
+    const { logicalRange, actualRange } = this.getScrollRanges(this.lastViewportHeight)
+    return actualRange > 0 ? (Math.min(scrollTop, actualRange) / actualRange) * logicalRange : 0
+  }
+
+  private getScrollRanges(viewportHeight: number) {
+    return {
+      logicalRange: Math.max(0, this.idealHeight - viewportHeight),
+      actualRange: Math.max(0, this.actualScrollHeight - viewportHeight),
+    }
+  }
 }
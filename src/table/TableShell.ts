@@ -1,4 +1,4 @@
-import type { IConfig, ColumnFilterValue, IColumn } from "@/types";
+import type { IConfig, ColumnFilterValue, IColumn, ISortItem } from "@/types";
 import { DOMRenderer } from "@/dom/DOMRenderer";
 import { VirtualScroller } from "@/scroll/VirtualScroller";
 import { HeaderSortBinder } from "@/table/interaction/HeaderSortBinder";
@@ -10,6 +10,7 @@ import { ColumnDragBinder } from "@/table/interaction/ColumnDragBinder";
 import { ColumnFilterBinder } from "@/table/interaction/ColumnFilterBinder";
 import { TableResizeBinder } from "@/table/interaction/TableResizeBinder";
 import { ColumnMenuBinder } from "@/table/interaction/ColumnMenuBinder";
+import { getGroupDepth } from "@/table/model/ColumnGroupModel";
 
 
 // 全局弹窗管理器, 弹窗之间互斥出现
@@ -39,11 +40,13 @@ export interface ITableShell {
   headerRow: HTMLDivElement // 缓存表头引用
 
   setScrollHeight(scroller: VirtualScroller): void // 统一更新滚动高度
-  // 统一控制排序箭头
-  setSortIndicator(sort: { key: string, direction: 'asc' | 'desc' } | null): void 
+  // 统一控制排序箭头 (多列排序时带优先级角标)
+  setSortIndicator(sorts: ISortItem[]): void 
   bindScroll(onRafScroll: () => void): void // 绑定滚动, 内部 raf, 外部只传要做什么
   // 增量更新列宽 (css 变量), 顺带将 dataRows 也捎过来呗
   updateColumnWidths(columns: IConfig['columns'], dataRows?: HTMLDivElement[]): void  
+  // 列顺序 / 显隐变了, 表头分组行按 config.columns 重画 (宽度走 css 变量, 拖列宽不用调)
+  updateHeaderGroups(): void
   destroy(): void
 }
 
@@ -53,11 +56,12 @@ export function mountTableShell(params: {
   headerSortBinder: HeaderSortBinder
   container?: HTMLDivElement | string 
 
-  onToggleSort: (key: string) => void 
+  onToggleSort: (key: string, multi: boolean) => void 
   onNeedLoadSummary?: (summaryRow: HTMLDivElement) => void
 
   onColumnResizeEnd?: (key: string, width: number) => void  // 列宽拖拽结束后回调
   onColumnOrderChange?: (order: string[]) => void    // 拖拽列顺序后回调
+  onColumnPin?: (key: string, position: 'left' | 'right' | null, order?: string[]) => void // 固定到左/右侧 (菜单 / 拖拽)
 
   onColumnFilterChange?: (key: string, filter: ColumnFilterValue | null ) => void  // 列筛选值回调
   getFilterOptions?: (key: string) => Promise<string[]> // 筛选配置
@@ -65,8 +69,10 @@ export function mountTableShell(params: {
 
   onTableResizeEnd?: (newWidth: number) => void // 表格拖拽后的新总宽度
   // 列菜单相关回调
-  getCurrentSort?: () => { key: string; direction: 'asc' | 'desc' } | null 
+  getCurrentSort?: () => ISortItem[]
   onMenuSort?: (key: string, direction: 'asc' | 'desc' | null) => void 
+  getGroupBy?: () => string[]
+  onMenuGroupBy?: (key: string, grouped: boolean) => void // 行分组, 仅 client 模式
   // 列管理相关回调
   getAllColumns?: () => IColumn[]
   getHiddenKeys?: () => string[]
@@ -87,12 +93,15 @@ export function mountTableShell(params: {
     onNeedLoadSummary, 
     onColumnResizeEnd, 
     onColumnOrderChange,
+    onColumnPin,
     onColumnFilterChange,
     getFilterOptions,
     getCurrentFilter,
     onTableResizeEnd,
     getCurrentSort,
     onMenuSort,
+    getGroupBy,
+    onMenuGroupBy,
 
    } = params
 
@@ -136,6 +145,11 @@ export function mountTableShell(params: {
   scrollContainer.className = 'vt-table-container'
   scrollContainer.style.width = '100%'
   scrollContainer.style.height = '100%'
+  // 键盘导航用 aria-activedescendant 指向焦点单元格, 容器本身是 grid
+  scrollContainer.setAttribute('role', 'grid')
+  // 行高按内容自动量: 行高度放开让内容撑, 量完再交给 scroller
+  scrollContainer.classList.toggle('vt-auto-row-height', !!config.autoRowHeight)
+  scrollContainer.setAttribute('aria-colcount', String(config.columns.length))
   applyContainerStyles(scrollContainer, config)
   // 4. 挂载关系: userContainer -> portalContainer -> scrollContainer
   portalContainer.appendChild(scrollContainer)
@@ -160,6 +174,8 @@ export function mountTableShell(params: {
       <div class="vt-status-bar-item">
         已选: <strong id="table-selected-rows-${tableId}">0</strong>
       </div>
+      <div class="vt-status-bar-item" id="table-range-stats-${tableId}" style="display: none;"></div>
+      <div class="vt-status-bar-item vt-status-message" id="table-message-${tableId}" style="display: none;"></div>
     `
   }
   if (statusBar) {
@@ -170,7 +186,7 @@ export function mountTableShell(params: {
   const tableWrapper = createTableWrapper(config)
   const headerRow = renderer.createHeaderRow()
   // 绑定排序按钮
-  headerSortBinder.bind(headerRow, (key) => onToggleSort(key))
+  headerSortBinder.bind(headerRow, (key, multi) => onToggleSort(key, multi))
 
   // 绑定列宽拖拽
   const resizeBinder = new ColumnResizeBinder()
@@ -184,14 +200,17 @@ export function mountTableShell(params: {
     })
   }
 
-  // 绑定列字段顺序拖拽, 冻结列不参与
+  // 绑定列字段顺序拖拽, 冻结列不参与; 拖进左侧冻结区 / 右侧固定区就是固定, 从右侧拖出来就是取消
   const dragBinder = new ColumnDragBinder()
   if (onColumnOrderChange) {
     dragBinder.bind({
       scrollContainer,
       headerRow,
       onOrderChange: onColumnOrderChange,
+      onPinChange: onColumnPin,
       frozenColumnCount: config.frozenColumns, // 传入冻结前 N 列
+      pinnedRightCount: config.pinnedRightColumns.length,
+      columnGroups: config.columnGroups, // 有表头分组时, 列只能在自己的分组里换位置
     })
   }
 
@@ -219,6 +238,13 @@ export function mountTableShell(params: {
       columns: config.columns,
       getCurrentSort,
       onSort: onMenuSort,
+      getGroupBy,
+      onGroupBy: onMenuGroupBy,
+      getPinned: (key) => {
+        if (config.columns.findIndex(col => col.key === key) < config.frozenColumns) return 'left'
+        return config.pinnedRightColumns.includes(key) ? 'right' : null
+      },
+      onPin: onColumnPin,
       onBeforeOpen: () => PopupManager.closeAll() // 打开前先关闭所有弹窗
     })
   }
@@ -245,6 +271,9 @@ export function mountTableShell(params: {
   })
 
   // toto: 更多列功能添加
+  // 表头分组行在表头上面, 每层一行 (没配 columnGroups 就没有)
+  let headerGroupRows = renderer.createHeaderGroupRows()
+  headerGroupRows.forEach(row => tableWrapper.appendChild(row))
   tableWrapper.appendChild(headerRow)
 
   // 3. 总结行
@@ -280,8 +309,8 @@ export function mountTableShell(params: {
     setScrollHeight(scroller: VirtualScroller) {
       dataContainer.style.height = `${scroller.getActualScrollHeight()}px`
     },
-    setSortIndicator(sort) {
-      sortIndicatorView.set(sort)
+    setSortIndicator(sorts) {
+      sortIndicatorView.set(sorts)
     },
     bindScroll(onRafScroll: () => void) {
       scrollBinder.bind(scrollContainer, onRafScroll)
@@ -299,6 +328,12 @@ export function mountTableShell(params: {
           leftOffset += width
         }
       }) 
+      // 右侧固定列从最右边往左累加偏移量
+      let rightOffset = 0
+      for (let i = columns.length - 1; i >= 0 && config.pinnedRightColumns.includes(columns[i].key); i--) {
+        tableWrapper.style.setProperty(`--col-${columns[i].key}-right`, `${rightOffset}px`)
+        rightOffset += columns[i].width || 100
+      }
       // 更新表格总宽度
       const totalWidth = columns.reduce((sum, col) => sum + (col.width || 100), 0)
       // 若 tableWidth 是 '100%', 则保持 100%
@@ -311,7 +346,7 @@ export function mountTableShell(params: {
       }
       
       // 使用 css 变量后, 只需更新一次样式类即可
-      if (config.frozenColumns > 0) {
+      if (config.frozenColumns > 0 || config.pinnedRightColumns.length > 0) {
         // 直接同步执行更新, 不用异步 requestAnimationFrame, 避免页面闪烁
         if (headerRow) renderer.applyFrozenStyles(headerRow)
         if (summaryRow) renderer.applyFrozenStyles(summaryRow)
@@ -321,6 +356,12 @@ export function mountTableShell(params: {
         rows.forEach(row => renderer.applyFrozenStyles(row))
       }
     },
+    updateHeaderGroups() {
+      if (headerGroupRows.length === 0) return
+      const nextRows = renderer.createHeaderGroupRows()
+      headerGroupRows.forEach((row, i) => row.replaceWith(nextRows[i]))
+      headerGroupRows = nextRows
+    },
     // 其他更多回调函数拓展...
 
 
@@ -349,6 +390,8 @@ function getContainer(selector: string): HTMLDivElement {
 function applyContainerStyles(container: HTMLDivElement, config: IConfig) {
   container.style.setProperty('--header-height', `${config.headerHeight}px`)
   container.style.setProperty('--summary-height', `${config.summaryHeight}px`)
+  // 表头分组行总高, 表头 / 总结行的 sticky top 要往下让
+  container.style.setProperty('--header-group-height', `${config.headerHeight * getGroupDepth(config.columnGroups)}px`)
   container.style.setProperty('--row-height', `${config.rowHeight}px`)
   // 给每列都写入 css 变量, 为后续 cell 宽度响应式更新
   for (const col of config.columns) {
@@ -1,12 +1,15 @@
 import { TableConfig } from '@/config/TableConfig'
 import { DOMRenderer } from '@/dom/DOMRenderer'
 import { VirtualScroller } from '@/scroll/VirtualScroller'
-import type { IConfig, ITableQuery, IUserConfig, IColumn } from '@/types'
+import type {
+  IConfig, ITableQuery, IUserConfig, IColumn, ISortItem, IRowChange, RowKey, ICellRange,
+  IViewState, ISavedView, ITableErrorInfo, IRowTransaction, IRowTransactionResult, IFilterGroup } from '@/types'
+import { RequestError } from '@/api/request'
 import { HeaderSortBinder } from '@/table/interaction/HeaderSortBinder'
 import { VirtualViewport } from '@/table/viewport/VirtualViewport'
 import type { ITableShell } from '@/table/TableShell'
 import type { TableStore } from '@/table/state/createTableStore'
-import type { TableAction, TableState } from '@/table/state/types'
+import type { TableAction, TableState, HistorySnapshot } from '@/table/state/types'
 import { assertUniqueColumnKeys } from '@/table/model/ColumnModel'
 import { ColumnWidthStorage } from '@/utils/ColumnWidthStorage'
 import { ColumnManager } from '@/table/core/ColumnManager'
@@ -19,19 +22,40 @@ import {
   STATE_ONLY_ACTIONS, 
   STRUCTURAL_EFFECT_ACTIONS } from '@/table/handlers/ActionHandlers'
 import type { ActionContext } from '@/table/handlers/ActionHandlers'
-import type { DataStrategy } from '@/table/data/DataStrategy'
+import type { DataStrategy, PageCacheStats, RowTransactionOutcome } from '@/table/data/DataStrategy'
 import { TableLifecycle } from '@/table/core/TableLifecycle'
 import { TableQueryCoordinator } from '@/table/core/TableQueryCoordinator'
 import { TableStateSync } from '@/table/core/TableStateSync'
 import type { InitResult } from '@/table/factory/TableInitializer'
 import { initServerMode, initClientMode } from '@/table/factory/TableInitializer'
 import { MountHelper } from '@/table/factory/TableMountHelper'
-import type { IPivotConfig } from '@/types/pivot'
+import type { IPivotConfig, PivotGroupLoader } from '@/types/pivot'
 import { PivotTable } from '@/table/pivot/PivotTable'
 import { inferColumnTypes } from '@/utils/inferColumnType'
 import { RowSelectionManager } from '@/table/interaction/RowSelectionManager'
+import { RowDetailManager } from '@/table/interaction/RowDetailManager'
 import { exportCSV } from '@/utils/exportCSV'
 import type { ExportCSVOptions } from '@/utils/exportCSV'
+import { exportXLSX } from '@/utils/exportXLSX'
+import type { ExportXLSXOptions, XLSXSheet } from '@/utils/exportXLSX'
+import { EditChangeTracker } from '@/table/core/EditChangeTracker'
+import { CellEditBinder } from '@/table/interaction/CellEditBinder'
+import { KeyboardNavBinder } from '@/table/interaction/KeyboardNavBinder'
+import { CellRangeManager } from '@/table/interaction/CellRangeManager'
+import { RangeSelectBinder } from '@/table/interaction/RangeSelectBinder'
+import { copyRangeToClipboard, calcRangeStats } from '@/utils/copyRange'
+import { parseTSV, buildPastePlan } from '@/utils/pasteRange'
+import type { PasteCellChange } from '@/utils/pasteRange'
+import { UndoHistory } from '@/table/core/UndoHistory'
+import { createHistoryMiddleware } from '@/table/state/historyMiddleware'
+import { createRowKeyGetter } from '@/table/model/RowKeyModel'
+import { CalculatedColumns } from '@/table/model/CalculatedColumns'
+import type { RowKeyGetter } from '@/table/model/RowKeyModel'
+import { ViewStateManager } from '@/table/persistence/ViewStateManager'
+import { resolveViewStorage } from '@/table/persistence/ViewStorageAdapters'
+import { createLegacyDocument } from '@/table/persistence/viewSchema'
+import { normalizeFilterGroup } from '@/table/data/clientQuery'
+import { getHeaderTotalHeight } from '@/table/model/ColumnGroupModel'
 
 
 // 主协调者, 表格缝合怪;  只做调度, 不包含业务逻辑
@@ -49,6 +73,7 @@ export class VirtualTable {
   private store!: TableStore 
   private originalColumns!: IColumn[]
   private unsubscribleStore: (() => void) | null = null 
+  private untrackCache: (() => void) | null = null // 分页缓存统计从 PerformanceMonitor 注销
   private widthStorage: ColumnWidthStorage | null = null  // 列宽存储
 
   private columnManager!: ColumnManager // 列统一管理器, 这个很强大
@@ -60,6 +85,7 @@ export class VirtualTable {
 
   private pivotTable: PivotTable | null = null 
   private isPivotMode = false 
+  private pivotConfig: IPivotConfig | null = null // 最近一次的透视配置, 视图持久化要存
   private savedMainContent: HTMLDivElement | null = null 
 
   private lifecycle!: TableLifecycle
@@ -67,6 +93,24 @@ export class VirtualTable {
   private stateSync!: TableStateSync
 
   private selectionManager: RowSelectionManager | null = null
+  private detailManager: RowDetailManager | null = null // 主从表展开状态, 没配 detailRenderer 就是 null
+  private getRowKey: RowKeyGetter // 行主键, 选中/定位都靠它
+  // 单元格编辑: 脏数据记录 + 编辑交互
+  private editTracker = new EditChangeTracker()
+  private cellEditBinder = new CellEditBinder()
+  private keyboardNavBinder = new KeyboardNavBinder()
+  // 区域选择 (拖选 / Shift+方向键) + 复制
+  private cellRange = new CellRangeManager()
+  private rangeSelectBinder = new RangeSelectBinder()
+  // 撤销/重做 (编辑 / 粘贴 / 列和查询操作), 粘贴追加的新行单独记, 撤销全部修改时要删掉
+  private history: UndoHistory
+  private appendedRows = new Set<Record<string, any>>()
+  private messageTimer?: number
+  private errorOverlay: HTMLDivElement | null = null // 首屏加载失败的遮罩
+  // 视图持久化 (列/排序/筛选/透视/侧边栏 + 具名视图), 没开就是 null
+  private viewStateManager: ViewStateManager | null = null
+  // 计算列 (配了 expression 的列), 数据拉进来时就算好写进行里
+  private calculated: CalculatedColumns
 
   // ready 用于外部等待初始化完后 (store/shell/viewport 都 ok 后, 再 dispatch)
   public readonly ready: Promise<void> 
@@ -87,6 +131,11 @@ export class VirtualTable {
 
     this.renderer = new DOMRenderer(this.config)
     this.scroller = new VirtualScroller(this.config)
+    this.getRowKey = createRowKeyGetter(this.config.rowKey)
+    this.calculated = new CalculatedColumns(this.config.columns)
+    const historyConfig = typeof this.config.history === 'object' ? this.config.history : {}
+    this.history = new UndoHistory(historyConfig.depth, historyConfig.groupWindow)
+    this.viewStateManager = this.createViewStateManager()
 
     // 创建 ready Promise, initializeAsync 完成后 resolve 
     this.ready = new Promise<void>((resolve) => {
@@ -98,7 +147,11 @@ export class VirtualTable {
 
     // 初始化行选中管理器
     if (this.config.rowSelection?.enabled) {
-      this.selectionManager = new RowSelectionManager()
+      this.selectionManager = new RowSelectionManager((rowIndex) => this.getRowKeyAt(rowIndex))
+    }
+    // 主从表展开状态, 和选中一样按 rowKey 记
+    if (this.config.detailRenderer) {
+      this.detailManager = new RowDetailManager((rowIndex) => this.getRowKeyAt(rowIndex))
     }
 
     // 开发模式下, 开启性能监控
@@ -109,7 +162,8 @@ export class VirtualTable {
 
   // 异步初始化
   private async initializeAsync() {
-    const isServerBootstrap = !this.config.initialData && typeof this.config.fetchPageData === 'function'
+    // 指定了注册策略的走 bootstrapStrategy, 模式由策略自己定
+    const isServerBootstrap = !this.config.dataStrategy && !this.config.initialData && typeof this.config.fetchPageData === 'function'
 
     try {
       assertUniqueColumnKeys(this.config.columns)
@@ -117,8 +171,9 @@ export class VirtualTable {
 
       if (isServerBootstrap) {
         // ==== Server 模式初始化 ====
-        const result = initServerMode(this.config, this.originalColumns)
+        const result = initServerMode(this.config, this.originalColumns, this.calculated)
         this.initComponents(result)
+        this.disableServerCalculatedColumns()
         this.mount()
         this.shell.setSortIndicator(this.store.getState().data.sort)
         this.config.onModeChange?.(this.mode)
@@ -127,8 +182,10 @@ export class VirtualTable {
 
       } else {
         // ==== Client 模式初始化 ====
-        const result = await initClientMode(this.config, this.originalColumns)
+        const result = await initClientMode(this.config, this.originalColumns, this.calculated)
         this.initComponents(result)
+        // 数据量太大 / 注册的策略也可能是 server 模式
+        this.disableServerCalculatedColumns()
 
         // 自动推断列类型 (用实际数据采样, 凡未指定 dataType 的列均会被推断)
         const allData = this.dataStrategy.getAllData?.() || []
@@ -142,11 +199,14 @@ export class VirtualTable {
         this.config.onModeChange?.(this.mode)
         this.subscribeStore()
         this.markAsReady()
+        void this.restoreViewState()
       }
       
     } catch (err) {
       console.warn('[VirtualTable.initializeAsync] failed: ', err)
-      throw err 
+      // 还没挂载, 遮罩直接盖在容器上, 重试就整个初始化再走一遍
+      this.reportError(err, 'bootstrap')
+      this.showErrorOverlay(err, () => void this.initializeAsync())
     }
   }
 
@@ -156,6 +216,12 @@ export class VirtualTable {
   private initComponents(result: InitResult) {
     this.dataStrategy = result.dataStrategy
     this.mode = result.mode
+    // server 分页缓存统计登记到 PerformanceMonitor
+    this.untrackCache?.()
+    const strategy = result.dataStrategy
+    this.untrackCache = strategy.getCacheStats
+      ? PerformanceMonitor.trackCache(this.config.tableId, () => strategy.getCacheStats!())
+      : null
     this.store = result.store
     this.stateSync = result.stateSync
     this.lifecycle = result.lifecycle
@@ -163,6 +229,17 @@ export class VirtualTable {
     this.renderer = this.lifecycle.renderer
     this.scroller = this.lifecycle.scroller
     this.headerSortBinder = this.lifecycle.headerSortBinder
+    // 列/排序/筛选操作进撤销历史, 纯状态同步 (行数/页码等) 不进
+    if (this.config.history !== false) {
+      this.store.use(createHistoryMiddleware({
+        history: this.history,
+        shouldRecord: (action) => !STATE_ONLY_ACTIONS.has(action.type) && (
+          DATA_EFFECT_ACTIONS.has(action.type) ||
+          COLUMN_EFFTECT_ACTIONS.has(action.type) ||
+          STRUCTURAL_EFFECT_ACTIONS.has(action.type)
+        )
+      }))
+    }
   }
 
   /**
@@ -172,6 +249,9 @@ export class VirtualTable {
     this.unsubscribleStore?.()
     this.unsubscribleStore = this.store.subscribe((next, prev, action) => {
       this.handleStateChange(next, prev, action)
+      if (!STATE_ONLY_ACTIONS.has(action.type)) {
+        this.viewStateManager?.scheduleSave()
+      }
     })
   }
 
@@ -213,7 +293,42 @@ export class VirtualTable {
       if (this.config.showSummary) {
         this.refreshSummary()
       }
+      void this.restoreViewState()
+    }).catch((err) => {
+      this.reportError(err, 'bootstrap', 0)
+      this.showErrorOverlay(err, () => this.bootstrapServerData())
+    })
+  }
+
+  /** 加载失败统一往外报, 带上 RequestError 的状态码 */
+  private reportError(err: unknown, phase: ITableErrorInfo['phase'], pageIndex?: number): void {
+    const error = err instanceof Error ? err : new Error(String(err))
+    const status = error instanceof RequestError ? error.status : undefined
+    this.config.onError?.({ error, status, pageIndex, phase })
+  }
+
+  /** 首屏加载失败: 整个表格盖一层错误提示, 点重试先撤掉遮罩再 retry */
+  private showErrorOverlay(err: unknown, retry: () => void): void {
+    this.hideErrorOverlay()
+    const selector = this.config.container
+    const host = typeof selector === 'string' ? document.querySelector<HTMLDivElement>(selector) : selector
+    if (!host) return
+    const message = err instanceof Error ? err.message : String(err)
+    const overlay = this.renderer.createErrorOverlay(message)
+    overlay.querySelector('.vt-error-overlay-retry')?.addEventListener('click', () => {
+      this.hideErrorOverlay()
+      retry()
     })
+    host.classList.add('vt-error-host')
+    host.appendChild(overlay)
+    this.errorOverlay = overlay
+  }
+
+  private hideErrorOverlay(): void {
+    if (!this.errorOverlay) return
+    this.errorOverlay.parentElement?.classList.remove('vt-error-host')
+    this.errorOverlay.remove()
+    this.errorOverlay = null
   }
 
   // 挂载 shell + viewport (由 initializeAsync 内部调用)
@@ -253,12 +368,19 @@ export class VirtualTable {
       },
       onPivotConfigChange: (config: IPivotConfig) => {
         this.onPivotConfigChange(config)
+      },
+      getPivotState: () => ({ enabled: this.isPivotMode, config: this.pivotConfig }),
+      viewStateManager: this.viewStateManager,
+      calculatedActions: {
+        upsert: (column: IColumn) => this.upsertCalculatedColumn(column),
+        remove: (key: string) => { this.removeCalculatedColumn(key) }
       }
     }, containerSelector)
 
     // 同步挂载结果
     this.layoutManager = result.layoutManager
     this.sidePanelManager = result.sidePanelManager
+    this.sidePanelManager?.setOnActiveChange(() => this.viewStateManager?.scheduleSave())
     // 从 lifecycle 获取组件引用
     this.shell = this.lifecycle.shell
     this.viewport = this.lifecycle.viewport
@@ -274,6 +396,15 @@ export class VirtualTable {
       getScroller: () => this.scroller,
       setScroller: (scroller: VirtualScroller) => { this.scroller = scroller }
     })
+    // 游标分页滚到底追加了数据, 行数变了, 滚动位置不动
+    this.dataStrategy.setTotalRowsListener?.(() => this.queryCoordinator.syncTotalRows())
+    // 总结行接口比第一页晚回来, 到了再补画
+    this.dataStrategy.setSummaryListener?.(() => void this.refreshSummary())
+    // 滚动中某页重试完还失败, 对应的行 viewport 自己会换成重试占位行, 这里只往外报
+    // 没有页码的是 client 模式 worker 初始化失败, 策略已经自己回退到主线程
+    this.dataStrategy.setErrorListener?.((error, pageIndex) => {
+      this.reportError(error, pageIndex === undefined ? 'worker' : 'page', pageIndex)
+    })
 
     // 首次挂载后, 就立刻同步一次滚动高度
     this.shell.setScrollHeight(this.scroller)
@@ -307,6 +438,287 @@ export class VirtualTable {
     if (this.selectionManager) {
       this.wireSelectionManager()
     }
+    if (this.detailManager) {
+      this.viewport.setDetailManager(this.detailManager)
+    }
+    this.wireCellEditing()
+    this.wireKeyboardNav()
+  }
+
+  /** 绑定单元格编辑, shell/viewport 重建后要重新绑 */
+  private wireCellEditing(): void {
+    if (!this.viewport || !this.shell) return
+    this.viewport.setEditTracker(this.editTracker)
+    this.cellEditBinder.bind({
+      scrollContainer: this.shell.scrollContainer,
+      getColumn: (key) => this.config.columns.find(col => col.key === key),
+      getRow: (rowIndex) => this.dataStrategy.getRow(rowIndex),
+      getOptions: async (key) => {
+        // 下拉选项和列筛选同源
+        if (this.mode === 'client') return this.getClientFilterOptions(key)
+        if (!this.config.fetchFilterOptions) return []
+        return this.config.fetchFilterOptions({ key, query: this.store.getState().data.query })
+      },
+      onCommit: (rowIndex, key, value) => this.applyCellEdit(rowIndex, key, value),
+      onClose: (rowIndex) => this.viewport.refreshRow(rowIndex)
+    })
+  }
+
+  /**
+   * 绑定键盘导航 + 鼠标拖选
+   * 焦点状态在 viewport 里, 重建后 viewport 是新的, 焦点自然清掉, 区域也跟着清
+   */
+  private wireKeyboardNav(): void {
+    if (!this.viewport || !this.shell) return
+    this.cellRange.clear()
+    this.updateRangeStats(null)
+    // 撤销重做绑在整个表格容器上 (侧边面板 / 弹窗都在里面)
+    const selector = this.config.container
+    const rootEl = (typeof selector === 'string' ? document.querySelector<HTMLElement>(selector) : selector)
+      ?? this.shell.scrollContainer
+    this.keyboardNavBinder.bind({
+      scrollContainer: this.shell.scrollContainer,
+      rootEl,
+      getColumnKeys: () => this.config.columns.map(col => col.key),
+      getTotalRows: () => this.config.totalRows,
+      getPageRowCount: () => this.viewport.getPageRowCount(),
+      getFocusedCell: () => this.viewport.getFocusedCell(),
+      focusCell: (rowIndex, key) => this.focusCellAt(rowIndex, key),
+      getRangeEnd: () => this.cellRange.getEnd(),
+      extendRange: (rowIndex, key) => this.extendRangeTo(rowIndex, key),
+      onEdit: () => {
+        const cell = this.viewport.getFocusedCellElement()
+        if (cell) this.cellEditBinder.editCell(cell)
+      },
+      onCopy: () => {
+        this.copySelection().catch(err => console.warn('[VirtualTable] 复制失败', err))
+      },
+      onPaste: (text) => {
+        this.pasteText(text).catch(err => console.warn('[VirtualTable] 粘贴失败', err))
+      },
+      onUndo: () => this.undo(),
+      onRedo: () => this.redo(),
+      isEditing: () => this.cellEditBinder.isEditing()
+    })
+    this.rangeSelectBinder.bind({
+      scrollContainer: this.shell.scrollContainer,
+      onStart: (rowIndex, key, extend) => {
+        if (extend && this.viewport.getFocusedCell()) {
+          this.extendRangeTo(rowIndex, key)
+        } else {
+          this.focusCellAt(rowIndex, key)
+        }
+      },
+      onExtend: (rowIndex, key) => this.extendRangeTo(rowIndex, key)
+    })
+  }
+
+  /** 移动焦点, 区域收成这一格 */
+  private focusCellAt(rowIndex: number, key: string): void {
+    this.viewport.focusCell(rowIndex, key)
+    const focused = this.viewport.getFocusedCell()
+    if (focused) this.cellRange.start(focused.rowIndex, focused.key)
+    this.syncRangeUI()
+  }
+
+  /** 焦点 (起点) 不动, 把区域拉到这一格 */
+  private extendRangeTo(rowIndex: number, key: string): void {
+    if (!this.cellRange.getAnchor()) {
+      const focused = this.viewport.getFocusedCell()
+      if (focused) this.cellRange.start(focused.rowIndex, focused.key)
+    }
+    this.cellRange.extendTo(rowIndex, key)
+    this.viewport.revealCell(rowIndex, key)
+    this.syncRangeUI()
+  }
+
+  private syncRangeUI(): void {
+    const range = this.cellRange.isMultiCell() ? this.getSelectedRange() : null
+    this.viewport.setRange(range)
+    this.updateRangeStats(range)
+  }
+
+  /**
+   * 状态栏: 区域的 求和/平均/计数
+   * server 模式只算已加载的行 (拖选时不去拉页), 有没加载的就标出来是部分结果, 计数前面加 ≥
+   */
+  private updateRangeStats(range: ICellRange | null): void {
+    const statsEl = document.querySelector<HTMLElement>(`#table-range-stats-${this.config.tableId}`)
+    if (!statsEl) return
+    if (!range) {
+      statsEl.style.display = 'none'
+      return
+    }
+    const endRow = Math.min(range.endRow, this.config.totalRows - 1)
+    const rows: Record<string, any>[] = []
+    for (let i = range.startRow; i <= endRow; i++) {
+      const row = this.dataStrategy.getRow(i)
+      if (row) rows.push(row)
+    }
+    const totalRows = Math.max(0, endRow - range.startRow + 1)
+    const partial = rows.length < totalRows
+    const columns = this.getColumnsByKeys(range.columnKeys)
+    const { count, numericCount, sum, avg } = calcRangeStats(rows, columns)
+    const format = (n: number) => Number(n.toFixed(2)).toLocaleString()
+    const countText = `计数: <strong>${partial ? '≥' : ''}${count}</strong>`
+    const partialText = partial ? ` <span title="还有行没加载, 没算进去">(已加载 ${rows.length}/${totalRows} 行)</span>` : ''
+    statsEl.style.display = ''
+    statsEl.innerHTML = (numericCount > 0
+      ? `求和: <strong>${format(sum)}</strong> 平均: <strong>${format(avg)}</strong> ${countText}`
+      : countText) + partialText
+  }
+
+  private getColumnsByKeys(keys: string[]): IColumn[] {
+    return keys
+      .map(key => this.config.columns.find(col => col.key === key))
+      .filter((col): col is IColumn => !!col)
+  }
+
+  /** 校验 + 记录 + 写入数据源, 返回错误信息表示没写进去 */
+  private applyCellEdit(rowIndex: number, key: string, value: any): string | null {
+    const row = this.dataStrategy.getRow(rowIndex)
+    const column = this.config.columns.find(col => col.key === key)
+    if (!row || !column) return null
+    // 值没变 (数字列里存的字符串也算没变), 直接关掉
+    if (String(row[key] ?? '') === String(value ?? '')) return null
+
+    if (column.validate) {
+      const result = column.validate(value, row)
+      if (result === false) return `${column.title} 的值不合法`
+      if (typeof result === 'string') return result
+    }
+    // 先记录旧值, 再改数据
+    const change: PasteCellChange = { row, rowIndex, key, oldValue: row[key], newValue: value }
+    this.editTracker.record(row, rowIndex, key, value)
+    // 依赖这个字段的计算列一起改, 编辑器关掉时整行重画就能看到
+    const patch = { [key]: value, ...this.calculated.derive(row, { [key]: value }) }
+    this.dataStrategy.updateRow(rowIndex, patch)
+    this.history.push({
+      label: 'edit',
+      undo: () => this.writeCellChanges([change], 'undo'),
+      redo: () => this.writeCellChanges([change], 'redo')
+    })
+    if (this.config.showSummary) {
+      void this.refreshSummary()
+    }
+    return null
+  }
+
+  /**
+   * 撤销/重做时把单元格值写回去, 脏标记跟着 tracker 自动算
+   * 直接改行对象: client/server 的 updateRow 本来也是原地改, 而且排序后 rowIndex 可能已经变了
+   * 改完通知策略同步列式存储 / worker, 计算列也在这里跟着重算
+   */
+  private writeCellChanges(changes: PasteCellChange[], direction: 'undo' | 'redo'): void {
+    const ordered = direction === 'undo' ? [...changes].reverse() : changes
+    const rows = new Set<Record<string, any>>()
+    for (const { row, rowIndex, key, oldValue, newValue } of ordered) {
+      const value = direction === 'undo' ? oldValue : newValue
+      this.editTracker.record(row, rowIndex, key, value)
+      Object.assign(row, { [key]: value }, this.calculated.derive(row, { [key]: value }))
+      rows.add(row)
+    }
+    this.dataStrategy.refreshRows?.([...rows])
+    this.viewport?.refreshRowsData()
+    if (this.config.showSummary) {
+      void this.refreshSummary()
+    }
+  }
+
+  /**
+   * 从焦点单元格开始粘贴 TSV
+   * - 按列 dataType 转换, 转换/校验不过的行整行拒绝, 状态栏提示
+   * - client 模式超出行数就追加新行, server 模式截掉
+   * - 整次粘贴是一条撤销记录
+   */
+  public async pasteText(text: string): Promise<void> {
+    const focused = this.viewport?.getFocusedCell()
+    if (!focused) return
+    const matrix = parseTSV(text)
+    if (matrix.length === 0) return
+
+    const startCol = this.config.columns.findIndex(col => col.key === focused.key)
+    if (startCol < 0) return
+    const columns = this.config.columns.slice(startCol)
+    const totalRows = this.config.totalRows
+
+    // server 模式: 粘贴范围内没加载的页先拉下来, 不然不知道旧值
+    const lastExisting = Math.min(focused.rowIndex + matrix.length, totalRows) - 1
+    for (let i = focused.rowIndex; i <= lastExisting; i++) {
+      if (!this.dataStrategy.getRow(i)) await this.dataStrategy.ensurePageForRow(i)
+    }
+
+    const plan = buildPastePlan({
+      matrix,
+      startRow: focused.rowIndex,
+      columns,
+      totalRows,
+      getRow: (rowIndex) => this.dataStrategy.getRow(rowIndex),
+      canAppend: typeof this.dataStrategy.appendRows === 'function'
+    })
+
+    if (plan.changes.length > 0 || plan.newRows.length > 0) {
+      const { changes, newRows } = plan
+      const apply = () => {
+        if (newRows.length > 0) this.appendPastedRows(newRows)
+        this.writeCellChanges(changes, 'redo')
+      }
+      apply()
+      this.history.push({
+        label: 'paste',
+        undo: () => {
+          this.writeCellChanges(changes, 'undo')
+          if (newRows.length > 0) this.removePastedRows(newRows)
+        },
+        redo: apply
+      })
+
+      // 粘贴完选中粘贴的区域, 方便接着复制/看合计
+      const width = Math.max(...matrix.map(cells => cells.length))
+      const endRow = Math.min(focused.rowIndex + matrix.length, this.config.totalRows) - 1
+      const endKey = columns[Math.min(width, columns.length) - 1].key
+      this.cellRange.start(focused.rowIndex, focused.key)
+      this.cellRange.extendTo(endRow, endKey)
+      this.syncRangeUI()
+    }
+
+    if (plan.errors.length > 0) {
+      console.warn('[VirtualTable] 粘贴被拒绝的行:\n' + plan.errors.join('\n'))
+      const more = plan.errors.length > 1 ? ` 等 ${plan.errors.length} 行` : ''
+      this.showStatusMessage(`粘贴失败: ${plan.errors[0]}${more}`, 'error', plan.errors.join('\n'))
+    } else if (plan.truncated > 0) {
+      this.showStatusMessage(`${plan.truncated} 行超出表格范围, 未粘贴`, 'error')
+    }
+  }
+
+  private appendPastedRows(rows: Record<string, any>[]): void {
+    this.calculated.applyInPlace(rows)
+    this.dataStrategy.appendRows?.(rows)
+    rows.forEach(row => this.appendedRows.add(row))
+    this.queryCoordinator.syncTotalRows()
+  }
+
+  private removePastedRows(rows: Record<string, any>[]): void {
+    this.dataStrategy.removeRows?.(rows)
+    rows.forEach(row => {
+      this.appendedRows.delete(row)
+      this.editTracker.forget(row)
+    })
+    this.queryCoordinator.syncTotalRows()
+  }
+
+  /** 状态栏临时提示 (5 秒后消失), detail 放在 title 里悬浮看 */
+  private showStatusMessage(text: string, type: 'info' | 'error', detail?: string): void {
+    const el = document.querySelector<HTMLElement>(`#table-message-${this.config.tableId}`)
+    if (!el) return
+    el.textContent = text
+    el.title = detail ?? ''
+    el.classList.toggle('vt-status-error', type === 'error')
+    el.style.display = ''
+    clearTimeout(this.messageTimer)
+    this.messageTimer = window.setTimeout(() => {
+      el.style.display = 'none'
+    }, 5000)
   }
 
   /** 将 selectionManager 注入 viewport，并绑定回调 */
@@ -317,9 +729,12 @@ export class VirtualTable {
     manager.setOnChange(() => {
       this.viewport.refreshSelectionUI()
       this.updateSelectionStatus()
-      const indices = manager.getSelectedIndices()
+      const onSelect = this.config.rowSelection?.onSelect
+      if (!onSelect) return
+      const total = this.config.totalRows
+      const indices = manager.getSelectedIndices(total)
       const rows = indices.map(i => this.dataStrategy.getRow(i)).filter(Boolean) as Record<string, any>[]
-      this.config.rowSelection?.onSelect?.(rows, indices)
+      onSelect(rows, indices, manager.getSelectedKeys(total))
     })
 
     this.viewport.setSelectionManager(
@@ -329,7 +744,7 @@ export class VirtualTable {
       () => {
         const state = manager.getSelectAllState(this.config.totalRows)
         if (state === 'none' || state === 'partial') {
-          manager.selectAll(this.config.totalRows)
+          this.selectAllRows()
         } else {
           manager.clear()
         }
@@ -368,9 +783,26 @@ export class VirtualTable {
       .addEventListener('click', () => this.exportCSV({ filename: 'export-all' }))
   }
 
+  /** 取某行的 rowKey, 行数据还没加载 (server 骨架行) 时返回 undefined */
+  private getRowKeyAt(rowIndex: number): RowKey | undefined {
+    const row = this.dataStrategy?.getRow(rowIndex)
+    return row ? this.getRowKey(row, rowIndex) : undefined
+  }
+
+  /** 全选: client 能拿到所有行就按 key 选, server 只能打全选标记 */
+  private selectAllRows(): void {
+    if (!this.selectionManager) return
+    const allData = this.dataStrategy.getAllData?.()
+    if (allData) {
+      this.selectionManager.selectAll(allData.map((row, i) => this.getRowKey(row, i)))
+    } else {
+      this.selectionManager.selectAll()
+    }
+  }
+
   /** 更新状态栏已选行数 + 导出按钮 */
   private updateSelectionStatus(): void {
-    const count = this.selectionManager?.getCount() ?? 0
+    const count = this.selectionManager?.getCount(this.config.totalRows) ?? 0
     const tableId = this.config.tableId
     const countEl = document.querySelector<HTMLElement>(`#table-selected-rows-${tableId}`)
     if (countEl) countEl.textContent = String(count)
@@ -413,6 +845,11 @@ export class VirtualTable {
     this.store.dispatch({ type: 'SORT_SET', payload: { sort: { key: sortKey, direction }}})
   }
 
+  /** 多列排序, 数组顺序即优先级, 传空数组则取消排序 */
+  public sortBy(sorts: ISortItem[]) {
+    this.store.dispatch({ type: 'SORT_LIST_SET', payload: { sorts }})
+  }
+
 
   public filter(filterText: string) {
     this.store.dispatch(
@@ -423,6 +860,41 @@ export class VirtualTable {
     )
   }
 
+  /**
+   * 高级筛选: 且 / 或 条件组, 可嵌套, 和列筛选同时生效; 传 null 清空
+   * 没填完的条件会被丢掉; server 模式原样 (JSON) 交给 fetchPageData 的 query.advancedFilter
+   */
+  public setAdvancedFilter(filter: IFilterGroup | null) {
+    this.store.dispatch({ type: 'ADVANCED_FILTER_SET', payload: { filter: normalizeFilterGroup(filter) } })
+  }
+
+  /** 把列固定到左侧 / 右侧, 传 null 取消固定; 左侧就是冻结区, 会跟着改 frozenColumns */
+  public pinColumn(key: string, position: 'left' | 'right' | null) {
+    if (!this.store.getState().columns.order.includes(key)) {
+      console.warn(`[VirtualTable] 列 "${key}" 不存在`)
+      return
+    }
+    this.store.dispatch({ type: 'COLUMN_PIN_SET', payload: { key, position } })
+  }
+
+  /** 行分组, 数组顺序即层级, 传空数组取消分组 (仅 client 模式) */
+  public groupBy(keys: string[]) {
+    if (this.mode !== 'client') {
+      console.warn('[VirtualTable] 行分组只支持 client 模式')
+      return
+    }
+    this.store.dispatch({ type: 'GROUP_BY_SET', payload: { groupBy: keys }})
+  }
+
+  public expandAllGroups() {
+    this.store.dispatch({ type: 'GROUP_COLLAPSE_SET', payload: { groupIds: [] }})
+  }
+
+  public collapseAllGroups() {
+    const groupIds = this.dataStrategy.getGroupIds?.() ?? []
+    this.store.dispatch({ type: 'GROUP_COLLAPSE_SET', payload: { groupIds }})
+  }
+
   // 将 state 应用到 config (列顺序, 列宽, 冻结列数等)
   private applyColumnsFromState() {
     // 委托给 stateSync
@@ -445,6 +917,7 @@ export class VirtualTable {
         summaryRow: this.shell.summaryRow,
         dataRows: this.viewport.getVisibleRows()
       })
+      this.shell.updateHeaderGroups()
       // 更新列宽, 同时会设置 css 变量
       this.shell.updateColumnWidths(this.config.columns, this.viewport.getVisibleRows())
     })
@@ -482,9 +955,9 @@ export class VirtualTable {
   }
 
   // client 模式下, 推导列可选值 (topN 或全量去重, 避免百万枚举卡死)
-  private getClientFilterOptions(key: string): string[] {
-    // 暂不支持 server 哦
-    return this.dataStrategy.getFilterOptions(key)
+  private getClientFilterOptions(key: string): string[] | Promise<string[]> {
+    // 暂不支持 server 哦; 开了 worker 的走异步版, 扫全量数据不卡主线程
+    return this.dataStrategy.loadFilterOptions?.(key) ?? this.dataStrategy.getFilterOptions(key)
   }
 
 
@@ -496,10 +969,11 @@ export class VirtualTable {
       updateVisibleRows: () => this.viewport.updateVisibleRows(), 
       getMountParams: () => {
         // 准备 mount 所需参数
+        // 有侧边栏布局时表格挂在主区域里, 不能整个容器清掉
         const selector = this.config.container
-        const containerEl = typeof selector === 'string' 
+        const containerEl = this.layoutManager?.getMainArea() ?? (typeof selector === 'string' 
           ? document.querySelector<HTMLDivElement>(selector)!
-          : selector!
+          : selector!)
         
         const shellCallbacks = new ShellCallbacks(
           this.config,
@@ -537,7 +1011,14 @@ export class VirtualTable {
     this.shell = this.lifecycle.shell
     this.viewport = this.lifecycle.viewport
     this.columnManager = this.lifecycle.columnManager
-   
+    if (this.selectionManager) {
+      this.wireSelectionManager()
+    }
+    if (this.detailManager) {
+      this.viewport.setDetailManager(this.detailManager)
+    }
+    this.wireCellEditing()
+    this.wireKeyboardNav()
   }
 
 
@@ -612,6 +1093,114 @@ export class VirtualTable {
     }
   }
 
+  /** 按配置创建视图管理器, 没开视图持久化返回 null */
+  private createViewStateManager(): ViewStateManager | null {
+    const persistence = this.config.viewPersistence
+    if (!persistence) return null
+    const options = typeof persistence === 'object' ? persistence : {}
+    return new ViewStateManager({
+      adapter: resolveViewStorage(options.storage),
+      storageKey: options.key ?? `Dtable-view-${this.config.tableId}`,
+      autoSave: options.autoSave !== false,
+      capture: () => this.captureViewState(),
+      apply: (state) => this.applyViewState(state),
+      // 老版本只存了列宽和列顺序, 第一次升级上来从那里迁移
+      loadLegacy: () => this.widthStorage
+        ? createLegacyDocument(this.widthStorage.loadColumnWidth(), this.widthStorage.loadColumnOrder())
+        : null
+    })
+  }
+
+  /** 初始化完 (store 已订阅) 后还原上次的视图, 侧边栏也一起还原 */
+  private async restoreViewState(): Promise<void> {
+    if (!this.viewStateManager) return
+    const saved = await this.viewStateManager.load()
+    if (saved && this.viewStateManager) {
+      this.applyViewState(saved, true)
+    }
+  }
+
+  /** 把表格当前的样子拍成视图 */
+  private captureViewState(): IViewState {
+    const { data, columns } = this.store.getState()
+    // 没拖过的列宽在列配置里, 拖过的在 widthOverrides 里
+    const widths: Record<string, number> = {}
+    this.originalColumns.forEach(col => {
+      if (col.width) widths[col.key] = col.width
+    })
+    return {
+      columns: {
+        order: [...columns.order],
+        widths: { ...widths, ...columns.widthOverrides },
+        hiddenKeys: [...columns.hiddenKeys],
+        frozenCount: columns.frozenCount,
+        pinnedRight: [...columns.pinnedRight]
+      },
+      sort: data.sort,
+      columnFilters: data.columnFilters,
+      advancedFilter: data.advancedFilter,
+      filterText: data.mode === 'client' ? data.clientFilterText : (data.query.filterText ?? ''),
+      groupBy: [...data.groupBy],
+      pivot: { enabled: this.isPivotMode, config: this.pivotConfig },
+      sidePanel: { activePanel: this.sidePanelManager?.getActivePanel() ?? null }
+    }
+  }
+
+  /**
+   * 把视图套回表格
+   * - 存的时候有、现在列配置里删掉的列丢掉, 新加的列排在最后
+   * - 侧边栏只在刷新还原时恢复, 从视图面板里切视图时不能把面板关了
+   */
+  private applyViewState(view: IViewState, restoreSidePanel = false): void {
+    if (!this.store) return
+    const knownKeys = new Set(this.originalColumns.map(col => col.key))
+    const order = view.columns.order.filter(key => knownKeys.has(key))
+    knownKeys.forEach(key => {
+      if (!order.includes(key)) order.push(key)
+    })
+    const pickKnown = <T>(record: Record<string, T>): Record<string, T> =>
+      Object.fromEntries(Object.entries(record).filter(([key]) => knownKeys.has(key)))
+
+    const snapshot: HistorySnapshot = {
+      sort: view.sort.filter(item => knownKeys.has(item.key)),
+      columnFilters: pickKnown(view.columnFilters),
+      advancedFilter: view.advancedFilter,
+      filterText: view.filterText,
+      clientFilterText: view.filterText,
+      // 行分组只有 client 模式支持
+      groupBy: this.mode === 'client' ? view.groupBy.filter(key => knownKeys.has(key)) : [],
+      columns: {
+        order,
+        widthOverrides: pickKnown(view.columns.widths),
+        hiddenKeys: view.columns.hiddenKeys.filter(key => knownKeys.has(key)),
+        frozenCount: view.columns.frozenCount,
+        pinnedRight: view.columns.pinnedRight.filter(key => knownKeys.has(key))
+      }
+    }
+
+    // 透视表占着主区域, 先关掉再换列 (冻结列变了要在主区域里重建)
+    const activePanel = this.sidePanelManager?.getActivePanel() ?? null
+    if (this.isPivotMode) this.togglePivotMode(false)
+    this.store.dispatch({ type: 'VIEW_STATE_APPLY', payload: { snapshot } })
+    this.pivotConfig = view.pivot.config
+    if (view.pivot.enabled) this.togglePivotMode(true)
+
+    // 列管理面板开着的话重开一次, 让里面的透视开关/四区域跟上
+    if (restoreSidePanel) {
+      this.openSidePanel(view.sidePanel.activePanel)
+    } else if (activePanel === 'columns') {
+      this.openSidePanel(activePanel)
+    }
+  }
+
+  /** 打开指定面板 (已经开着就重开), null 就收起 */
+  private openSidePanel(panelId: string | null): void {
+    const manager = this.sidePanelManager
+    if (!manager) return
+    manager.hideCurrentPanel()
+    if (panelId) this.showPanel(panelId)
+  }
+
   // 切换右侧面板显示/隐藏
   public toggleSidePanel(show?: boolean): void {
     this.layoutManager?.toggleSidePanel(show)
@@ -619,7 +1208,11 @@ export class VirtualTable {
 
   // 切换到指定的面板
   public showPanel(panelId: string): void {
-    this.sidePanelManager?.togglePanel(panelId)
+    if (panelId === 'columns') {
+      this.sidePanelManager?.togglePanel(panelId, this.originalColumns)
+    } else {
+      this.sidePanelManager?.togglePanel(panelId)
+    }
   }
 
   // 获取当前激活面板的 id 
@@ -656,14 +1249,19 @@ export class VirtualTable {
   /** 获取当前已选中的行数据 */
   public getSelectedRows(): Record<string, any>[] {
     if (!this.selectionManager) return []
-    return this.selectionManager.getSelectedIndices()
+    return this.selectionManager.getSelectedIndices(this.config.totalRows)
       .map(i => this.dataStrategy.getRow(i))
       .filter(Boolean) as Record<string, any>[]
   }
 
+  /** 分页缓存统计 (命中/未命中/淘汰/预取), 只有 server 分页模式有 */
+  public getCacheStats(): PageCacheStats | null {
+    return this.dataStrategy?.getCacheStats?.() ?? null
+  }
+
   /** 全选所有行 */
   public selectAll(): void {
-    this.selectionManager?.selectAll(this.config.totalRows)
+    this.selectAllRows()
   }
 
   /** 清除所有选中 */
@@ -673,7 +1271,291 @@ export class VirtualTable {
 
   /** 获取已选中行数 */
   public getSelectedCount(): number {
-    return this.selectionManager?.getCount() ?? 0
+    return this.selectionManager?.getCount(this.config.totalRows) ?? 0
+  }
+
+  /** 获取已选中行的 rowKey */
+  public getSelectedKeys(): RowKey[] {
+    return this.selectionManager?.getSelectedKeys(this.config.totalRows) ?? []
+  }
+
+  // ======= 主从表 公开 API =======
+
+  /**
+   * 按 rowKey 展开 / 收起详情区 (需要配置 detailRenderer)
+   * 行不在当前结果里 (被筛掉 / server 还没拉到) 也会记着, 出现时就是这个状态
+   */
+  public setRowExpanded(key: RowKey, expanded: boolean): void {
+    if (!this.detailManager) return
+    this.detailManager.setExpanded(key, expanded)
+    const found = this.findRowByKey(key)
+    if (found && found.rowIndex >= 0) {
+      this.viewport?.refreshRowDetail(found.rowIndex)
+    }
+  }
+
+  /** 收起所有展开的行 */
+  public collapseAllRows(): void {
+    if (!this.detailManager) return
+    this.detailManager.clear()
+    this.viewport?.refreshAllRowDetails()
+  }
+
+  /** 当前展开的行的 rowKey */
+  public getExpandedRowKeys(): RowKey[] {
+    return this.detailManager?.getExpandedKeys() ?? []
+  }
+
+  // ======= rowKey 定位 公开 API =======
+
+  /**
+   * 按 rowKey 获取行数据
+   * - client 模式: 被筛选掉的行也能拿到
+   * - server 模式: 只能拿到已缓存页里的行
+   */
+  public getRowByKey(key: RowKey): Record<string, any> | undefined {
+    return this.findRowByKey(key)?.row
+  }
+
+  /**
+   * 滚动到指定 rowKey 的行
+   * @returns 是否滚动成功 (行不在当前结果里/server 未加载则返回 false)
+   */
+  public scrollToRowKey(key: RowKey, align: 'start' | 'center' = 'center'): boolean {
+    const found = this.findRowByKey(key)
+    if (!found || found.rowIndex < 0 || !this.shell) return false
+
+    const container = this.shell.scrollContainer
+    const fixedTopHeight = getHeaderTotalHeight(this.config) + (this.config.showSummary ? this.config.summaryHeight : 0)
+    const viewportHeight = container.clientHeight - fixedTopHeight
+    let top = this.scroller.getScrollTopForRow(found.rowIndex)
+    if (align === 'center') {
+      top -= (viewportHeight - this.scroller.getRowHeight(found.rowIndex)) / 2
+    }
+    container.scrollTop = Math.max(0, top)
+    return true
+  }
+
+  private findRowByKey(key: RowKey) {
+    if (!this.dataStrategy) return undefined
+    return this.dataStrategy.findRow((row, rowIndex) => this.getRowKey(row, rowIndex) === key)
+  }
+
+  // ======= 实时推送 公开 API =======
+
+  /**
+   * 按 rowKey 批量增删改 (WebSocket / SSE 推过来的数据), 见 connectLiveUpdates
+   * - 只改到值的可见行重画, 配了 flashCells 改了的格子闪一下
+   * - 有增删时行数变了, 可视区整体重画, 滚动位置不动
+   * - 不算用户编辑, 不进撤销历史, 也不打脏标记
+   */
+  public transaction(transaction: IRowTransaction): IRowTransactionResult {
+    const empty = { added: 0, updated: 0, removed: 0, missing: [] }
+    if (!this.dataStrategy || !this.viewport) return empty
+    if ((transaction.update?.length || transaction.remove?.length) && !this.config.rowKey) {
+      console.warn('[VirtualTable.transaction] update / remove 按 rowKey 找行, 需要先配置 rowKey')
+      return empty
+    }
+
+    // 新行先把计算列算上 (算在拷贝上, 推过来的对象不动), 改的行由策略按 derive 把受影响的计算列一起改
+    if (transaction.add?.length) transaction = { ...transaction, add: this.calculated.materialize(transaction.add) }
+    const derive = this.calculated.size > 0
+      ? (row: Record<string, any>, patch: Record<string, any>) => this.calculated.derive(row, patch)
+      : undefined
+    const outcome = this.dataStrategy.applyTransaction
+      ? this.dataStrategy.applyTransaction(transaction, this.getRowKey, derive)
+      : this.applyTransactionByFind(transaction, derive)
+
+    if (outcome.reload) {
+      // server 增删: 先拉第 1 页拿到新的总行数, 再按当前滚动位置重画
+      void this.dataStrategy.ensurePageForRow(0).catch(() => {}).then(() => this.queryCoordinator.syncTotalRows())
+    } else if (outcome.structural) {
+      this.queryCoordinator.syncTotalRows()
+    } else if (outcome.changedRows.length > 0) {
+      outcome.changedRows.forEach(({ rowIndex }) => this.viewport.refreshRow(rowIndex))
+      if (this.config.showSummary) void this.refreshSummary()
+    }
+    if (this.config.flashCells) {
+      outcome.changedRows.forEach(({ rowIndex, keys }) => this.viewport.flashCells(rowIndex, keys))
+    }
+
+    const { added, updated, removed, missing } = outcome
+    return { added, updated, removed, missing }
+  }
+
+  /** 策略没实现 applyTransaction (比如游标分页) 时的兜底: 只支持 update, 逐个 findRow */
+  private applyTransactionByFind(
+    transaction: IRowTransaction,
+    derive?: (row: Record<string, any>, patch: Record<string, any>) => Record<string, any>
+  ): RowTransactionOutcome {
+    const outcome: RowTransactionOutcome = { added: 0, updated: 0, removed: 0, missing: [], changedRows: [], structural: false }
+    if (transaction.add?.length || transaction.remove?.length) {
+      console.warn(`[VirtualTable.transaction] 当前数据策略不支持增删行, 已忽略`)
+    }
+    for (const update of transaction.update ?? []) {
+      const key = this.getRowKey(update, -1)
+      const found = this.findRowByKey(key)
+      if (!found) {
+        outcome.missing.push(key)
+        continue
+      }
+      const patch = derive ? { ...update, ...derive(found.row, update) } : update
+      const keys = Object.keys(patch).filter(field => found.row[field] !== patch[field])
+      if (keys.length === 0) continue
+      Object.assign(found.row, patch)
+      outcome.updated++
+      if (found.rowIndex >= 0) outcome.changedRows.push({ rowIndex: found.rowIndex, keys })
+    }
+    return outcome
+  }
+
+  // ======= 计算列 公开 API =======
+
+  /**
+   * 新增或修改计算列 (列管理面板里的 "+ 计算列" 也走这里), 按 key 判断是新增还是修改
+   * - 表达式语法不对 / 循环引用 / key 和普通列撞了直接抛错, 表格不动
+   * - 没配 dataType 按算出来的值推断; client 模式没配 filter 的按类型自动配上, 排序默认打开
+   * - server 模式计算列只在前端算, 后端不认识这个字段, 默认不开排序和筛选
+   */
+  public upsertCalculatedColumn(column: IColumn): void {
+    if (!this.dataStrategy || !this.viewport) {
+      throw new Error('[VirtualTable] 表格还没初始化完, 等 ready 之后再加计算列')
+    }
+    if (!column.key || !column.expression) {
+      throw new Error('[VirtualTable] 计算列需要 key 和 expression')
+    }
+    const index = this.originalColumns.findIndex(col => col.key === column.key)
+    const previous = index >= 0 ? this.originalColumns[index] : undefined
+    if (previous && !previous.expression) {
+      throw new Error(`[VirtualTable] 列 "${column.key}" 已存在, 且不是计算列`)
+    }
+    const isClient = this.mode === 'client'
+    const next: IColumn = {
+      sortable: isClient,
+      width: this.config.minColumnWidth || 100,
+      ...previous,
+      ...column
+    }
+    // 值是算出来的, 不能编辑; 表达式可能换了, 类型 / 筛选没明确指定的都重新来
+    delete next.editable
+    if (!column.dataType) delete next.dataType
+    if (!column.filter) delete next.filter
+
+    const columns = previous
+      ? this.originalColumns.map(col => col === previous ? next : col)
+      : [...this.originalColumns, next]
+    // 先用一份新的编译一遍, 抛错的话下面什么都不改
+    new CalculatedColumns(columns)
+
+    // originalColumns 和列管理面板 / stateSync 共用同一个数组, 原地改
+    this.originalColumns.splice(0, this.originalColumns.length, ...columns)
+    this.applyCalculatedColumns()
+    if (isClient && !next.filter) {
+      next.filter = { type: next.dataType === 'number' ? 'numberRange' : next.dataType === 'date' ? 'dateRange' : 'text' }
+    }
+
+    if (!previous) {
+      const order = this.store.getState().columns.order
+      this.store.dispatch({ type: 'COLUMN_ORDER_SET', payload: { order: [...order, next.key] } })
+    }
+    this.reloadAfterColumnsChange()
+  }
+
+  /** 删除计算列, 引用它的排序 / 筛选 / 分组一起去掉; 被别的计算列引用着的删不了 (抛错) */
+  public removeCalculatedColumn(key: string): boolean {
+    const index = this.originalColumns.findIndex(col => col.key === key && col.expression)
+    if (index < 0 || !this.dataStrategy) return false
+    const columns = this.originalColumns.filter((_, i) => i !== index)
+    const dependent = new CalculatedColumns(columns).dependentsOf(key)
+    if (dependent.length > 0) {
+      throw new Error(`[VirtualTable] 计算列 "${key}" 被 ${dependent.join(', ')} 引用着, 先改掉它们`)
+    }
+
+    this.originalColumns.splice(index, 1)
+    this.applyCalculatedColumns()
+
+    const { data, columns: columnState } = this.store.getState()
+    if (data.sort.some(item => item.key === key)) {
+      this.store.dispatch({ type: 'SORT_LIST_SET', payload: { sorts: data.sort.filter(item => item.key !== key) } })
+    }
+    if (data.columnFilters[key]) {
+      this.store.dispatch({ type: 'COLUMN_FILTER_CLEAR', payload: { key } })
+    }
+    if (data.groupBy.includes(key)) {
+      this.store.dispatch({ type: 'GROUP_BY_SET', payload: { groupBy: data.groupBy.filter(field => field !== key) } })
+    }
+    this.store.dispatch({ type: 'COLUMN_ORDER_SET', payload: { order: columnState.order.filter(k => k !== key) } })
+    this.reloadAfterColumnsChange()
+    return true
+  }
+
+  /**
+   * server 模式计算列只在前端算, 后端不认识这个字段: 配置里写的计算列和运行时加的一样, 不开排序和筛选
+   * 不然排序 / 筛选 key 发到后端就是一个不存在的字段
+   */
+  private disableServerCalculatedColumns(): void {
+    if (this.mode !== 'server') return
+    for (const col of this.originalColumns) {
+      if (!col.expression || (!col.sortable && !col.filter)) continue
+      console.warn(`[VirtualTable] server 模式计算列 "${col.key}" 只在前端算, 已关掉排序和筛选`)
+      col.sortable = false
+      delete col.filter
+    }
+  }
+
+  /**
+   * originalColumns 里的计算列变了: 重新编译, client 模式全量数据重算
+   * 第一次加计算列时行对象会换成拷贝, 按行对象记的脏数据 / 粘贴新行跟着换; 撤销历史里记的是旧对象, 只能清掉
+   */
+  private applyCalculatedColumns(): void {
+    this.stateSync.setOriginalColumns(this.originalColumns)
+    this.calculated.setColumns(this.originalColumns)
+    const replaced = this.dataStrategy.setColumns?.(this.originalColumns, this.calculated)
+    if (!replaced || replaced.size === 0) return
+    this.editTracker.replaceRows(replaced)
+    this.appendedRows = new Set(Array.from(this.appendedRows, row => replaced.get(row) ?? row))
+    this.history.clear()
+  }
+
+  /** 列变了整个重建; client 模式重建时会重新查询, server 模式要自己重新拉数据 (拉回来的页按新计算列算) */
+  private reloadAfterColumnsChange(): void {
+    this.rebuild()
+    if (this.mode !== 'server') return
+    const state = this.store.getState()
+    void this.applyQuery({
+      sortKey: state.data.sort[0]?.key,
+      sortDirection: state.data.sort[0]?.direction,
+      sorts: state.data.sort,
+      filterText: state.data.query.filterText,
+      columnFilters: state.data.columnFilters,
+      advancedFilter: state.data.advancedFilter ?? undefined
+    })
+  }
+
+  /** 当前选择区域, 没拉区域时就是焦点那一格, 都没有返回 null */
+  public getSelectedRange(): ICellRange | null {
+    return this.cellRange.getRange(this.config.columns.map(col => col.key))
+  }
+
+  /**
+   * 复制选择区域到剪贴板 (TSV + HTML)
+   * server 模式下区域里没加载的页先拉下来, 不然复制出来一堆空行
+   */
+  public async copySelection(): Promise<void> {
+    const range = this.getSelectedRange()
+    if (!range || !this.dataStrategy) return
+    // 筛选后行数可能变少了, 超出的部分不要
+    const endRow = Math.min(range.endRow, this.config.totalRows - 1)
+    const rows: Record<string, any>[] = []
+    for (let i = range.startRow; i <= endRow; i++) {
+      let row = this.dataStrategy.getRow(i)
+      if (!row) {
+        await this.dataStrategy.ensurePageForRow(i)
+        row = this.dataStrategy.getRow(i)
+      }
+      rows.push(row ?? {})
+    }
+    await copyRangeToClipboard(rows, this.getColumnsByKeys(range.columnKeys))
   }
 
   /**
@@ -685,18 +1567,137 @@ export class VirtualTable {
     const visibleCols = this.config.columns.filter(
       col => !this.store.getState().columns.hiddenKeys.includes(col.key)
     )
-    let rows: Record<string, any>[]
-    if (options.onlySelected && this.selectionManager) {
-      rows = this.getSelectedRows()
-    } else {
-      const total = this.config.totalRows
-      rows = []
-      for (let i = 0; i < total; i++) {
-        const row = this.dataStrategy.getRow(i)
-        if (row) rows.push(row)
-      }
+    exportCSV(this.getExportRows(options.onlySelected), visibleCols, options)
+  }
+
+  /**
+   * 导出 Excel (.xlsx), 数字 / 日期 / 布尔按列 dataType 写成对应类型的单元格
+   * - 列宽同表格 (拖过的按拖过的), 表头 + 左侧冻结列在 Excel 里也冻结 (右侧固定列 Excel 做不到, 只按顺序放最后)
+   * - 总结行加粗放最后; 透视模式下多一个「透视」sheet
+   * @param options.filename  文件名（不含 .xlsx），默认 'export'
+   */
+  public exportXLSX(options: ExportXLSXOptions = {}): void {
+    const { hiddenKeys, widthOverrides } = this.store.getState().columns
+    const visibleCols = this.config.columns
+      .filter(col => !hiddenKeys.includes(col.key))
+      .map(col => ({ ...col, width: widthOverrides[col.key] ?? col.width }))
+    const summary = (options.includeSummary ?? this.config.showSummary) ? this.dataStrategy.getSummary() : null
+
+    const sheets: XLSXSheet[] = [{
+      name: options.sheetName ?? '数据',
+      columns: visibleCols,
+      rows: this.getExportRows(options.onlySelected),
+      // 第一列没有汇总值时和总结行一样显示 "合计"
+      summary: summary && visibleCols.length > 0 ? { [visibleCols[0].key]: '合计', ...summary } : null,
+      frozenColumns: this.config.frozenColumns,
+    }]
+    const pivot = options.includePivot !== false && this.isPivotMode ? this.pivotTable?.getExportTable() : null
+    if (pivot) {
+      sheets.push({ name: '透视', ...pivot })
+    }
+    exportXLSX(sheets, options.filename)
+  }
+
+  /** 要导出的行: 仅选中 / 全部 (server 模式只有已加载的页) */
+  private getExportRows(onlySelected?: boolean): Record<string, any>[] {
+    if (onlySelected && this.selectionManager) {
+      return this.getSelectedRows()
+    }
+    const rows: Record<string, any>[] = []
+    for (let i = 0; i < this.config.totalRows; i++) {
+      const row = this.dataStrategy.getRow(i)
+      if (row) rows.push(row)
+    }
+    return rows
+  }
+
+  // ======= 单元格编辑 公开 API =======
+
+  /** 获取所有未提交的修改 */
+  public getChanges(): IRowChange[] {
+    return this.collectChanges()
+  }
+
+  /**
+   * 提交修改
+   * - 配了 saveRows 就先交给后端, 失败则抛错, 修改保持未提交
+   * - client 模式数据在编辑时已写进 fullData, 这里只是清掉脏标记
+   */
+  public async commitChanges(): Promise<void> {
+    const changes = this.collectChanges()
+    if (changes.length === 0) return
+
+    if (this.config.saveRows) {
+      await this.config.saveRows(changes)
+    } else if (this.mode === 'server') {
+      console.warn('[VirtualTable] server 模式未配置 saveRows, 修改只保留在本地缓存页, 刷新即丢失')
+    }
+    this.editTracker.clear()
+    this.appendedRows.clear()
+    this.viewport?.refreshRowsData()
+  }
+
+  /** 交出去的修改里去掉计算列, 那是前端算的, 不是数据源里的字段 */
+  private collectChanges(): IRowChange[] {
+    return this.editTracker.getChanges().map(change => ({ ...change, row: this.calculated.strip(change.row) }))
+  }
+
+  /** 撤销所有未提交的修改, 旧值写回数据源 */
+  public revertChanges(): void {
+    if (!this.editTracker.hasChanges()) return
+    this.editTracker.revert()
+    // 粘贴追加的新行, 撤销就是整行删掉, 不然剩一堆空行
+    if (this.appendedRows.size > 0) {
+      this.removePastedRows(Array.from(this.appendedRows))
+    }
+    this.history.clear()
+    this.viewport?.refreshRowsData()
+    if (this.config.showSummary) {
+      void this.refreshSummary()
     }
-    exportCSV(rows, visibleCols, options)
+  }
+
+  /** 撤销上一步 (编辑/粘贴/列操作/排序筛选), 返回是否有东西可撤 */
+  public undo(): boolean {
+    return this.history.undo()
+  }
+
+  /** 重做 */
+  public redo(): boolean {
+    return this.history.redo()
+  }
+
+  public canUndo(): boolean {
+    return this.history.canUndo()
+  }
+
+  public canRedo(): boolean {
+    return this.history.canRedo()
+  }
+
+  // ======= 视图 公开 API (需开启 viewPersistence) =======
+
+  /** 已保存的具名视图 */
+  public getSavedViews(): ISavedView[] {
+    return this.viewStateManager?.getViews() ?? []
+  }
+
+  /** 把当前的列/排序/筛选/透视/侧边栏 存成具名视图, 同名覆盖 */
+  public async saveView(name: string): Promise<ISavedView | null> {
+    return this.viewStateManager?.saveView(name) ?? null
+  }
+
+  /** 切换到某个视图 */
+  public async switchView(id: string): Promise<void> {
+    await this.viewStateManager?.switchView(id)
+  }
+
+  public async renameView(id: string, name: string): Promise<void> {
+    await this.viewStateManager?.renameView(id, name)
+  }
+
+  public async deleteView(id: string): Promise<void> {
+    await this.viewStateManager?.deleteView(id)
   }
 
   // ======= 其他 公开 API =======
@@ -747,10 +1748,11 @@ export class VirtualTable {
       pivotContainer.style.overflow = 'auto'
       mainArea.appendChild(pivotContainer)
 
-      // 获取全量数据 (仅 client 模式支持)
-      const allData = this.dataStrategy.getAllData?.() || []
-      if (allData.length === 0) {
-        console.warn('[VirtaulTable] Pivot 模式需要全量数据, 当前无数据或为 server 模式')
+      // client 模式用全量数据前端聚合; server 模式拿不到全量, 配了 fetchPivotData 就交给后端按层聚合
+      const loader = this.createPivotLoader()
+      const allData = loader ? [] : (this.dataStrategy.getAllData?.() || [])
+      if (!loader && allData.length === 0) {
+        console.warn('[VirtaulTable] Pivot 模式需要全量数据, 当前无数据, 或为 server 模式且未配置 fetchPivotData')
       }
 
       // 创建默认透视配置
@@ -766,7 +1768,10 @@ export class VirtualTable {
           }))
       }
 
-      this.pivotTable = new PivotTable(defautConfig, this.config.columns, allData)
+      // 之前配过 (或视图里存着) 就沿用, 没有才用默认
+      // 开了 worker 的 client 模式, 建树也交给 worker
+      const builder = this.dataStrategy.buildPivotTree?.bind(this.dataStrategy)
+      this.pivotTable = new PivotTable(this.pivotConfig ?? defautConfig, this.config.columns, allData, loader, builder)
       this.pivotTable.mount(pivotContainer)
 
     } else {
@@ -784,18 +1789,43 @@ export class VirtualTable {
       // 恢复后刷新可视区
       this.viewport?.updateVisibleRows()
     }
+    this.viewStateManager?.scheduleSave()
+  }
+
+  /** server 模式透视数据源: 没有全量数据且配了 fetchPivotData 时才有, 每次请求都带上表格当前的查询条件 */
+  private createPivotLoader(): PivotGroupLoader | undefined {
+    const fetchPivotData = this.config.fetchPivotData
+    if (this.dataStrategy.getAllData || !fetchPivotData) return undefined
+    return (config, groupPath) => fetchPivotData(config, {
+      ...this.store.getState().data.query,
+      groupPath
+    })
   }
 
   /** 透视表配置变更 (由 PivotPanel 触发) */
   public onPivotConfigChange(config: IPivotConfig): void {
     if (!this.isPivotMode || !this.pivotTable) return 
+    this.pivotConfig = config
     this.pivotTable.updateConfig(config, this.config.columns)
+    this.viewStateManager?.scheduleSave()
   }
 
   // 全部清空, dom + 状态 + 一切, 避免内存泄露
   public destroy() {
+    // 先把没写完的视图写掉, 它要从 store/面板 里取状态
+    this.viewStateManager?.destroy()
+    this.viewStateManager = null
     this.unsubscribleStore?.()
     this.unsubscribleStore = null // 解绑 store 订阅
+    this.untrackCache?.()
+    this.untrackCache = null
+    this.queryCoordinator?.cancelScheduledQuery()
+    this.cellEditBinder.unbind()
+    this.keyboardNavBinder.unbind()
+    this.rangeSelectBinder.unbind()
+    clearTimeout(this.messageTimer)
+    this.hideErrorOverlay()
+    this.dataStrategy?.destroy?.()
     this.shell?.destroy()
     this.viewport?.destroy()
     // 清空布局管理器
@@ -120,9 +120,8 @@ export class ColumnManager {
       // 每次都先装入 fg 容器里面
       fragment.appendChild(cell)
     })
-    // 最后再一次批量插入, reflow 1次就好
-    row.innerHTML = ''
-    row.appendChild(fragment)
+    // 最后再一次批量插入, reflow 1次就好; 行首的复选框 / 展开按钮格子不是列, 留着
+    row.replaceChildren(...getLeadingCells(row), fragment)
     this.renderer.applyFrozenStyles(row)  // 应用冻结列样式
   }
 
@@ -159,10 +158,15 @@ export class ColumnManager {
           fragment.appendChild(cell)
         }
       })
-      row.innerHTML = ''  // 先清空行在重新插入, 保证顺序
-      row.appendChild(fragment)
+      // 先清空行在重新插入, 保证顺序; 行首的复选框 / 展开按钮格子不是列, 留着
+      row.replaceChildren(...getLeadingCells(row), fragment)
       this.renderer.applyFrozenStyles(row) // 应用冻结列样式
     })
   }
 
-}
\ No newline at end of file
+}
+
+// 辅助函数-行首不属于任何列的格子 (复选框列 / 主从表展开按钮列)
+function getLeadingCells(row: HTMLDivElement): HTMLDivElement[] {
+  return Array.from(row.querySelectorAll<HTMLDivElement>(':scope > .vt-checkbox-cell, :scope > .vt-detail-toggle-cell'))
+}
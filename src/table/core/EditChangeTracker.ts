@@ -0,0 +1,88 @@
+import type { IRowChange } from "@/types";
+
+interface TrackedRow {
+  row: Record<string, any>
+  rowIndex: number
+  original: Record<string, any> // 每个字段第一次被改之前的值, revert 就靠它
+}
+
+/**
+ * 单元格编辑-脏数据记录器
+ *
+ * - 独立于 TableStore, 编辑不走 dispatch, 否则每敲一次就整表刷新
+ * - 以行对象本身为 key (client 的 fullData / server 的缓存页都是同一个引用), 排序后也能对上
+ * - 改回原值时自动去掉脏标记
+ */
+export class EditChangeTracker {
+  private rows = new Map<Record<string, any>, TrackedRow>()
+
+  /** 记录一次修改, 要在真正改行数据之前调用, 才能拿到旧值 */
+  public record(row: Record<string, any>, rowIndex: number, key: string, newValue: any): void {
+    let tracked = this.rows.get(row)
+    if (!tracked) {
+      tracked = { row, rowIndex, original: {} }
+      this.rows.set(row, tracked)
+    }
+    tracked.rowIndex = rowIndex
+    if (!(key in tracked.original)) {
+      tracked.original[key] = row[key]
+    }
+    // 又改回了原值, 就不算脏了
+    if (tracked.original[key] === newValue) {
+      delete tracked.original[key]
+      if (Object.keys(tracked.original).length === 0) {
+        this.rows.delete(row)
+      }
+    }
+  }
+
+  public isDirty(row: Record<string, any>, key: string): boolean {
+    const tracked = this.rows.get(row)
+    return !!tracked && key in tracked.original
+  }
+
+  public hasChanges(): boolean {
+    return this.rows.size > 0
+  }
+
+  /** 汇总所有未提交的修改 */
+  public getChanges(): IRowChange[] {
+    const result: IRowChange[] = []
+    this.rows.forEach(({ row, rowIndex, original }) => {
+      const changes: IRowChange['changes'] = {}
+      for (const key of Object.keys(original)) {
+        changes[key] = { oldValue: original[key], newValue: row[key] }
+      }
+      result.push({ row, rowIndex, changes })
+    })
+    return result
+  }
+
+  /** 把旧值写回行对象, 并清空记录 */
+  public revert(): void {
+    this.rows.forEach(({ row, original }) => {
+      Object.assign(row, original)
+    })
+    this.rows.clear()
+  }
+
+  /** 不再跟踪某行 (撤销粘贴追加的新行时, 行都删了) */
+  public forget(row: Record<string, any>): void {
+    this.rows.delete(row)
+  }
+
+  /** 行对象换了 (计算列把行换成了拷贝), 记录跟着挪到新对象上 */
+  public replaceRows(replaced: Map<Record<string, any>, Record<string, any>>): void {
+    const rows = new Map<Record<string, any>, TrackedRow>()
+    this.rows.forEach((tracked, row) => {
+      const next = replaced.get(row) ?? row
+      rows.set(next, { ...tracked, row: next })
+    })
+    this.rows = rows
+  }
+
+  /** 提交成功后, 当前值就是新的原值了 */
+  public clear(): void {
+    this.rows.clear()
+  }
+}
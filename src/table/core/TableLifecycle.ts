@@ -87,7 +87,12 @@ export class TableLifecycle {
             this.store.dispatch({ type: 'SET_CURRENT_PAGE', payload: { page: pageInfo.currentPage } })
           }
         }
-      }
+      },
+      onGroupToggle: (groupId) => {
+        this.store.dispatch({ type: 'GROUP_TOGGLE', payload: { groupId } })
+      },
+      // 可变行高修正后总高变了
+      onScrollHeightChange: (scroller) => this.shell.setScrollHeight(scroller)
     })
 
     // 3. 创建 ColumnManager 
@@ -127,10 +132,13 @@ export class TableLifecycle {
     // 关键!: 只在 client 模式下调用 applyQuery, server 模式下 只需要 updateVisibleRows
     if (state.data.mode === 'client') {
       const query: ITableQuery = {
-        sortKey: state.data.sort?.key,
-        sortDirection: state.data.sort?.direction,
+        sortKey: state.data.sort[0]?.key,
+        sortDirection: state.data.sort[0]?.direction,
+        sorts: state.data.sort,
         filterText: state.data.mode === 'client' ? state.data.clientFilterText : state.data.query.filterText,
-        columnFilters: state.data.columnFilters
+        columnFilters: state.data.columnFilters,
+        advancedFilter: state.data.advancedFilter ?? undefined,
+        groupBy: state.data.groupBy
     }
       void callbacks.applyQuery(query)
 
@@ -6,6 +6,7 @@ import type { ITableShell } from "@/table/TableShell";
 import { VirtualScroller } from "@/scroll/VirtualScroller";
 import { DOMRenderer } from "@/dom/DOMRenderer";
 import { RenderScenario, RenderMethod, RenderProtocalValidator } from "@/table/viewport/RenderProtocol";
+import { FILTER_TEXT_DEBOUNCE_MS } from "@/config/Constant";
 
 /**
  * 表格查询协调器
@@ -14,6 +15,7 @@ import { RenderScenario, RenderMethod, RenderProtocalValidator } from "@/table/v
  * - 统一处理排序, 筛选等查询操作
  * - 协调 dataStrategy, viewport, scroller 等的更新
  * - 管理总结行和状态栏的更新
+ * - 连续查询只认最后一次 (旧结果晚回来就丢), 搜索框打字防抖
  */
 export class TableQueryCoordinator {
   private config: IConfig
@@ -24,6 +26,8 @@ export class TableQueryCoordinator {
   private renderer: DOMRenderer
   private getScroller: () => VirtualScroller
   private setScroller: (scroller: VirtualScroller) => void 
+  private querySeq = 0 // 每次 applyQuery +1, 晚回来的旧查询结果对不上就不渲染
+  private scheduledTimer: ReturnType<typeof setTimeout> | null = null
 
   constructor(params: {
     config: IConfig,
@@ -50,8 +54,12 @@ export class TableQueryCoordinator {
    * 应用查询 (统一入口)
    */
   public async applyQuery(query: ITableQuery): Promise<void> {
+    // 直接查询的话, 还在等防抖的那次就不用了
+    this.cancelScheduledQuery()
+    const seq = ++this.querySeq
     // 1. 调用 strategy 应用查询
     const result = await this.dataStrategy.applyQuery(query)
+    if (seq !== this.querySeq) return // 等的时候又发了新查询, 以新的为准
     // 2. 更新 totalRows 和 scroller 
     this.config.totalRows = result.totalRows
     this.store.dispatch({ type: 'SET_TOTAL_ROWS', payload: { totalRows: result.totalRows } })
@@ -72,13 +80,52 @@ export class TableQueryCoordinator {
         'TableQueryCoordinator.applyQuery'
       )
     }
-    // 5. 刷新可视区, 状态栏
+    // 5. 刷新可视区, 状态栏 (选中按 rowKey 记录, 全选框状态要跟着新结果重算)
     this.viewport.refresh()
+    this.viewport.refreshSelectionUI()
     this.updateStatusBar()
     // 6. 刷新总结行
     this.refreshSummary()
   }
 
+  /**
+   * 防抖查询: delay 内再调就重新计时, 只查最后一次 (全局搜索框每敲一个字都会 dispatch)
+   */
+  public scheduleQuery(query: ITableQuery, delay: number = FILTER_TEXT_DEBOUNCE_MS): void {
+    this.cancelScheduledQuery()
+    this.scheduledTimer = setTimeout(() => {
+      this.scheduledTimer = null
+      void this.applyQuery(query)
+    }, delay)
+  }
+
+  /** 取消还没到点的防抖查询 (销毁时也要调) */
+  public cancelScheduledQuery(): void {
+    if (this.scheduledTimer === null) return
+    clearTimeout(this.scheduledTimer)
+    this.scheduledTimer = null
+  }
+
+  /**
+   * 行数变了但不需要重新查询 (粘贴追加行等), 只同步 totalRows + 滚动高度
+   * 滚动位置保持不动
+   */
+  public syncTotalRows(): void {
+    const totalRows = this.dataStrategy.getTotalRows()
+    this.config.totalRows = totalRows
+    this.store.dispatch({ type: 'SET_TOTAL_ROWS', payload: { totalRows } })
+
+    const newScroller = new VirtualScroller(this.config)
+    this.setScroller(newScroller)
+    this.viewport.setScroller(newScroller)
+    this.shell.setScrollHeight(newScroller)
+
+    this.viewport.refresh()
+    this.viewport.refreshSelectionUI()
+    this.updateStatusBar()
+    this.refreshSummary()
+  }
+
   /** 同步刷新总结行 */
   public refreshSummary(): void {
     // 检查总结行是否存在先
@@ -1,6 +1,7 @@
 import type { IColumn, IConfig } from "@/types";
 import type { TableStore } from "@/table/state/createTableStore";
 import type { TableState } from "@/table/state/types";
+import { arrangeByGroups } from "@/table/model/ColumnGroupModel";
 
 /**
  * 表格状态同步器
@@ -34,7 +35,7 @@ export class TableStateSync {
   public applyColumnsFromState(): void {
     // 1. 先从状态中取出来
     const state = this.store.getState()
-    const { order, widthOverrides, frozenCount, hiddenKeys } = state.columns
+    const { order, widthOverrides, frozenCount, hiddenKeys, pinnedRight } = state.columns
 
     // 2. 按 state.order 重新排列列
     const orderedColumns: IColumn[] = []
@@ -55,10 +56,22 @@ export class TableStateSync {
 
     // 4. 过滤掉隐藏列
     const visibleColumns = orderedColumns.filter(col => !hiddenKeys.includes(col.key))
+
+    // 5. 右侧固定列挪到最后 (sticky right 只能贴在末尾), 彼此之间还是按 order
+    const pinnedColumns = visibleColumns.filter(col => pinnedRight.includes(col.key))
     
-    // 5. 更新 config 
-    this.config.columns = visibleColumns
+    // 6. 同一表头分组的列排到一起 (各区内部排, 冻结列数不变), 不管顺序是从哪来的
+    const columns = arrangeByGroups(
+      [...visibleColumns.filter(col => !pinnedRight.includes(col.key)), ...pinnedColumns],
+      this.config.columnGroups,
+      frozenCount,
+      pinnedColumns.length
+    )
+
+    // 7. 更新 config 
+    this.config.columns = columns
     this.config.frozenColumns = frozenCount
+    this.config.pinnedRightColumns = pinnedColumns.map(col => col.key)
   }
 
   /** 获取原始列配置 */
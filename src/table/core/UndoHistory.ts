@@ -0,0 +1,70 @@
+export interface UndoEntry {
+  label: string // 调试用, 比如 'paste' / 'edit' / action type
+  groupKey?: string // 相同 groupKey 且间隔很短的记录合成一步 (拖列宽时的连续 COLUMN_WIDTH_SET)
+  undo: () => void
+  redo: () => void
+}
+
+/**
+ * 撤销/重做栈
+ *
+ * 每条记录自己知道怎么撤销和重做, 这里只管先后顺序
+ * 新操作进来就清空 redo 栈 (和所有编辑器一样)
+ */
+export class UndoHistory {
+  private undoStack: UndoEntry[] = []
+  private redoStack: UndoEntry[] = []
+  private lastPushAt = 0
+
+  constructor(private maxDepth = 100, private groupWindow = 500) {}
+
+  public push(entry: UndoEntry): void {
+    const now = Date.now()
+    const last = this.undoStack[this.undoStack.length - 1]
+    this.redoStack = []
+
+    // 合并: 保留第一条的 undo (回到最初), redo 换成最新的
+    if (entry.groupKey && last?.groupKey === entry.groupKey && now - this.lastPushAt <= this.groupWindow) {
+      last.redo = entry.redo
+      this.lastPushAt = now
+      return
+    }
+
+    this.undoStack.push(entry)
+    this.lastPushAt = now
+    if (this.undoStack.length > this.maxDepth) {
+      this.undoStack.shift()
+    }
+  }
+
+  public undo(): boolean {
+    const entry = this.undoStack.pop()
+    if (!entry) return false
+    entry.undo()
+    this.redoStack.push(entry)
+    this.lastPushAt = 0 // 撤销过就别再和下一次操作合并了
+    return true
+  }
+
+  public redo(): boolean {
+    const entry = this.redoStack.pop()
+    if (!entry) return false
+    entry.redo()
+    this.undoStack.push(entry)
+    this.lastPushAt = 0
+    return true
+  }
+
+  public canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  public canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  public clear(): void {
+    this.undoStack = []
+    this.redoStack = []
+  }
+}
@@ -1,225 +1,504 @@
-import type { DataStrategy } from "@/table/data/DataStrategy";
-import type { ColumnFilterValue, ITableQuery } from "@/types";
+import type { DataStrategy, RowTransactionOutcome } from "@/table/data/DataStrategy";
+import type { IGroupRow, IRowTransaction, ITableQuery, RowKey } from "@/types";
+import type { RowKeyGetter } from "@/table/model/RowKeyModel";
 import type { IColumn } from "@/types";
+import type { IPivotColNode, IPivotConfig, IPivotTreeNode } from "@/types/pivot";
+import type { ClientQueryWorker } from "@/table/data/ClientQueryWorker";
+import type { CalculatedColumns } from "@/table/model/CalculatedColumns";
+import { calculateColumnSummary, calculateSummary, collectFilterOptions } from "@/table/data/clientQuery";
+import { ColumnarStore, compactRows, remapIndices } from "@/table/data/ColumnarStore";
+import { PivotDataProcessor } from "@/table/pivot/PivotDataProcessor";
 
 /**
  * Client 数据策略
  * 
  * - 管理全量数据 fullData
- * - 前端排序/筛选
+ * - 前端排序/筛选/行分组
  * - 同步返回数据 (因为数据都在内存中)
+ * - 筛选/排序走 ColumnarStore (列式编码), 结果是下标视图 view, 不拷贝行对象
+ * - 传了 worker (数据量大) 的话, 筛选/排序/汇总/筛选选项/透视建树都丢到 worker 算,
+ *   worker 只回传命中行的下标, 这边按下标取回 fullData 里的行, getRow 还是同步的
+ * - worker 初始化失败 (数据克隆不了 / worker 崩了) 就销毁它, 回退到主线程的 ColumnarStore
  */
+
+// 分组树节点, 叶子层的组才挂数据行
+interface GroupNode {
+  group: IGroupRow
+  children: GroupNode[]
+  rows: Record<string, any>[]
+}
 export class ClientDataStrategy implements DataStrategy {
   readonly mode = 'client' as const 
 
   private fullData: Record<string, any>[] = []  // 原始全量数据
-  private filteredData: Record<string, any>[] = []  // 筛选后的数据
+  private view: Uint32Array // 筛选 + 排序后的行在 fullData 里的下标
+  private viewRows: Record<string, any>[] | null = null // 按 view 取出来的行, getAllData / 分组用, view 变了作废
+  private store: ColumnarStore | null // 有 worker 时列式存储在 worker 那边, 这边不再建一份
   private currentQuery: ITableQuery = {}
   private columns: IColumn[]
 
-  constructor(initialData: Record<string, any>[], columns: IColumn[]) {
+  // 行分组: 分组头和数据行拍平到 displayRows 里, 行下标都按它算; 不分组时为 null, 直接用 view
+  private groupBy: string[] = []
+  private groupTree: GroupNode[] = []
+  private displayRows: (Record<string, any> | IGroupRow)[] | null = null
+  private groupRows = new Set<object>() // displayRows 里哪些是分组头
+  private collapsed = new Set<string>()
+
+  private worker: ClientQueryWorker | null
+  private summaryCache: Record<string, any> | null = null // worker 算好的总结行, 改过数据就作废
+  private querySeq = 0 // worker 的查询是异步的, 连着查只认最后一次
+  private errorListener: ((error: Error) => void) | null = null
+  private workerError: Error | null = null // 注册回调前就回退了的话先存着, 注册时补报
+
+  /** 透视建树 (只有 worker 模式才有), 没有的话透视表在主线程自己建 */
+  public buildPivotTree?: (config: IPivotConfig) => Promise<{ colTree: IPivotColNode; tree: IPivotTreeNode }>
+
+  constructor(initialData: Record<string, any>[], columns: IColumn[], worker?: ClientQueryWorker) {
     this.fullData = initialData
-    this.filteredData = [...initialData]  // 初始时, 筛选后的数据是全量, 浅拷贝
+    this.view = Uint32Array.from(initialData.keys())  // 初始时, 视图是全量
     this.columns = columns
+    this.worker = worker ?? null
+    this.store = worker ? null : new ColumnarStore(initialData, columns)
+    if (worker) {
+      this.buildPivotTree = (config) => this.buildPivotInWorker(worker, config)
+      worker.onFailure(err => this.fallbackToMainThread(err))
+    }
   }
 
   public async bootstrap(): Promise<{ totalRows: number; }> {
-    // client 模式下, 数据已经在构造函数中传入了
-    return { totalRows: this.filteredData.length }
+    // client 模式下, 数据已经在构造函数中传入了; 有 worker 的话顺便把总结行算好
+    if (this.worker) {
+      this.summaryCache = (await this.queryInWorker(this.worker, {}))?.summary ?? null
+    }
+    return { totalRows: this.view.length }
+  }
+
+  /** worker 初始化失败回退到主线程时调, 没有页码 */
+  public setErrorListener(listener: (error: Error) => void): void {
+    this.errorListener = listener
+    if (this.workerError) listener(this.workerError)
   }
 
   public getRow(rowIndex: number): Record<string, any> | undefined {
-    return this.filteredData[rowIndex]
+    if (!this.displayRows) return rowIndex < this.view.length ? this.fullData[this.view[rowIndex]] : undefined
+    const item = this.displayRows[rowIndex]
+    // 分组头不是数据行
+    return item && !this.groupRows.has(item) ? item : undefined
+  }
+
+  public getGroupRow(rowIndex: number): IGroupRow | undefined {
+    const item = this.displayRows?.[rowIndex]
+    return item && this.groupRows.has(item) ? item as IGroupRow : undefined
   }
 
   public async ensurePageForRow(rowIndex: number): Promise<void> {
     // client 模式下不需要做任何事, 因为数据已在内存中
   }
 
-  public applyQuery(query: ITableQuery): Promise<{ totalRows: number; shouldResetScroll: boolean; }> {
+  public updateRow(rowIndex: number, patch: Record<string, any>): Record<string, any> | undefined {
+    // 视图里是 fullData 的下标, 原地改行对象, 再让列式存储重新编码这一行
+    const row = this.getRow(rowIndex)
+    if (!row) return undefined
+    Object.assign(row, patch)
+    const index = this.displayRows ? this.fullData.indexOf(row) : this.view[rowIndex]
+    this.store?.updateRow(index)
+    if (this.worker) {
+      this.worker.update(index, patch)
+      this.summaryCache = null
+    }
+    // 改到分组字段的话行要换组, 分组头上的聚合值也得重算
+    if (this.displayRows) this.rebuildGroups()
+    return row
+  }
+
+  public appendRows(rows: Record<string, any>[]): number {
+    // 追加的行不过筛选, 直接排在当前视图末尾
+    const start = this.fullData.length
+    if (this.store) this.store.append(rows)
+    else for (const row of rows) this.fullData.push(row)
+    const view = new Uint32Array(this.view.length + rows.length)
+    view.set(this.view)
+    for (let i = 0; i < rows.length; i++) view[this.view.length + i] = start + i
+    this.setView(view)
+    if (this.worker) {
+      this.worker.append(rows)
+      this.summaryCache = null
+    }
+    if (this.displayRows) this.rebuildGroups()
+    return this.getTotalRows()
+  }
+
+  public removeRows(rows: Record<string, any>[]): number {
+    const removing = new Set(rows)
+    const indices: number[] = []
+    this.fullData.forEach((row, i) => { if (removing.has(row)) indices.push(i) })
+    // fullData 原地压缩, 视图里的下标跟着换
+    const remap = this.store ? this.store.remove(indices) : compactRows(this.fullData, indices)
+    this.setView(remapIndices(this.view, remap))
+    if (this.worker) {
+      this.worker.remove(indices)
+      this.summaryCache = null
+    }
+    if (this.displayRows) this.rebuildGroups()
+    return this.getTotalRows()
+  }
+
+  /**
+   * 实时推送的一批增删改, 顺序: 先删 -> 再加 -> 最后改 (同一批里先加后改也能对上)
+   * 改过的行原地不动 (和单元格编辑一样), 下次排序/筛选才重新归位
+   */
+  public applyTransaction(
+    transaction: IRowTransaction,
+    getKey: RowKeyGetter,
+    derive?: (row: Record<string, any>, patch: Record<string, any>) => Record<string, any>
+  ): RowTransactionOutcome {
+    const outcome: RowTransactionOutcome = { added: 0, updated: 0, removed: 0, missing: [], changedRows: [], structural: false }
+    const rowByKey = new Map<RowKey, Record<string, any>>()
+    if (transaction.update?.length || transaction.remove?.length) {
+      this.fullData.forEach((row, i) => rowByKey.set(getKey(row, i), row))
+    }
+
+    // 1. 删
+    const removing: Record<string, any>[] = []
+    for (const key of transaction.remove ?? []) {
+      const row = rowByKey.get(key)
+      if (!row) {
+        outcome.missing.push(key)
+        continue
+      }
+      removing.push(row)
+      rowByKey.delete(key)
+    }
+    if (removing.length > 0) {
+      this.removeRows(removing)
+      outcome.removed = removing.length
+      outcome.structural = true
+    }
+
+    // 2. 加
+    if (transaction.add?.length) {
+      const start = this.fullData.length
+      this.appendRows(transaction.add)
+      transaction.add.forEach((row, i) => rowByKey.set(getKey(row, start + i), row))
+      outcome.added = transaction.add.length
+      outcome.structural = true
+    }
+
+    // 3. 改: 只记真的变了的字段, 闪烁用
+    const changed = new Map<Record<string, any>, { keys: Set<string>; patch: Record<string, any> }>()
+    for (const update of transaction.update ?? []) {
+      const key = getKey(update, -1)
+      const row = rowByKey.get(key)
+      if (!row) {
+        outcome.missing.push(key)
+        continue
+      }
+      // 计算列跟着一起改, 变了的也闪
+      const patch = derive ? { ...update, ...derive(row, update) } : update
+      const keys = Object.keys(patch).filter(field => row[field] !== patch[field])
+      if (keys.length === 0) continue
+      Object.assign(row, patch)
+      const entry = changed.get(row) ?? { keys: new Set<string>(), patch: {} }
+      keys.forEach(field => entry.keys.add(field))
+      Object.assign(entry.patch, patch)
+      changed.set(row, entry)
+    }
+    outcome.updated = changed.size
+    if (changed.size === 0) return outcome
+
+    // 列式存储 / worker 按 fullData 下标同步
+    this.fullData.forEach((row, index) => {
+      const entry = changed.get(row)
+      if (!entry) return
+      this.store?.updateRow(index)
+      this.worker?.update(index, entry.patch)
+    })
+    this.summaryCache = null
+    // 改到分组字段的话行要换组
+    if (this.displayRows) {
+      this.rebuildGroups()
+      outcome.structural = true
+    }
+    // 改过的行在当前结果里的位置
+    const total = this.getTotalRows()
+    for (let rowIndex = 0; rowIndex < total; rowIndex++) {
+      const row = this.getRow(rowIndex)
+      const entry = row && changed.get(row)
+      if (entry) outcome.changedRows.push({ rowIndex, keys: [...entry.keys] })
+    }
+    return outcome
+  }
+
+  public refreshRows(rows: Record<string, any>[]): void {
+    const changed = new Set(rows)
+    this.fullData.forEach((row, index) => {
+      if (!changed.has(row)) return
+      this.store?.updateRow(index)
+      // 改了哪些字段不知道, 整行发过去
+      this.worker?.update(index, row)
+    })
+    this.summaryCache = null
+    if (this.displayRows) this.rebuildGroups()
+  }
+
+  public setColumns(columns: IColumn[], calculated: CalculatedColumns): Map<Record<string, any>, Record<string, any>> {
+    // 删掉的计算列, 行上的旧值也清掉, 不然全局搜索还能搜到 (有计算列值的行都是自己拷的, 能改)
+    const keys = new Set(columns.map(col => col.key))
+    const dropped = this.columns.filter(col => col.expression && !keys.has(col.key)).map(col => col.key)
+    if (dropped.length > 0) {
+      for (const row of this.fullData) {
+        for (const key of dropped) delete row[key]
+      }
+    }
+    // 第一次加计算列时行还是用户的对象, materialize 会换成拷贝, 下标不变
+    const materialized = calculated.materialize(this.fullData)
+    const replaced = new Map<Record<string, any>, Record<string, any>>()
+    materialized.forEach((row, i) => {
+      if (row !== this.fullData[i]) replaced.set(this.fullData[i], row)
+    })
+    if (replaced.size > 0) {
+      this.fullData = materialized
+      this.viewRows = null
+      if (this.displayRows) this.rebuildGroups()
+    }
+    // 拷一份, 外面的列数组是原地改的, 下次才比得出删了哪些
+    this.columns = [...columns]
+    // 新列要编码, 汇总列也可能变了, 两边都整个重建
+    if (this.worker) {
+      this.worker.reset(this.fullData, columns)
+      this.summaryCache = null
+    } else {
+      this.store = new ColumnarStore(this.fullData, columns)
+    }
+    return replaced
+  }
+
+  public findRow(predicate: (row: Record<string, any>, rowIndex: number) => boolean): { row: Record<string, any>; rowIndex: number } | undefined {
+    const rowIndex = this.displayRows
+      ? this.displayRows.findIndex((item, i) => !this.groupRows.has(item) && predicate(item, i))
+      : this.view.findIndex((index, i) => predicate(this.fullData[index], i))
+    // 分组折叠着的行不在 displayRows 里, 和被筛掉的一样按 -1 处理
+    if (rowIndex >= 0) return { row: this.getRow(rowIndex)!, rowIndex }
+    // 被筛选掉了, 数据还在, 只是当前看不到
+    const row = this.fullData.find(r => predicate(r, -1))
+    return row ? { row, rowIndex: -1 } : undefined
+  }
+
+  public async applyQuery(query: ITableQuery): Promise<{ totalRows: number; shouldResetScroll: boolean; }> {
+    const seq = ++this.querySeq
     this.currentQuery = query
-    // 1. 先应用筛选
-    this.filteredData = this.applyFilters(this.fullData, query)
-    // 2. 再应用排序
-    if (query.sortKey && query.sortDirection) {
-      this.filteredData = this.applySort(this.filteredData, query.sortKey, query.sortDirection)
+    // 1+2. 筛选 + 排序在 worker 里做, 回来的是排好序的下标; worker 中途回退了就还是走下面的 store
+    const result = this.worker ? await this.queryInWorker(this.worker, query) : null
+    if (seq !== this.querySeq) return { totalRows: this.getTotalRows(), shouldResetScroll: true }
+    if (result) {
+      this.setView(result.indices)
+      this.summaryCache = result.summary
+    } else if (this.store) {
+      // 1+2. 筛选 + 排序 (优先 sorts 多列, 兼容只传了 sortKey 的老写法)
+      this.setView(this.store.query(query))
+    }
+    // 3. 最后分组, 组内保持排序后的顺序
+    const groupBy = (query.groupBy ?? []).filter(key => this.columns.some(col => col.key === key))
+    if (groupBy.join('\u0000') !== this.groupBy.join('\u0000')) {
+      this.collapsed.clear()
     }
+    this.groupBy = groupBy
+    this.rebuildGroups()
 
-    // 即便是同步也用 Promise 保持和异步的 server 一致
-    return Promise.resolve({
-      totalRows: this.filteredData.length,
+    return {
+      totalRows: this.getTotalRows(),
       shouldResetScroll: true  // client 模式总是回到顶部
-    })
+    }
   }
 
   /**
    * 获取总结行数据 (同步)
-   * Client 模式下实时计算总结行
+   * Client 模式下实时计算总结行, worker 算好的直接用 (改过数据后作废, 回退到这边算)
    */
   public getSummary(): Record<string, any> | null {
     if (!this.columns || this.columns.length === 0) {
       return null 
     }
-   
-    const summary: Record<string, any> = {}
-    let hasSummary = false 
+    if (this.summaryCache) return this.summaryCache
+    return calculateSummary(this.columns, this.getAllData())
+  }
 
-    for (const col of this.columns) {
-      if (col.summaryType && col.summaryType !== 'none') {
-        // 单列的汇总值
-        const value = this.calculateColumnSummary(col, this.filteredData)
-        summary[col.key] = value 
-        hasSummary = true 
-      }
-    }
+  public getTotalRows(): number {
+    return this.displayRows ? this.displayRows.length : this.view.length
+  }
 
-    return hasSummary ? summary : null 
+  public setCollapsedGroups(groupIds: string[]): number {
+    this.collapsed = new Set(groupIds)
+    if (this.displayRows) this.flattenGroups()
+    return this.getTotalRows()
   }
 
-  /**  
-   * 计算单列的汇总值
-   */
-  private calculateColumnSummary(col: IColumn, data: Record<string, any>[]): any {
-    if (!col.summaryType || col.summaryType === 'none' || data.length === 0) {
-      return null 
+  public getGroupIds(): string[] {
+    const ids: string[] = []
+    const walk = (nodes: GroupNode[]) => {
+      for (const node of nodes) {
+        ids.push(node.group.id)
+        walk(node.children)
+      }
     }
-    // 获取一列的值的数组, 将 null 排除了, map + filter 复杂度O(n) 但准确稳定
-    const values = data.map(row => row[col.key]).filter(v => v != null)
+    walk(this.groupTree)
+    return ids
+  }
 
-    switch(col.summaryType) {
-      case 'sum': {
-        const numValues = values.map(v => Number(v)).filter(v => !isNaN(v))
-        return numValues.reduce((acc, val) => acc + val, 0)
-      }
+  /** 按 groupBy 重新分组 (筛选/排序/数据变了都要重来), 不分组时清空 */
+  private rebuildGroups(): void {
+    if (this.groupBy.length === 0) {
+      this.groupTree = []
+      this.displayRows = null
+      this.groupRows.clear()
+      return
+    }
+    this.groupTree = this.buildGroupNodes(this.getAllData(), 0, [])
+    this.flattenGroups()
+  }
 
-      case 'avg': {
-        const numValues = values.map(v => Number(v)).filter(v => !isNaN(v))
-        if (numValues.length === 0) return 0
-        const sum = numValues.reduce((acc, val) => acc + val, 0)
-        return sum / numValues.length
+  /** 递归分组, 组的顺序按组内第一行出现的先后, 这样排序结果在组之间也能体现 */
+  private buildGroupNodes(rows: Record<string, any>[], level: number, path: any[]): GroupNode[] {
+    const field = this.groupBy[level]
+    const buckets = new Map<string, { value: any; rows: Record<string, any>[] }>()
+    for (const row of rows) {
+      const value = row[field]
+      const bucketKey = String(value ?? '')
+      let bucket = buckets.get(bucketKey)
+      if (!bucket) {
+        bucket = { value, rows: [] }
+        buckets.set(bucketKey, bucket)
       }
+      bucket.rows.push(row)
+    }
 
-      case 'count': {
-        return values.length
+    const isLeaf = level === this.groupBy.length - 1
+    const nodes: GroupNode[] = []
+    for (const [bucketKey, bucket] of buckets) {
+      const nextPath = [...path, bucketKey]
+      const summary: Record<string, any> = {}
+      for (const col of this.columns) {
+        if (col.summaryType && col.summaryType !== 'none') {
+          summary[col.key] = calculateColumnSummary(col, bucket.rows)
+        }
       }
-
-      // case ... 更多单列计算值
-
-      default: 
-        return null 
+      nodes.push({
+        group: {
+          id: JSON.stringify(nextPath),
+          field,
+          value: bucket.value,
+          level,
+          count: bucket.rows.length,
+          expanded: true,
+          summary
+        },
+        children: isLeaf ? [] : this.buildGroupNodes(bucket.rows, level + 1, nextPath),
+        rows: isLeaf ? bucket.rows : []
+      })
     }
+    return nodes
   }
 
-  public getTotalRows(): number {
-    return this.filteredData.length
+  /** 分组树按折叠状态拍平成 displayRows, 折叠的组只留分组头 */
+  private flattenGroups(): void {
+    const display: (Record<string, any> | IGroupRow)[] = []
+    this.groupRows.clear()
+    const walk = (nodes: GroupNode[]) => {
+      for (const node of nodes) {
+        node.group.expanded = !this.collapsed.has(node.group.id)
+        display.push(node.group)
+        this.groupRows.add(node.group)
+        if (!node.group.expanded) continue
+        if (node.children.length > 0) walk(node.children)
+        else for (const row of node.rows) display.push(row)
+      }
+    }
+    walk(this.groupTree)
+    this.displayRows = display
   }
 
   /** 获取列的筛选选项 */
   public getFilterOptions(columnKey: string): string[] {
-    const valSet = new Set<string>()
-    const limit = 1000 // 最多取前 1000 个不同值
-    
     // 从全量数据中提取
-    for (const row of this.fullData) {
-      if (valSet.size >= limit) break 
-      const val = String(row[columnKey] ?? '')
-      if (val) valSet.add(val)
-    }
-    return Array.from(valSet).sort()
-  }
-
-  /** 应用筛选条件 */
-  private applyFilters(data: Record<string, any>[], query: ITableQuery): Record<string, any>[] {
-    let result = [...data]
-    // 全局筛选
-    if (query.filterText) {
-      const text = query.filterText.toLowerCase()
-      result = result.filter(row => {
-        return Object.values(row).some(val => String(val).toLowerCase().includes(text))
-      })
-    }
+    return this.store ? this.store.filterOptions(columnKey) : collectFilterOptions(this.fullData, columnKey)
+  }
 
-    // 列筛选 
-    if (query.columnFilters) {
-      result = result.filter(row => {
-        return this.matchesColumnFilters(row, query.columnFilters!)
-      })
-    }
-    
-    return result
+  /** 筛选选项 (异步), 有 worker 就让它去扫全量数据 */
+  public loadFilterOptions(columnKey: string): Promise<string[]> {
+    if (!this.worker) return Promise.resolve(this.getFilterOptions(columnKey))
+    return this.worker.filterOptions(columnKey).catch(err => {
+      if (this.worker) throw err
+      return this.getFilterOptions(columnKey)
+    })
+  }
+
+  /** 获取 (筛选后的) 全量数据, 透视表等场景需要 */
+  public getAllData(): Record<string, any>[] {
+    this.viewRows ??= Array.from(this.view, i => this.fullData[i])
+    return this.viewRows
   }
 
-  /** 列筛选匹配逻辑, 判断 该行 是否满足筛选条件 */
-  private matchesColumnFilters(
-    row: Record<string, any>,
-    columnFilters: Record<string, ColumnFilterValue>
-  ): boolean {
+  private setView(view: Uint32Array): void {
+    this.view = view
+    this.viewRows = null
+  }
 
-    for (const key in columnFilters) {
-      const filter = columnFilters[key]
-      const cellVal = row[key]
+  /** worker 按当前筛选结果建透视树, 回来的明细节点只带下标, 这里补回 fullData 里的行 */
+  private async buildPivotInWorker(worker: ClientQueryWorker, config: IPivotConfig): Promise<{ colTree: IPivotColNode; tree: IPivotTreeNode }> {
+    if (!this.worker) return this.buildPivotInMainThread(config)
+    let result: { colTree: IPivotColNode; tree: IPivotTreeNode }
+    try {
+      result = await worker.buildPivot(config)
+    } catch (err) {
+      if (this.worker) throw err
+      return this.buildPivotInMainThread(config)
+    }
+    const stack = [result.tree]
+    while (stack.length > 0) {
+      const node = stack.pop()!
+      if (node.type === 'data' && node.rowIndex !== undefined) {
+        const row = this.fullData[node.rowIndex]
+        node.aggregatedData = row
+        node.rawRows = [row]
+      }
+      // 明细节点可能几十万个, 不能 push(...children) 展开传参
+      for (const child of node.children) stack.push(child)
+    }
+    return result
+  }
 
-      // 按字段配置的类型来确定筛选逻辑
-      if (filter.kind === 'set') {
-        if (filter.values.length === 0) continue
-        if (!filter.values.includes(String(cellVal ?? ''))) return false 
+  private buildPivotInMainThread(config: IPivotConfig): { colTree: IPivotColNode; tree: IPivotTreeNode } {
+    const processor = new PivotDataProcessor(config)
+    const rows = this.getAllData()
+    const colTree = processor.buildColTree(rows)
+    return { colTree, tree: processor.buildPivotTree(rows) }
+  }
 
-      } else if (filter.kind === 'text') {
-        if (!filter.value) continue
-        if (!String(cellVal ?? '').toLowerCase().includes(filter.value.toLowerCase())) {
-          return false 
-        }
+  /** worker 查询; 等的过程中 worker 初始化失败回退了就返回 null, 调用方改走主线程 */
+  private async queryInWorker(worker: ClientQueryWorker, query: ITableQuery): Promise<{ indices: Uint32Array; summary: Record<string, any> | null } | null> {
+    try {
+      return await worker.query(query)
+    } catch (err) {
+      if (this.worker) throw err
+      return null
+    }
+  }
 
-      } else if (filter.kind === 'dateRange') {
-        // 日期转字符比较比较不确定是否会有问题
-        const dateStr = String(cellVal ?? '')
-        if (filter.start && dateStr < filter.start) return false 
-        if (filter.end && dateStr > filter.end) return false
-
-      } else if (filter.kind === 'numberRange') {
-        const num = Number(cellVal)
-        if (isNaN(num)) return false 
-        // 值小于筛选区间的 最小值, 或者 大于 筛选区间的 最大值, 都不行
-        if (filter.min !== undefined && num < filter.min) return false 
-        if (filter.max !== undefined && num > filter.max) return false 
-
-      } // else if ...其他
-    }
-    return true 
-  }
-
-  /** 应用排序 */
-  private applySort(
-    data: Record<string, any>[],
-    sortKey: string,
-    sortDirection: 'asc' | 'desc'
-  ): Record<string, any>[] {
-    const sorted = [...data]
-    // 排序兼容数字和文字
-    sorted.sort((a, b) => {
-      const aVal = a[sortKey]
-      const bVal = b[sortKey]
-      // 数字比较
-      const aNum = parseFloat(aVal)
-      const bNum = parseFloat(bVal)
-      if (!isNaN(aNum) && !isNaN(bNum)) {
-        return sortDirection === 'asc' ? (aNum - bNum) : (bNum - aNum)
-      }
-      // 字符串比较
-      const aStr = String(aVal)
-      const bStr = String(bVal)
-      if (sortDirection === 'asc') {
-        return aStr.localeCompare(bStr)
-      } else {
-        return bStr.localeCompare(aStr)
-      }
-    })
-    return sorted 
+  /** worker 里没有数据了, 换成主线程的列式存储, 当前视图按主线程重新查一遍 */
+  private fallbackToMainThread(err: Error): void {
+    if (!this.worker) return
+    this.worker = null
+    this.summaryCache = null
+    this.store = new ColumnarStore(this.fullData, this.columns)
+    this.setView(this.store.query(this.currentQuery))
+    if (this.displayRows) this.rebuildGroups()
+    this.workerError = err
+    this.errorListener?.(err)
   }
 
-  /** 获取全量数据, 透视表等场景需要 */
-  public getAllData(): Record<string, any>[] {
-    return this.filteredData
+  public destroy(): void {
+    this.worker?.terminate()
+    this.worker = null
   }
 
 }
\ No newline at end of file
@@ -0,0 +1,136 @@
+import type { ITableQuery } from "@/types";
+import type { IPivotColNode, IPivotConfig, IPivotTreeNode } from "@/types/pivot";
+import type { SummaryColumn } from "@/table/data/clientQuery";
+import type { StoreColumn } from "@/table/data/ColumnarStore";
+// 打包成库时 worker 内联成 blob, 用的人不用另外部署 worker 文件
+import QueryWorker from "@/table/data/clientQuery.worker?worker&inline";
+
+/**
+ * client 模式的查询 worker (主线程这一侧)
+ *
+ * - worker 里有一份全量数据的拷贝, 筛选 / 排序 / 汇总 / 筛选选项 / 透视建树都在那边算
+ * - 查询结果只回传下标数组 (Uint32Array, transfer 过来不拷贝), 主线程按下标取回自己的行对象
+ * - 主线程改了数据 (编辑 / 粘贴追加 / 删除) 要同步过去, 两边下标保持一致
+ */
+
+// ===== 消息协议 ==========
+export type QueryWorkerRequest =
+  | { type: 'init'; rows: Record<string, any>[]; columns: (SummaryColumn & StoreColumn)[] }
+  | { type: 'query'; query: ITableQuery }
+  | { type: 'filterOptions'; key: string }
+  | { type: 'pivot'; config: IPivotConfig }
+  | { type: 'update'; index: number; patch: Record<string, any> }
+  | { type: 'append'; rows: Record<string, any>[] }
+  | { type: 'remove'; indices: number[] }
+
+export type QueryWorkerResult =
+  | { type: 'query'; indices: Uint32Array; summary: Record<string, any> | null }
+  | { type: 'filterOptions'; options: string[] }
+  | { type: 'pivot'; colTree: IPivotColNode; tree: IPivotTreeNode } // 明细节点只带 rowIndex, 主线程自己补行
+  | { type: 'ack' }
+
+export type QueryWorkerResponse =
+  | ({ id: number } & QueryWorkerResult)
+  | { id: number; type: 'error'; message: string }
+
+type ResultOf<T extends QueryWorkerResult['type']> = Extract<QueryWorkerResult, { type: T }>
+
+export class ClientQueryWorker {
+  private worker: Worker
+  private seq = 0
+  private pending = new Map<number, { resolve: (res: QueryWorkerResult) => void; reject: (err: Error) => void }>()
+  private initError: Error | null = null // 全量数据没传过去, worker 已经废了
+  private failureListener: ((err: Error) => void) | null = null
+
+  constructor(rows: Record<string, any>[], columns: (SummaryColumn & StoreColumn)[]) {
+    this.worker = new QueryWorker()
+    this.worker.onmessage = (e: MessageEvent<QueryWorkerResponse>) => {
+      const res = e.data
+      const task = this.pending.get(res.id)
+      if (!task) return
+      this.pending.delete(res.id)
+      if (res.type === 'error') task.reject(new Error(res.message))
+      else task.resolve(res)
+    }
+    this.worker.onerror = (e) => {
+      // worker 整个挂了, 还在等的全部失败
+      const err = new Error(`[ClientQueryWorker] worker 出错: ${e.message}`)
+      this.pending.forEach(task => task.reject(err))
+      this.pending.clear()
+    }
+    this.reset(rows, columns)
+  }
+
+  /**
+   * 全量数据整个重发一遍 (构造时一次, 之后只有列配置变了才会再来, 比如新增计算列)
+   * 行对象会被结构化克隆一份过去, 行里有函数之类克隆不了的值会失败;
+   * 失败了 worker 里是空的, 再查只会查出 0 行, 所以直接销毁 worker, 通知外面回退到主线程
+   */
+  public reset(rows: Record<string, any>[], columns: (SummaryColumn & StoreColumn)[]): void {
+    this.send({ type: 'init', rows, columns: columns.map(({ key, summaryType, dataType }) => ({ key, summaryType, dataType })) })
+      .catch(err => this.fail(err))
+  }
+
+  /** 注册初始化失败回调; 注册前就已经失败了的话马上回调 */
+  public onFailure(listener: (err: Error) => void): void {
+    this.failureListener = listener
+    if (this.initError) listener(this.initError)
+  }
+
+  /** 筛选 + 排序, 返回命中行在全量数据里的下标 (已排好序) 和总结行 */
+  public async query(query: ITableQuery): Promise<{ indices: Uint32Array; summary: Record<string, any> | null }> {
+    const res = await this.send({ type: 'query', query }) as ResultOf<'query'>
+    return { indices: res.indices, summary: res.summary }
+  }
+
+  public async filterOptions(key: string): Promise<string[]> {
+    const res = await this.send({ type: 'filterOptions', key }) as ResultOf<'filterOptions'>
+    return res.options
+  }
+
+  /** 按最近一次 query 的结果建透视树 */
+  public async buildPivot(config: IPivotConfig): Promise<{ colTree: IPivotColNode; tree: IPivotTreeNode }> {
+    const res = await this.send({ type: 'pivot', config }) as ResultOf<'pivot'>
+    return { colTree: res.colTree, tree: res.tree }
+  }
+
+  // 下面几个是同步数据修改, 消息按顺序处理, 不用等回执
+  public update(index: number, patch: Record<string, any>): void {
+    void this.send({ type: 'update', index, patch }).catch(console.warn)
+  }
+
+  public append(rows: Record<string, any>[]): void {
+    void this.send({ type: 'append', rows }).catch(console.warn)
+  }
+
+  public remove(indices: number[]): void {
+    void this.send({ type: 'remove', indices }).catch(console.warn)
+  }
+
+  public terminate(): void {
+    this.worker.terminate()
+    const err = new Error('[ClientQueryWorker] worker 已销毁')
+    this.pending.forEach(task => task.reject(err))
+    this.pending.clear()
+  }
+
+  // 先通知外面回退, 再让还在等的请求失败, 等着的一方能看出是回退了
+  private fail(err: unknown): void {
+    if (this.initError) return
+    const error = new Error(`[ClientQueryWorker] 数据传给 worker 失败: ${err instanceof Error ? err.message : String(err)}`)
+    this.initError = error
+    this.worker.terminate()
+    this.failureListener?.(error)
+    this.pending.forEach(task => task.reject(error))
+    this.pending.clear()
+  }
+
+  private send(message: QueryWorkerRequest): Promise<QueryWorkerResult> {
+    if (this.initError) return Promise.reject(this.initError)
+    const id = ++this.seq
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject })
+      this.worker.postMessage({ id, ...message })
+    })
+  }
+}
@@ -0,0 +1,322 @@
+import type { ColumnFilterValue, IColumn, ITableQuery } from "@/types";
+import { compareValues, compileFilterGroup, matchesColumnFilters, resolveSorts } from "@/table/data/clientQuery";
+import { inferColumnTypes } from "@/utils/inferColumnType";
+
+/**
+ * client 模式的列式存储
+ *
+ * - 行对象还是那一批 (getRow / 编辑都要原对象), 另外按列编码一份专门给筛选排序用
+ * - number / date 列: Float64Array (date 存时间戳), 空值或解析不了的是 NaN
+ * - 其他列: 字典编码, 每行只存一个字典下标 (Uint32Array), 字符串比较 / 匹配按字典项做一次就够
+ * - 全局搜索用的小写拼接串按行缓存, 不用每次查询都把整行 String 一遍
+ * - 查询结果是下标数组 (筛选 + 排序后的顺序), 不拷贝行
+ *
+ * NaN 的格子 (空值 / 脏数据) 排序和筛选都退回按原始值比较, 保证和以前逐行判断的结果一致
+ */
+
+export type StoreColumn = Pick<IColumn, 'key' | 'dataType'>
+
+type ColumnVector =
+  | { kind: 'number' | 'date'; values: Float64Array }
+  | { kind: 'dict'; codes: Uint32Array; dict: string[]; lookup: Map<string, number>; ranks: Uint32Array | null }
+
+type RowPredicate = (index: number) => boolean
+
+const SEARCH_SEPARATOR = '\u0000' // 搜索词里不会有, 不会跨字段误匹配
+
+export class ColumnarStore {
+  private rows: Record<string, any>[]
+  private vectors = new Map<string, ColumnVector>()
+  private searchKeys: (string | undefined)[] = [] // 按需生成, 改过的行清掉重算
+  private capacity = 0
+
+  /** rows 直接持有 (不拷贝), 追加 / 删除都原地改 */
+  constructor(rows: Record<string, any>[], columns: StoreColumn[]) {
+    this.rows = rows
+    this.capacity = Math.max(rows.length, 16)
+    // 没配 dataType 的列按数据推断, 和表格初始化时的推断是同一套, 结果一致
+    for (const col of inferColumnTypes(columns, rows)) {
+      const kind = col.dataType === 'number' || col.dataType === 'date' ? col.dataType : 'dict'
+      const vector: ColumnVector = kind === 'dict'
+        ? { kind, codes: new Uint32Array(this.capacity), dict: [], lookup: new Map(), ranks: null }
+        : { kind, values: new Float64Array(this.capacity) }
+      for (let i = 0; i < rows.length; i++) encodeCell(vector, i, rows[i][col.key])
+      this.vectors.set(col.key, vector)
+    }
+  }
+
+  public get size(): number {
+    return this.rows.length
+  }
+
+  public getRows(): Record<string, any>[] {
+    return this.rows
+  }
+
+  /** 筛选 + 排序, 返回命中行的下标 (按排序后的顺序) */
+  public query(query: ITableQuery): Uint32Array {
+    const predicates = this.compileFilters(query)
+    const matched: number[] = []
+    for (let i = 0; i < this.rows.length; i++) {
+      if (predicates.every(test => test(i))) matched.push(i)
+    }
+
+    const comparators = resolveSorts(query).map(({ key, direction }) => {
+      const compare = this.compileComparator(key)
+      return direction === 'asc' ? compare : (a: number, b: number) => -compare(a, b)
+    })
+    if (comparators.length > 0) {
+      // 按优先级逐个比较, 前一列相等才看下一列; Array.sort 是稳定的, 全相等的保持原顺序
+      matched.sort((a, b) => {
+        for (const compare of comparators) {
+          const result = compare(a, b)
+          if (result !== 0) return result
+        }
+        return 0
+      })
+    }
+    return Uint32Array.from(matched)
+  }
+
+  /** 列的筛选选项, 最多取前 limit 个不同值, 和 collectFilterOptions 一个规则 */
+  public filterOptions(columnKey: string, limit = 1000): string[] {
+    const vector = this.vectors.get(columnKey)
+    const valSet = new Set<string>()
+    if (vector?.kind === 'dict') {
+      // 扫字典下标就行, 字典里可能有改没了的旧值, 所以不能直接拿字典
+      const seen = new Uint8Array(vector.dict.length)
+      for (let i = 0; i < this.rows.length && valSet.size < limit; i++) {
+        const code = vector.codes[i]
+        if (seen[code]) continue
+        seen[code] = 1
+        if (vector.dict[code]) valSet.add(vector.dict[code])
+      }
+    } else {
+      for (let i = 0; i < this.rows.length && valSet.size < limit; i++) {
+        const val = String(this.rows[i][columnKey] ?? '')
+        if (val) valSet.add(val)
+      }
+    }
+    return Array.from(valSet).sort()
+  }
+
+  /** 第 index 行的对象被原地改过了, 重新编码 */
+  public updateRow(index: number): void {
+    const row = this.rows[index]
+    if (!row) return
+    this.vectors.forEach((vector, key) => encodeCell(vector, index, row[key]))
+    this.searchKeys[index] = undefined
+  }
+
+  public append(rows: Record<string, any>[]): void {
+    const start = this.rows.length
+    for (const row of rows) this.rows.push(row)
+    this.ensureCapacity(this.rows.length)
+    this.vectors.forEach((vector, key) => {
+      for (let i = start; i < this.rows.length; i++) encodeCell(vector, i, this.rows[i][key])
+    })
+  }
+
+  /** 删掉一批行 (按下标), 返回 remap[旧下标] = 新下标, 删掉的是 -1 */
+  public remove(indices: number[]): Int32Array {
+    const remap = compactRows(this.rows, indices)
+    this.vectors.forEach(vector => {
+      const column = vector.kind === 'dict' ? vector.codes : vector.values
+      remap.forEach((to, from) => { if (to >= 0) column[to] = column[from] })
+    })
+    const keys = this.searchKeys
+    this.searchKeys = []
+    remap.forEach((to, from) => { if (to >= 0) this.searchKeys[to] = keys[from] })
+    return remap
+  }
+
+  // ===== 筛选 ==========
+
+  private compileFilters(query: ITableQuery): RowPredicate[] {
+    const predicates: RowPredicate[] = []
+    const text = query.filterText?.toLowerCase()
+    if (text) {
+      predicates.push(i => this.searchKeyOf(i).includes(text))
+    }
+    for (const key in query.columnFilters ?? {}) {
+      const predicate = this.compileColumnFilter(key, query.columnFilters![key])
+      if (predicate) predicates.push(predicate)
+    }
+    // 高级筛选条件组合太多, 不按列优化了, 统一逐行判断
+    if (query.advancedFilter) {
+      const test = compileFilterGroup(query.advancedFilter)
+      predicates.push(i => test(this.rows[i]))
+    }
+    return predicates
+  }
+
+  /** 单列筛选编译成 按下标判断 的函数, 不需要筛的返回 null */
+  private compileColumnFilter(key: string, filter: ColumnFilterValue): RowPredicate | null {
+    const vector = this.vectors.get(key)
+    // 逐行按原始值判断, 没编码的列 / 没专门优化的组合都走这个
+    const byRow: RowPredicate = i => matchesColumnFilters(this.rows[i], { [key]: filter })
+
+    if (filter.kind === 'set') {
+      if (filter.values.length === 0) return null
+      if (vector?.kind !== 'dict') return byRow
+      const allowed = new Uint8Array(vector.dict.length)
+      for (const val of filter.values) {
+        const code = vector.lookup.get(val)
+        if (code !== undefined) allowed[code] = 1
+      }
+      const codes = vector.codes
+      return i => allowed[codes[i]] === 1
+    }
+
+    if (filter.kind === 'text') {
+      if (!filter.value) return null
+      if (vector?.kind !== 'dict') return byRow
+      // 每个字典项只判断一次
+      const needle = filter.value.toLowerCase()
+      const hits = vector.dict.map(val => val.toLowerCase().includes(needle))
+      const codes = vector.codes
+      return i => hits[codes[i]]
+    }
+
+    if (filter.kind === 'numberRange' && vector?.kind === 'number') {
+      const { min, max } = filter
+      const values = vector.values
+      return i => {
+        const num = values[i]
+        if (isNaN(num)) return byRow(i)
+        return (min === undefined || num >= min) && (max === undefined || num <= max)
+      }
+    }
+
+    if (filter.kind === 'dateRange' && vector?.kind === 'date') {
+      // 按时间戳比, 月日没补 0 的日期 (2024-1-5) 也能比对
+      const start = filter.start ? parseDate(filter.start) : -Infinity
+      const end = filter.end ? parseDate(filter.end) : Infinity
+      if (isNaN(start) || isNaN(end)) return byRow
+      const values = vector.values
+      return i => {
+        const time = values[i]
+        if (isNaN(time)) return byRow(i)
+        return time >= start && time <= end
+      }
+    }
+
+    return byRow
+  }
+
+  private searchKeyOf(index: number): string {
+    let key = this.searchKeys[index]
+    if (key === undefined) {
+      key = Object.values(this.rows[index]).map(val => String(val).toLowerCase()).join(SEARCH_SEPARATOR)
+      this.searchKeys[index] = key
+    }
+    return key
+  }
+
+  // ===== 排序 ==========
+
+  /** 单列升序比较 (按下标) */
+  private compileComparator(key: string): (a: number, b: number) => number {
+    const vector = this.vectors.get(key)
+    const byRow = (a: number, b: number) => compareValues(this.rows[a][key], this.rows[b][key])
+    if (!vector) return byRow
+
+    if (vector.kind === 'dict') {
+      const ranks = this.ranksOf(vector)
+      const codes = vector.codes
+      return (a, b) => ranks[codes[a]] - ranks[codes[b]]
+    }
+
+    const values = vector.values
+    return (a, b) => {
+      const va = values[a]
+      const vb = values[b]
+      return isNaN(va) || isNaN(vb) ? byRow(a, b) : va - vb
+    }
+  }
+
+  /** 字典项的排序名次, 字典变了 (有新值) 才重算 */
+  private ranksOf(vector: Extract<ColumnVector, { kind: 'dict' }>): Uint32Array {
+    if (vector.ranks) return vector.ranks
+    const order = vector.dict.map((_, code) => code)
+    order.sort((a, b) => compareValues(vector.dict[a], vector.dict[b]))
+    const ranks = new Uint32Array(vector.dict.length)
+    // 比较结果相等的字典项名次也相同, 这样才和逐行比较一致
+    let rank = 0
+    order.forEach((code, i) => {
+      if (i > 0 && compareValues(vector.dict[order[i - 1]], vector.dict[code]) !== 0) rank = i
+      ranks[code] = rank
+    })
+    vector.ranks = ranks
+    return ranks
+  }
+
+  private ensureCapacity(size: number): void {
+    if (size <= this.capacity) return
+    while (this.capacity < size) this.capacity *= 2
+    this.vectors.forEach(vector => {
+      if (vector.kind === 'dict') {
+        const codes = new Uint32Array(this.capacity)
+        codes.set(vector.codes)
+        vector.codes = codes
+      } else {
+        const values = new Float64Array(this.capacity)
+        values.set(vector.values)
+        vector.values = values
+      }
+    })
+  }
+}
+
+/** 把原始值编码进第 index 格 */
+function encodeCell(vector: ColumnVector, index: number, raw: any): void {
+  if (vector.kind === 'dict') {
+    // 和列筛选一样, null / undefined 按空串算
+    const val = String(raw ?? '')
+    let code = vector.lookup.get(val)
+    if (code === undefined) {
+      code = vector.dict.length
+      vector.dict.push(val)
+      vector.lookup.set(val, code)
+      vector.ranks = null
+    }
+    vector.codes[index] = code
+  } else if (vector.kind === 'number') {
+    vector.values[index] = raw == null || raw === '' ? NaN : Number(raw)
+  } else {
+    vector.values[index] = raw instanceof Date ? raw.getTime() : parseDate(raw)
+  }
+}
+
+/** yyyy-MM-dd / yyyy/M/d 转时间戳, 不是这个格式的返回 NaN */
+function parseDate(raw: unknown): number {
+  if (typeof raw !== 'string') return NaN
+  const match = raw.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/)
+  return match ? Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : NaN
+}
+
+/** 原地删掉一批下标的行, 返回 remap[旧下标] = 新下标 (删掉的是 -1) */
+export function compactRows(rows: Record<string, any>[], indices: number[]): Int32Array {
+  const removing = new Set(indices)
+  const remap = new Int32Array(rows.length)
+  let kept = 0
+  for (let i = 0; i < rows.length; i++) {
+    if (removing.has(i)) {
+      remap[i] = -1
+    } else {
+      remap[i] = kept
+      rows[kept++] = rows[i]
+    }
+  }
+  rows.length = kept
+  return remap
+}
+
+/** 下标数组 (查询结果) 按 remap 换成新下标, 删掉的行去掉 */
+export function remapIndices(indices: Uint32Array, remap: Int32Array): Uint32Array {
+  const next: number[] = []
+  for (const i of indices) {
+    if (remap[i] >= 0) next.push(remap[i])
+  }
+  return Uint32Array.from(next)
+}
@@ -0,0 +1,185 @@
+import type { DataStrategy } from "@/table/data/DataStrategy";
+import type { ICursorPageResponse, IRetryConfig, ITableQuery } from "@/types";
+import { isRetryable } from "@/table/data/ServerDataStrategy";
+
+/**
+ * 游标数据策略 (无限滚动)
+ *
+ * - 后端只给 nextCursor, 没有总数, 不能按页码随机访问
+ * - 已加载的行后面挂一行 "加载中" 哨兵行, 它被滚进可视区 (含缓冲区) 就拉下一批
+ * - 拉回来的行追加到末尾, totalRows 跟着长, 通知外面同步滚动高度
+ * - nextCursor 为空即到底, 去掉哨兵行, 不再请求
+ * - applyQuery 清空重来, 旧链上还没回来的请求 abort 掉
+ * - 拉下一批失败和 server 模式一样按指数退避重试, 还失败哨兵行换成重试占位行, 点重试前不再拉
+ */
+export class CursorDataStrategy implements DataStrategy {
+  readonly mode = 'server' as const
+
+  private rows: Record<string, any>[] = []
+  private nextCursor: string | null = null
+  private hasMore = true
+  private loadedBatches = 0 // 已经拉回来几批, 报错时当页码用
+  private loading: Promise<void> | null = null // 同一时间只拉一批
+  private querySeq = 0 // 每次 applyQuery +1, 回来的请求对不上就丢掉
+  private queryController = new AbortController()
+  private currentQuery: ITableQuery = {}
+  private summaryCache: Record<string, any> | null = null
+  private totalRowsListener?: (totalRows: number) => void
+
+  private retry: Required<IRetryConfig>
+  private failed: Error | null = null // 下一批重试完了还失败, 点重试前不再拉
+  private errorListener?: (error: Error, pageIndex: number) => void
+  private bootstrapped = false // 首屏失败直接抛给调用方, 不走 errorListener
+
+  private fetchCursorPage: (cursor: string | null, query: ITableQuery, signal?: AbortSignal) => Promise<ICursorPageResponse>
+
+  constructor(
+    fetchCursorPage: (cursor: string | null, query: ITableQuery, signal?: AbortSignal) => Promise<ICursorPageResponse>,
+    retry: boolean | IRetryConfig = true
+  ) {
+    this.fetchCursorPage = fetchCursorPage
+    const retryConfig = typeof retry === 'object' ? retry : { retries: retry ? undefined : 0 }
+    this.retry = {
+      retries: retryConfig.retries ?? 2,
+      baseDelay: retryConfig.baseDelay ?? 500,
+      maxDelay: retryConfig.maxDelay ?? 5000
+    }
+  }
+
+  public async bootstrap(): Promise<{ totalRows: number; }> {
+    // 失败后点重试会再进来, 先把失败标记清掉
+    this.failed = null
+    await this.loadMore()
+    this.bootstrapped = true
+    return { totalRows: this.getTotalRows() }
+  }
+
+  public getRow(rowIndex: number): Record<string, any> | undefined {
+    return this.rows[rowIndex]
+  }
+
+  /** 只有哨兵行会走到这里 (已加载的行 getRow 就拿到了), 拉下一批后通知行数变了 */
+  public async ensurePageForRow(rowIndex: number): Promise<void> {
+    if (rowIndex < this.rows.length || !this.hasMore) return
+    if (this.failed) throw this.failed
+    const seq = this.querySeq
+    await this.loadMore()
+    if (seq === this.querySeq) {
+      this.totalRowsListener?.(this.getTotalRows())
+    }
+  }
+
+  public isSentinelRow(rowIndex: number): boolean {
+    return this.hasMore && rowIndex === this.rows.length
+  }
+
+  /** 失败的只会是哨兵行 */
+  public isRowFailed(rowIndex: number): boolean {
+    return this.failed !== null && this.isSentinelRow(rowIndex)
+  }
+
+  public clearFailedPages(): void {
+    this.failed = null
+  }
+
+  public setTotalRowsListener(listener: (totalRows: number) => void): void {
+    this.totalRowsListener = listener
+  }
+
+  /** 下一批重试完还失败时回调, 游标没有页码, 给的是第几批 */
+  public setErrorListener(listener: (error: Error, pageIndex: number) => void): void {
+    this.errorListener = listener
+  }
+
+  public updateRow(rowIndex: number, patch: Record<string, any>): Record<string, any> | undefined {
+    const row = this.rows[rowIndex]
+    if (!row) return undefined
+    Object.assign(row, patch)
+    return row
+  }
+
+  public findRow(predicate: (row: Record<string, any>, rowIndex: number) => boolean): { row: Record<string, any>; rowIndex: number } | undefined {
+    const rowIndex = this.rows.findIndex(predicate)
+    return rowIndex >= 0 ? { row: this.rows[rowIndex], rowIndex } : undefined
+  }
+
+  public async applyQuery(query: ITableQuery): Promise<{ totalRows: number; shouldResetScroll: boolean; }> {
+    // 游标链从头开始
+    this.querySeq++
+    this.queryController.abort()
+    this.queryController = new AbortController()
+    this.currentQuery = query
+    this.rows = []
+    this.loadedBatches = 0
+    this.nextCursor = null
+    this.hasMore = true
+    this.loading = null
+    this.failed = null
+    this.summaryCache = null
+
+    // 第 1 批失败已经通知过了, 旧数据清掉, 哨兵行显示重试占位行就行
+    await this.loadMore().catch(() => {})
+    return { totalRows: this.getTotalRows(), shouldResetScroll: true }
+  }
+
+  public getSummary(): Record<string, any> | null {
+    return this.summaryCache
+  }
+
+  /** 已加载行数, 还没到底的话 +1 哨兵行 */
+  public getTotalRows(): number {
+    return this.rows.length + (this.hasMore ? 1 : 0)
+  }
+
+  public getFilterOptions(columnKey: string): string[] {
+    console.warn('[CursorDataStrategy] 游标模式下应该通过 fetchFilterOptions 获取筛选选项')
+    return []
+  }
+
+  /** 拉下一批, 正在拉就等那一个 */
+  private loadMore(): Promise<void> {
+    if (!this.hasMore) return Promise.resolve()
+    if (this.loading) return this.loading
+
+    const seq = this.querySeq
+    const batchIndex = this.loadedBatches
+    const loading = this.fetchWithRetry(seq, this.queryController.signal)
+      .then((res) => {
+        if (seq !== this.querySeq) return // 已经换查询了
+        this.rows.push(...res.list)
+        this.loadedBatches++
+        this.nextCursor = res.nextCursor ?? null
+        // 没有下一页游标, 或者空批 (防后端一直给游标死循环) 都当到底
+        this.hasMore = this.nextCursor !== null && res.list.length > 0
+        if (res.summary) this.summaryCache = res.summary
+      })
+      .catch((err) => {
+        if (seq !== this.querySeq) return // 换查询被 abort 的, 不算失败
+        console.error('[CursorDataStrategy] 加载下一批失败:', err)
+        const error = err instanceof Error ? err : new Error(String(err))
+        this.failed = error
+        if (this.bootstrapped) this.errorListener?.(error, batchIndex)
+        throw error
+      })
+      .finally(() => {
+        if (this.loading === loading) this.loading = null
+      })
+    this.loading = loading
+    return loading
+  }
+
+  /** 拉一批, 失败了等 baseDelay * 2^n 再试, 等的时候换了查询就不试了 */
+  private async fetchWithRetry(seq: number, signal: AbortSignal): Promise<ICursorPageResponse> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.fetchCursorPage(this.nextCursor, this.currentQuery, signal)
+      } catch (err) {
+        if (seq !== this.querySeq || attempt >= this.retry.retries || !isRetryable(err)) throw err
+        const delay = Math.min(this.retry.baseDelay * 2 ** attempt, this.retry.maxDelay)
+        console.warn(`[CursorDataStrategy] 加载下一批失败, ${delay}ms 后第 ${attempt + 1} 次重试`, err)
+        await new Promise(resolve => setTimeout(resolve, delay))
+        if (seq !== this.querySeq) throw err
+      }
+    }
+  }
+}
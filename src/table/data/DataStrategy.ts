@@ -1,4 +1,7 @@
-import type { IPageResponse, ITableQuery } from "@/types";
+import type { IColumn, IConfig, ICursorPageResponse, IDataSource, IGroupRow, IPageResponse, IRowTransaction, IRowTransactionResult, ITableQuery } from "@/types";
+import type { RowKeyGetter } from "@/table/model/RowKeyModel";
+import type { CalculatedColumns } from "@/table/model/CalculatedColumns";
+import type { IPivotColNode, IPivotConfig, IPivotTreeNode } from "@/types/pivot";
 
 /**
  * 数据策略接口
@@ -23,6 +26,12 @@ export interface DataStrategy {
    */
   getRow(rowIndex: number): Record<string, any> | undefined
 
+  /**
+   * 可视区渲染时取行 (可选, 分页缓存用): 和 getRow 一样, 另外记命中统计、更新 LRU
+   * getRow 不计数, 批量扫描 (选中 / 导出) 不会把统计和淘汰顺序搅乱
+   */
+  readRow?(rowIndex: number): Record<string, any> | undefined
+
   /**
    * 确保某行数据已加载 (异步)
    * @param rowIndex - 行索引
@@ -60,6 +69,65 @@ export interface DataStrategy {
    */
   getFilterOptions(columnKey: string): string[]
 
+  /**
+   * 修改某行数据 (单元格编辑)
+   * - client 模式: 直接改 fullData 里的行对象
+   * - server 模式: 只改缓存页里的行, 真正保存靠 saveRows
+   * @param rowIndex - 行索引
+   * @param patch - 要修改的字段
+   * @returns 修改后的行, 若该行不存在 (未加载) 则返回 undefined
+   */
+  updateRow(rowIndex: number, patch: Record<string, any>): Record<string, any> | undefined
+
+  /**
+   * 按条件查找行 (rowKey 定位用)
+   * - client 模式: 先在当前结果里找, 找不到再去 fullData 找 (被筛掉的行 rowIndex 为 -1)
+   * - server 模式: 只能在已缓存的页里找
+   * @param predicate - 匹配条件
+   */
+  findRow(predicate: (row: Record<string, any>, rowIndex: number) => boolean): { row: Record<string, any>; rowIndex: number } | undefined
+
+  /**
+   * 追加新行到数据末尾 (可选, 仅 client 模式支持, 粘贴超出行数时用)
+   * 新行直接排在当前结果最后, 不参与排序/筛选, 直到下一次 applyQuery
+   * @returns 新的总行数
+   */
+  appendRows?(rows: Record<string, any>[]): number
+
+  /**
+   * 删掉之前追加的行 (可选, 仅 client 模式支持, 撤销粘贴用)
+   * @returns 新的总行数
+   */
+  removeRows?(rows: Record<string, any>[]): number
+
+  /**
+   * 按 rowKey 批量增删改 (可选, 实时推送用)
+   * - client 模式: 改 fullData, 新行排在当前结果末尾
+   * - server 模式: 只给缓存页里的行打补丁; 有增删的话位置都变了, 缓存整个作废重新拉
+   * 没实现的策略由 VirtualTable 按 findRow + updateRow 兜底, 只支持 update
+   * @param getKey - 取行主键
+   * @param derive - 有计算列时, 按原行和 patch 算出要跟着变的计算列, 合进 patch 一起改
+   */
+  applyTransaction?(
+    transaction: IRowTransaction,
+    getKey: RowKeyGetter,
+    derive?: (row: Record<string, any>, patch: Record<string, any>) => Record<string, any>
+  ): RowTransactionOutcome
+
+  /**
+   * 这些行对象被外面原地改过了 (可选, 撤销/重做/粘贴直接写的行对象)
+   * client 模式的列式存储 / worker 里的拷贝要跟着同步, 不然排序筛选还按旧值
+   */
+  refreshRows?(rows: Record<string, any>[]): void
+
+  /**
+   * 列配置变了 (可选, 运行时增删改计算列)
+   * client 模式: 按 calculated 把全量数据的计算列重算一遍, 列式存储 / worker 跟着重建, 之后外面重新 applyQuery
+   * server 模式不用实现, 外面重新查询时拉回来的页就是按新计算列算的
+   * @returns 行对象换成了拷贝的话 (第一次加计算列), 旧行 -> 新行, 外面按行对象记的东西要跟着换
+   */
+  setColumns?(columns: IColumn[], calculated: CalculatedColumns): Map<Record<string, any>, Record<string, any>> | void
+
   /**
    * 获取全量数据 (可选, 仅 client 模式支持)
    * 用于透视表等需要全量数据的场景
@@ -68,21 +136,150 @@ export interface DataStrategy {
    * 透视表需要用全量数据进行分组聚合, 返回用 filteredData 能响应全局筛选, 因而接口定义为可选
    */
   getAllData?(): Record<string, any>[]
+
+  /**
+   * 透视建树 (可选, client 模式开了 worker 才有)
+   * 有的话透视表不在主线程建树, 按当前筛选结果在 worker 里建好返回
+   */
+  buildPivotTree?(config: IPivotConfig): Promise<{ colTree: IPivotColNode; tree: IPivotTreeNode }>
+
+  /** 筛选选项 (可选, 异步版), 有的话优先用它, 不占主线程 */
+  loadFilterOptions?(columnKey: string): Promise<string[]>
+
+  /** 销毁 (可选), 释放 worker 之类的资源 */
+  destroy?(): void
+
+  /**
+   * 某行是不是分组头 (可选, 仅 client 模式支持行分组)
+   * 分组头和数据行共用一个行下标空间, 分组头上 getRow 返回 undefined
+   * @returns 分组头信息, 数据行返回 undefined
+   */
+  getGroupRow?(rowIndex: number): IGroupRow | undefined
+
+  /**
+   * 设置折叠的分组 (可选, 仅 client 模式支持), 折叠组里的行不再占行下标
+   * @returns 新的总行数 (分组头 + 展开组里的数据行)
+   */
+  setCollapsedGroups?(groupIds: string[]): number
+
+  /** 当前所有分组的 id (可选, 全部折叠用) */
+  getGroupIds?(): string[]
+
+  /**
+   * 某行是不是 "加载中" 哨兵行 (可选, 游标分页用)
+   * 哨兵行算在 totalRows 里, 渲染出来就该去拉下一批了
+   */
+  isSentinelRow?(rowIndex: number): boolean
+
+  /**
+   * 注册行数变化回调 (可选, 游标分页用)
+   * 不是 applyQuery 引起的行数变化 (滚到底追加了一批) 要通知外面同步滚动高度
+   */
+  setTotalRowsListener?(listener: (totalRows: number) => void): void
+
+  /**
+   * 注册总结行更新回调 (可选, 分页用)
+   * 总结行单独拉、比第一页晚回来时通知外面重画总结行
+   */
+  setSummaryListener?(listener: () => void): void
+
+  /**
+   * 可视区 (含缓冲区) 行范围变了 (可选, 分页缓存用)
+   * server 模式据此保护可视页不被淘汰, 并按滚动方向预取
+   */
+  setVisibleRange?(startRow: number, endRow: number): void
+
+  /** 分页缓存命中统计 (可选, server 模式), VirtualTable.getCacheStats 和 PerformanceMonitor 都从这里取 */
+  getCacheStats?(): PageCacheStats
+
+  /**
+   * 某行所在的页是不是重试完了还加载失败 (可选, 分页用)
+   * 失败的页不会自动再拉, 渲染成 "加载失败 - 重试" 占位行, 点了重试调 clearFailedPages
+   */
+  isRowFailed?(rowIndex: number): boolean
+
+  /** 清掉失败标记, 下次 ensurePageForRow 重新拉 */
+  clearFailedPages?(): void
+
+  /**
+   * 注册加载失败回调 (可选, 分页用), 重试完了还失败才调
+   * 首屏 (bootstrap) 失败是直接抛给调用方的, 不走这里
+   * client 模式 worker 初始化失败 (已回退到主线程) 也走这里, 没有页码
+   */
+  setErrorListener?(listener: (error: Error, pageIndex?: number) => void): void
   
 }
 
+/** 分页缓存统计, 命中/未命中只按可视区取行 (readRow) 计 */
+export interface PageCacheStats {
+  hits: number
+  misses: number
+  evictions: number
+  prefetches: number
+  cachedPages: number
+  maxCachedPages: number
+}
+
+/** applyTransaction 的结果, 外面据此决定怎么重画 */
+export interface RowTransactionOutcome extends IRowTransactionResult {
+  changedRows: { rowIndex: number; keys: string[] }[] // 改到的行在当前结果里的位置 + 变了的字段, 看不到的行不在里面
+  structural: boolean // 行数 / 行位置变了, 可视区要整体重画
+  reload?: boolean    // 缓存作废了, 要重新拉数据
+}
+
 /**
- * 数据策略工厂参数
+ * 数据策略工厂参数 (registerDataStrategy 注册的工厂拿到的就是这个)
  */
 export interface DataStrategyFactoryParams {
-  mode: 'client' | 'server'
+  config: IConfig // 完整配置, 自定义策略缺啥自己拿
 
   initialData?: Record<string, any>[]  // clinet 模式下会直接配置上数据
 
   pageSize: number // server 分页下, 配置每页多少数据
-  columns: any[]  // 用于 client 模式计算总结行
+  columns: IColumn[]  // 用于 client 模式计算总结行
 
-  fetchPageData?: (pageIndex: number, query: ITableQuery) => Promise<IPageResponse>
+  fetchPageData?: (pageIndex: number, query: ITableQuery, signal?: AbortSignal) => Promise<IPageResponse>
+
+  fetchSummaryData?: (query: ITableQuery, signal?: AbortSignal) => Promise<Record<string, any>>
+
+  fetchCursorPage?: (cursor: string | null, query: ITableQuery, signal?: AbortSignal) => Promise<ICursorPageResponse>
+
+  dataSource?: IDataSource // 配了数据源适配器的话原样传过来
+}
+
+/**
+ * 从配置里拼出工厂参数
+ * 有计算列的话, 全量数据先算好, 分页 / 游标拉回来的每一批也在这里算, 策略拿到的行都是带计算列的拷贝 (用户的行对象不动)
+ * (calculated 是表格持有的那个实例, 运行时改了计算列, 之后拉的页自动按新的算)
+ */
+export function createFactoryParams(
+  config: IConfig,
+  initialData?: Record<string, any>[],
+  calculated?: CalculatedColumns
+): DataStrategyFactoryParams {
+  // 只算明确传进来的全量数据, 数据量太大转 server 模式时 config.initialData 用不上, 不白算
+  const rows = initialData && calculated ? calculated.materialize(initialData) : initialData
+  return {
+    config,
+    initialData: rows ?? config.initialData,
+    pageSize: config.pageSize,
+    columns: config.columns,
+    fetchPageData: config.fetchPageData
+      ? async (pageIndex, query, signal) => {
+        const res = await config.fetchPageData!(pageIndex, query, signal)
+        return calculated ? { ...res, list: calculated.materialize(res.list) } : res
+      }
+      : undefined,
+    fetchSummaryData: config.fetchSummaryData
+      ? (query, signal) => config.fetchSummaryData!(query, signal)
+      : undefined,
+    fetchCursorPage: config.fetchCursorPage
+      ? async (cursor, query, signal) => {
+        const res = await config.fetchCursorPage!(cursor, query, signal)
+        return calculated ? { ...res, list: calculated.materialize(res.list) } : res
+      }
+      : undefined,
+    dataSource: config.dataSource
+  }
+}
 
-  fetchSummaryData?: (query: ITableQuery) => Promise<Record<string, any>>
-}
\ No newline at end of file
@@ -1,50 +1,106 @@
-import type { DataStrategy } from "@/table/data/DataStrategy";
-import type { IPageResponse, ITableQuery } from "@/types";
+import type { DataStrategy, PageCacheStats, RowTransactionOutcome } from "@/table/data/DataStrategy";
+import type { IPageResponse, IRetryConfig, IRowTransaction, ITableQuery, RowKey } from "@/types";
+import type { RowKeyGetter } from "@/table/model/RowKeyModel";
+import { RequestError } from "@/api/request";
 
 /**
  * Server 数据策略
  * 
- * - 管理分页缓存 pageCache
- * - 调用 fetchPageData 拉取数据
- * - query 变化时清空缓存
+ * - 管理分页缓存 pageCache, 超过 maxCachedPages 按 LRU 淘汰 (可视区里的页不淘汰)
+ * - 调用 fetchPageData 拉取数据, 按滚动方向和速度预取前/后几页
+ * - query 变化时清空缓存, 旧查询还没回来的请求 abort 掉
+ * - 拉取失败按指数退避重试, 还失败就记下来, 那一页显示重试占位行, 不再自动拉
  */
+
+// 滚得比这个快 (行/秒, 按页大小的倍数算) 就多预取一页
+const FAST_SCROLL_PAGES_PER_SECOND = 2
+
+/** 4xx 是请求本身有问题, 重试也没用 (超时 408 / 限流 429 除外) */
+export function isRetryable(err: unknown): boolean {
+  if ((err as Error)?.name === 'AbortError') return false
+  if (err instanceof RequestError && err.status !== undefined) {
+    return err.status >= 500 || err.status === 408 || err.status === 429
+  }
+  return true
+}
+
 export class ServerDataStrategy implements DataStrategy {
   readonly mode = 'server' as const 
 
+  // Map 按插入顺序遍历, 用到的页挪到末尾, 最前面的就是最久没用的
   private pageCache = new Map<number, Record<string, any>[]>()
   private loadingPromises = new Map<number, Promise<void>>() // 防止重复请求
   private currentQuery: ITableQuery = {}
   private totalRows: number = 0
   private pageSize: number 
   private summaryCache: Record<string, any> | null = null // 缓存总结行数据
+  private maxCachedPages: number
+  private querySeq = 0 // 每次 applyQuery +1, 旧查询的页回来了就丢掉
+  private queryController = new AbortController() // 当前查询的请求共用一个, 换查询就 abort
+
+  // 可视区 (含缓冲区) 的页范围, 这些页不淘汰
+  private visiblePages = { start: 0, end: -1 }
+  private lastRange: { startRow: number; time: number } | null = null
+  private lastTouchedPage = -1 // 最近用过的页, 已经在 Map 末尾了
+  private stats = { hits: 0, misses: 0, evictions: 0, prefetches: 0 }
 
-  private fetchPageData: (pageIndex: number, query: ITableQuery) => Promise<IPageResponse>
+  private retry: Required<IRetryConfig>
+  private failedPages = new Map<number, Error>() // 重试完了还失败的页, 点重试前不再拉
+  private errorListener?: (error: Error, pageIndex: number) => void
+  private summaryListener?: () => void // 单独拉的总结行到了
+  private bootstrapped = false // 首屏失败直接抛给调用方, 不走 errorListener
+
+  private fetchPageData: (pageIndex: number, query: ITableQuery, signal?: AbortSignal) => Promise<IPageResponse>
+  private fetchSummaryData?: (query: ITableQuery, signal?: AbortSignal) => Promise<Record<string, any>>
 
   // 初始化, 用户需要传入的参数: fetchData, pageSize, fetchSummaryData 可选 
   constructor(
-    fetchPageData: (pageIndex: number, query: ITableQuery) => Promise<IPageResponse>,
+    fetchPageData: (pageIndex: number, query: ITableQuery, signal?: AbortSignal) => Promise<IPageResponse>,
     pageSize: number,
+    fetchSummaryData?: (query: ITableQuery, signal?: AbortSignal) => Promise<Record<string, any>>,
+    maxCachedPages = Infinity,
+    retry: boolean | IRetryConfig = true
   ) {
     // 将用户传入的属性, 绑定给实例对象上
     this.fetchPageData = fetchPageData
     this.pageSize = pageSize
+    this.fetchSummaryData = fetchSummaryData
+    this.maxCachedPages = Math.max(1, maxCachedPages)
+    const retryConfig = typeof retry === 'object' ? retry : { retries: retry ? undefined : 0 }
+    this.retry = {
+      retries: retryConfig.retries ?? 2,
+      baseDelay: retryConfig.baseDelay ?? 500,
+      maxDelay: retryConfig.maxDelay ?? 5000
+    }
   }
 
   public async bootstrap(): Promise<{ totalRows: number; }> {
-    // 加载第 1 页数据, 页面索引也是从 0 开始的
+    // 加载第 1 页数据, 页面索引也是从 0 开始的 (失败后点重试会再进来, 先把失败标记清掉)
+    this.failedPages.delete(0)
     await this.ensurePageForRow(0)
+    this.bootstrapped = true
     return { totalRows: this.totalRows }
   }
 
+  /** 只看缓存, 不计命中也不动 LRU: 选中 / 导出 / 行高这些批量扫描都走这里 */
   public getRow(rowIndex: number): Record<string, any> | undefined {
     // 1. 根据行索引 和 每页多少条数据, 计算出页码, 然后去从缓存中找到该页面数据
+    const page = this.pageCache.get(Math.floor(rowIndex / this.pageSize))
+    // 2. 用行索引 和 每页多少条数据 取余, 得出该行数据在页面中的偏移量
+    return page?.[rowIndex % this.pageSize]
+  }
+
+  /** 可视区渲染取行: 记命中 / 未命中, 用到的页挪到 LRU 末尾 */
+  public readRow(rowIndex: number): Record<string, any> | undefined {
     const pageIndex = Math.floor(rowIndex / this.pageSize)
     const page = this.pageCache.get(pageIndex)
-
-    if (!page) return undefined
-    // 2. 用行索引 和 每页多少条数据 取余, 得出该行数据在页面中的偏移量
-    const indexInPage = rowIndex % this.pageSize
-    return page[indexInPage]
+    if (!page) {
+      this.stats.misses++
+      return undefined
+    }
+    this.stats.hits++
+    this.touchPage(pageIndex, page)
+    return page[rowIndex % this.pageSize]
   }
 
   public async ensurePageForRow(rowIndex: number): Promise<void> {
@@ -56,6 +112,10 @@ export class ServerDataStrategy implements DataStrategy {
       return 
     }
 
+    // 已经失败过了, 等用户点重试
+    const failed = this.failedPages.get(pageIndex)
+    if (failed) throw failed
+
     // 若正在加载, 等待加载完成
     if (this.loadingPromises.has(pageIndex)) {
       await this.loadingPromises.get(pageIndex)
@@ -69,21 +129,84 @@ export class ServerDataStrategy implements DataStrategy {
     try {
       await loadingPromises
     } finally {
-      this.loadingPromises.delete(pageIndex)
+      // 换查询时 map 已经清过, 新查询可能又放进了同一页, 不是自己的别删
+      if (this.loadingPromises.get(pageIndex) === loadingPromises) {
+        this.loadingPromises.delete(pageIndex)
+      }
+    }
+  }
+
+  public updateRow(rowIndex: number, patch: Record<string, any>): Record<string, any> | undefined {
+    // 只打补丁到缓存页, 页被清掉后 (重新查询) 就以后端为准了
+    const row = this.getRow(rowIndex)
+    if (!row) return undefined
+    Object.assign(row, patch)
+    return row
+  }
+
+  /**
+   * 实时推送: 改只打补丁到缓存页 (没缓存的页以后拉下来就是新的)
+   * 有增删的话后面所有行都挪位了, 本地没法就地改, 缓存整个作废, 由外面按当前查询重新拉
+   */
+  public applyTransaction(
+    transaction: IRowTransaction,
+    getKey: RowKeyGetter,
+    derive?: (row: Record<string, any>, patch: Record<string, any>) => Record<string, any>
+  ): RowTransactionOutcome {
+    const outcome: RowTransactionOutcome = { added: 0, updated: 0, removed: 0, missing: [], changedRows: [], structural: false }
+    if (transaction.update?.length) {
+      const cached = new Map<RowKey, { row: Record<string, any>; rowIndex: number }>()
+      for (const [pageIndex, page] of this.pageCache) {
+        page.forEach((row, i) => {
+          const rowIndex = pageIndex * this.pageSize + i
+          cached.set(getKey(row, rowIndex), { row, rowIndex })
+        })
+      }
+      for (const update of transaction.update) {
+        const key = getKey(update, -1)
+        const found = cached.get(key)
+        if (!found) {
+          outcome.missing.push(key)
+          continue
+        }
+        const patch = derive ? { ...update, ...derive(found.row, update) } : update
+        const keys = Object.keys(patch).filter(field => found.row[field] !== patch[field])
+        if (keys.length === 0) continue
+        Object.assign(found.row, patch)
+        outcome.updated++
+        outcome.changedRows.push({ rowIndex: found.rowIndex, keys })
+      }
+    }
+
+    if (transaction.add?.length || transaction.remove?.length) {
+      this.resetCache()
+      outcome.added = transaction.add?.length ?? 0
+      outcome.removed = transaction.remove?.length ?? 0
+      outcome.structural = true
+      outcome.reload = true
     }
+    return outcome
+  }
+
+  public findRow(predicate: (row: Record<string, any>, rowIndex: number) => boolean): { row: Record<string, any>; rowIndex: number } | undefined {
+    for (const [pageIndex, page] of this.pageCache) {
+      for (let i = 0; i < page.length; i++) {
+        const rowIndex = pageIndex * this.pageSize + i
+        if (predicate(page[i], rowIndex)) return { row: page[i], rowIndex }
+      }
+    }
+    return undefined
   }
 
   public async applyQuery(query: ITableQuery): Promise<{ totalRows: number; shouldResetScroll: boolean; }> {
-    // 1. 清空缓存
-    this.pageCache.clear()
-    this.loadingPromises.clear()
-    this.summaryCache = null // 清空总结行缓存
+    // 1. 作废旧查询 (还在路上的请求直接 abort), 清空缓存
+    this.resetCache()
 
     // 2. 更新 currentQuery
     this.currentQuery = query
     
-    // 3. 加载第 1 页 (会自动缓存 summary)
-    await this.ensurePageForRow(0)
+    // 3. 加载第 1 页 (会自动缓存 summary), 失败已经通知过了, 第 1 页显示重试占位行就行
+    await this.ensurePageForRow(0).catch(() => {})
     
     return Promise.resolve({
       totalRows: this.totalRows,
@@ -109,21 +232,154 @@ export class ServerDataStrategy implements DataStrategy {
     return []
   }
 
+  /**
+   * 可视区变了 (每次渲染都会调)
+   * - 记下可视页, 淘汰时跳过
+   * - 和上一次比算出滚动方向和速度, 往滚动方向预取
+   */
+  public setVisibleRange(startRow: number, endRow: number): void {
+    const startPage = Math.floor(startRow / this.pageSize)
+    const endPage = Math.floor(endRow / this.pageSize)
+    this.visiblePages = { start: startPage, end: endPage }
+
+    const now = performance.now()
+    const last = this.lastRange
+    this.lastRange = { startRow, time: now }
+    if (!last || startRow === last.startRow) return
+
+    const direction = startRow > last.startRow ? 1 : -1
+    const elapsed = Math.max(now - last.time, 1)
+    const pagesPerSecond = Math.abs(startRow - last.startRow) / this.pageSize / elapsed * 1000
+    let ahead = pagesPerSecond > FAST_SCROLL_PAGES_PER_SECOND ? 2 : 1
+    // 缓存容量只够放可视页的话就别预取了, 预取回来也是马上被淘汰
+    ahead = Math.min(ahead, this.maxCachedPages - (endPage - startPage + 1))
+
+    const totalPages = Math.ceil(this.totalRows / this.pageSize)
+    for (let i = 1; i <= ahead; i++) {
+      const pageIndex = direction > 0 ? endPage + i : startPage - i
+      if (pageIndex < 0 || pageIndex >= totalPages) break
+      this.prefetchPage(pageIndex)
+    }
+  }
+
+  public isRowFailed(rowIndex: number): boolean {
+    return this.failedPages.has(Math.floor(rowIndex / this.pageSize))
+  }
+
+  public clearFailedPages(): void {
+    this.failedPages.clear()
+  }
+
+  public setErrorListener(listener: (error: Error, pageIndex: number) => void): void {
+    this.errorListener = listener
+  }
+
+  public setSummaryListener(listener: () => void): void {
+    this.summaryListener = listener
+  }
+
+  public getCacheStats(): PageCacheStats {
+    return {
+      ...this.stats,
+      cachedPages: this.pageCache.size,
+      maxCachedPages: this.maxCachedPages
+    }
+  }
+
+  /** 预取, 已缓存 / 正在拉的跳过, 失败不管 (真滚到了会再拉) */
+  private prefetchPage(pageIndex: number): void {
+    if (this.pageCache.has(pageIndex) || this.loadingPromises.has(pageIndex) || this.failedPages.has(pageIndex)) return
+    this.stats.prefetches++
+    this.ensurePageForRow(pageIndex * this.pageSize).catch(() => {})
+  }
+
+  /** 用到的页挪到 Map 末尾; 已经在末尾就不挪, getRow 是按行调的, 省点事 */
+  private touchPage(pageIndex: number, page: Record<string, any>[]): void {
+    if (this.lastTouchedPage === pageIndex) return
+    this.lastTouchedPage = pageIndex
+    this.pageCache.delete(pageIndex)
+    this.pageCache.set(pageIndex, page)
+  }
+
+  /** 超出容量就从最久没用的开始淘汰, 可视页跳过; 全是可视页就先超着 */
+  private evictPages(): void {
+    if (this.pageCache.size <= this.maxCachedPages) return
+    const { start, end } = this.visiblePages
+    for (const pageIndex of this.pageCache.keys()) {
+      if (this.pageCache.size <= this.maxCachedPages) break
+      if (pageIndex >= start && pageIndex <= end) continue
+      this.pageCache.delete(pageIndex)
+      this.stats.evictions++
+    }
+  }
+
+  /** 作废还在路上的请求, 清空页缓存 + 总结行缓存 */
+  private resetCache(): void {
+    this.querySeq++
+    this.queryController.abort()
+    this.queryController = new AbortController()
+    this.pageCache.clear()
+    this.loadingPromises.clear()
+    this.failedPages.clear()
+    this.summaryCache = null
+  }
+
   /** 异步加载某一页数据 */
   private async loadPage(pageIndex: number): Promise<void> {
+    const seq = this.querySeq
+    const { signal } = this.queryController
     try {
-      const result = await this.fetchPageData(pageIndex, this.currentQuery)
+      const result = await this.fetchWithRetry(pageIndex, seq, signal)
+      // 请求期间换了查询, 这页是旧条件的, 不要了
+      if (seq !== this.querySeq) return
       // 适配统一的分页返回结构: IPageResponse: { list, totalRows, summary? } 
       this.pageCache.set(pageIndex, result.list)
+      this.lastTouchedPage = pageIndex
+      this.evictPages()
       this.totalRows = result.totalRows
-      // 缓存总结行数据 (若后端返回了)
+      // 缓存总结行数据 (若后端返回了), 没随分页返回的话, 第一页时单独拉一次
       if (result.summary) {
         this.summaryCache = result.summary
+      } else if (pageIndex === 0 && this.fetchSummaryData) {
+        this.loadSummary(seq, signal)
       }
-      
+
     } catch (err) {
+      // 换查询被 abort 的 (或者旧查询的失败), 静默丢掉
+      if (seq !== this.querySeq) return
       console.error(`[ServerDataStrategy] 加载第 ${pageIndex} 页失败:`, err)
-      throw err
+      const error = err instanceof Error ? err : new Error(String(err))
+      this.failedPages.set(pageIndex, error)
+      if (this.bootstrapped) this.errorListener?.(error, pageIndex)
+      throw error
+    }
+  }
+
+  /** 单独拉总结行, 不挡着第一页出来; 回来了 (还是当前查询的话) 通知外面重画总结行 */
+  private loadSummary(seq: number, signal: AbortSignal): void {
+    this.fetchSummaryData!(this.currentQuery, signal)
+      .then((summary) => {
+        if (seq !== this.querySeq) return
+        this.summaryCache = summary
+        this.summaryListener?.()
+      })
+      .catch((err) => {
+        if (seq === this.querySeq) console.warn('[ServerDataStrategy] 加载总结行失败:', err)
+      })
+  }
+
+  /** 拉一页, 失败了等 baseDelay * 2^n 再试, 等的时候换了查询就不试了 */
+  private async fetchWithRetry(pageIndex: number, seq: number, signal: AbortSignal): Promise<IPageResponse> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.fetchPageData(pageIndex, this.currentQuery, signal)
+      } catch (err) {
+        if (seq !== this.querySeq || attempt >= this.retry.retries || !isRetryable(err)) throw err
+        const delay = Math.min(this.retry.baseDelay * 2 ** attempt, this.retry.maxDelay)
+        console.warn(`[ServerDataStrategy] 第 ${pageIndex} 页加载失败, ${delay}ms 后第 ${attempt + 1} 次重试`, err)
+        await new Promise(resolve => setTimeout(resolve, delay))
+        if (seq !== this.querySeq) throw err
+      }
     }
   }
 
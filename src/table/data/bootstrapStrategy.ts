@@ -1,16 +1,18 @@
 import { CLIENT_SIDE_MAX_ROWS } from "@/config/Constant";
-import { ClientDataStrategy } from "@/table/data/ClientDataStrategy";
+import { createFactoryParams } from "@/table/data/DataStrategy";
 import type { DataStrategy } from "@/table/data/DataStrategy";
-import { ServerDataStrategy } from "@/table/data/ServerDataStrategy";
+import { createDataStrategy } from "@/table/data/strategyRegistry";
 import type { IConfig } from "@/types";
+import type { CalculatedColumns } from "@/table/model/CalculatedColumns";
 
 
 /**
  * 只能决策 并 创建对应的 DataStrategy 
- * - 根据数据量决定 client / server 模式
+ * - 配了 dataStrategy 就用注册的那个, 模式以策略自己的 mode 为准
+ * - 否则根据数据量决定 client / server 模式
  * - 返回创建好的 strategy 和 totalRows 
  */
-export async function bootstrapStrategy(config: IConfig): Promise<{
+export async function bootstrapStrategy(config: IConfig, calculated?: CalculatedColumns): Promise<{
   strategy: DataStrategy,
   mode: 'client' | 'server',
   totalRows: number
@@ -18,6 +20,13 @@ export async function bootstrapStrategy(config: IConfig): Promise<{
   let totalRows: number
   let mode: 'client' | 'server'
 
+  // 场景0: 指定了注册的策略, 不做决策
+  if (config.dataStrategy) {
+    const strategy = createDataStrategy(config.dataStrategy, createFactoryParams(config, config.initialData, calculated))
+    const res = await strategy.bootstrap()
+    return { strategy, mode: strategy.mode, totalRows: res.totalRows }
+  }
+
   // 场景1: 用户传了全量数据
   if (config.initialData) {
     totalRows = config.initialData?.length
@@ -25,15 +34,12 @@ export async function bootstrapStrategy(config: IConfig): Promise<{
 
     if (mode === 'client') {
       // 直接用全量数据创建 ClientDataStrategy
-      const strategy = new ClientDataStrategy(config.initialData, config.columns)
+      const strategy = createDataStrategy('client', createFactoryParams(config, config.initialData, calculated))
       return { strategy, mode, totalRows }
 
     } else {
       // 数据量太大, 改用 server 模式
-      const strategy = new ServerDataStrategy(
-        config.fetchPageData!,
-        config.pageSize,
-      )
+      const strategy = createDataStrategy('server', createFactoryParams(config, undefined, calculated))
       await strategy.bootstrap()
       return { strategy, mode, totalRows: strategy.getTotalRows() }
     }
@@ -41,7 +47,7 @@ export async function bootstrapStrategy(config: IConfig): Promise<{
 
   // 场景2: 用户没有传全量数据, 必须有 fetchPageData
   if (!config.fetchPageData) {
-    throw new Error('必须提供 initialData 或 fetchPageData 之一!')
+    throw new Error('必须提供 initialData / fetchPageData / dataSource 之一!')
   }
 
   // 先拉取第一页, 判断总数
@@ -49,27 +55,30 @@ export async function bootstrapStrategy(config: IConfig): Promise<{
   totalRows = res.totalRows
   mode = totalRows <= CLIENT_SIDE_MAX_ROWS ? 'client' : 'server'
 
-  // 若数据量小, 直接循环拉取全部数据到内存来,  用 cLient 模式爽飞天
+  // 若数据量小, 直接拉取全部数据到内存来,  用 cLient 模式爽飞天
   if (mode === 'client') {
-    const totalPages = Math.ceil(totalRows / config.pageSize)
-    const allData: Record<string, any>[] = []
-
-    for (let page = 0; page < totalPages; page++) {
-      const pageRes = await config.fetchPageData(page)
-      allData.push(...pageRes.list)
+    let allData: Record<string, any>[]
+    if (config.fetchAllData) {
+      // 有全量接口就一次拉完
+      allData = await config.fetchAllData()
+    } else {
+      // 没有就循环分页拉
+      const totalPages = Math.ceil(totalRows / config.pageSize)
+      allData = []
+      for (let page = 0; page < totalPages; page++) {
+        const pageRes = await config.fetchPageData(page)
+        allData.push(...pageRes.list)
+      }
     }
 
-    const strategy = new ClientDataStrategy(allData, config.columns)
-    return { strategy, mode, totalRows}
+    const strategy = createDataStrategy('client', createFactoryParams(config, allData, calculated))
+    return { strategy, mode, totalRows: allData.length }
 
   } else {
     // 大数据量了已经, 则用 server 分页模式
-    const strategy = new ServerDataStrategy(
-      config.fetchPageData,
-      config.pageSize
-    )
+    const strategy = createDataStrategy('server', createFactoryParams(config, undefined, calculated))
     await strategy.bootstrap()
     return { strategy, mode, totalRows: strategy.getTotalRows() }
   }
   
-}
\ No newline at end of file
+}
@@ -0,0 +1,253 @@
+import type { ColumnFilterValue, FilterNode, IColumn, IFilterCondition, IFilterGroup, ISortItem, ITableQuery } from "@/types";
+
+/**
+ * client 模式的筛选 / 排序 / 汇总 (纯函数)
+ *
+ * ClientDataStrategy 主线程直接用, 数据量大时 worker 里也用这一套, 两边结果保持一致
+ * 筛选 / 排序的主流程在 ColumnarStore, 这里是逐行按原始值判断的兜底规则
+ */
+
+// 汇总只用得到这两个字段, 传给 worker 的列也只带这些 (render 之类的函数传不过去)
+export type SummaryColumn = Pick<IColumn, 'key' | 'summaryType'>
+
+/** 排序列表: 优先 sorts 多列, 兼容只传了 sortKey 的老写法 */
+export function resolveSorts(query: ITableQuery): ISortItem[] {
+  if (query.sorts?.length) return query.sorts
+  return query.sortKey && query.sortDirection ? [{ key: query.sortKey, direction: query.sortDirection }] : []
+}
+
+/** 列筛选匹配逻辑, 判断 该行 是否满足筛选条件 */
+export function matchesColumnFilters(
+  row: Record<string, any>,
+  columnFilters: Record<string, ColumnFilterValue>
+): boolean {
+
+  for (const key in columnFilters) {
+    const filter = columnFilters[key]
+    const cellVal = row[key]
+
+    // 按字段配置的类型来确定筛选逻辑
+    if (filter.kind === 'set') {
+      if (filter.values.length === 0) continue
+      if (!filter.values.includes(String(cellVal ?? ''))) return false
+
+    } else if (filter.kind === 'text') {
+      if (!filter.value) continue
+      if (!String(cellVal ?? '').toLowerCase().includes(filter.value.toLowerCase())) {
+        return false
+      }
+
+    } else if (filter.kind === 'dateRange') {
+      // 日期转字符比较比较不确定是否会有问题
+      const dateStr = String(cellVal ?? '')
+      if (filter.start && dateStr < filter.start) return false
+      if (filter.end && dateStr > filter.end) return false
+
+    } else if (filter.kind === 'numberRange') {
+      const num = Number(cellVal)
+      if (isNaN(num)) return false
+      // 值小于筛选区间的 最小值, 或者 大于 筛选区间的 最大值, 都不行
+      if (filter.min !== undefined && num < filter.min) return false
+      if (filter.max !== undefined && num > filter.max) return false
+
+    } // else if ...其他
+  }
+  return true
+}
+
+// ===== 高级筛选 (筛选器面板的 且 / 或 条件组) ==========
+
+type CellTest = (cellVal: any) => boolean
+
+/** 不用填值的运算符 */
+const NO_VALUE_OPERATORS = new Set(['isEmpty', 'isNotEmpty'])
+
+/** 高级筛选匹配逻辑, 判断 该行 是否满足条件组 (每次都重新编译, 多行请用 compileFilterGroup) */
+export function matchesFilterGroup(row: Record<string, any>, group: IFilterGroup): boolean {
+  return compileFilterGroup(group)(row)
+}
+
+/**
+ * 条件组编译成 按行判断 的函数, 正则之类的只解析一次
+ * 空的组不限制 (恒为 true), 所以传进来之前最好先 normalizeFilterGroup
+ */
+export function compileFilterGroup(group: IFilterGroup): (row: Record<string, any>) => boolean {
+  const tests = group.conditions.map(compileFilterNode)
+  if (tests.length === 0) return () => true
+  return group.logic === 'or'
+    ? row => tests.some(test => test(row))
+    : row => tests.every(test => test(row))
+}
+
+function compileFilterNode(node: FilterNode): (row: Record<string, any>) => boolean {
+  if (node.type === 'group') return compileFilterGroup(node)
+  const test = compileCondition(node)
+  return row => test(row[node.field])
+}
+
+function compileCondition(cond: IFilterCondition): CellTest {
+  const value = cond.value ?? ''
+  const lower = value.toLowerCase()
+  const text = (cellVal: any) => String(cellVal ?? '').toLowerCase()
+
+  switch (cond.operator) {
+    case 'equals': return cellVal => looseEquals(cellVal, value)
+    case 'notEquals': return cellVal => !looseEquals(cellVal, value)
+    case 'contains': return cellVal => text(cellVal).includes(lower)
+    case 'notContains': return cellVal => !text(cellVal).includes(lower)
+    case 'startsWith': return cellVal => text(cellVal).startsWith(lower)
+    case 'endsWith': return cellVal => text(cellVal).endsWith(lower)
+    case 'regex': {
+      let pattern: RegExp
+      try {
+        pattern = new RegExp(value, 'i')
+      } catch {
+        // 正则写错了就谁都不匹配, 不抛错, 面板上会提示
+        return () => false
+      }
+      return cellVal => pattern.test(String(cellVal ?? ''))
+    }
+    case 'isEmpty': return cellVal => isEmptyCell(cellVal)
+    case 'isNotEmpty': return cellVal => !isEmptyCell(cellVal)
+    case 'gt': return cellVal => compareCell(cellVal, value) > 0
+    case 'gte': return cellVal => compareCell(cellVal, value) >= 0
+    case 'lt': return cellVal => compareCell(cellVal, value) < 0
+    case 'lte': return cellVal => compareCell(cellVal, value) <= 0
+    case 'between': {
+      const to = cond.valueTo ?? ''
+      return cellVal => compareCell(cellVal, value) >= 0 && compareCell(cellVal, to) <= 0
+    }
+    case 'in': {
+      const allowed = new Set(cond.values ?? [])
+      return cellVal => allowed.has(String(cellVal ?? ''))
+    }
+    case 'notIn': {
+      const blocked = new Set(cond.values ?? [])
+      return cellVal => !blocked.has(String(cellVal ?? ''))
+    }
+    default:
+      return () => true
+  }
+}
+
+function isEmptyCell(cellVal: any): boolean {
+  return cellVal === null || cellVal === undefined || String(cellVal).trim() === ''
+}
+
+/** 两边都是数字按数值比 (1 和 1.0 相等), 否则按字符串精确比 */
+function looseEquals(cellVal: any, value: string): boolean {
+  if (isNumeric(cellVal) && isNumeric(value)) return Number(cellVal) === Number(value)
+  return String(cellVal ?? '') === value
+}
+
+/**
+ * 大小比较: 都是数字按数值, 都能解析成日期按时间戳, 否则按字符串
+ * 空单元格不参与比较, 返回 NaN (任何 > < 判断都是 false)
+ */
+function compareCell(cellVal: any, value: string): number {
+  if (isEmptyCell(cellVal) || value.trim() === '') return NaN
+  if (isNumeric(cellVal) && isNumeric(value)) return Number(cellVal) - Number(value)
+  const a = Date.parse(String(cellVal))
+  const b = Date.parse(value)
+  if (!isNaN(a) && !isNaN(b)) return a - b
+  return String(cellVal).localeCompare(value)
+}
+
+function isNumeric(val: any): boolean {
+  if (typeof val === 'number') return !isNaN(val)
+  return typeof val === 'string' && val.trim() !== '' && !isNaN(Number(val))
+}
+
+/** 条件是否填完整了, 没填完的条件不参与筛选 */
+export function isConditionComplete(cond: IFilterCondition): boolean {
+  if (!cond.field) return false
+  if (NO_VALUE_OPERATORS.has(cond.operator)) return true
+  if (cond.operator === 'in' || cond.operator === 'notIn') return !!cond.values?.length
+  if (cond.operator === 'between') return !!cond.value?.trim() && !!cond.valueTo?.trim()
+  return !!cond.value
+}
+
+/** 去掉没填完的条件和空的组, 啥都不剩返回 null (= 没有高级筛选) */
+export function normalizeFilterGroup(group: IFilterGroup | null | undefined): IFilterGroup | null {
+  if (!group) return null
+  const conditions: FilterNode[] = []
+  for (const node of group.conditions) {
+    if (node.type === 'group') {
+      const child = normalizeFilterGroup(node)
+      if (child) conditions.push(child)
+    } else if (isConditionComplete(node)) {
+      conditions.push(node)
+    }
+  }
+  return conditions.length > 0 ? { type: 'group', logic: group.logic, conditions } : null
+}
+
+/** 单个字段比较 (升序), 兼容数字和文字 */
+export function compareValues(aVal: any, bVal: any): number {
+  // 数字比较
+  const aNum = parseFloat(aVal)
+  const bNum = parseFloat(bVal)
+  if (!isNaN(aNum) && !isNaN(bNum)) {
+    return aNum - bNum
+  }
+  // 字符串比较
+  return String(aVal).localeCompare(String(bVal))
+}
+
+/** 总结行: 配了 summaryType 的列各算一个值, 一列都没配返回 null */
+export function calculateSummary(columns: SummaryColumn[], data: Record<string, any>[]): Record<string, any> | null {
+  const summary: Record<string, any> = {}
+  let hasSummary = false
+
+  for (const col of columns) {
+    if (col.summaryType && col.summaryType !== 'none') {
+      summary[col.key] = calculateColumnSummary(col, data)
+      hasSummary = true
+    }
+  }
+
+  return hasSummary ? summary : null
+}
+
+/** 计算单列的汇总值 */
+export function calculateColumnSummary(col: SummaryColumn, data: Record<string, any>[]): any {
+  if (!col.summaryType || col.summaryType === 'none' || data.length === 0) {
+    return null
+  }
+  // 获取一列的值的数组, 将 null 排除了, map + filter 复杂度O(n) 但准确稳定
+  const values = data.map(row => row[col.key]).filter(v => v != null)
+
+  switch(col.summaryType) {
+    case 'sum': {
+      const numValues = values.map(v => Number(v)).filter(v => !isNaN(v))
+      return numValues.reduce((acc, val) => acc + val, 0)
+    }
+
+    case 'avg': {
+      const numValues = values.map(v => Number(v)).filter(v => !isNaN(v))
+      if (numValues.length === 0) return 0
+      const sum = numValues.reduce((acc, val) => acc + val, 0)
+      return sum / numValues.length
+    }
+
+    case 'count': {
+      return values.length
+    }
+
+    // case ... 更多单列计算值
+
+    default:
+      return null
+  }
+}
+
+/** 列的筛选选项, 最多取前 limit 个不同值 (避免百万次枚举) */
+export function collectFilterOptions(data: Record<string, any>[], columnKey: string, limit = 1000): string[] {
+  const valSet = new Set<string>()
+  for (const row of data) {
+    if (valSet.size >= limit) break
+    const val = String(row[columnKey] ?? '')
+    if (val) valSet.add(val)
+  }
+  return Array.from(valSet).sort()
+}
@@ -0,0 +1,107 @@
+import type { QueryWorkerRequest, QueryWorkerResponse, QueryWorkerResult } from "@/table/data/ClientQueryWorker";
+import type { IPivotTreeNode } from "@/types/pivot";
+import type { SummaryColumn } from "@/table/data/clientQuery";
+import { calculateSummary } from "@/table/data/clientQuery";
+import { ColumnarStore, remapIndices } from "@/table/data/ColumnarStore";
+import { PivotDataProcessor } from "@/table/pivot/PivotDataProcessor";
+
+/**
+ * client 模式查询 worker (worker 这一侧)
+ *
+ * 持有全量数据的拷贝 (列式存储), 下标和主线程的 fullData 一一对应
+ * current 是最近一次查询命中的下标, 透视建树和主线程的 getAllData 一样按它来
+ */
+
+let store = new ColumnarStore([], [])
+let columns: SummaryColumn[] = []
+let current: Uint32Array = new Uint32Array(0)
+
+function post(res: QueryWorkerResponse, transfer: Transferable[] = []): void {
+  self.postMessage(res, { transfer })
+}
+
+function rowsOf(indices: Uint32Array): Record<string, any>[] {
+  const data = store.getRows()
+  return Array.from(indices, i => data[i])
+}
+
+/** 明细节点的原始行换成下标, 回传时不用再克隆一遍整行 */
+function stripDataNodes(root: IPivotTreeNode): void {
+  let indexOf: Map<Record<string, any>, number> | null = null
+  const stack = [root]
+  while (stack.length > 0) {
+    const node = stack.pop()!
+    if (node.type === 'data' && node.rawRows?.[0]) {
+      indexOf ??= new Map(store.getRows().map((row, i) => [row, i]))
+      node.rowIndex = indexOf.get(node.rawRows[0])
+      node.aggregatedData = {}
+      node.rawRows = undefined
+    }
+    // 明细节点可能几十万个, 不能 push(...children) 展开传参
+    for (const child of node.children) stack.push(child)
+  }
+}
+
+function handle(req: QueryWorkerRequest): { result: QueryWorkerResult; transfer?: Transferable[] } {
+  switch (req.type) {
+    case 'init': {
+      store = new ColumnarStore(req.rows, req.columns)
+      columns = req.columns
+      current = Uint32Array.from(req.rows.keys())
+      return { result: { type: 'ack' } }
+    }
+
+    case 'query': {
+      current = store.query(req.query)
+      // 自己留一份, 传出去的那份 buffer 会被转走
+      const indices = current.slice()
+      const summary = calculateSummary(columns, rowsOf(current))
+      return { result: { type: 'query', indices, summary }, transfer: [indices.buffer] }
+    }
+
+    case 'filterOptions': {
+      return { result: { type: 'filterOptions', options: store.filterOptions(req.key) } }
+    }
+
+    case 'pivot': {
+      const processor = new PivotDataProcessor(req.config)
+      const rows = rowsOf(current)
+      const colTree = processor.buildColTree(rows)
+      const tree = processor.buildPivotTree(rows)
+      stripDataNodes(tree)
+      return { result: { type: 'pivot', colTree, tree } }
+    }
+
+    case 'update': {
+      Object.assign(store.getRows()[req.index], req.patch)
+      store.updateRow(req.index)
+      return { result: { type: 'ack' } }
+    }
+
+    case 'append': {
+      // 和主线程一样: 追加的行不过筛选, 直接排在当前结果末尾
+      const start = store.size
+      store.append(req.rows)
+      const next = new Uint32Array(current.length + req.rows.length)
+      next.set(current)
+      for (let i = 0; i < req.rows.length; i++) next[current.length + i] = start + i
+      current = next
+      return { result: { type: 'ack' } }
+    }
+
+    case 'remove': {
+      current = remapIndices(current, store.remove(req.indices))
+      return { result: { type: 'ack' } }
+    }
+  }
+}
+
+self.onmessage = (e: MessageEvent<{ id: number } & QueryWorkerRequest>) => {
+  const { id } = e.data
+  try {
+    const { result, transfer } = handle(e.data)
+    post({ id, ...result }, transfer)
+  } catch (err) {
+    post({ id, type: 'error', message: err instanceof Error ? err.message : String(err) })
+  }
+}
@@ -0,0 +1,67 @@
+import { ClientDataStrategy } from "@/table/data/ClientDataStrategy";
+import { ClientQueryWorker } from "@/table/data/ClientQueryWorker";
+import { CLIENT_WORKER_MIN_ROWS } from "@/config/Constant";
+import { CursorDataStrategy } from "@/table/data/CursorDataStrategy";
+import type { DataStrategy, DataStrategyFactoryParams } from "@/table/data/DataStrategy";
+import { ServerDataStrategy } from "@/table/data/ServerDataStrategy";
+
+/**
+ * 数据策略注册表
+ *
+ * - 内置 'client' / 'server' 两个, bootstrapStrategy 按数据量在它俩里选
+ * - 内置 'cursor' 游标分页 (无限滚动), 配了 fetchCursorPage 自动用它
+ * - 业务可以注册自己的策略 (比如走 websocket 推数据), 配置里 dataStrategy: '名字' 指定
+ * - 全局共用, 注册一次所有表格都能用
+ */
+export type DataStrategyFactory = (params: DataStrategyFactoryParams) => DataStrategy
+
+const factories = new Map<string, DataStrategyFactory>()
+
+factories.set('client', (params) => {
+  const rows = params.initialData ?? []
+  // 没配就看行数, 数据少的时候起 worker + 拷一份数据反而更慢
+  const useWorker = typeof Worker !== 'undefined' &&
+    (params.config.clientWorker ?? rows.length >= CLIENT_WORKER_MIN_ROWS)
+  const worker = useWorker ? new ClientQueryWorker(rows, params.columns) : undefined
+  return new ClientDataStrategy(rows, params.columns, worker)
+})
+
+factories.set('server', (params) => {
+  if (!params.fetchPageData) {
+    throw new Error('[strategyRegistry] server 策略需要 fetchPageData 或 dataSource')
+  }
+  return new ServerDataStrategy(
+    params.fetchPageData,
+    params.pageSize,
+    params.fetchSummaryData,
+    params.config.maxCachedPages,
+    params.config.retry
+  )
+})
+
+factories.set('cursor', (params) => {
+  if (!params.fetchCursorPage) {
+    throw new Error('[strategyRegistry] cursor 策略需要 fetchCursorPage 或 dataSource.getCursorPage')
+  }
+  return new CursorDataStrategy(params.fetchCursorPage, params.config.retry)
+})
+
+/** 注册策略, 同名的会覆盖 (内置的也能换掉) */
+export function registerDataStrategy(name: string, factory: DataStrategyFactory): void {
+  if (factories.has(name)) {
+    console.warn(`[strategyRegistry] 数据策略 "${name}" 已存在, 将被覆盖`)
+  }
+  factories.set(name, factory)
+}
+
+export function unregisterDataStrategy(name: string): boolean {
+  return factories.delete(name)
+}
+
+export function createDataStrategy(name: string, params: DataStrategyFactoryParams): DataStrategy {
+  const factory = factories.get(name)
+  if (!factory) {
+    throw new Error(`[strategyRegistry] 未注册的数据策略: "${name}", 先调用 registerDataStrategy`)
+  }
+  return factory(params)
+}
@@ -1,10 +1,12 @@
 import type { IConfig, IColumn } from "@/types";
 import type { DataStrategy } from "@/table/data/DataStrategy";
 import type { TableStore } from "@/table/state/createTableStore";
+import type { CalculatedColumns } from "@/table/model/CalculatedColumns";
 import { createTableStore } from "@/table/state/createTableStore";
 import { TableStateSync } from "@/table/core/TableStateSync";
 import { TableLifecycle } from "@/table/core/TableLifecycle";
-import { ServerDataStrategy } from "@/table/data/ServerDataStrategy";
+import { createFactoryParams } from "@/table/data/DataStrategy";
+import { createDataStrategy } from "@/table/data/strategyRegistry";
 import { bootstrapStrategy } from "@/table/data/bootstrapStrategy";
 
 /** 模式, 数据策略, 状态, 状态同步, 声明周期 */
@@ -21,15 +23,17 @@ export interface InitResult {
  *  */
 export function initServerMode(
   config: IConfig,
-  originalColumns: IColumn[]
+  originalColumns: IColumn[],
+  calculated?: CalculatedColumns
 ): InitResult {
 
   const mode = 'server'
-  const dataStrategy = new ServerDataStrategy(config.fetchPageData!, config.pageSize)
+  const dataStrategy = createDataStrategy('server', createFactoryParams(config, undefined, calculated))
   const store = createTableStore({
     columns: originalColumns,
     mode,
-    frozenCount: config.frozenColumns
+    frozenCount: config.frozenColumns,
+    pinnedRight: config.pinnedRightColumns
   })
 
   const stateSync = new TableStateSync({ config, store, originalColumns })
@@ -50,16 +54,18 @@ export function initServerMode(
  */
 export async function initClientMode(
   config: IConfig,
-  originalColumns: IColumn[]
+  originalColumns: IColumn[],
+  calculated?: CalculatedColumns
 ): Promise<InitResult> {
 
-  const { strategy: dataStrategy, mode, totalRows } = await bootstrapStrategy(config)
+  const { strategy: dataStrategy, mode, totalRows } = await bootstrapStrategy(config, calculated)
   config.totalRows = totalRows
 
   const store = createTableStore({
     columns: originalColumns,
     mode,
-    frozenCount: config.frozenColumns
+    frozenCount: config.frozenColumns,
+    pinnedRight: config.pinnedRightColumns
   })
   store.dispatch({ type: 'SET_TOTAL_ROWS', payload: { totalRows } })
 
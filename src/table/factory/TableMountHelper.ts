@@ -9,6 +9,11 @@ import { SidePanelManager } from "@/table/panel/SidePanelManager";
 import { assertUniqueColumnKeys } from "@/table/model/ColumnModel";
 import { ShellCallbacks } from "@/table/handlers/ShellCallbacks";
 import { createColumnPanel } from "@/table/panel/panels/ColumnPanel";
+import type { CalculatedColumnActions } from "@/table/panel/panels/ColumnPanel";
+import { createViewsPanel } from "@/table/panel/panels/ViewsPanel";
+import { createFilterPanel } from "@/table/panel/panels/FilterPanel";
+import type { ViewStateManager } from "@/table/persistence/ViewStateManager";
+import type { IPivotConfig } from "@/types/pivot";
 import { TableLifecycle } from "@/table/core/TableLifecycle";
 
 
@@ -22,11 +27,14 @@ export interface MountParams {
   renderer: DOMRenderer
   headerSortBinder: HeaderSortBinder
   lifecycle: TableLifecycle
-  getClientFilterOptions: (key: string) => string[]
+  getClientFilterOptions: (key: string) => string[] | Promise<string[]>
   loadSummaryData: (summaryRow: HTMLDivElement) => void 
   togglePanel: (panelId: string) => void 
   onPivotModeToggle?: (enabled: boolean) => void 
   onPivotConfigChange?: (config: any) => void 
+  getPivotState?: () => { enabled: boolean; config: IPivotConfig | null }
+  viewStateManager?: ViewStateManager | null // 开了视图持久化才有, 有就多一个 "视图" 面板
+  calculatedActions?: CalculatedColumnActions // 列管理面板里增删改计算列
 }
 
 /** 挂载后的布局: 主布局 + 侧边布局 */
@@ -111,8 +119,10 @@ export class MountHelper {
         store,
         lifecycle,
         params.onPivotModeToggle,
-        params.onPivotConfigChange
-
+        params.onPivotConfigChange,
+        params.getPivotState,
+        params.viewStateManager,
+        params.calculatedActions
       )
 
     } else {
@@ -141,6 +151,9 @@ export class MountHelper {
     lifecycle: TableLifecycle,
     onPivotModeToggle?: (enabled: boolean) => void, // 闭包: 外函数的变量 (局部)
     onPivotConfigChange?: (config: any) => void,
+    getPivotState?: () => { enabled: boolean; config: IPivotConfig | null },
+    viewStateManager?: ViewStateManager | null,
+    calculatedActions?: CalculatedColumnActions,
 
   ): MountResult {
 
@@ -236,10 +249,25 @@ export class MountHelper {
           component: ((store: TableStore, columns: IColumn[]) => {
             // 这里 onPivotModeToggle 是外层 mountWithSidePanel 函数变量, 但已执行完
             // 但这里点击 "列管理", 需要去引用外层 onPivotModeToggle 变量 这样就形成了闭包捕获
-            return createColumnPanel(store, columns, onPivotModeToggle, onPivotConfigChange)
+            return createColumnPanel(store, columns, onPivotModeToggle, onPivotConfigChange, getPivotState, calculatedActions)
           }) as any 
+        },
+        {
+          id: 'filters',
+          title: '筛选器',
+          icon: '🔍',
+          // 拿 originalColumns 的引用, 运行时加的计算列也能选
+          component: (store: TableStore) => createFilterPanel(store, originalColumns, mode)
         }
       ]
+      if (viewStateManager) {
+        panelConfigs.push({
+          id: 'views',
+          title: '视图',
+          icon: '🔖',
+          component: (store: TableStore) => createViewsPanel(store, viewStateManager)
+        })
+      }
 
       // 创建 Tab 容器, 在 SidePanelManager 外部创建
       const tabsContainer = document.createElement('div')
@@ -23,10 +23,13 @@ export type ActionHandler = (
 export const DATA_EFFECT_ACTIONS = new Set<string>([
   'SORT_TOGGLE',
   'SORT_SET',
+  'SORT_LIST_SET',
   'SET_FILTER_TEXT',
   'CLEAR_FILTER_TEXT',
   'COLUMN_FILTER_SET',
-  'COLUMN_FILTER_CLEAR'
+  'COLUMN_FILTER_CLEAR',
+  'ADVANCED_FILTER_SET',
+  'GROUP_BY_SET'
 ])
 
 /**
@@ -46,7 +49,8 @@ export const COLUMN_EFFTECT_ACTIONS = new Set<string>([
  * 结构-副作用白名单: 这些 action 会触发表格重建 rebuild 
  */
 export const STRUCTURAL_EFFECT_ACTIONS = new Set<string>([
-  'FROZEN_COUNT_SET'
+  'FROZEN_COUNT_SET',
+  'COLUMN_PIN_SET'
 ])
 
 /**
@@ -74,16 +78,27 @@ export const actionHandlers = new Map<string, ActionHandler>([
   ['COLUMNS_RESET_VISIBILITY', handleColumnVisibility],
   // 冻结列
   ['FROZEN_COUNT_SET', handleFrozenCountSet],
+  ['COLUMN_PIN_SET', handleColumnPinSet],
   // 纯状态更新
   ['SET_TOTAL_ROWS', handleNoOp],
   ['SET_CURRENT_PAGE', handleNoOp],
   // 数据副作用
   ['SORT_TOGGLE', handleDataChange],
   ['SORT_SET', handleDataChange],
+  ['SORT_LIST_SET', handleDataChange],
   ['SET_FILTER_TEXT', handleDataChange],
   ['CLEAR_FILTER_TEXT', handleDataChange],
   ['COLUMN_FILTER_SET', handleDataChange],
-  ['COLUMN_FILTER_CLEAR', handleDataChange]
+  ['COLUMN_FILTER_CLEAR', handleDataChange],
+  ['ADVANCED_FILTER_SET', handleDataChange],
+  ['GROUP_BY_SET', handleDataChange],
+  // 分组展开/折叠: 不重新查询, 只重排行下标
+  ['GROUP_TOGGLE', handleGroupCollapse],
+  ['GROUP_COLLAPSE_SET', handleGroupCollapse],
+  // 撤销/重做
+  ['HISTORY_RESTORE', handleHistoryRestore],
+  // 切换视图
+  ['VIEW_STATE_APPLY', handleViewStateApply]
 ])
 
 // 列宽处理器
@@ -102,6 +117,10 @@ export function handleColumnWidthSet(action: TableAction, ctx: ActionContext): v
     ctx.table['viewport'].getVisibleRows()
   )
   // 保存到 localStorage
+  saveColumnWidths(ctx)
+}
+
+function saveColumnWidths(ctx: ActionContext): void {
   const storage = ctx.table['widthStorage']
   if (storage) {
     const widths: Record<string, number> = {}
@@ -126,6 +145,10 @@ export function handleColumnOrderSet(action: TableAction, ctx: ActionContext): v
   
   ctx.table['updateColumnUI']()
   // 也保存到 localStorage
+  saveColumnOrder(ctx)
+}
+
+function saveColumnOrder(ctx: ActionContext): void {
   const storage = ctx.table['widthStorage']
   if (storage) {
     const columnKeys = ctx.table['config'].columns.map(col => col.key)
@@ -164,6 +187,12 @@ export function handleDataChange(action: TableAction, ctx: ActionContext): void
     return 
   }
 
+  // 搜索框每敲一个字都会来一次, 防抖; 其他的 (排序/列筛选/清空) 立刻查
+  applyQueryFromState(ctx, action.type === 'SET_FILTER_TEXT')
+}
+
+// 按当前 state 重新查询 (排序/筛选都从 state 取)
+function applyQueryFromState(ctx: ActionContext, debounce = false): void {
   const shell = ctx.table['shell']
   const store = ctx.table['store']
   const state = store.getState()
@@ -172,15 +201,100 @@ export function handleDataChange(action: TableAction, ctx: ActionContext): void
 
   // 统一走 applyQuery, 不再区分 client/server
   const query: ITableQuery = {
-    sortKey: state.data.sort?.key,
-    sortDirection: state.data.sort?.direction,
+    sortKey: state.data.sort[0]?.key,
+    sortDirection: state.data.sort[0]?.direction,
+    sorts: state.data.sort,
     filterText: state.data.mode === 'client' ? state.data.clientFilterText : state.data.query.filterText,
-    columnFilters: state.data.columnFilters
+    columnFilters: state.data.columnFilters,
+    advancedFilter: state.data.advancedFilter ?? undefined,
+    groupBy: state.data.groupBy
   }
 
+  if (debounce) {
+    ctx.table['queryCoordinator'].scheduleQuery(query)
+    return
+  }
   void ctx.table['applyQuery'](query)
 }
 
+/**
+ * 分组展开/折叠
+ * 数据和分组都没变, 只是折叠的组里的行不占行下标了, 同步一下行数, 滚动位置不动
+ */
+export function handleGroupCollapse(action: TableAction, ctx: ActionContext): void {
+  if (action.type !== 'GROUP_TOGGLE' && action.type !== 'GROUP_COLLAPSE_SET') return
+
+  const strategy = ctx.table['dataStrategy']
+  if (!strategy.setCollapsedGroups) return
+  strategy.setCollapsedGroups(ctx.table['store'].getState().data.collapsedGroups)
+  ctx.table['queryCoordinator'].syncTotalRows()
+}
+
+/**
+ * 撤销/重做: state 已经整块还原了, 副作用按被撤销的那个 action 的类别来补
+ * - 结构类 (冻结列): 重建
+ * - 列管理类: 刷列 UI, 列宽/顺序同步回 localStorage
+ * - 数据类: 重新查询
+ */
+export function handleHistoryRestore(action: TableAction, ctx: ActionContext): void {
+  if (action.type !== 'HISTORY_RESTORE') return
+  const { source } = action.payload
+
+  if (STRUCTURAL_EFFECT_ACTIONS.has(source)) {
+    ctx.table['rebuild']()
+    return
+  }
+  if (COLUMN_EFFTECT_ACTIONS.has(source)) {
+    ctx.table['updateColumnUI']()
+    saveColumnWidths(ctx)
+    saveColumnOrder(ctx)
+    return
+  }
+  if (DATA_EFFECT_ACTIONS.has(source)) {
+    applyQueryFromState(ctx)
+    return
+  }
+  console.warn(`[handleHistoryRestore] 不知道怎么撤销 "${source}", 只还原了 state`)
+}
+
+/**
+ * 切换/恢复视图: 列和查询一起换了
+ * - 冻结列数变了只能重建, 否则刷列 UI 就够
+ * - 重建在 server 模式下不会重新查询, 这里补上
+ */
+export function handleViewStateApply(action: TableAction, ctx: ActionContext): void {
+  if (action.type !== 'VIEW_STATE_APPLY') return
+  const { frozenCount, pinnedRight, hiddenKeys } = action.payload.snapshot.columns
+  // 右侧固定的 (可见) 列变了也得重建, 只比集合, 顺序变了走普通的列更新就行
+  const currentPinned = ctx.table['config'].pinnedRightColumns
+  const nextPinned = pinnedRight.filter(key => !hiddenKeys.includes(key))
+  const pinnedChanged = nextPinned.length !== currentPinned.length || nextPinned.some(key => !currentPinned.includes(key))
+
+  if (frozenCount !== ctx.table['config'].frozenColumns || pinnedChanged) {
+    ctx.table['rebuild']()
+    if (ctx.table['store'].getState().data.mode === 'server') {
+      applyQueryFromState(ctx)
+    }
+  } else {
+    ctx.table['updateColumnUI']()
+    applyQueryFromState(ctx)
+  }
+  saveColumnWidths(ctx)
+  saveColumnOrder(ctx)
+}
+
+// 列固定到左/右侧: 冻结区 / 右侧固定区都变了, 和冻结列一样重建
+export function handleColumnPinSet(action: TableAction, ctx: ActionContext): void {
+  if (!STRUCTURAL_EFFECT_ACTIONS.has(action.type)) {
+    console.error(`[handleColumnPinSet] action "${action.type}" 不在结构副作用白名单中!`)
+    return
+  }
+
+  if (action.type !== 'COLUMN_PIN_SET') return
+  ctx.table['rebuild']()
+  saveColumnOrder(ctx)
+}
+
 // 空处理器, 用于更新 state, 不触发副作用的 action 
 export function handleNoOp(action: TableAction, ctx: ActionContext): void {
   // 什么都不做, 只是为了防止走到 默认的 handleDataChange
@@ -13,13 +13,15 @@ import { ColumnWidthStorage } from "@/utils/ColumnWidthStorage";
  * - 提供代码可维护性
  */
 export class ShellCallbacks {
+  private filterOptionsController: AbortController | null = null // 正在拉的筛选选项, 切到别的列就 abort 掉
+
   constructor(
     private config: IConfig,
     private store: TableStore,
     private mode: 'client' | 'server',
     private originalColumns: IColumn[],
     private widthStorage: ColumnWidthStorage | null,
-    private getClientFilterOptions: (key: string) => string[],
+    private getClientFilterOptions: (key: string) => string[] | Promise<string[]>,
     private loadSummaryData: (summaryRow: HTMLDivElement) => void | Promise<void>,
     private onToggleSidePanel?: (panelId: string) => void
   ) {}
@@ -28,8 +30,8 @@ export class ShellCallbacks {
   public getCallbacks() {
     return {
       // 回调函数
-      onToggleSort: (key: string) => {
-        this.store.dispatch({type: 'SORT_TOGGLE', payload: {key}})
+      onToggleSort: (key: string, multi: boolean) => {
+        this.store.dispatch({type: 'SORT_TOGGLE', payload: {key, multi}})
       },
       onNeedLoadSummary: (summaryRow: HTMLDivElement) => {
           this.loadSummaryData(summaryRow)
@@ -40,6 +42,9 @@ export class ShellCallbacks {
       onColumnOrderChange: (order: string[]) => {
         this.store.dispatch({ type: 'COLUMN_ORDER_SET', payload: { order }})
       },
+      onColumnPin: (key: string, position: 'left' | 'right' | null, order?: string[]) => {
+        this.store.dispatch({ type: 'COLUMN_PIN_SET', payload: { key, position, order } })
+      },
       onColumnFilterChange: (key: string, filter: ColumnFilterValue | null) => {
         if (!filter) {
           this.store.dispatch({type: 'COLUMN_FILTER_CLEAR', payload: { key } })
@@ -55,7 +60,14 @@ export class ShellCallbacks {
         // server 模式 若用户提供了 fetchFilterOptions 接口, 就去拉
         if (this.config.fetchFilterOptions) {
           const query = this.store.getState().data.query 
-          return this.config.fetchFilterOptions({ key, query})
+          this.filterOptionsController?.abort()
+          const controller = new AbortController()
+          this.filterOptionsController = controller
+          try {
+            return await this.config.fetchFilterOptions({ key, query, signal: controller.signal })
+          } finally {
+            if (this.filterOptionsController === controller) this.filterOptionsController = null
+          }
         }
         // 未提供或者没有数据, 则返回空数组 (UI 仍可打开, 但没有选项)
         return []
@@ -81,7 +93,15 @@ export class ShellCallbacks {
         return state.data.sort
       },
       onMenuSort: (key: string, direction: 'asc' | 'desc' | null) => {
-        if (direction === null) {
+        const sorts = this.store.getState().data.sort
+        const inList = sorts.some(s => s.key === key)
+        // 已经在多列排序里的, 只改/删自己那一项, 不打乱其他列的优先级
+        if (inList) {
+          const next = direction === null
+            ? sorts.filter(s => s.key !== key)
+            : sorts.map(s => s.key === key ? { key, direction } : s)
+          this.store.dispatch({ type: 'SORT_LIST_SET', payload: { sorts: next }})
+        } else if (direction === null) {
           this.store.dispatch({ type: 'SORT_SET', payload: { sort: null }})
         } else {
           this.store.dispatch({
@@ -92,6 +112,17 @@ export class ShellCallbacks {
           })
         }
       },
+      getGroupBy: () => {
+        return this.store.getState().data.groupBy
+      },
+      // 勾上的列追加到最后一层, 取消的从分组里拿掉; server 模式不给分组菜单
+      onMenuGroupBy: this.mode === 'client'
+        ? (key: string, grouped: boolean) => {
+          const groupBy = this.store.getState().data.groupBy.filter(k => k !== key)
+          if (grouped) groupBy.push(key)
+          this.store.dispatch({ type: 'GROUP_BY_SET', payload: { groupBy } })
+        }
+        : undefined,
       // 列管理面板-相关回调
       getAllColumns: () => {
         return this.originalColumns // 包含隐藏列都要有
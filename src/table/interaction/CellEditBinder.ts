@@ -0,0 +1,120 @@
+import type { IColumn } from "@/types";
+import { CellEditorView } from "@/table/interaction/CellEditorView";
+
+/**
+ * 单元格编辑交互绑定: 双击打开编辑器, 键盘 (回车/F2) 由 KeyboardNavBinder 调 editCell
+ *
+ * 只管 "什么时候开, 什么时候关", 取值校验写数据都交给外部回调
+ */
+export class CellEditBinder {
+  private editorView = new CellEditorView()
+  private editing: { rowIndex: number; key: string } | null = null
+
+  private scrollContainer: HTMLDivElement | null = null
+  private onDblClick: ((e: MouseEvent) => void) | null = null
+  private onScroll: (() => void) | null = null
+  private startEdit: ((target: HTMLElement) => Promise<void>) | null = null
+
+  public bind(params: {
+    scrollContainer: HTMLDivElement
+    getColumn: (key: string) => IColumn | undefined
+    getRow: (rowIndex: number) => Record<string, any> | undefined
+    getOptions: (key: string) => Promise<string[]>
+    // 返回错误信息则编辑器保持打开, 返回 null 表示写入成功
+    onCommit: (rowIndex: number, key: string, value: any) => string | null
+    onClose: (rowIndex: number) => void // 关闭后外部重新渲染该行
+  }) {
+    const { scrollContainer, getColumn, getRow, getOptions, onCommit, onClose } = params
+    this.unbind()
+    this.scrollContainer = scrollContainer
+
+    const findEditableCell = (target: HTMLElement) => {
+      const cell = target.closest<HTMLDivElement>('.vt-virtual-row .vt-table-cell')
+      if (!cell || cell.classList.contains('vt-checkbox-cell')) return null
+      const rowEl = cell.closest<HTMLDivElement>('.vt-virtual-row')
+      const key = cell.dataset.columnKey
+      const rowIndex = parseInt(rowEl?.dataset.rowIndex ?? '-1', 10)
+      if (!key || rowIndex < 0) return null
+
+      const column = getColumn(key)
+      const row = getRow(rowIndex)
+      if (!column || !row) return null // 骨架行 (数据没回来) 不能编辑
+      const editable = typeof column.editable === 'function'
+        ? column.editable(row, rowIndex)
+        : !!column.editable
+      return editable ? { cell, key, rowIndex, column, row } : null
+    }
+
+    const startEdit = async (target: HTMLElement) => {
+      const found = findEditableCell(target)
+      if (!found) return
+      const { cell, key, rowIndex, column, row } = found
+
+      // 先把手上的编辑交掉, 校验不过就不切
+      if (this.editorView.isOpen()) {
+        this.editorView.commit()
+        if (this.editorView.isOpen()) return
+      }
+
+      const options = column.filter?.type === 'set' ? await getOptions(key) : undefined
+      this.editing = { rowIndex, key }
+      this.editorView.open(cell, {
+        column,
+        value: row[key],
+        options,
+        onCommit: (value) => {
+          const error = onCommit(rowIndex, key, value)
+          if (error) {
+            this.editorView.showError(error)
+            return
+          }
+          this.finishEdit(onClose)
+        },
+        onCancel: () => this.finishEdit(onClose)
+      })
+    }
+
+    this.startEdit = startEdit
+    this.onDblClick = (e: MouseEvent) => {
+      void startEdit(e.target as HTMLElement)
+    }
+    // 滚动时行 dom 会被回收, 编辑框跟着没了, 所以先提交掉
+    this.onScroll = () => {
+      if (this.editorView.isOpen()) this.editorView.commit()
+    }
+
+    scrollContainer.addEventListener('dblclick', this.onDblClick)
+    scrollContainer.addEventListener('scroll', this.onScroll, { passive: true })
+  }
+
+  /** 对外: 当前是否正在编辑 */
+  public isEditing(): boolean {
+    return this.editorView.isOpen()
+  }
+
+  /** 对外: 指定单元格打开编辑器 (键盘导航等场景) */
+  public editCell(cell: HTMLDivElement): void {
+    void this.startEdit?.(cell)
+  }
+
+  private finishEdit(onClose: (rowIndex: number) => void): void {
+    const editing = this.editing
+    this.editing = null
+    this.editorView.close()
+    this.scrollContainer?.focus({ preventScroll: true })
+    if (editing) onClose(editing.rowIndex)
+  }
+
+  public unbind() {
+    this.editorView.close()
+    this.editing = null
+    const container = this.scrollContainer
+    if (!container) return
+    if (this.onDblClick) container.removeEventListener('dblclick', this.onDblClick)
+    if (this.onScroll) container.removeEventListener('scroll', this.onScroll)
+    this.onDblClick = null
+    this.onScroll = null
+    this.startEdit = null
+    this.scrollContainer = null
+  }
+}
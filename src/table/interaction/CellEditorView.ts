@@ -0,0 +1,166 @@
+import type { IColumn } from "@/types";
+
+type EditorElement = HTMLInputElement | HTMLSelectElement
+
+export interface ICellEditorConfig {
+  column: IColumn
+  value: any
+  options?: string[] // set 筛选列的下拉选项
+  onCommit: (value: any) => void
+  onCancel: () => void
+}
+
+/**
+ * 单元格编辑器: 只负责画编辑框和取值, 不关心数据怎么存
+ *
+ * 编辑器按列类型选:
+ * - set 筛选列: 下拉框 (选项和筛选弹窗同源)
+ * - number: 数字框
+ * - date: 日期框 (yyyy-MM-dd)
+ * - boolean: 复选框, 点一下就提交
+ * - 其他: 文本框
+ */
+export class CellEditorView {
+  private cell: HTMLDivElement | null = null
+  private editorEl: EditorElement | null = null
+  private config: ICellEditorConfig | null = null
+  private closed = false
+
+  public open(cell: HTMLDivElement, config: ICellEditorConfig): void {
+    this.close()
+    this.cell = cell
+    this.config = config
+    this.closed = false
+
+    const editor = this.createEditor(config)
+    editor.classList.add('vt-cell-editor')
+    this.editorEl = editor
+
+    cell.classList.add('vt-cell-editing')
+    cell.replaceChildren(editor)
+    this.bindEditorEvents(editor)
+
+    editor.focus()
+    if (editor instanceof HTMLInputElement && editor.type === 'text') {
+      editor.select()
+    }
+  }
+
+  public isOpen(): boolean {
+    return !!this.editorEl && !this.closed
+  }
+
+  public getCell(): HTMLDivElement | null {
+    return this.cell
+  }
+
+  /** 外部触发提交 (滚动时等), 校验失败就保持打开 */
+  public commit(): void {
+    if (!this.isOpen() || !this.config) return
+    this.config.onCommit(this.readValue())
+  }
+
+  /** 校验不通过: 标红 + 提示, 编辑器不关 */
+  public showError(message: string): void {
+    if (!this.cell) return
+    this.cell.classList.add('vt-cell-invalid')
+    this.cell.title = message
+    this.editorEl?.focus()
+  }
+
+  /** 关闭编辑器, 单元格内容由外部重新渲染 */
+  public close(): void {
+    this.closed = true
+    if (this.cell) {
+      this.cell.classList.remove('vt-cell-editing', 'vt-cell-invalid')
+      this.cell.removeAttribute('title')
+    }
+    this.editorEl?.remove()
+    this.editorEl = null
+    this.cell = null
+    this.config = null
+  }
+
+  private createEditor(config: ICellEditorConfig): EditorElement {
+    const { column, value, options } = config
+
+    if (column.filter?.type === 'set') {
+      const select = document.createElement('select')
+      const values = options ?? []
+      // 当前值不在选项里也要能显示出来
+      const all = values.includes(String(value ?? '')) ? values : [String(value ?? ''), ...values]
+      all.forEach(v => {
+        const opt = document.createElement('option')
+        opt.value = v
+        opt.textContent = v
+        select.appendChild(opt)
+      })
+      select.value = String(value ?? '')
+      return select
+    }
+
+    const input = document.createElement('input')
+    switch (column.dataType) {
+      case 'number':
+        input.type = 'number'
+        input.value = value !== undefined && value !== null ? String(value) : ''
+        break
+      case 'date':
+        input.type = 'date'
+        input.value = value ? String(value).slice(0, 10) : ''
+        break
+      case 'boolean':
+        input.type = 'checkbox'
+        input.checked = value === true || value === 'true'
+        break
+      default:
+        input.type = 'text'
+        input.value = value !== undefined && value !== null ? String(value) : ''
+    }
+    return input
+  }
+
+  /** 按类型把编辑框的值转回数据值 */
+  private readValue(): any {
+    const editor = this.editorEl
+    const column = this.config?.column
+    if (!editor || !column) return undefined
+
+    if (editor instanceof HTMLSelectElement) return editor.value
+    if (editor.type === 'checkbox') return editor.checked
+    if (editor.type === 'number') {
+      if (editor.value === '') return null
+      const num = parseFloat(editor.value)
+      return isNaN(num) ? editor.value : num
+    }
+    return editor.value
+  }
+
+  private bindEditorEvents(editor: EditorElement): void {
+    editor.addEventListener('keydown', (e: Event) => {
+      const ke = e as KeyboardEvent
+      // 编辑器里的按键都自己消化掉, 别让表格的快捷键再处理一遍
+      ke.stopPropagation()
+      if (ke.key === 'Enter') {
+        ke.preventDefault()
+        this.commit()
+      } else if (ke.key === 'Escape') {
+        ke.preventDefault()
+        this.config?.onCancel()
+      }
+    })
+    // 双击编辑器本身不要再触发开编辑
+    editor.addEventListener('dblclick', (e) => e.stopPropagation())
+    editor.addEventListener('click', (e) => e.stopPropagation())
+
+    if (editor instanceof HTMLInputElement && editor.type === 'checkbox') {
+      editor.addEventListener('change', () => this.commit())
+    } else if (editor instanceof HTMLSelectElement) {
+      editor.addEventListener('change', () => this.commit())
+    }
+    // 失焦即提交
+    editor.addEventListener('blur', () => {
+      if (this.isOpen()) this.commit()
+    })
+  }
+}
@@ -0,0 +1,66 @@
+import type { ICellRange } from "@/types";
+
+interface CellPos {
+  rowIndex: number
+  key: string
+}
+
+/**
+ * 单元格区域选择状态
+ * 独立于 TableStore, 和行选中一样不触发全量重绘
+ *
+ * anchor 是起点 (就是焦点单元格), end 是拖到/Shift 移到的那一格
+ * 列按 key 记, 取区域时再按当前列顺序换算, 列拖拽换位后区域跟着显示顺序走
+ */
+export class CellRangeManager {
+  private anchor: CellPos | null = null
+  private end: CellPos | null = null
+
+  /** 重新开始一个区域 (单击 / 不带 Shift 的移动) */
+  public start(rowIndex: number, key: string): void {
+    this.anchor = { rowIndex, key }
+    this.end = { rowIndex, key }
+  }
+
+  /** 把区域拉到指定单元格, 没有起点就从这格开始 */
+  public extendTo(rowIndex: number, key: string): void {
+    if (!this.anchor) this.anchor = { rowIndex, key }
+    this.end = { rowIndex, key }
+  }
+
+  public getAnchor(): CellPos | null {
+    return this.anchor
+  }
+
+  public getEnd(): CellPos | null {
+    return this.end
+  }
+
+  public clear(): void {
+    this.anchor = null
+    this.end = null
+  }
+
+  /** 是否选了不止一格 (单格就是普通焦点, 不画区域) */
+  public isMultiCell(): boolean {
+    if (!this.anchor || !this.end) return false
+    return this.anchor.rowIndex !== this.end.rowIndex || this.anchor.key !== this.end.key
+  }
+
+  /**
+   * 归一化成矩形区域
+   * @param columnKeys - 当前显示的列 key (按顺序)
+   * @returns 起止列有一个已经不在了 (被隐藏) 就返回 null
+   */
+  public getRange(columnKeys: string[]): ICellRange | null {
+    if (!this.anchor || !this.end) return null
+    const c1 = columnKeys.indexOf(this.anchor.key)
+    const c2 = columnKeys.indexOf(this.end.key)
+    if (c1 < 0 || c2 < 0) return null
+    return {
+      startRow: Math.min(this.anchor.rowIndex, this.end.rowIndex),
+      endRow: Math.max(this.anchor.rowIndex, this.end.rowIndex),
+      columnKeys: columnKeys.slice(Math.min(c1, c2), Math.max(c1, c2) + 1)
+    }
+  }
+}
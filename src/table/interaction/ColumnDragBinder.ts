@@ -1,18 +1,27 @@
 
+import type { IColumnGroup } from "@/types";
+import { keepsGroupsTogether } from "@/table/model/ColumnGroupModel";
+
 // 列顺序拖拽, 除冻结列外, 其他列自由排序, 
+// 拖进左侧冻结区 / 右侧固定区 = 固定到那一侧, 从右侧固定区拖出来 = 取消固定
 export class ColumnDragBinder {
   private onMouseDown: ((e: MouseEvent) => void) | null = null 
   private frozenColumnCount = 0
+  private pinnedRightCount = 0 // 右侧固定列数量 (排在最后的那几列)
 
   public bind(params: {
     scrollContainer: HTMLDivElement
     headerRow: HTMLDivElement
     onOrderChange: (order: string[]) => void
+    onPinChange?: (key: string, position: 'left' | 'right' | null, order: string[]) => void // 不传就还是不让拖进冻结区
     frozenColumnCount?: number 
+    pinnedRightCount?: number
+    columnGroups?: IColumnGroup[] // 表头分组, 拖完分组被拆开的不算数
   }) {
-    const { scrollContainer, headerRow, onOrderChange, frozenColumnCount = 0 } = params
+    const { scrollContainer, headerRow, onOrderChange, onPinChange, frozenColumnCount = 0, pinnedRightCount = 0, columnGroups = [] } = params
 
     this.frozenColumnCount = frozenColumnCount
+    this.pinnedRightCount = pinnedRightCount
     this.unbind(headerRow)
 
     // 监听鼠标按下事件
@@ -86,14 +95,27 @@ export class ColumnDragBinder {
         const isFromFrozen = fromIndex < this.frozenColumnCount
         const isToFrozen = toIndex < this.frozenColumnCount
 
-        // 不论是别的列拖动到冻结区 或者 冻结区拖向任何区 (包括自己) 都不准动!
-        if (isFromFrozen || isToFrozen) return false
+        // 冻结区拖向任何区 (包括自己) 都不准动, 要取消冻结走列菜单
+        if (isFromFrozen) return false
+        // 别的列拖到冻结区: 能固定就固定到左侧, 否则不准动
+        if (isToFrozen && !onPinChange) return false
 
         const next = [...keys]
         const [moved] = next.splice(fromIndex, 1)
         next.splice(toIndex, 0, moved)
-        // 等 mouseup 后才提交顺序 -> dispatch -> rebuild
-        onOrderChange(next) // 外部传进来的回调函数
+
+        // 右侧固定区从 rightStart 开始; 落在固定区和普通区交界 (toIndex === rightStart) 算原来那一侧
+        const rightStart = keys.length - this.pinnedRightCount
+        const isFromRight = this.pinnedRightCount > 0 && fromIndex >= rightStart
+        const isToRight = this.pinnedRightCount > 0 && (toIndex > rightStart || (toIndex === rightStart && isFromRight))
+        if (onPinChange && isToFrozen) {
+          onPinChange(moved, 'left', next)
+        } else if (onPinChange && isFromRight !== isToRight) {
+          onPinChange(moved, isToRight ? 'right' : null, next)
+        } else if (keepsGroupsTogether(keys, next, columnGroups)) {
+          // 等 mouseup 后才提交顺序 -> dispatch -> rebuild
+          onOrderChange(next) // 外部传进来的回调函数
+        }
 
         // 避免 mouseup 后触发一次 click 导致误排
         const cancelClickOnce = (ce: MouseEvent) => {
@@ -57,7 +57,13 @@ export class ColumnFilterBinder {
 
       // 根据不同类型渲染不同 UI, 类型有 set/text/dateRante/numberRange 等 
       if (filterType === 'set') {
-        await this.renderSetFilter(key, current, getFilterOptions, onFilterChange)
+        try {
+          await this.renderSetFilter(key, current, getFilterOptions, onFilterChange)
+        } catch (err) {
+          // 选项还没回来就点开了别的列, 这次请求被 abort 了, 新弹层自己会渲染
+          if ((err as Error).name === 'AbortError') return
+          throw err
+        }
 
       } else if (filterType === 'text') {
         await this.renderTextFilter(key, current, onFilterChange)
@@ -1,5 +1,5 @@
 import { ColumnMenuView, IColumnMenuConfig } from "@/table/interaction/ColumnMenuView";
-import { IColumn } from "@/types";
+import { IColumn, ISortItem } from "@/types";
 
 export class ColumnMenuBinder {
   private menuView = new ColumnMenuView()
@@ -10,8 +10,12 @@ export class ColumnMenuBinder {
     portalContainer: HTMLDivElement,
     headerRow: HTMLDivElement,
     columns: IColumn[] // 完整的列配置
-    getCurrentSort: () => { key: string, direction: 'asc' | 'desc' } | null,
+    getCurrentSort: () => ISortItem[],
     onSort: (key: string, direction: 'asc' | 'desc' | null) => void,
+    getGroupBy?: () => string[],
+    onGroupBy?: (key: string, grouped: boolean) => void,
+    getPinned?: (key: string) => 'left' | 'right' | null,
+    onPin?: (key: string, position: 'left' | 'right' | null) => void,
     onBeforeOpen?: () => void,
 
   }) {
@@ -22,7 +26,11 @@ export class ColumnMenuBinder {
       portalContainer, 
       onBeforeOpen, 
       getCurrentSort, 
-      onSort 
+      onSort,
+      getGroupBy,
+      onGroupBy,
+      getPinned,
+      onPin
     } = params
 
     // 表头行上事件委托, 监听 click 事件, 并找到最近的 "三点" 按钮
@@ -55,8 +63,8 @@ export class ColumnMenuBinder {
       // 从 config.columns 中获取 当前列 的完整配置: width, sortable, filter, render 等
       const column = columns.find(col => col.key === columnKey)
       if (!column) return 
-      // 从 store 获取当前字段的排序状态
-      const currentSort = getCurrentSort()
+      // 从 store 获取当前字段的排序状态 (多列排序里找到自己那一项)
+      const currentSort = getCurrentSort().find(s => s.key === columnKey) ?? null
       // 渲染菜单前-配置数据
       const menuConfig: IColumnMenuConfig = {
         column,
@@ -65,7 +73,21 @@ export class ColumnMenuBinder {
           // 调用 VirtualTable 传来的 onMenuSort 回调
           onSort(columnKey, direction)
           btn.classList.remove('vt-active')
-        }
+        },
+        isGrouped: getGroupBy?.().includes(columnKey) ?? false,
+        handleGroupBy: onGroupBy
+          ? (grouped) => {
+            onGroupBy(columnKey, grouped)
+            btn.classList.remove('vt-active')
+          }
+          : undefined,
+        pinned: getPinned?.(columnKey) ?? null,
+        onPin: onPin
+          ? (position) => {
+            onPin(columnKey, position)
+            btn.classList.remove('vt-active')
+          }
+          : undefined
       }
       // 真正渲染菜单 
       this.menuView.render(menuConfig, btn, portalContainer) 
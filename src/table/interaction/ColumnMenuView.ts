@@ -4,6 +4,9 @@ export interface IColumnMenuConfig {
   column: IColumn
   currentSort?: { key: string; direction: 'asc' | 'desc' } | null 
   handleSort?: (direction: 'asc' | 'desc' | null) => void 
+  isGrouped?: boolean // 当前列是否在行分组里
+  handleGroupBy?: (grouped: boolean) => void // 不传就不显示分组菜单项 (server 模式)
+  pinned?: 'left' | 'right' | null // 当前固定在哪一侧
   onPin?: (postion: 'left' | 'right' | null) => void 
   onAutoSize?: (mode: 'this' | 'all') => void
   onHide?: () => void
@@ -16,7 +19,7 @@ export class ColumnMenuView {
   public render(config: IColumnMenuConfig, anchorEl: HTMLElement, portalContainer: HTMLElement): HTMLDivElement {
     // 创建前先清理一波
     this.destroy()
-    const { column, currentSort, handleSort } = config
+    const { column, currentSort, handleSort, isGrouped, handleGroupBy, pinned, onPin } = config
     const isSorted = currentSort?.key === column.key  // 判断当前列是否正在排序
     // 创建弹窗容器
     this.popupEl = document.createElement('div')
@@ -58,6 +61,27 @@ export class ColumnMenuView {
         })
       }
     }
+    // 行分组菜单项
+    if (handleGroupBy) {
+      menuItems.push({
+        icon: '≡',
+        label: isGrouped ? '取消分组' : '按此列分组',
+        action: () => handleGroupBy(!isGrouped)
+      })
+    }
+
+    // 固定列菜单项: 只列出能切过去的那两项
+    if (onPin) {
+      if (pinned !== 'left') {
+        menuItems.push({ icon: '⇤', label: '固定到左侧', action: () => onPin('left') })
+      }
+      if (pinned !== 'right') {
+        menuItems.push({ icon: '⇥', label: '固定到右侧', action: () => onPin('right') })
+      }
+      if (pinned) {
+        menuItems.push({ icon: '↔', label: '取消固定', action: () => onPin(null) })
+      }
+    }
 
     // 渲染菜单项
     menuItems.forEach(item => {
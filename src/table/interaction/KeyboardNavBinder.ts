@@ -0,0 +1,193 @@
+/**
+ * 键盘导航绑定: 焦点单元格在表格里用键盘移动
+ *
+ * - 方向键: 上下左右一格
+ * - Tab / Shift+Tab: 左右一格, 到行尾/行首换行
+ * - Home / End: 本行第一列 / 最后一列
+ * - Ctrl(⌘)+Home / End: 第一行第一列 / 最后一行最后一列
+ * - PageUp / PageDown: 翻一屏
+ * - Enter / F2: 编辑焦点单元格
+ * - Shift + 上面的移动键 (Tab 除外): 焦点不动, 拉伸选择区域
+ * - Ctrl(⌘)+C: 复制选择区域, Ctrl(⌘)+V: 从焦点单元格开始粘贴
+ * - Ctrl(⌘)+Z / Ctrl(⌘)+Y (Shift+Ctrl+Z): 撤销 / 重做, 绑在整个表格根容器上,
+ *   焦点在侧边面板 / 筛选弹窗 / 列菜单里 (刚隐藏了列, 清了筛选) 也能撤销
+ *
+ * 只算 "下一个位置在哪", 滚动和渲染都交给外部 (viewport.focusCell)
+ * 鼠标点击定位焦点由 RangeSelectBinder 负责
+ */
+export class KeyboardNavBinder {
+  private scrollContainer: HTMLDivElement | null = null
+  private rootEl: HTMLElement | null = null
+  private onKeyDown: ((e: KeyboardEvent) => void) | null = null
+  private onHistoryKey: ((e: KeyboardEvent) => void) | null = null
+  private onPaste: ((e: ClipboardEvent) => void) | null = null
+
+  public bind(params: {
+    scrollContainer: HTMLDivElement
+    rootEl: HTMLElement // 表格根容器 (含侧边面板 / 弹窗), 撤销重做绑在这
+    getColumnKeys: () => string[] // 按显示顺序 (冻结列在前)
+    getTotalRows: () => number
+    getPageRowCount: () => number
+    getFocusedCell: () => { rowIndex: number; key: string } | null
+    focusCell: (rowIndex: number, key: string) => void
+    getRangeEnd: () => { rowIndex: number; key: string } | null
+    extendRange: (rowIndex: number, key: string) => void
+    onEdit: () => void
+    onCopy: () => void
+    onPaste: (text: string) => void
+    onUndo: () => void
+    onRedo: () => void
+    isEditing: () => boolean
+  }) {
+    const {
+      scrollContainer, rootEl, getColumnKeys, getTotalRows, getPageRowCount,
+      getFocusedCell, focusCell, getRangeEnd, extendRange,
+      onEdit, onCopy, onPaste, onUndo, onRedo, isEditing
+    } = params
+    this.unbind()
+    this.scrollContainer = scrollContainer
+    this.rootEl = rootEl
+    // 容器要能拿到焦点, 才收得到键盘事件
+    if (!scrollContainer.hasAttribute('tabindex')) {
+      scrollContainer.tabIndex = 0
+    }
+
+    // 撤销/重做不依赖焦点单元格; 文本框里的留给浏览器撤销输入, 复选框 (列显隐) 上的照样撤销表格
+    this.onHistoryKey = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement
+      if (target.closest('input:not([type="checkbox"]):not([type="radio"]), select, textarea') || isEditing()) return
+      if (!(e.ctrlKey || e.metaKey)) return
+      const lowerKey = e.key.toLowerCase()
+      if (lowerKey === 'y' || (lowerKey === 'z' && e.shiftKey)) {
+        e.preventDefault()
+        onRedo()
+      } else if (lowerKey === 'z') {
+        e.preventDefault()
+        onUndo()
+      }
+    }
+
+    this.onKeyDown = (e: KeyboardEvent) => {
+      // 编辑器 / 复选框 / 弹窗输入框里的按键不抢
+      const target = e.target as HTMLElement
+      if (target.closest('input, select, textarea') || isEditing()) return
+
+      const ctrl = e.ctrlKey || e.metaKey
+      const lowerKey = e.key.toLowerCase()
+      // 撤销/重做冒泡到根容器上处理
+      if (ctrl && (lowerKey === 'z' || lowerKey === 'y')) return
+
+      const keys = getColumnKeys()
+      const total = getTotalRows()
+      if (keys.length === 0 || total === 0) return
+
+      // 还没有焦点时, 任何导航键都先落到左上角
+      const current = getFocusedCell()
+      if (!current || !keys.includes(current.key)) {
+        if (!isNavKey(e.key)) return
+        e.preventDefault()
+        focusCell(0, keys[0])
+        return
+      }
+
+      if (ctrl && lowerKey === 'c') {
+        e.preventDefault()
+        onCopy()
+        return
+      }
+
+      // Shift 拉区域时从区域的另一头开始算, 焦点 (起点) 不动
+      const extending = e.shiftKey && e.key !== 'Tab'
+      const from = extending ? (getRangeEnd() ?? current) : current
+      const lastCol = keys.length - 1
+      const lastRow = total - 1
+      let row = from.rowIndex
+      let col = Math.max(0, keys.indexOf(from.key))
+
+      switch (e.key) {
+        case 'ArrowUp':
+          row -= 1
+          break
+        case 'ArrowDown':
+          row += 1
+          break
+        case 'ArrowLeft':
+          col -= 1
+          break
+        case 'ArrowRight':
+          col += 1
+          break
+        case 'Tab':
+          // 表格首尾再 Tab 就放行, 让焦点能离开表格
+          if (e.shiftKey ? (row === 0 && col === 0) : (row === lastRow && col === lastCol)) return
+          col += e.shiftKey ? -1 : 1
+          if (col > lastCol) { col = 0; row += 1 }
+          if (col < 0) { col = lastCol; row -= 1 }
+          break
+        case 'Home':
+          col = 0
+          if (ctrl) row = 0
+          break
+        case 'End':
+          col = lastCol
+          if (ctrl) row = lastRow
+          break
+        case 'PageUp':
+          row -= getPageRowCount()
+          break
+        case 'PageDown':
+          row += getPageRowCount()
+          break
+        case 'Enter':
+        case 'F2':
+          e.preventDefault()
+          onEdit()
+          return
+        default:
+          return
+      }
+
+      e.preventDefault()
+      row = Math.min(Math.max(0, row), lastRow)
+      col = Math.min(Math.max(0, col), lastCol)
+      if (extending) {
+        extendRange(row, keys[col])
+      } else {
+        focusCell(row, keys[col])
+      }
+    }
+
+    // 粘贴走 paste 事件: 同步拿得到剪贴板, 不用申请 clipboard-read 权限
+    this.onPaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement
+      if (target.closest('input, select, textarea') || isEditing()) return
+      const text = e.clipboardData?.getData('text/plain')
+      if (!text) return
+      e.preventDefault()
+      onPaste(text)
+    }
+
+    scrollContainer.addEventListener('keydown', this.onKeyDown)
+    scrollContainer.addEventListener('paste', this.onPaste)
+    rootEl.addEventListener('keydown', this.onHistoryKey)
+  }
+
+  public unbind() {
+    const container = this.scrollContainer
+    if (!container) return
+    if (this.onKeyDown) container.removeEventListener('keydown', this.onKeyDown)
+    if (this.onPaste) container.removeEventListener('paste', this.onPaste)
+    if (this.onHistoryKey) this.rootEl?.removeEventListener('keydown', this.onHistoryKey)
+    this.onKeyDown = null
+    this.onHistoryKey = null
+    this.onPaste = null
+    this.scrollContainer = null
+    this.rootEl = null
+  }
+}
+
+const NAV_KEYS = new Set(['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Home', 'End', 'PageUp', 'PageDown'])
+
+function isNavKey(key: string): boolean {
+  return NAV_KEYS.has(key)
+}
@@ -0,0 +1,84 @@
+/**
+ * 鼠标拖选单元格区域
+ *
+ * - 按下: 开始新区域 (按住 Shift 则从当前焦点拉到这一格)
+ * - 拖动: 区域终点跟着鼠标走
+ * - 松开: 结束
+ *
+ * 只报告 "拖到了哪一格", 区域状态和绘制都在外面
+ */
+export class RangeSelectBinder {
+  private scrollContainer: HTMLDivElement | null = null
+  private onMouseDown: ((e: MouseEvent) => void) | null = null
+  private onMouseMove: ((e: MouseEvent) => void) | null = null
+  private onMouseUp: (() => void) | null = null
+
+  public bind(params: {
+    scrollContainer: HTMLDivElement
+    onStart: (rowIndex: number, key: string, extend: boolean) => void
+    onExtend: (rowIndex: number, key: string) => void
+  }) {
+    const { scrollContainer, onStart, onExtend } = params
+    this.unbind()
+    this.scrollContainer = scrollContainer
+
+    // 拖动过程中最后一次报告的格子, 同一格里挪鼠标不重复回调
+    let lastCell: HTMLDivElement | null = null
+
+    this.onMouseMove = (e: MouseEvent) => {
+      const target = document.elementFromPoint(e.clientX, e.clientY) as HTMLElement | null
+      const found = target && scrollContainer.contains(target) ? findDataCell(target) : null
+      if (!found || found.cell === lastCell) return
+      lastCell = found.cell
+      onExtend(found.rowIndex, found.key)
+    }
+
+    this.onMouseUp = () => {
+      lastCell = null
+      document.removeEventListener('mousemove', this.onMouseMove!)
+      document.removeEventListener('mouseup', this.onMouseUp!)
+    }
+
+    this.onMouseDown = (e: MouseEvent) => {
+      if (e.button !== 0) return
+      const target = e.target as HTMLElement
+      // 编辑器 / 复选框里的点击照常
+      if (target.closest('input, select, textarea')) return
+      const found = findDataCell(target)
+      if (!found) return
+
+      // 拖选时别选中文字, 但容器焦点还要, 否则键盘用不了
+      e.preventDefault()
+      scrollContainer.focus({ preventScroll: true })
+
+      lastCell = found.cell
+      onStart(found.rowIndex, found.key, e.shiftKey)
+      document.addEventListener('mousemove', this.onMouseMove!)
+      document.addEventListener('mouseup', this.onMouseUp!)
+    }
+
+    scrollContainer.addEventListener('mousedown', this.onMouseDown)
+  }
+
+  public unbind() {
+    if (this.onMouseUp) this.onMouseUp()
+    if (this.scrollContainer && this.onMouseDown) {
+      this.scrollContainer.removeEventListener('mousedown', this.onMouseDown)
+    }
+    this.onMouseDown = null
+    this.onMouseMove = null
+    this.onMouseUp = null
+    this.scrollContainer = null
+  }
+}
+
+/** 找到事件落在的数据单元格 (表头/总结行/复选框列都不算) */
+function findDataCell(target: HTMLElement) {
+  const cell = target.closest<HTMLDivElement>('.vt-virtual-row .vt-table-cell')
+  if (!cell || cell.classList.contains('vt-checkbox-cell')) return null
+  const rowEl = cell.closest<HTMLDivElement>('.vt-virtual-row')
+  const key = cell.dataset.columnKey
+  const rowIndex = parseInt(rowEl?.dataset.rowIndex ?? '-1', 10)
+  if (!key || rowIndex < 0) return null
+  return { cell, rowIndex, key }
+}
@@ -0,0 +1,73 @@
+import type { DataStrategy } from "@/table/data/DataStrategy";
+import type { RowKey } from "@/types";
+
+/**
+ * 主从表展开状态管理器
+ * 和 RowSelectionManager 一样按 rowKey 记, 排序 / 筛选 / server 重新拉页之后展开的还是那几条记录
+ * 详情区量出来的高度也按 rowKey 缓存, 行滚出去再回来 (或换了位置) 先按上次的高度占位, 不用再跳一次
+ */
+export class RowDetailManager {
+  private expanded = new Set<RowKey>()
+  private heights = new Map<RowKey, number>()
+
+  // 行下标 -> rowKey, 行数据还没加载时返回 undefined
+  constructor(private resolveKey: (rowIndex: number) => RowKey | undefined) {}
+
+  public isExpanded(rowIndex: number): boolean {
+    const key = this.resolveKey(rowIndex)
+    return key !== undefined && this.expanded.has(key)
+  }
+
+  public toggle(rowIndex: number): void {
+    const key = this.resolveKey(rowIndex)
+    if (key === undefined) return // 骨架行还没数据, 没东西可展开
+    this.setExpanded(key, !this.expanded.has(key))
+  }
+
+  public setExpanded(key: RowKey, expanded: boolean): void {
+    if (expanded) {
+      this.expanded.add(key)
+    } else {
+      this.expanded.delete(key)
+    }
+  }
+
+  public clear(): void {
+    this.expanded.clear()
+  }
+
+  public hasExpanded(): boolean {
+    return this.expanded.size > 0
+  }
+
+  public getExpandedKeys(): RowKey[] {
+    return Array.from(this.expanded)
+  }
+
+  /**
+   * 展开的行现在在哪些下标 (排序 / 筛选之后会变), 传数据策略的 findRow 进来
+   * 只看已加载的行, 一趟扫下来全找到了就提前停
+   */
+  public findExpandedRows(findRow: DataStrategy['findRow']): number[] {
+    const found: number[] = []
+    if (this.expanded.size === 0) return found
+    findRow((_row, rowIndex) => {
+      const key = this.resolveKey(rowIndex)
+      if (key !== undefined && this.expanded.has(key)) found.push(rowIndex)
+      return found.length >= this.expanded.size
+    })
+    return found
+  }
+
+  /** 展开的行的详情区高度: 量过就用量的, 没量过按 fallback 估; 没展开是 0 */
+  public getDetailHeight(rowIndex: number, fallback: number): number {
+    const key = this.resolveKey(rowIndex)
+    if (key === undefined || !this.expanded.has(key)) return 0
+    return this.heights.get(key) ?? fallback
+  }
+
+  public setDetailHeight(rowIndex: number, height: number): void {
+    const key = this.resolveKey(rowIndex)
+    if (key !== undefined) this.heights.set(key, height)
+  }
+}
@@ -1,54 +1,141 @@
+import type { RowKey } from "@/types";
+
 /**
  * 行选中管理器
  * 独立于 TableStore，不触发全量重绘
- * 使用 rowIndex 作为 key（适合 client 模式；server 模式后续可扩展 rowKey）
+ * 使用 rowKey 作为 key, 排序/筛选后选中跟着记录走, 不再跟着行下标走
+ *
+ * 全选分两种:
+ * - 能拿到所有行 (client): 直接把所有 key 放进 selected
+ * - 拿不全 (server 还没加载的页): 记一个 allSelected 标记, 再用 excluded 记取消掉的行
+ *
+ * 选中行的下标 (onSelect 要) 不每次全表扫: 点选 / 渲染时顺手记下 key -> 下标,
+ * 行顺序变了 (排序 / 筛选 / 增删行) 外面调 markRowsMoved, 下次要下标时才整表扫一遍
  */
 export class RowSelectionManager {
-  private selected = new Set<number>()
-  private onChange: ((indices: Set<number>) => void) | null = null
+  private selected = new Set<RowKey>()
+  private allSelected = false
+  private excluded = new Set<RowKey>() // 仅 allSelected 时有效
+  private onChange: ((keys: Set<RowKey>) => void) | null = null
+  private indexOf = new Map<RowKey, number>() // 选中行最近一次看到的下标, 用之前按 resolveKey 校验
+  private needsScan = false // 行顺序变过, 记的下标不可信了
+
+  // 行下标 -> rowKey, 行数据还没加载时返回 undefined
+  constructor(private resolveKey: (rowIndex: number) => RowKey | undefined) {}
 
-  public setOnChange(fn: (indices: Set<number>) => void) {
+  public setOnChange(fn: (keys: Set<RowKey>) => void) {
     this.onChange = fn
   }
 
   public toggle(index: number): void {
-    if (this.selected.has(index)) {
-      this.selected.delete(index)
+    const key = this.resolveKey(index)
+    if (key === undefined) return // 骨架行, 数据都没有, 选个寂寞
+    this.indexOf.set(key, index)
+    this.toggleKey(key)
+  }
+
+  public toggleKey(key: RowKey): void {
+    if (this.allSelected) {
+      if (this.excluded.has(key)) this.excluded.delete(key)
+      else this.excluded.add(key)
+    } else if (this.selected.has(key)) {
+      this.selected.delete(key)
+      this.indexOf.delete(key)
     } else {
-      this.selected.add(index)
+      this.selected.add(key)
     }
     this.notify()
   }
 
-  public selectAll(totalRows: number): void {
-    for (let i = 0; i < totalRows; i++) {
-      this.selected.add(i)
+  /** 行顺序 / 行数变了 (换查询 / 增删行 / 折叠分组), 记的下标作废 */
+  public markRowsMoved(): void {
+    this.needsScan = true
+  }
+
+  /** 全选, 传了 keys 就按 keys 选, 否则走 allSelected 标记 */
+  public selectAll(keys?: Iterable<RowKey>): void {
+    this.excluded.clear()
+    if (keys) {
+      this.allSelected = false
+      for (const key of keys) this.selected.add(key)
+      this.needsScan = true
+    } else {
+      this.allSelected = true
+      this.selected.clear()
     }
     this.notify()
   }
 
   public clear(): void {
     this.selected.clear()
+    this.indexOf.clear()
+    this.excluded.clear()
+    this.allSelected = false
     this.notify()
   }
 
   public has(index: number): boolean {
-    return this.selected.has(index)
+    const key = this.resolveKey(index)
+    if (key === undefined) return false
+    // 渲染时会挨行问一遍, 顺手记下选中行现在的下标
+    if (!this.allSelected && this.selected.has(key)) this.indexOf.set(key, index)
+    return this.hasKey(key)
   }
 
-  public getCount(): number {
+  public hasKey(key: RowKey): boolean {
+    if (this.allSelected) return !this.excluded.has(key)
+    return this.selected.has(key)
+  }
+
+  public getCount(totalRows: number): number {
+    if (this.allSelected) return Math.max(0, totalRows - this.excluded.size)
     return this.selected.size
   }
 
-  public getSelectedIndices(): number[] {
-    return Array.from(this.selected).sort((a, b) => a - b)
+  /** 已选中的 key, allSelected 模式下拿不全, 只返回能解析到的行 */
+  public getSelectedKeys(totalRows: number): RowKey[] {
+    if (!this.allSelected) return Array.from(this.selected)
+    return this.getSelectedIndices(totalRows)
+      .map(i => this.resolveKey(i))
+      .filter((k): k is RowKey => k !== undefined)
+  }
+
+  /**
+   * 当前结果里被选中的行下标 (筛掉的/没加载的行不在里面)
+   * allSelected 时结果本来就是几乎整表, 只能逐行看; 否则按记下的下标取, 顺序变过才整表扫一次
+   */
+  public getSelectedIndices(totalRows: number): number[] {
+    const result: number[] = []
+    if (this.allSelected) {
+      for (let i = 0; i < totalRows; i++) {
+        if (this.has(i)) result.push(i)
+      }
+      return result
+    }
+    if (this.selected.size === 0) return result
+    if (this.needsScan) {
+      this.needsScan = false
+      this.indexOf.clear()
+      for (let i = 0; i < totalRows; i++) {
+        const key = this.resolveKey(i)
+        if (key !== undefined && this.selected.has(key)) this.indexOf.set(key, i)
+      }
+    }
+    this.indexOf.forEach((index, key) => {
+      // 下标对不上 (行被筛掉了 / 漏了通知) 的不算, 等它再渲染出来时重新记
+      if (index < totalRows && this.resolveKey(index) === key) result.push(index)
+    })
+    return result.sort((a, b) => a - b)
   }
 
   /** 全选状态：全部选中 / 部分选中 / 未选中 */
   public getSelectAllState(totalRows: number): 'all' | 'partial' | 'none' {
-    if (this.selected.size === 0) return 'none'
-    if (this.selected.size >= totalRows) return 'all'
-    return 'partial'
+    const count = this.getCount(totalRows)
+    if (count === 0) return 'none'
+    if (count < totalRows) return 'partial'
+    // selected 里可能有被筛掉的行, 数量够了还得确认当前结果确实全选中了
+    if (!this.allSelected && this.getSelectedIndices(totalRows).length < totalRows) return 'partial'
+    return 'all'
   }
 
   private notify(): void {
@@ -1,19 +1,33 @@
+import type { ISortItem } from "@/types";
+
 export class SortIndicatorView {
   // 将排序状态映射到 dom, 但不参与任何排序业务
   constructor(private scrollContainer: HTMLDivElement) {}
 
-  public set(sort: { key: string, direction: 'asc' | 'desc' } | null) {
+  public set(sorts: ISortItem[]) {
     this.clear()
-    if (!sort) return 
-    const targetHeader = this.scrollContainer.querySelector<HTMLDivElement>(
-      `.vt-header-cell[data-column-key="${sort.key}"]`
-    )
-    if (!targetHeader) return 
+    if (sorts.length === 0) return 
+    // 多列排序时才显示优先级角标 1, 2, 3..., 单列就只有箭头
+    const showPriority = sorts.length > 1
+
+    sorts.forEach((sort, index) => {
+      const targetHeader = this.scrollContainer.querySelector<HTMLDivElement>(
+        `.vt-header-cell[data-column-key="${sort.key}"]`
+      )
+      if (!targetHeader) return 
 
-    const indicator = document.createElement('span')
-    indicator.className = 'vt-sort-indicator'
-    indicator.textContent = sort.direction === 'asc' ? '↑' : '↓'
-    targetHeader.appendChild(indicator)
+      const indicator = document.createElement('span')
+      indicator.className = 'vt-sort-indicator'
+      indicator.textContent = sort.direction === 'asc' ? '↑' : '↓'
+
+      if (showPriority) {
+        const badge = document.createElement('span')
+        badge.className = 'vt-sort-priority'
+        badge.textContent = String(index + 1)
+        indicator.appendChild(badge)
+      }
+      targetHeader.appendChild(indicator)
+    })
   }
 
   public clear() {
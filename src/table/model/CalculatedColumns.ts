@@ -0,0 +1,163 @@
+import type { IColumn } from "@/types";
+import type { CompiledExpression } from "@/utils/expression";
+import { compileExpression, ExpressionError } from "@/utils/expression";
+import { inferColumnTypes } from "@/utils/inferColumnType";
+
+interface CalculatedEntry {
+  column: IColumn
+  expression: CompiledExpression
+}
+
+/**
+ * 计算列 (配了 expression 的列)
+ *
+ * - 值直接算好写进行对象里 (物化), 排序 / 筛选 / 总结行 / 透视 / 导出都当普通字段用, 不用各处特判
+ * - 写的是表格自己的浅拷贝, 用户传进来 / 接口拉回来的行对象不动; 交出去的修改 (getChanges) 再去掉计算列
+ * - 计算列可以引用别的计算列, 按依赖拓扑排序后依次算; 循环引用编译时就报错
+ * - 依赖的字段变了 (编辑 / 粘贴 / 推送) 用 derive 只重算受影响的那几列
+ * - 没配 dataType 的按算出来的值采样推断, 和普通列同一套规则
+ */
+export class CalculatedColumns {
+  private entries: CalculatedEntry[] = [] // 已按依赖排好序, 被依赖的在前
+  private dependents = new Map<string, string[]>() // 字段 -> 直接依赖它的计算列
+  private ownedRows = new WeakSet<object>() // materialize 拷出来的行, 再算直接原地改
+
+  constructor(columns: IColumn[] = []) {
+    this.setColumns(columns)
+  }
+
+  public get size(): number {
+    return this.entries.length
+  }
+
+  /** 换一批列配置, 只看配了 expression 的; 表达式不对 / 循环引用抛 ExpressionError, 原来的不变 */
+  public setColumns(columns: IColumn[]): void {
+    const compiled = new Map<string, CalculatedEntry>()
+    for (const column of columns) {
+      if (!column.expression) continue
+      try {
+        compiled.set(column.key, { column, expression: compileExpression(column.expression) })
+      } catch (err) {
+        if (err instanceof ExpressionError) {
+          throw new ExpressionError(`计算列 "${column.key}": ${err.message}`, err.position)
+        }
+        throw err
+      }
+    }
+
+    const entries = sortByDependency(compiled)
+    const dependents = new Map<string, string[]>()
+    for (const { column, expression } of entries) {
+      for (const dep of expression.dependencies) {
+        const list = dependents.get(dep) ?? []
+        list.push(column.key)
+        dependents.set(dep, list)
+      }
+    }
+    this.entries = entries
+    this.dependents = dependents
+  }
+
+  /**
+   * 把计算列的值写进每一行, 返回写好的行 (顺序不变)
+   * 别人的行对象先浅拷贝一份再写, 已经是拷出来的就原地改; 没有计算列原样返回
+   */
+  public materialize(rows: Record<string, any>[]): Record<string, any>[] {
+    if (this.entries.length === 0 || rows.length === 0) return rows
+    const result = rows.map(row => this.evaluateRow(this.ownedRows.has(row) ? row : { ...row }))
+    this.inferDataTypes(result)
+    return result
+  }
+
+  /** 表格自己建的行 (粘贴追加的新行) 原地算, 行对象别处还引用着 */
+  public applyInPlace(rows: Record<string, any>[]): void {
+    if (this.entries.length === 0 || rows.length === 0) return
+    rows.forEach(row => this.evaluateRow(row))
+    this.inferDataTypes(rows)
+  }
+
+  /** 去掉计算列的值, 交给外面 (保存修改之类) 用; 没有计算列原样返回 */
+  public strip(row: Record<string, any>): Record<string, any> {
+    if (this.entries.length === 0) return row
+    const plain = { ...row }
+    for (const { column } of this.entries) delete plain[column.key]
+    return plain
+  }
+
+  /**
+   * 行要按 patch 改了, 算出受影响的计算列的新值 (不改 row)
+   * 调用方把返回值和 patch 合并一起写, 这样改动 / 闪烁 / worker 同步都是一次
+   */
+  public derive(row: Record<string, any>, patch: Record<string, any>): Record<string, any> {
+    const derived: Record<string, any> = {}
+    const affected = this.collectAffected(Object.keys(patch))
+    if (affected.size === 0) return derived
+    const scratch = { ...row, ...patch }
+    for (const { column, expression } of this.entries) {
+      if (!affected.has(column.key)) continue
+      const value = expression.evaluate(scratch)
+      scratch[column.key] = value
+      derived[column.key] = value
+    }
+    return derived
+  }
+
+  private evaluateRow(row: Record<string, any>): Record<string, any> {
+    for (const { column, expression } of this.entries) {
+      row[column.key] = expression.evaluate(row)
+    }
+    this.ownedRows.add(row)
+    return row
+  }
+
+  /** 直接引用了这个字段的计算列 */
+  public dependentsOf(key: string): string[] {
+    return this.dependents.get(key) ?? []
+  }
+
+  /** 从改了的字段顺着依赖往下找, 所有要重算的计算列 */
+  private collectAffected(keys: string[]): Set<string> {
+    const affected = new Set<string>()
+    const stack = [...keys]
+    while (stack.length > 0) {
+      for (const key of this.dependents.get(stack.pop()!) ?? []) {
+        if (affected.has(key)) continue
+        affected.add(key)
+        stack.push(key)
+      }
+    }
+    return affected
+  }
+
+  /** 没配 dataType 的计算列按算出来的值推断, 推断一次就定下来 (直接写回列配置) */
+  private inferDataTypes(rows: Record<string, any>[]): void {
+    for (const { column } of this.entries) {
+      if (column.dataType) continue
+      // 算出来全是空值 (比如依赖的字段这一批都没有) 推断不准, 等下一批
+      if (!rows.some(row => row[column.key] !== null && row[column.key] !== '')) continue
+      column.dataType = inferColumnTypes([column], rows)[0].dataType
+    }
+  }
+}
+
+/** 按依赖拓扑排序, 有环就抛错 (自己引用自己也算) */
+function sortByDependency(compiled: Map<string, CalculatedEntry>): CalculatedEntry[] {
+  const sorted: CalculatedEntry[] = []
+  const state = new Map<string, 'visiting' | 'done'>()
+
+  const visit = (key: string, path: string[]) => {
+    const entry = compiled.get(key)
+    // 不是计算列的依赖就是原始字段, 不用管
+    if (!entry || state.get(key) === 'done') return
+    if (state.get(key) === 'visiting') {
+      throw new ExpressionError(`计算列循环引用: ${[...path, key].join(' -> ')}`)
+    }
+    state.set(key, 'visiting')
+    for (const dep of entry.expression.dependencies) visit(dep, [...path, key])
+    state.set(key, 'done')
+    sorted.push(entry)
+  }
+
+  compiled.forEach((_, key) => visit(key, []))
+  return sorted
+}
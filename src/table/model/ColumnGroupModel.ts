@@ -0,0 +1,133 @@
+import type { IColumnGroup, IConfig } from "@/types";
+
+/** 表头分组行里的一段: 同一层同一个分组 (或都没分组) 的连续几列, 不跨冻结区 / 右侧固定区 */
+export interface HeaderGroupSegment {
+  group: IColumnGroup | null // null 是占位 (这几列在这一层没有分组)
+  keys: string[]
+  zone: 'left' | 'right' | null
+}
+
+// 分组层数 (最深的那条链), 没配分组就是 0
+export function getGroupDepth(groups: IColumnGroup[]): number {
+  let depth = 0
+  for (const group of groups) {
+    const children = group.children.filter((c): c is IColumnGroup => typeof c !== 'string')
+    depth = Math.max(depth, 1 + getGroupDepth(children))
+  }
+  return depth
+}
+
+// 整个表头的高度: 分组行 + 列标题行, 每行都是 headerHeight
+export function getHeaderTotalHeight(config: Pick<IConfig, 'headerHeight' | 'columnGroups'>): number {
+  return config.headerHeight * (1 + getGroupDepth(config.columnGroups))
+}
+
+// 列 key -> 所在的分组链 (外层在前)
+export function getGroupPaths(groups: IColumnGroup[]): Map<string, IColumnGroup[]> {
+  const paths = new Map<string, IColumnGroup[]>()
+  const walk = (group: IColumnGroup, path: IColumnGroup[]) => {
+    const next = [...path, group]
+    for (const child of group.children) {
+      if (typeof child === 'string') {
+        paths.set(child, next)
+      } else {
+        walk(child, next)
+      }
+    }
+  }
+  groups.forEach(group => walk(group, []))
+  return paths
+}
+
+// 分组下所有叶子列 key (按配置顺序)
+export function getGroupLeafKeys(group: IColumnGroup): string[] {
+  return group.children.flatMap(child => typeof child === 'string' ? [child] : getGroupLeafKeys(child))
+}
+
+/**
+ * 把同一分组的列挪到一起 (每层都是), 位置跟着组里第一个出现的列, 组内相对顺序不变
+ * 不跨区: 左侧冻结区 / 中间 / 右侧固定区各排各的, 不然冻结列数就对不上了
+ */
+export function arrangeByGroups<T extends { key: string }>(
+  columns: T[],
+  groups: IColumnGroup[],
+  frozenCount = 0,
+  pinnedRightCount = 0
+): T[] {
+  if (groups.length === 0) return columns
+  const paths = getGroupPaths(groups)
+  const arrange = (list: T[], level: number): T[] => {
+    // 按这一层的分组分桶, 没分组的列自己一个桶, 桶按第一次出现的顺序
+    const buckets = new Map<IColumnGroup | string, T[]>()
+    for (const col of list) {
+      const bucketKey = paths.get(col.key)?.[level] ?? col.key
+      const bucket = buckets.get(bucketKey)
+      if (bucket) {
+        bucket.push(col)
+      } else {
+        buckets.set(bucketKey, [col])
+      }
+    }
+    return Array.from(buckets.entries()).flatMap(([bucketKey, bucket]) =>
+      typeof bucketKey === 'string' ? bucket : arrange(bucket, level + 1)
+    )
+  }
+  const rightStart = columns.length - pinnedRightCount
+  return [
+    ...arrange(columns.slice(0, frozenCount), 0),
+    ...arrange(columns.slice(frozenCount, rightStart), 0),
+    ...arrange(columns.slice(rightStart), 0),
+  ]
+}
+
+/**
+ * 调整顺序后各分组还在不在一起: 原来挨着的分组, 新顺序里也得挨着
+ * 拖拽排序用它把列限制在自己的分组里, 原来就被固定区拆开的分组不管
+ */
+export function keepsGroupsTogether(prev: string[], next: string[], groups: IColumnGroup[]): boolean {
+  const isContiguous = (order: string[], leafKeys: Set<string>) => {
+    const indexes = order.flatMap((key, i) => leafKeys.has(key) ? [i] : [])
+    return indexes.length === 0 || indexes[indexes.length - 1] - indexes[0] === indexes.length - 1
+  }
+  const check = (group: IColumnGroup): boolean => {
+    const leafKeys = new Set(getGroupLeafKeys(group))
+    if (isContiguous(prev, leafKeys) && !isContiguous(next, leafKeys)) return false
+    return group.children.every(child => typeof child === 'string' || check(child))
+  }
+  return groups.every(check)
+}
+
+/**
+ * 按当前可见列顺序切出每一层表头分组的段
+ * 同一分组被冻结区 / 右侧固定区隔开就拆成几段, 每段各自 sticky, 标题都显示
+ */
+export function buildHeaderGroupRows(
+  columnKeys: string[],
+  groups: IColumnGroup[],
+  frozenCount: number,
+  pinnedRightCount: number
+): HeaderGroupSegment[][] {
+  const depth = getGroupDepth(groups)
+  const paths = getGroupPaths(groups)
+  const rightStart = columnKeys.length - pinnedRightCount
+  const zoneOf = (i: number) => i < frozenCount ? 'left' : i >= rightStart ? 'right' : null
+
+  const rows: HeaderGroupSegment[][] = []
+  for (let level = 0; level < depth; level++) {
+    const segments: HeaderGroupSegment[] = []
+    columnKeys.forEach((key, i) => {
+      const group = paths.get(key)?.[level] ?? null
+      const zone = zoneOf(i)
+      const last = segments[segments.length - 1]
+      // 同一分组 (或都是占位) 且同一区才合并; 占位还要上一层是同一个分组, 免得跨过上层分组的边
+      const sameParent = !!last && paths.get(last.keys[0])?.[level - 1] === paths.get(key)?.[level - 1]
+      if (last && last.group === group && last.zone === zone && (group || sameParent)) {
+        last.keys.push(key)
+      } else {
+        segments.push({ group, keys: [key], zone })
+      }
+    })
+    rows.push(segments)
+  }
+  return rows
+}
@@ -0,0 +1,18 @@
+import type { IConfig, RowKey } from "@/types";
+
+export type RowKeyGetter = (row: Record<string, any>, rowIndex: number) => RowKey
+
+// 根据 config.rowKey 生成取主键函数, 没配就退化成行下标 (兼容老行为)
+export function createRowKeyGetter(rowKey: IConfig['rowKey']): RowKeyGetter {
+  if (typeof rowKey === 'function') {
+    return (row) => rowKey(row)
+  }
+  if (typeof rowKey === 'string' && rowKey) {
+    return (row, rowIndex) => {
+      const value = row[rowKey]
+      // 字段缺失时别返回 undefined, 不然多行会撞成同一个 key
+      return value === undefined || value === null ? `__index_${rowIndex}` : value
+    }
+  }
+  return (_row, rowIndex) => rowIndex
+}
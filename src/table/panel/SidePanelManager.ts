@@ -19,6 +19,7 @@ export class SidePanelManager {
   private activePanel: string | null = null // 当前集合的面板 id
   private container: HTMLDivElement // 面板容器
   private contentContainer!: HTMLDivElement // 面板内容容器
+  private onActiveChange: ((panelId: string | null) => void) | null = null // 激活面板变化, 视图持久化用
 
   constructor(
     private store: TableStore, 
@@ -137,6 +138,7 @@ export class SidePanelManager {
     this.updateTabsActiveState(panelId)
     // 通知 LayoutManager 展开面板
     this.onPanelToggle?.(true)
+    this.onActiveChange?.(panelId)
   }
 
   /** 更新 Tab 激活状态 */
@@ -163,9 +165,15 @@ export class SidePanelManager {
       this.updateTabsActiveState('')
       // 通知 LayoutManager 收起面板
       this.onPanelToggle?.(false)
+      this.onActiveChange?.(null)
     }
   }
 
+  /** 监听激活面板变化 (打开/切换/收起) */
+  public setOnActiveChange(listener: ((panelId: string | null) => void) | null): void {
+    this.onActiveChange = listener
+  }
+
   /** 获取面板管理的 dom 容器 */
   public getContainer(): HTMLDivElement {
     return this.container
@@ -189,6 +197,7 @@ export class SidePanelManager {
     this.registry.clear()
     this.container.remove()
     this.activePanel = null 
+    this.onActiveChange = null 
     console.log('[SidePanelManager] 面板管理器已销毁')
   }
 }
\ No newline at end of file
@@ -12,6 +12,12 @@ interface ZoneField {
   aggregation?: AggregationType  // 仅 values 区使用
 }
 
+// 计算列的增删改, 由表格实现 (校验不过直接抛错, 面板把错误显示在表单里)
+export interface CalculatedColumnActions {
+  upsert: (column: IColumn) => void
+  remove: (key: string) => void
+}
+
 /**
  * 列管理面板: 管理列的显示, 隐藏, 搜索, 全选, 重置
  * 
@@ -26,9 +32,11 @@ export class ColumnPanel implements IPanel {
   private searchInput: HTMLInputElement | null = null 
   private searchBox: HTMLDivElement | null = null 
   private listContainer: HTMLDivElement | null = null 
-  private allColumnKeys: string[] = []
+  private calcForm: HTMLDivElement | null = null // 新增/编辑计算列的表单, 平时隐藏
   private pivotConfgSection: HTMLDivElement | null = null 
   private footerEl: HTMLDivElement | null = null
+  private pivotInput: HTMLInputElement | null = null 
+  private pivotToggleRow: HTMLDivElement | null = null 
 
   // Excel 四区域的字段状态
   private zones: Record<ZoneName, ZoneField[]> = {
@@ -49,9 +57,10 @@ export class ColumnPanel implements IPanel {
     private originalColumns: IColumn[],
     private onPivotModeToggle?: (enabled: boolean) => void,
     private onPivotConfigChange?: (config: any) => void,
+    private getPivotState?: () => { enabled: boolean; config: IPivotConfig | null }, // 切视图后开关和四区域要跟着变
+    private calculatedActions?: CalculatedColumnActions, // 不传就没有计算列的入口
 
   ) {
-    this.allColumnKeys = originalColumns.map(col => col.key)
     this.container = this.render()
   }
 
@@ -89,31 +98,14 @@ export class ColumnPanel implements IPanel {
     this.pivotConfgSection.style.display = 'none'
     container.appendChild(this.pivotConfgSection)
 
+    this.pivotInput = pivotInput
+    this.pivotToggleRow = pivotToggleRow
+
     // 开关事件
     pivotInput.addEventListener('change', () => {
       const enabled = pivotInput.checked
       this.onPivotModeToggle?.(enabled)
-      this.pivotConfgSection!.style.display = enabled ? 'flex': 'none'
-
-      // 透视模式下, 隐藏列管理列表等相关元素
-      if (this.searchBox) {
-        this.searchBox.style.display = enabled ? 'none' : 'block'
-      }
-      if (this.listContainer) {
-        this.listContainer.style.display = enabled ? 'none' : 'block'
-      }
-      if (this.footerEl) {
-        this.footerEl.style.display = enabled ? 'none' : 'flex'
-      }
-
-      // 透视模式下移除 container padding，让四区域撑满高度
-      container.style.padding = enabled ? '0' : ''
-      // 开关行保留 padding
-      pivotToggleRow.style.padding = enabled ? '10px 12px 8px' : ''
-
-      if (enabled) {
-        this.renderPivotConfig()
-      }
+      this.applyPivotModeUI(enabled)
     })
 
 
@@ -134,6 +126,12 @@ export class ColumnPanel implements IPanel {
     this.listContainer.className = 'vt-column-panel-list'
     container.appendChild(this.listContainer)
 
+    // 计算列表单
+    this.calcForm = document.createElement('div')
+    this.calcForm.className = 'vt-column-panel-calc-form'
+    this.calcForm.style.display = 'none'
+    container.appendChild(this.calcForm)
+
     // 底部操作按钮
     const footer = document.createElement('div')
     footer.className = 'vt-column-panel-footer'
@@ -153,6 +151,13 @@ export class ColumnPanel implements IPanel {
     footer.appendChild(btnShowAll)
     footer.appendChild(btnHideAll)
     footer.appendChild(btnReset)
+    if (this.calculatedActions) {
+      const btnAddCalc = document.createElement('button')
+      btnAddCalc.className = 'vt-column-panel-btn'
+      btnAddCalc.textContent = '+ 计算列'
+      btnAddCalc.onclick = () => this.openCalcForm()
+      footer.appendChild(btnAddCalc)
+    }
     container.appendChild(footer)
 
     // 保存 footer 引用, 方便后续控制 显示 / 隐藏
@@ -163,6 +168,53 @@ export class ColumnPanel implements IPanel {
     return container
   }
 
+  /** 开关透视模式时, 面板里的元素跟着切换 */
+  private applyPivotModeUI(enabled: boolean): void {
+    this.pivotConfgSection!.style.display = enabled ? 'flex': 'none'
+
+    // 透视模式下, 隐藏列管理列表等相关元素
+    if (this.searchBox) {
+      this.searchBox.style.display = enabled ? 'none' : 'block'
+    }
+    if (this.listContainer) {
+      this.listContainer.style.display = enabled ? 'none' : 'block'
+    }
+    if (this.footerEl) {
+      this.footerEl.style.display = enabled ? 'none' : 'flex'
+    }
+    if (enabled) this.closeCalcForm()
+
+    // 透视模式下移除 container padding，让四区域撑满高度
+    this.container.style.padding = enabled ? '0' : ''
+    // 开关行保留 padding
+    this.pivotToggleRow!.style.padding = enabled ? '10px 12px 8px' : ''
+
+    if (enabled) {
+      this.renderPivotConfig()
+    }
+  }
+
+  /** 按表格当前的透视状态 (可能是切视图换过来的) 同步开关和四区域 */
+  private syncPivotState(): void {
+    const pivot = this.getPivotState?.()
+    if (!pivot || !this.pivotInput) return
+    if (pivot.config) {
+      this.zones = {
+        filters: [],
+        columns: (pivot.config.colGroups ?? []).map(key => ({ key })),
+        rows: pivot.config.rowGroups.map(key => ({ key })),
+        values: pivot.config.valueFields.map(field => ({ key: field.key, aggregation: field.aggregation })),
+      }
+      this.showSubtotals = pivot.config.showSubtotals ?? true
+    }
+    if (this.pivotInput.checked !== pivot.enabled) {
+      this.pivotInput.checked = pivot.enabled
+      this.applyPivotModeUI(pivot.enabled)
+    } else if (pivot.enabled) {
+      this.refreshAllZones()
+    }
+  }
+
   // 绑定事件
   private bindEvents(
     btnShowAll: HTMLButtonElement,
@@ -207,6 +259,7 @@ export class ColumnPanel implements IPanel {
     })
     // 首次渲染列表
     this.renderList()
+    this.syncPivotState()
   }
 
   // 渲染列列表
@@ -217,11 +270,11 @@ export class ColumnPanel implements IPanel {
     const currentOrder = state.columns.order // 当前列顺序, 拖拽后会变化
     const hiddenKeys = state.columns.hiddenKeys // 隐藏的列 key
 
-    // 构建完整列表, 按 currentOrder 显示, 然后补充缺失的列
+    // 构建完整列表, 按 currentOrder 显示, 然后补充缺失的列 (每次现取, 运行时可能加了计算列)
     const allKeys = [...currentOrder]
-    this.allColumnKeys.forEach(key => {
-      if (!allKeys.includes(key)) {
-        allKeys.push(key)
+    this.originalColumns.forEach(col => {
+      if (!allKeys.includes(col.key)) {
+        allKeys.push(col.key)
       }
     })
 
@@ -270,12 +323,146 @@ export class ColumnPanel implements IPanel {
       // 挂载
       item.appendChild(checkbox)
       item.appendChild(label)
+      if (col.expression) {
+        this.appendCalcControls(item, col)
+      }
       // 绑定拖拽事件
       this.bindDragEvents(item)
       this.listContainer?.appendChild(item)
     })
   }
 
+  /** 计算列的标记 + 编辑 / 删除按钮 */
+  private appendCalcControls(item: HTMLDivElement, col: IColumn): void {
+    const badge = document.createElement('span')
+    badge.className = 'vt-column-panel-calc-badge'
+    badge.textContent = 'ƒx'
+    badge.title = col.expression!
+    item.appendChild(badge)
+    if (!this.calculatedActions) return
+
+    const btnEdit = document.createElement('button')
+    btnEdit.className = 'vt-column-panel-calc-action'
+    btnEdit.textContent = '✎'
+    btnEdit.title = '编辑计算列'
+    btnEdit.onclick = () => this.openCalcForm(col)
+
+    const btnRemove = document.createElement('button')
+    btnRemove.className = 'vt-column-panel-calc-action'
+    btnRemove.textContent = '✕'
+    btnRemove.title = '删除计算列'
+    btnRemove.onclick = () => {
+      if (!confirm(`删除计算列 "${col.title}"?`)) return
+      this.calculatedActions!.remove(col.key)
+      this.closeCalcForm()
+    }
+    item.appendChild(btnEdit)
+    item.appendChild(btnRemove)
+  }
+
+  /** 打开计算列表单, 传了 column 就是编辑 (key 不能改) */
+  private openCalcForm(column?: IColumn): void {
+    const form = this.calcForm
+    if (!form || !this.calculatedActions) return
+    form.innerHTML = ''
+    form.style.display = 'flex'
+
+    const title = document.createElement('div')
+    title.className = 'vt-column-panel-calc-title'
+    title.textContent = column ? `编辑计算列: ${column.title}` : '新增计算列'
+    form.appendChild(title)
+
+    const createField = <T extends HTMLElement>(labelText: string, input: T): T => {
+      const label = document.createElement('label')
+      label.className = 'vt-column-panel-calc-field'
+      label.textContent = labelText
+      label.appendChild(input)
+      form.appendChild(label)
+      return input
+    }
+
+    const titleInput = createField('列名', document.createElement('input'))
+    titleInput.value = column?.title ?? ''
+    titleInput.placeholder = '如: 年终奖'
+
+    const keyInput = createField('字段 key', document.createElement('input'))
+    keyInput.value = column?.key ?? ''
+    keyInput.placeholder = '不填自动生成'
+    keyInput.disabled = !!column
+
+    const exprInput = createField('表达式', document.createElement('textarea'))
+    exprInput.value = column?.expression ?? ''
+    exprInput.rows = 3
+    exprInput.placeholder = '如: round(salary * 0.1 + age, 2)'
+
+    const summarySelect = createField('总结行', document.createElement('select'))
+    const summaryOptions: [NonNullable<IColumn['summaryType']>, string][] = [
+      ['none', '不汇总'], ['sum', '求和'], ['avg', '平均'], ['count', '计数']
+    ]
+    for (const [value, text] of summaryOptions) {
+      summarySelect.appendChild(new Option(text, value))
+    }
+    summarySelect.value = column?.summaryType ?? 'none'
+
+    // 可引用的字段提示
+    const hint = document.createElement('div')
+    hint.className = 'vt-column-panel-calc-hint'
+    hint.textContent = '可用字段: ' + this.originalColumns
+      .filter(col => col.key !== column?.key)
+      .map(col => col.key)
+      .join(', ')
+    form.appendChild(hint)
+
+    const error = document.createElement('div')
+    error.className = 'vt-column-panel-calc-error'
+    form.appendChild(error)
+
+    const actions = document.createElement('div')
+    actions.className = 'vt-column-panel-calc-actions'
+    const btnSave = document.createElement('button')
+    btnSave.className = 'vt-column-panel-btn'
+    btnSave.textContent = '保存'
+    const btnCancel = document.createElement('button')
+    btnCancel.className = 'vt-column-panel-btn'
+    btnCancel.textContent = '取消'
+    actions.appendChild(btnSave)
+    actions.appendChild(btnCancel)
+    form.appendChild(actions)
+
+    btnCancel.onclick = () => this.closeCalcForm()
+    btnSave.onclick = () => {
+      const expression = exprInput.value.trim()
+      const key = keyInput.value.trim() || `calc_${Date.now().toString(36)}`
+      if (!expression) {
+        error.textContent = '表达式不能为空'
+        return
+      }
+      if (!column && this.originalColumns.some(col => col.key === key)) {
+        error.textContent = `字段 key "${key}" 已存在`
+        return
+      }
+      try {
+        this.calculatedActions!.upsert({
+          key,
+          title: titleInput.value.trim() || key,
+          expression,
+          summaryType: summarySelect.value as IColumn['summaryType']
+        })
+        this.closeCalcForm()
+      } catch (err) {
+        // 表达式语法 / 循环引用之类的, 留在表单里改
+        error.textContent = err instanceof Error ? err.message : String(err)
+      }
+    }
+    titleInput.focus()
+  }
+
+  private closeCalcForm(): void {
+    if (!this.calcForm) return
+    this.calcForm.style.display = 'none'
+    this.calcForm.innerHTML = ''
+  }
+
   /** 绑定拖拽事件 */
   private bindDragEvents(item: HTMLDivElement): void {
     // 拖拽开始
@@ -823,8 +1010,10 @@ export const createColumnPanel = (
   store: TableStore, 
   originalColumns: IColumn[],
   onPivotModeToggle?: (enbled: boolean) => void ,
-  onPivotConfigChange?: (config: any) => void
+  onPivotConfigChange?: (config: any) => void,
+  getPivotState?: () => { enabled: boolean; config: IPivotConfig | null },
+  calculatedActions?: CalculatedColumnActions
 
 ): IPanel => {
-  return new ColumnPanel(store, originalColumns, onPivotModeToggle, onPivotConfigChange)
+  return new ColumnPanel(store, originalColumns, onPivotModeToggle, onPivotConfigChange, getPivotState, calculatedActions)
 }
\ No newline at end of file
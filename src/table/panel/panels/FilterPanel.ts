@@ -0,0 +1,367 @@
+import type { IPanel } from "@/table/panel/IPanel";
+import type { TableStore } from "@/table/state/createTableStore";
+import type { ColumnDataType, FilterOperator, IColumn, IFilterCondition, IFilterGroup } from "@/types";
+import { normalizeFilterGroup } from "@/table/data/clientQuery";
+
+const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  equals: '等于',
+  notEquals: '不等于',
+  contains: '包含',
+  notContains: '不包含',
+  startsWith: '开头是',
+  endsWith: '结尾是',
+  regex: '正则匹配',
+  isEmpty: '为空',
+  isNotEmpty: '不为空',
+  gt: '大于',
+  gte: '大于等于',
+  lt: '小于',
+  lte: '小于等于',
+  between: '介于',
+  in: '属于',
+  notIn: '不属于'
+}
+
+// 按列类型给可选的运算符, 第一个是默认
+const OPERATORS_BY_TYPE: Record<ColumnDataType, FilterOperator[]> = {
+  string: ['contains', 'notContains', 'equals', 'notEquals', 'startsWith', 'endsWith', 'regex', 'in', 'notIn', 'isEmpty', 'isNotEmpty'],
+  number: ['equals', 'notEquals', 'gt', 'gte', 'lt', 'lte', 'between', 'in', 'notIn', 'isEmpty', 'isNotEmpty'],
+  date: ['equals', 'notEquals', 'gt', 'gte', 'lt', 'lte', 'between', 'isEmpty', 'isNotEmpty'],
+  boolean: ['equals', 'notEquals', 'isEmpty', 'isNotEmpty']
+}
+
+const MAX_DEPTH = 3 // 条件组最多嵌几层, 再深就没法看了
+
+/**
+ * 筛选器面板: 可视化拼 且 / 或 条件组, 支持嵌套
+ *
+ * - 面板里改的是草稿, 点 "应用" (或输入框里回车) 才 dispatch ADVANCED_FILTER_SET
+ * - 没填完的条件应用时丢掉, 不报错
+ * - 撤销 / 切视图改了高级筛选, 草稿跟着换 (有没应用的修改也会被覆盖)
+ */
+export class FilterPanel implements IPanel {
+  private container: HTMLDivElement
+  private treeContainer!: HTMLDivElement
+  private statusEl!: HTMLDivElement
+  private draft: IFilterGroup = createEmptyGroup()
+  private unsubscribe: (() => void) | null = null
+
+  constructor(
+    private store: TableStore,
+    private columns: IColumn[],
+    private mode: 'client' | 'server' = 'client'
+  ) {
+    this.container = this.render()
+  }
+
+  // 能选的字段: server 模式计算列后端不认识, 不让选
+  private get fieldColumns(): IColumn[] {
+    return this.mode === 'server' ? this.columns.filter(col => !col.expression) : this.columns
+  }
+
+  private render(): HTMLDivElement {
+    const container = document.createElement('div')
+    container.className = 'vt-filter-panel'
+
+    this.treeContainer = document.createElement('div')
+    this.treeContainer.className = 'vt-filter-panel-tree'
+    container.appendChild(this.treeContainer)
+
+    this.statusEl = document.createElement('div')
+    this.statusEl.className = 'vt-filter-panel-status'
+    container.appendChild(this.statusEl)
+
+    const footer = document.createElement('div')
+    footer.className = 'vt-column-panel-footer'
+
+    const btnClear = document.createElement('button')
+    btnClear.className = 'vt-column-panel-btn'
+    btnClear.textContent = '清空'
+    btnClear.onclick = () => {
+      this.draft = createEmptyGroup()
+      this.store.dispatch({ type: 'ADVANCED_FILTER_SET', payload: { filter: null } })
+      this.renderTree()
+    }
+
+    const btnApply = document.createElement('button')
+    btnApply.className = 'vt-column-panel-btn vt-filter-panel-apply'
+    btnApply.textContent = '应用'
+    btnApply.onclick = () => this.apply()
+
+    footer.appendChild(btnClear)
+    footer.appendChild(btnApply)
+    container.appendChild(footer)
+
+    return container
+  }
+
+  public getContainer(): HTMLDivElement {
+    return this.container
+  }
+
+  public onShow(): void {
+    this.unsubscribe = this.store.subscribe((next, prev) => {
+      // 自己 apply 的时候 draft 已经是最新的了, 重新拷一份也没关系
+      if (next.data.advancedFilter !== prev.data.advancedFilter) this.syncFromState()
+    })
+    this.syncFromState()
+  }
+
+  public onHide(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+  }
+
+  /** 草稿换成 state 里生效的那份 (深拷贝, 面板里直接改草稿) */
+  private syncFromState(): void {
+    const applied = this.store.getState().data.advancedFilter
+    this.draft = applied ? cloneGroup(applied) : createEmptyGroup()
+    this.renderTree()
+  }
+
+  private apply(): void {
+    const filter = normalizeFilterGroup(cloneGroup(this.draft))
+    this.store.dispatch({ type: 'ADVANCED_FILTER_SET', payload: { filter } })
+    this.renderStatus()
+  }
+
+  private renderTree(): void {
+    this.treeContainer.innerHTML = ''
+    this.treeContainer.appendChild(this.renderGroup(this.draft, null, 0))
+    this.renderStatus()
+  }
+
+  private renderStatus(): void {
+    const applied = this.store.getState().data.advancedFilter
+    this.statusEl.textContent = applied
+      ? `已生效 ${countConditions(applied)} 个条件`
+      : '未设置筛选条件'
+  }
+
+  private renderGroup(group: IFilterGroup, parent: IFilterGroup | null, depth: number): HTMLDivElement {
+    const el = document.createElement('div')
+    el.className = 'vt-filter-panel-group'
+
+    const header = document.createElement('div')
+    header.className = 'vt-filter-panel-group-header'
+
+    const logic = document.createElement('select')
+    logic.className = 'vt-filter-panel-logic'
+    logic.appendChild(new Option('满足全部条件 (且)', 'and'))
+    logic.appendChild(new Option('满足任一条件 (或)', 'or'))
+    logic.value = group.logic
+    logic.onchange = () => { group.logic = logic.value as IFilterGroup['logic'] }
+    header.appendChild(logic)
+
+    const btnAddCondition = this.createActionButton('+ 条件', '添加条件', () => {
+      group.conditions.push(this.createCondition())
+      this.renderTree()
+    })
+    header.appendChild(btnAddCondition)
+
+    if (depth < MAX_DEPTH - 1) {
+      const btnAddGroup = this.createActionButton('+ 条件组', '添加嵌套的条件组', () => {
+        group.conditions.push({ ...createEmptyGroup(), conditions: [this.createCondition()] })
+        this.renderTree()
+      })
+      header.appendChild(btnAddGroup)
+    }
+
+    if (parent) {
+      header.appendChild(this.createRemoveButton(() => {
+        parent.conditions.splice(parent.conditions.indexOf(group), 1)
+        this.renderTree()
+      }))
+    }
+    el.appendChild(header)
+
+    if (group.conditions.length === 0) {
+      const empty = document.createElement('div')
+      empty.className = 'vt-filter-panel-empty'
+      empty.textContent = parent ? '空的条件组' : '还没有条件, 点 "+ 条件" 添加'
+      el.appendChild(empty)
+    }
+
+    group.conditions.forEach(node => {
+      el.appendChild(node.type === 'group'
+        ? this.renderGroup(node, group, depth + 1)
+        : this.renderCondition(node, group))
+    })
+    return el
+  }
+
+  private renderCondition(cond: IFilterCondition, parent: IFilterGroup): HTMLDivElement {
+    const row = document.createElement('div')
+    row.className = 'vt-filter-panel-condition'
+
+    // 字段
+    const field = document.createElement('select')
+    field.className = 'vt-filter-panel-field'
+    this.fieldColumns.forEach(col => field.appendChild(new Option(col.title || col.key, col.key)))
+    // 列被删了 (比如计算列) 也要能看出来是哪个字段
+    if (!this.fieldColumns.some(col => col.key === cond.field)) {
+      field.appendChild(new Option(`${cond.field} (已删除)`, cond.field))
+    }
+    field.value = cond.field
+    field.onchange = () => {
+      cond.field = field.value
+      // 新字段类型不支持原来的运算符就换成默认的
+      const operators = this.operatorsOf(cond.field)
+      if (!operators.includes(cond.operator)) cond.operator = operators[0]
+      this.renderTree()
+    }
+
+    // 运算符
+    const operator = document.createElement('select')
+    operator.className = 'vt-filter-panel-operator'
+    const operators = this.operatorsOf(cond.field)
+    const options = operators.includes(cond.operator) ? operators : [cond.operator, ...operators]
+    options.forEach(op => operator.appendChild(new Option(OPERATOR_LABELS[op], op)))
+    operator.value = cond.operator
+    operator.onchange = () => {
+      cond.operator = operator.value as FilterOperator
+      this.renderTree()
+    }
+
+    const top = document.createElement('div')
+    top.className = 'vt-filter-panel-condition-top'
+    top.appendChild(field)
+    top.appendChild(operator)
+    top.appendChild(this.createRemoveButton(() => {
+      parent.conditions.splice(parent.conditions.indexOf(cond), 1)
+      this.renderTree()
+    }))
+    row.appendChild(top)
+
+    const values = this.renderValueInputs(cond)
+    if (values) row.appendChild(values)
+    return row
+  }
+
+  /** 按运算符出值输入框: 为空类不用填, 介于填两个, 属于填逗号分隔的多个 */
+  private renderValueInputs(cond: IFilterCondition): HTMLDivElement | null {
+    if (cond.operator === 'isEmpty' || cond.operator === 'isNotEmpty') return null
+
+    const wrap = document.createElement('div')
+    wrap.className = 'vt-filter-panel-values'
+    const inputType = this.inputTypeOf(cond.field)
+
+    if (cond.operator === 'in' || cond.operator === 'notIn') {
+      const input = this.createValueInput('text', (cond.values ?? []).join(', '), '多个值用逗号分隔', (val) => {
+        cond.values = val.split(/[,，]/).map(v => v.trim()).filter(Boolean)
+      })
+      wrap.appendChild(input)
+      return wrap
+    }
+
+    wrap.appendChild(this.createValueInput(inputType, cond.value ?? '', cond.operator === 'between' ? '最小值' : '值', (val) => {
+      cond.value = val
+    }))
+
+    if (cond.operator === 'between') {
+      const sep = document.createElement('span')
+      sep.className = 'vt-filter-panel-sep'
+      sep.textContent = '~'
+      wrap.appendChild(sep)
+      wrap.appendChild(this.createValueInput(inputType, cond.valueTo ?? '', '最大值', (val) => {
+        cond.valueTo = val
+      }))
+    }
+
+    if (cond.operator === 'regex') {
+      const input = wrap.querySelector('input')!
+      const check = () => input.classList.toggle('vt-invalid', !isValidRegex(input.value))
+      input.addEventListener('input', check)
+      check()
+    }
+    return wrap
+  }
+
+  private createValueInput(
+    type: string,
+    value: string,
+    placeholder: string,
+    onChange: (val: string) => void
+  ): HTMLInputElement {
+    const input = document.createElement('input')
+    input.type = type
+    input.className = 'vt-filter-panel-input'
+    input.value = value
+    input.placeholder = placeholder
+    // 只改草稿不重画, 不然输入框会丢焦点
+    input.addEventListener('input', () => onChange(input.value))
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') this.apply()
+    })
+    return input
+  }
+
+  private createActionButton(text: string, title: string, onClick: () => void): HTMLButtonElement {
+    const btn = document.createElement('button')
+    btn.className = 'vt-filter-panel-action'
+    btn.textContent = text
+    btn.title = title
+    btn.onclick = onClick
+    return btn
+  }
+
+  private createRemoveButton(onClick: () => void): HTMLButtonElement {
+    const btn = this.createActionButton('×', '删除', onClick)
+    btn.classList.add('vt-filter-panel-remove')
+    return btn
+  }
+
+  private createCondition(): IFilterCondition {
+    const field = this.fieldColumns[0]?.key ?? ''
+    return { type: 'condition', field, operator: this.operatorsOf(field)[0], value: '' }
+  }
+
+  private operatorsOf(field: string): FilterOperator[] {
+    const dataType = this.columns.find(col => col.key === field)?.dataType ?? 'string'
+    return OPERATORS_BY_TYPE[dataType]
+  }
+
+  private inputTypeOf(field: string): string {
+    const dataType = this.columns.find(col => col.key === field)?.dataType
+    if (dataType === 'number') return 'number'
+    if (dataType === 'date') return 'date'
+    return 'text'
+  }
+
+  public destroy(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+    this.container.remove()
+  }
+}
+
+function createEmptyGroup(): IFilterGroup {
+  return { type: 'group', logic: 'and', conditions: [] }
+}
+
+function cloneGroup(group: IFilterGroup): IFilterGroup {
+  return {
+    ...group,
+    conditions: group.conditions.map(node => node.type === 'group'
+      ? cloneGroup(node)
+      : { ...node, values: node.values ? [...node.values] : undefined })
+  }
+}
+
+function countConditions(group: IFilterGroup): number {
+  return group.conditions.reduce((sum, node) => sum + (node.type === 'group' ? countConditions(node) : 1), 0)
+}
+
+function isValidRegex(source: string): boolean {
+  try {
+    new RegExp(source)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** 工厂函数, 提供给 PanelRegistry 使用 */
+export const createFilterPanel = (store: TableStore, columns: IColumn[], mode?: 'client' | 'server'): IPanel => {
+  return new FilterPanel(store, columns, mode)
+}
@@ -0,0 +1,177 @@
+import type { IPanel } from "@/table/panel/IPanel";
+import type { TableStore } from "@/table/state/createTableStore";
+import type { ViewStateManager } from "@/table/persistence/ViewStateManager";
+import type { ISavedView } from "@/types";
+
+/**
+ * 视图面板: 保存 / 重命名 / 切换 / 删除 具名视图
+ *
+ * 视图数据都在 ViewStateManager 里, 这里只负责 UI
+ * - 点名字: 切换到该视图
+ * - 双击名字 或 ✎: 原地改名, Enter 确认, Esc 取消
+ * - ×: 删除 (会确认)
+ */
+export class ViewsPanel implements IPanel {
+  private container: HTMLDivElement
+  private nameInput!: HTMLInputElement
+  private listContainer!: HTMLDivElement
+  private unsubscribe: (() => void) | null = null
+  private renamingId: string | null = null
+
+  constructor(
+    private store: TableStore,
+    private viewManager: ViewStateManager
+  ) {
+    this.container = this.render()
+  }
+
+  private render(): HTMLDivElement {
+    const container = document.createElement('div')
+    container.className = 'vt-views-panel'
+
+    // 顶部: 名称 + 保存
+    const saveRow = document.createElement('div')
+    saveRow.className = 'vt-views-panel-save'
+
+    this.nameInput = document.createElement('input')
+    this.nameInput.type = 'text'
+    this.nameInput.className = 'vt-views-panel-input'
+    this.nameInput.placeholder = '视图名称, 同名会覆盖'
+
+    const btnSave = document.createElement('button')
+    btnSave.className = 'vt-column-panel-btn vt-views-panel-save-btn'
+    btnSave.textContent = '保存视图'
+
+    saveRow.appendChild(this.nameInput)
+    saveRow.appendChild(btnSave)
+    container.appendChild(saveRow)
+
+    // 视图列表
+    this.listContainer = document.createElement('div')
+    this.listContainer.className = 'vt-views-panel-list'
+    container.appendChild(this.listContainer)
+
+    const save = () => {
+      void this.viewManager.saveView(this.nameInput.value).then(() => {
+        this.nameInput.value = ''
+      })
+    }
+    btnSave.onclick = save
+    this.nameInput.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') save()
+    })
+
+    return container
+  }
+
+  public getContainer(): HTMLDivElement {
+    return this.container
+  }
+
+  public onShow(): void {
+    this.unsubscribe = this.viewManager.subscribe(() => this.renderList())
+    this.renderList()
+  }
+
+  public onHide(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+    this.renamingId = null
+  }
+
+  private renderList(): void {
+    const views = this.viewManager.getViews()
+    const activeId = this.viewManager.getActiveViewId()
+    this.listContainer.innerHTML = ''
+
+    if (views.length === 0) {
+      const empty = document.createElement('div')
+      empty.className = 'vt-views-panel-empty'
+      empty.textContent = '还没有保存的视图'
+      this.listContainer.appendChild(empty)
+      return
+    }
+
+    views.forEach(view => {
+      const item = document.createElement('div')
+      item.className = 'vt-views-panel-item'
+      item.classList.toggle('vt-active', view.id === activeId)
+      item.dataset.viewId = view.id
+
+      if (this.renamingId === view.id) {
+        item.appendChild(this.createRenameInput(view))
+      } else {
+        const name = document.createElement('span')
+        name.className = 'vt-views-panel-name'
+        name.textContent = view.name
+        name.title = `${view.name}\n保存于 ${new Date(view.updatedAt).toLocaleString()}`
+        name.onclick = () => { void this.viewManager.switchView(view.id) }
+        name.ondblclick = () => this.startRename(view.id)
+        item.appendChild(name)
+
+        const btnRename = document.createElement('button')
+        btnRename.className = 'vt-views-panel-action'
+        btnRename.textContent = '✎'
+        btnRename.title = '重命名'
+        btnRename.onclick = () => this.startRename(view.id)
+        item.appendChild(btnRename)
+      }
+
+      const btnDelete = document.createElement('button')
+      btnDelete.className = 'vt-views-panel-action vt-views-panel-delete'
+      btnDelete.textContent = '×'
+      btnDelete.title = '删除'
+      btnDelete.onclick = () => {
+        if (!confirm(`删除视图 "${view.name}" ?`)) return
+        void this.viewManager.deleteView(view.id)
+      }
+      item.appendChild(btnDelete)
+
+      this.listContainer.appendChild(item)
+    })
+  }
+
+  private startRename(id: string): void {
+    this.renamingId = id
+    this.renderList()
+    this.listContainer.querySelector<HTMLInputElement>('.vt-views-panel-rename')?.select()
+  }
+
+  private createRenameInput(view: ISavedView): HTMLInputElement {
+    const input = document.createElement('input')
+    input.type = 'text'
+    input.className = 'vt-views-panel-rename'
+    input.value = view.name
+
+    let done = false
+    const finish = (commit: boolean) => {
+      if (done) return
+      done = true
+      this.renamingId = null
+      if (!commit) {
+        this.renderList()
+        return
+      }
+      this.viewManager.renameView(view.id, input.value)
+        .catch((err: Error) => alert(err.message))
+        .finally(() => this.renderList())
+    }
+    input.addEventListener('keydown', (e) => {
+      if (e.key === 'Enter') finish(true)
+      if (e.key === 'Escape') finish(false)
+    })
+    input.addEventListener('blur', () => finish(true))
+    return input
+  }
+
+  public destroy(): void {
+    this.unsubscribe?.()
+    this.unsubscribe = null
+    this.container.remove()
+  }
+}
+
+/** 工厂函数, 提供给 PanelRegistry 使用 */
+export const createViewsPanel = (store: TableStore, viewManager: ViewStateManager): IPanel => {
+  return new ViewsPanel(store, viewManager)
+}
@@ -0,0 +1,153 @@
+import type { IViewState, ISavedView, IViewStorageAdapter } from "@/types";
+import { createEmptyDocument, migrateViewDocument } from "@/table/persistence/viewSchema";
+import type { LegacyViewDocument, ViewDocument } from "@/table/persistence/viewSchema";
+
+/**
+ * 视图状态管理: 当前视图自动保存 + 具名视图的增删改切
+ *
+ * 只管存取和版本, 视图怎么从表格里拍下来 (capture) / 怎么套回表格 (apply) 由外部给
+ * 整份文档存在一个 key 下, 每次改动整份写回去, 视图数量不会多到需要增量写
+ */
+export class ViewStateManager {
+  private doc: ViewDocument = createEmptyDocument()
+  private loaded = false // 没读完之前不自动保存, 不然会把存着的视图覆盖掉
+  private saveTimer?: number
+  private listeners = new Set<() => void>()
+
+  constructor(private params: {
+    adapter: IViewStorageAdapter
+    storageKey: string
+    autoSave: boolean
+    capture: () => IViewState
+    apply: (state: IViewState) => void
+    loadLegacy?: () => LegacyViewDocument | null // 没有新数据时, 从老的列宽存储迁移
+  }) {}
+
+  /** 读存储并迁移到当前版本, 返回上次的视图 (没有就是 null), 不负责 apply */
+  public async load(): Promise<IViewState | null> {
+    let raw: unknown = null
+    try {
+      raw = await this.params.adapter.load(this.params.storageKey)
+    } catch (err) {
+      console.warn('[ViewStateManager] 读取视图失败: ', err)
+    }
+    if (raw === null || raw === undefined) {
+      raw = this.params.loadLegacy?.() ?? null
+    }
+    const doc = raw ? migrateViewDocument(raw) : null
+    if (doc) this.doc = doc
+    this.loaded = true
+    this.notify()
+    return this.doc.current
+  }
+
+  /** 视图变了, 300ms 内的连续变化合成一次写入 */
+  public scheduleSave(): void {
+    if (!this.loaded || !this.params.autoSave) return
+    clearTimeout(this.saveTimer)
+    this.saveTimer = window.setTimeout(() => {
+      this.saveTimer = undefined
+      void this.saveCurrent()
+    }, 300)
+  }
+
+  /** 立即保存当前视图 */
+  public async saveCurrent(): Promise<void> {
+    clearTimeout(this.saveTimer)
+    this.saveTimer = undefined
+    this.doc.current = this.params.capture()
+    await this.persist()
+  }
+
+  public getViews(): ISavedView[] {
+    return this.doc.views
+  }
+
+  public getActiveViewId(): string | null {
+    return this.doc.activeViewId
+  }
+
+  /** 把当前样子存成具名视图, 同名的直接覆盖 */
+  public async saveView(name: string): Promise<ISavedView> {
+    const viewName = name.trim() || `视图 ${this.doc.views.length + 1}`
+    const state = this.params.capture()
+    let view = this.doc.views.find(item => item.name === viewName)
+    if (view) {
+      view.state = state
+      view.updatedAt = Date.now()
+    } else {
+      view = { id: createViewId(), name: viewName, state, updatedAt: Date.now() }
+      this.doc.views.push(view)
+    }
+    this.doc.activeViewId = view.id
+    this.doc.current = state
+    await this.persist()
+    this.notify()
+    return view
+  }
+
+  public async renameView(id: string, name: string): Promise<void> {
+    const view = this.doc.views.find(item => item.id === id)
+    const viewName = name.trim()
+    if (!view || !viewName || view.name === viewName) return
+    if (this.doc.views.some(item => item.id !== id && item.name === viewName)) {
+      throw new Error(`视图 "${viewName}" 已存在`)
+    }
+    view.name = viewName
+    view.updatedAt = Date.now()
+    await this.persist()
+    this.notify()
+  }
+
+  public async deleteView(id: string): Promise<void> {
+    const before = this.doc.views.length
+    this.doc.views = this.doc.views.filter(item => item.id !== id)
+    if (this.doc.views.length === before) return
+    if (this.doc.activeViewId === id) this.doc.activeViewId = null
+    await this.persist()
+    this.notify()
+  }
+
+  /** 套用具名视图 */
+  public async switchView(id: string): Promise<void> {
+    const view = this.doc.views.find(item => item.id === id)
+    if (!view) return
+    this.params.apply(view.state)
+    this.doc.activeViewId = id
+    this.doc.current = this.params.capture()
+    clearTimeout(this.saveTimer) // apply 触发的自动保存不用了, 这里一起存
+    this.saveTimer = undefined
+    await this.persist()
+    this.notify()
+  }
+
+  /** 视图列表 / 当前视图变化时通知 (给视图面板刷新用) */
+  public subscribe(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+
+  /** 销毁前把还没写的自动保存写掉 */
+  public destroy(): void {
+    if (this.saveTimer !== undefined) {
+      void this.saveCurrent()
+    }
+    this.listeners.clear()
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await this.params.adapter.save(this.params.storageKey, this.doc)
+    } catch (err) {
+      console.warn('[ViewStateManager] 保存视图失败: ', err)
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener())
+  }
+}
+
+function createViewId(): string {
+  return `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`
+}
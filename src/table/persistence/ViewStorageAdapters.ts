@@ -0,0 +1,81 @@
+import type { IViewStorageAdapter, IViewPersistenceConfig } from "@/types";
+
+/** localStorage 存储, 同步 API 包一层 Promise */
+export class LocalStorageViewAdapter implements IViewStorageAdapter {
+  public async load(key: string): Promise<unknown | null> {
+    const data = localStorage.getItem(key)
+    return data ? JSON.parse(data) : null
+  }
+
+  public async save(key: string, value: unknown): Promise<void> {
+    localStorage.setItem(key, JSON.stringify(value))
+  }
+
+  public async remove(key: string): Promise<void> {
+    localStorage.removeItem(key)
+  }
+}
+
+/**
+ * IndexedDB 存储: 视图多了 (透视配置/筛选值一大坨) localStorage 5M 不够时用
+ * 所有表格共用一个库, 按 key 区分
+ */
+export class IndexedDBViewAdapter implements IViewStorageAdapter {
+  private dbPromise: Promise<IDBDatabase> | null = null
+
+  constructor(private dbName = 'dtable', private storeName = 'views') {}
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(this.dbName, 1)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(this.storeName)) {
+            db.createObjectStore(this.storeName)
+          }
+        }
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+      })
+      // 打开失败下次重试, 别一直拿着失败的 Promise
+      this.dbPromise.catch(() => { this.dbPromise = null })
+    }
+    return this.dbPromise
+  }
+
+  /** 跑一个请求, 等事务提交完再返回 */
+  private async run<T>(mode: IDBTransactionMode, exec: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const db = await this.open()
+    return new Promise<T>((resolve, reject) => {
+      const tx = db.transaction(this.storeName, mode)
+      const request = exec(tx.objectStore(this.storeName))
+      tx.oncomplete = () => resolve(request.result)
+      tx.onerror = () => reject(tx.error)
+      tx.onabort = () => reject(tx.error)
+    })
+  }
+
+  public async load(key: string): Promise<unknown | null> {
+    const value = await this.run('readonly', store => store.get(key))
+    return value ?? null
+  }
+
+  public async save(key: string, value: unknown): Promise<void> {
+    await this.run('readwrite', store => store.put(value, key))
+  }
+
+  public async remove(key: string): Promise<void> {
+    await this.run('readwrite', store => store.delete(key))
+  }
+}
+
+/** 配置 -> 适配器实例, 不支持 IndexedDB 的环境退回 localStorage */
+export function resolveViewStorage(storage: IViewPersistenceConfig['storage']): IViewStorageAdapter {
+  if (storage && typeof storage === 'object') return storage
+  if (storage === 'indexedDB') {
+    if (typeof indexedDB !== 'undefined') return new IndexedDBViewAdapter()
+    console.warn('[ViewStorage] 当前环境不支持 IndexedDB, 改用 localStorage')
+  }
+  return new LocalStorageViewAdapter()
+}
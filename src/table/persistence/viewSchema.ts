@@ -0,0 +1,167 @@
+import type { FilterNode, FilterOperator, IFilterCondition, IFilterGroup, IViewState, ISavedView } from "@/types";
+import { normalizeFilterGroup } from "@/table/data/clientQuery";
+
+/**
+ * 视图存储的文档结构 + 版本迁移
+ *
+ * 版本:
+ * - v1: 老的 ColumnWidthStorage, 只有列宽 + 列顺序, 分散在几个 localStorage key 里
+ * - v2: 整个视图 (列/排序/筛选/透视/侧边栏) + 具名视图列表, 一个 key 存一份文档
+ *
+ * 改结构时: VIEW_SCHEMA_VERSION + 1, 再在 MIGRATIONS 里补一条 旧版本 -> 新版本
+ */
+export const VIEW_SCHEMA_VERSION = 2
+
+export interface ViewDocument {
+  version: number
+  current: IViewState | null  // 上次离开时的样子, 刷新后还原它
+  activeViewId: string | null // 当前套用的具名视图
+  views: ISavedView[]
+}
+
+// 从老 key 里读出来的 v1 文档
+export interface LegacyViewDocument {
+  version: 1
+  widths: Record<string, number> | null
+  order: string[] | null
+}
+
+// key 是迁移前的版本号, 每一步只升一个版本
+const MIGRATIONS: Record<number, (doc: any) => any> = {
+  1: (doc: LegacyViewDocument) => {
+    const current = createEmptyViewState()
+    current.columns.order = doc.order ?? []
+    current.columns.widths = doc.widths ?? {}
+    return { version: 2, current, activeViewId: null, views: [] }
+  }
+}
+
+export function createEmptyViewState(): IViewState {
+  return {
+    columns: { order: [], widths: {}, hiddenKeys: [], frozenCount: 0, pinnedRight: [] },
+    sort: [],
+    columnFilters: {},
+    advancedFilter: null,
+    filterText: '',
+    groupBy: [],
+    pivot: { enabled: false, config: null },
+    sidePanel: { activePanel: null }
+  }
+}
+
+export function createEmptyDocument(): ViewDocument {
+  return { version: VIEW_SCHEMA_VERSION, current: null, activeViewId: null, views: [] }
+}
+
+/** 老 ColumnWidthStorage 的数据拼成 v1 文档, 啥都没存过返回 null */
+export function createLegacyDocument(
+  widths: Record<string, number> | null,
+  order: string[] | null
+): LegacyViewDocument | null {
+  if (!widths && !order) return null
+  return { version: 1, widths, order }
+}
+
+/**
+ * 把存储里读出来的东西升级到当前版本
+ * 认不出来 / 比当前版本还新 (新代码写的, 被旧代码读到) 都返回 null, 当没存过
+ */
+export function migrateViewDocument(raw: unknown): ViewDocument | null {
+  if (!raw || typeof raw !== 'object' || typeof (raw as any).version !== 'number') {
+    console.warn('[viewSchema] 视图数据格式不对, 忽略')
+    return null
+  }
+  let doc: any = raw
+  if (doc.version > VIEW_SCHEMA_VERSION) {
+    console.warn(`[viewSchema] 视图数据版本 v${doc.version} 比当前 v${VIEW_SCHEMA_VERSION} 新, 忽略`)
+    return null
+  }
+  while (doc.version < VIEW_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[doc.version]
+    if (!migrate) {
+      console.warn(`[viewSchema] 缺少 v${doc.version} 的迁移, 忽略`)
+      return null
+    }
+    doc = migrate(doc)
+  }
+
+  const views: ISavedView[] = Array.isArray(doc.views)
+    ? doc.views
+      .filter((view: any) => view && typeof view.id === 'string' && typeof view.name === 'string')
+      .map((view: any) => ({
+        id: view.id,
+        name: view.name,
+        state: normalizeViewState(view.state),
+        updatedAt: typeof view.updatedAt === 'number' ? view.updatedAt : 0
+      }))
+    : []
+  const activeViewId = views.some(view => view.id === doc.activeViewId) ? doc.activeViewId : null
+
+  return {
+    version: VIEW_SCHEMA_VERSION,
+    current: doc.current ? normalizeViewState(doc.current) : null,
+    activeViewId,
+    views
+  }
+}
+
+/** 缺字段的补默认值, 用户自己的后端存回来的东西不一定齐 */
+export function normalizeViewState(raw: any): IViewState {
+  const empty = createEmptyViewState()
+  if (!raw || typeof raw !== 'object') return empty
+  const columns = raw.columns ?? {}
+  return {
+    columns: {
+      order: Array.isArray(columns.order) ? columns.order : [],
+      widths: isPlainObject(columns.widths) ? columns.widths : {},
+      hiddenKeys: Array.isArray(columns.hiddenKeys) ? columns.hiddenKeys : [],
+      frozenCount: typeof columns.frozenCount === 'number' ? columns.frozenCount : 0,
+      // 右侧固定列是后加的, 老视图里没有, 不用升版本
+      pinnedRight: Array.isArray(columns.pinnedRight) ? columns.pinnedRight : []
+    },
+    sort: Array.isArray(raw.sort) ? raw.sort : [],
+    columnFilters: isPlainObject(raw.columnFilters) ? raw.columnFilters : {},
+    // 高级筛选也是后加的, 同上; 树要逐层校验, 坏节点查询时会直接抛错
+    advancedFilter: normalizeFilterGroup(parseFilterGroup(raw.advancedFilter)),
+    filterText: typeof raw.filterText === 'string' ? raw.filterText : '',
+    // 行分组是后加的, 老视图里没有, 不用升版本
+    groupBy: Array.isArray(raw.groupBy) ? raw.groupBy : [],
+    pivot: {
+      enabled: !!raw.pivot?.enabled,
+      config: raw.pivot?.config ?? null
+    },
+    sidePanel: {
+      activePanel: typeof raw.sidePanel?.activePanel === 'string' ? raw.sidePanel.activePanel : null
+    }
+  }
+}
+
+const FILTER_OPERATORS = new Set<FilterOperator>([
+  'equals', 'notEquals', 'contains', 'notContains', 'startsWith', 'endsWith', 'regex',
+  'isEmpty', 'isNotEmpty', 'gt', 'gte', 'lt', 'lte', 'between', 'in', 'notIn'
+])
+
+/** 存回来的高级筛选树: 结构不对的节点丢掉, 值统一转成字符串 */
+function parseFilterGroup(raw: any): IFilterGroup | null {
+  if (!isPlainObject(raw) || raw.type !== 'group' || !Array.isArray(raw.conditions)) return null
+  const conditions: FilterNode[] = []
+  for (const node of raw.conditions) {
+    const parsed = node?.type === 'group' ? parseFilterGroup(node) : parseFilterCondition(node)
+    if (parsed) conditions.push(parsed)
+  }
+  return { type: 'group', logic: raw.logic === 'or' ? 'or' : 'and', conditions }
+}
+
+function parseFilterCondition(raw: any): IFilterCondition | null {
+  if (!isPlainObject(raw) || raw.type !== 'condition') return null
+  if (typeof raw.field !== 'string' || !FILTER_OPERATORS.has(raw.operator)) return null
+  const condition: IFilterCondition = { type: 'condition', field: raw.field, operator: raw.operator }
+  if (raw.value !== undefined && raw.value !== null) condition.value = String(raw.value)
+  if (raw.valueTo !== undefined && raw.valueTo !== null) condition.valueTo = String(raw.valueTo)
+  if (Array.isArray(raw.values)) condition.values = raw.values.map(String)
+  return condition
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
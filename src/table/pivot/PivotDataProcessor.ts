@@ -1,4 +1,4 @@
-import type { IPivotConfig, IPivotTreeNode, IPivotColNode, AggregationType } from "@/types/pivot";
+import type { IPivotConfig, IPivotTreeNode, IPivotColNode, AggregationType, IPivotDataResponse } from "@/types/pivot";
 import { PivotTreeNode } from "@/table/pivot/PivotTreeNode";
 
 /**
@@ -180,6 +180,12 @@ export class PivotDataProcessor {
     return result
   }
 
+  /** 用别处 (worker) 建好的列树, 和 buildColTree 一样把叶子收集好 */
+  public setColTree(root: IPivotColNode): void {
+    this.colTree = root
+    this.colLeaves = this.collectColLeaves(root)
+  }
+
   /** 暴露给外部 (PivotTable, Renderer 使用) */
   public getColTree(): IPivotColNode | null {
     return this.colTree
@@ -289,7 +295,11 @@ export class PivotDataProcessor {
       index++
     }
 
-    // 组内排序：若配置了 sortBy，对当层同级节点按聊合値排序
+    return this.sortNodes(nodes)
+  }
+
+  /** 组内排序：若配置了 sortBy，对当层同级节点按聊合値排序 */
+  private sortNodes(nodes: IPivotTreeNode[]): IPivotTreeNode[] {
     const sortBy = this.config.sortBy
     if (sortBy) {
       const { cellKey, direction } = sortBy
@@ -302,6 +312,55 @@ export class PivotDataProcessor {
 
     return nodes
   }
+
+  /**
+   * server 模式: 用后端返回的列分组值组合构建列树
+   * 把每个组合拼成一行 { region: '华东', product: 'Product-0' }, 复用 buildColTree
+   *
+   * @param colValues 列分组值组合, 顺序同 colGroups
+   */
+  public buildColTreeFromPaths(colValues: string[][]): IPivotColNode {
+    const colGroups = this.config.colGroups ?? []
+    const rows = colValues.map(path => {
+      const row: Record<string, any> = {}
+      colGroups.forEach((key, i) => { row[key] = path[i] })
+      return row
+    })
+    return this.buildColTree(rows)
+  }
+
+  /**
+   * server 模式: 后端返回的一层分组 → 分组节点
+   * 子节点先空着, 展开时再按 groupPath 去后端拉
+   *
+   * @param groups 后端返回的分组 (values 已按 cellKey 聚合好)
+   * @param level 这一层的层级
+   * @param parentId 父节点 id
+   * @param parentPath 父节点的分组路径
+   */
+  public buildServerGroupNodes(
+    groups: IPivotDataResponse['groups'],
+    level: number,
+    parentId: string,
+    parentPath: string[],
+
+  ): IPivotTreeNode[] {
+    const groupKey = this.config.rowGroups[level]
+
+    const nodes = groups.map((group, index) => {
+      const groupNode = PivotTreeNode.createGroupNode(
+        `${parentId}-g${level}-${index}`,
+        level,
+        group.value,
+        { ...group.values, [groupKey]: group.value },
+        group.rowCount
+      )
+      groupNode.groupPath = [...parentPath, String(group.value ?? '')]
+      return groupNode
+    })
+
+    return this.sortNodes(nodes)
+  }
  
   /**
    * 按字段分组
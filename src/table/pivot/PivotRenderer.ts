@@ -197,8 +197,9 @@ export class PivotRenderer {
 
     const expandIcon = document.createElement('span')
     expandIcon.className = 'vt-pivot-expand-icon'
-    expandIcon.textContent = flatRow.isExpanded ? '▼' : '▶'
+    expandIcon.textContent = flatRow.isLoading ? '⋯' : flatRow.isExpanded ? '▼' : '▶'
     firstCell.appendChild(expandIcon)
+    if (flatRow.isLoading) row.classList.add('vt-pivot-row-loading') // server 模式子分组加载中
 
     const groupLabel = document.createElement('span')
     groupLabel.className = 'vt-pivot-group-label'
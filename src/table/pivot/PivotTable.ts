@@ -1,5 +1,5 @@
 import type { IColumn, IConfig } from "@/types";
-import type { IPivotConfig, IPivotFlatRow, IPivotTreeNode, IPivotColNode } from "@/types/pivot";
+import type { IPivotConfig, IPivotFlatRow, IPivotTreeNode, IPivotColNode, PivotGroupLoader, IPivotDataResponse, PivotTreeBuilder } from "@/types/pivot";
 import { PivotDataProcessor } from "@/table/pivot/PivotDataProcessor";
 import { PivotRenderer } from "@/table/pivot/PivotRenderer";
 import { PivotConfigPanel } from "@/table/pivot/PivotConfigPanel";
@@ -19,6 +19,14 @@ import { PivotTreeNode } from "@/table/pivot/PivotTreeNode";
  * - virtualContent 用 translateY 定位到可视区起始位置
  * - 只创建 [startRow, endRow] 范围内的行 DOM 
  * - 滚动时增量更新: 新进入的行创建, 离开的行销毁
+ *
+ * server 模式 (传了 loader, 没有全量数据):
+ * - 聚合由后端 GROUP BY 完成, 一次只拉一层分组
+ * - 首次只拉第一层 + 列分组值 + 总计, 展开某个分组时再拉它的下一层
+ * - 最后一层分组不再展开 (明细行太多, 透视不看明细)
+ *
+ * worker 模式 (传了 builder, client 模式数据量大):
+ * - 列树 + 行树整棵在 worker 里建好, 这边只展平渲染, 其余和 client 模式一样
  */
 export class PivotTable {
   private pivotConfig: IPivotConfig
@@ -31,6 +39,13 @@ export class PivotTable {
   private treeRoot: IPivotTreeNode | null = null 
   private flatRows: IPivotFlatRow[] = []
 
+  // server 模式相关
+  private loader: PivotGroupLoader | null
+  private loadSeq = 0                              // 每次整树重拉 +1, 旧请求回来时丢掉 (worker 建树也用它)
+  private builder: PivotTreeBuilder | null
+  private loadedNodes = new Set<string>()          // 子分组已经拉过的节点
+  private serverGroupValues = new Map<string, Set<string>>() // 拉到过的分组值, 给筛选下拉用
+
   private container: HTMLDivElement | null = null 
   private tableArea: HTMLDivElement | null = null 
   private emptyStateEl: HTMLDivElement | null = null  // 空状态提示元素
@@ -52,10 +67,18 @@ export class PivotTable {
   // 绑定 scroll handler 引用, 方便 destroy 时移除
   private scrollHandler = () => this.updateVisibleRows()
 
-  constructor(pivotConfig: IPivotConfig, columns: IColumn[], data: Record<string, any>[]) {
+  constructor(
+    pivotConfig: IPivotConfig,
+    columns: IColumn[],
+    data: Record<string, any>[],
+    loader?: PivotGroupLoader,
+    builder?: PivotTreeBuilder
+  ) {
     this.pivotConfig = pivotConfig
     this.columns = columns
     this.data = data
+    this.loader = loader ?? null
+    this.builder = builder ?? null
 
     this.processor = new PivotDataProcessor(pivotConfig)
     this.renderer = new PivotRenderer(pivotConfig, columns)
@@ -214,6 +237,15 @@ export class PivotTable {
     if (this.breadcrumbEl) this.breadcrumbEl.style.display = ''
     if (this.scrollContainer) this.scrollContainer.style.display = ''
 
+    if (this.loader) {
+      void this.refreshFromServer()
+      return
+    }
+    if (this.builder) {
+      void this.refreshFromBuilder()
+      return
+    }
+
     // 1. 先构建列树 (有 colGroups 时生成多层列树, 无则生成 valueField 叶子)
     this.processor.buildColTree(this.data)
     const colLeaves = this.processor.getColLeaves()
@@ -237,6 +269,138 @@ export class PivotTable {
     this.updateVisibleRows()
   }
 
+  /**
+   * server 模式刷新: 拉第一层分组, 重建列树 + 行树
+   *
+   * 之前展开过的分组不保留, 配置变了分组路径也对不上了
+   */
+  private async refreshFromServer(): Promise<void> {
+    if (!this.loader) return
+
+    const seq = ++this.loadSeq
+    this.loadedNodes.clear()
+    this.scrollContainer?.classList.add('vt-pivot-loading')
+
+    let res: IPivotDataResponse
+    try {
+      res = await this.loader(this.pivotConfig, [])
+    } catch (err) {
+      if (seq === this.loadSeq) this.scrollContainer?.classList.remove('vt-pivot-loading')
+      console.error('[PivotTable] 透视数据加载失败: ', err)
+      return
+    }
+    // 等待期间又刷新过 / 已经销毁了
+    if (seq !== this.loadSeq || !this.tableArea) return
+    this.scrollContainer?.classList.remove('vt-pivot-loading')
+
+    // 1. 列树: 用后端给的列分组值组合
+    this.processor.buildColTreeFromPaths(res.colValues ?? [])
+    this.renderer.setColLeaves(this.processor.getColLeaves())
+
+    // 2. 行树: 只有第一层, 总计直接用后端的
+    this.treeRoot = {
+      id: 'root',
+      type: 'group',
+      level: -1,
+      groupValue: null,
+      aggregatedData: res.grandTotal ?? {},
+      children: this.processor.buildServerGroupNodes(res.groups, 0, 'root', []),
+      isExpanded: true,
+      rowCount: res.groups.reduce((sum, group) => sum + group.rowCount, 0),
+      groupPath: []
+    }
+    this.loadedNodes.add('root')
+    this.collectGroupValues(this.treeRoot.children)
+
+    // 3. 展平 + 表头 + 可视区
+    this.renderHeader(this.processor.getColTree())
+    this.renderTree()
+  }
+
+  /**
+   * worker 模式刷新: 整棵树在 worker 里建好, 回来后和 client 模式一样展平渲染
+   * 建树期间配置又变了的话, 以最后一次为准
+   */
+  private async refreshFromBuilder(): Promise<void> {
+    if (!this.builder) return
+
+    const seq = ++this.loadSeq
+    this.scrollContainer?.classList.add('vt-pivot-loading')
+
+    let result: { colTree: IPivotColNode; tree: IPivotTreeNode }
+    try {
+      result = await this.builder(this.pivotConfig)
+    } catch (err) {
+      if (seq === this.loadSeq) this.scrollContainer?.classList.remove('vt-pivot-loading')
+      console.error('[PivotTable] 透视树构建失败: ', err)
+      return
+    }
+    if (seq !== this.loadSeq || !this.tableArea) return
+    this.scrollContainer?.classList.remove('vt-pivot-loading')
+
+    this.processor.setColTree(result.colTree)
+    this.renderer.setColLeaves(this.processor.getColLeaves())
+    this.treeRoot = result.tree
+    this.flatRows = PivotTreeNode.flattenTree(this.treeRoot, this.pivotConfig.showSubtotals ?? true)
+    this.renderHeader(result.colTree)
+    this.updateScrollHeight()
+    this.clearVisibleRows()
+    this.updateVisibleRows()
+  }
+
+  /** server 模式: 拉某个分组的下一层 */
+  private async loadChildren(node: IPivotTreeNode): Promise<void> {
+    if (!this.loader || node.isLoading) return
+
+    const seq = this.loadSeq
+    node.isLoading = true
+    node.isExpanded = true
+    this.renderTree()
+
+    try {
+      const res = await this.loader(this.pivotConfig, node.groupPath ?? [])
+      if (seq !== this.loadSeq) return // 整树已经重拉过, 这个节点不在树上了
+      node.children = this.processor.buildServerGroupNodes(res.groups, node.level + 1, node.id, node.groupPath ?? [])
+      this.loadedNodes.add(node.id)
+      this.collectGroupValues(node.children)
+
+    } catch (err) {
+      if (seq !== this.loadSeq) return
+      node.isExpanded = false // 拉失败就收起来, 再点一次会重试
+      console.error('[PivotTable] 子分组加载失败: ', err)
+    }
+
+    node.isLoading = false
+    this.renderTree()
+  }
+
+  /** server 模式: 该节点展开时要不要先去后端拉子分组 */
+  private needsLoad(node: IPivotTreeNode): boolean {
+    return !!this.loader
+      && node.type === 'group'
+      && node.level < this.pivotConfig.rowGroups.length - 1
+      && !this.loadedNodes.has(node.id)
+  }
+
+  /** 记下拉到的分组值 (server 模式没有全量数据, 筛选下拉只能列出见过的值) */
+  private collectGroupValues(nodes: IPivotTreeNode[]): void {
+    for (const node of nodes) {
+      const field = this.pivotConfig.rowGroups[node.level]
+      if (!field) continue
+      if (!this.serverGroupValues.has(field)) this.serverGroupValues.set(field, new Set())
+      this.serverGroupValues.get(field)!.add(String(node.groupValue ?? ''))
+    }
+  }
+
+  /** 重新展平树 + 更新滚动高度 + 重渲染可视区 */
+  private renderTree(): void {
+    if (!this.treeRoot) return
+    this.flatRows = PivotTreeNode.flattenTree(this.treeRoot, this.pivotConfig.showSubtotals ?? true)
+    this.updateScrollHeight()
+    this.clearVisibleRows()
+    this.updateVisibleRows()
+  }
+
   /** 渲染表头 */
   private renderHeader(colTree: IPivotColNode | null): void {
     if (!this.headerEl) return
@@ -376,6 +540,13 @@ export class PivotTable {
 
   /** 获取某字段的所有唯一值（用于筛选下拉） */
   private getUniqueValues(field: string): string[] {
+    if (this.loader) {
+      // 已筛掉的值也要留在下拉里, 不然勾不回来
+      const values = new Set(this.serverGroupValues.get(field))
+      this.pivotConfig.rowFilters?.[field]?.forEach(v => values.add(v))
+      return Array.from(values)
+    }
+
     const seen = new Set<string>()
     const result: string[] = []
     for (const row of this.data) {
@@ -385,16 +556,21 @@ export class PivotTable {
     return result
   }
 
-  /** 导出透视表当前视图为 CSV */
-  private exportPivotCSV(): void {
-    if (this.flatRows.length === 0) return
+  /**
+   * 透视表当前视图 (展开到哪就导到哪) 整理成导出用的表: 前几列是行分组, 后面是各聚合值列
+   * CSV 和 xlsx 导出共用, 小计 / 总计行记在 boldRows 里
+   */
+  public getExportTable(): { columns: IColumn[]; rows: Record<string, any>[]; boldRows: Set<number>; frozenColumns: number } | null {
+    if (this.flatRows.length === 0) return null
 
     const colLeaves = this.processor.getColLeaves()
-    const rowGroupTitles = this.pivotConfig.rowGroups
-      .map(k => this.columns.find(c => c.key === k)?.title ?? k)
+    const rowGroups = this.pivotConfig.rowGroups
 
-    // 表头
-    const headers: string[] = [...rowGroupTitles]
+    // 列: 行分组字段原样, 聚合值列的 key 就是 flatRow.data 里的 cellKey
+    const columns: IColumn[] = rowGroups.map(k => {
+      const col = this.columns.find(c => c.key === k)
+      return { key: k, title: col?.title ?? k, width: col?.width, dataType: 'string' }
+    })
     for (const leaf of colLeaves) {
       const vf = this.pivotConfig.valueFields.find(
         v => (v.label ?? v.key) === leaf.colValue || v.key === leaf.colValue
@@ -402,25 +578,40 @@ export class PivotTable {
       const colTitle = vf
         ? `${this.columns.find(c => c.key === vf.key)?.title ?? vf.key}(${vf.aggregation})`
         : String(leaf.colValue)
-      headers.push(colTitle)
+      const cellKey = leaf.colKey === '__value__' && (!leaf.ancestorColValues?.length)
+        ? (this.pivotConfig.valueFields.find(v => (v.label ?? v.key) === leaf.colValue)?.key ?? String(leaf.colValue))
+        : [this.pivotConfig.valueFields.find(v => (v.label ?? v.key) === leaf.colValue)?.key, ...(leaf.ancestorColValues ?? [])].filter(Boolean).join('__')
+      columns.push({ key: cellKey, title: colTitle, dataType: 'number' })
     }
 
-    const lines: string[] = [headers.map(h => this.csvEscape(h)).join(',')]
-
-    for (const flat of this.flatRows) {
-      const firstCols = this.pivotConfig.rowGroups.map(k => {
-        if (flat.rowType === 'grandtotal') return k === this.pivotConfig.rowGroups[0] ? '总计' : ''
-        if (flat.rowType === 'subtotal') return k === this.pivotConfig.rowGroups[flat.level] ? '小计' : ''
-        return this.csvEscape(String(flat.data[k] ?? ''))
+    const boldRows = new Set<number>()
+    const rows = this.flatRows.map((flat, i) => {
+      const row: Record<string, any> = {}
+      rowGroups.forEach(k => {
+        if (flat.rowType === 'grandtotal') row[k] = k === rowGroups[0] ? '总计' : ''
+        else if (flat.rowType === 'subtotal') row[k] = k === rowGroups[flat.level] ? '小计' : ''
+        else row[k] = flat.data[k] ?? ''
       })
-      const valueCols = colLeaves.map(leaf => {
-        const cellKey = leaf.colKey === '__value__' && (!leaf.ancestorColValues?.length)
-          ? (this.pivotConfig.valueFields.find(v => (v.label ?? v.key) === leaf.colValue)?.key ?? String(leaf.colValue))
-          : [this.pivotConfig.valueFields.find(v => (v.label ?? v.key) === leaf.colValue)?.key, ...(leaf.ancestorColValues ?? [])].filter(Boolean).join('__')
-        const val = flat.data[cellKey]
+      for (const col of columns.slice(rowGroups.length)) {
+        row[col.key] = flat.data[col.key]
+      }
+      if (flat.rowType === 'subtotal' || flat.rowType === 'grandtotal') boldRows.add(i)
+      return row
+    })
+    return { columns, rows, boldRows, frozenColumns: rowGroups.length }
+  }
+
+  /** 导出透视表当前视图为 CSV */
+  private exportPivotCSV(): void {
+    const table = this.getExportTable()
+    if (!table) return
+
+    const lines: string[] = [table.columns.map(col => this.csvEscape(col.title)).join(',')]
+    for (const row of table.rows) {
+      lines.push(table.columns.map(col => {
+        const val = row[col.key]
         return this.csvEscape(val !== undefined && val !== null ? String(val) : '')
-      })
-      lines.push([...firstCols, ...valueCols].join(','))
+      }).join(','))
     }
 
     const BOM = '\uFEFF'
@@ -603,6 +794,17 @@ export class PivotTable {
   private toggleNode(nodeId: string): void {
     if (!this.treeRoot) return 
 
+    if (this.loader) {
+      const node = PivotTreeNode.findNode(this.treeRoot, nodeId)
+      if (!node || node.isLoading) return
+      // 最后一层分组没有下一层可拉
+      if (node.level >= this.pivotConfig.rowGroups.length - 1) return
+      if (!node.isExpanded && this.needsLoad(node)) {
+        void this.loadChildren(node)
+        return
+      }
+    }
+
     // 切换状态
     PivotTreeNode.toggleNode(this.treeRoot, nodeId)
     // 重新展平 (无需重新构建树, 只需重新展平即可)
@@ -621,6 +823,21 @@ export class PivotTable {
     if (!this.treeRoot) return 
     // 递归设置, 所有分组节点为 "展开" 状态
     this.setAllNodesExpanded(this.treeRoot, true)
+
+    // server 模式: 只展开已经拉到的层, 没拉过子分组的节点顺带拉一层, 再点一次继续往下
+    if (this.loader) {
+      const pending: IPivotTreeNode[] = []
+      const walk = (node: IPivotTreeNode) => {
+        if (node.level >= this.pivotConfig.rowGroups.length - 1) {
+          node.isExpanded = false
+          return
+        }
+        if (this.needsLoad(node)) pending.push(node)
+        node.children.forEach(walk)
+      }
+      this.treeRoot.children.forEach(walk)
+      pending.forEach(node => { void this.loadChildren(node) })
+    }
     // 重新展平树
     this.flatRows = PivotTreeNode.flattenTree(this.treeRoot, this.pivotConfig.showSubtotals ?? true)
     // 更新视图
@@ -771,6 +988,9 @@ export class PivotTable {
   public destroy(): void {
     this.scrollContainer?.removeEventListener('scroll', this.scrollHandler)
     this.clearVisibleRows()
+    this.loadSeq++ // 还在路上的请求回来后直接丢掉
+    this.loadedNodes.clear()
+    this.serverGroupValues.clear()
 
     if (this.container) {
       this.container.innerHTML = ''
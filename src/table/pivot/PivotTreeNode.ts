@@ -106,7 +106,8 @@ export class PivotTreeNode {
         isExpanded: current.isExpanded,
         rowCount: current.rowCount,
         groupVale: current.groupValue,
-        parentId: current.id.split('-').slice(0, -1).join('-') || 'root'
+        parentId: current.id.split('-').slice(0, -1).join('-') || 'root',
+        isLoading: current.isLoading
       })
 
       // 若是分组节点且展开, 则处理子节点
@@ -125,6 +126,7 @@ export class PivotTreeNode {
             type: 'group' as NodeType,
             children: [], // 小计没有子节点
             isExpanded: false,  // 强制设置 false, 避免无限递归
+            isLoading: false,
             groupValue: '__SUBTOTAL__',  // 添加一个特殊的标记
           } as IPivotTreeNode)
         }
@@ -187,6 +189,18 @@ export class PivotTreeNode {
     return false 
   }
 
+  /** 按 id 查找节点, 找不到返回 null */
+  static findNode(root: IPivotTreeNode, nodeId: string): IPivotTreeNode | null {
+    if (root.id === nodeId) return root
+
+    for (const child of root.children) {
+      const found = this.findNode(child, nodeId)
+      if (found) return found
+    }
+
+    return null
+  }
+
   /** 展开所有的节点 (调试用) */
   static expandAll(node: IPivotTreeNode): void {
     node.isExpanded = true 
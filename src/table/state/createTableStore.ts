@@ -1,32 +1,44 @@
-import type { IColumn, ITableQuery } from "@/types";
-import type { TableAction, TableState, TableMode, SortValue } from "@/table/state/types";
+import type { IColumn, ITableQuery, ISortItem } from "@/types";
+import type { TableAction, TableState, TableMode } from "@/table/state/types";
 
 export type StateListener = (next: TableState, prev: TableState, action: TableAction) => void 
 
+// 中间件: 包在 dispatch 外面, 调 next 才会真正进 reducer (撤销历史就是这么挂上去的)
+export type TableMiddleware = (
+  action: TableAction,
+  next: (action: TableAction) => void,
+  getState: () => TableState
+) => void
+
 export interface TableStore {
   getState(): TableState
   dispatch(action: TableAction): void 
   subscribe(listener: StateListener): () => void  // 监听状态变化后, 执行的函数, 即响应式
+  use(middleware: TableMiddleware): () => void // 挂中间件, 返回卸载函数
 }
 
 export function createTableStore(params: {
   columns: IColumn[]
   mode: TableMode // bootstrapTable 决策出来的模式(数据量)
   frozenCount: number 
+  pinnedRight?: string[] // 固定在右侧的列
   initialState?: Partial<TableState> // 外部传入的初始 state
   onStateChange?: StateListener // 状态变化回调, 这时库对外的关键能力
 
 }): TableStore {
 
-  const { columns, mode, frozenCount, initialState, onStateChange } = params
+  const { columns, mode, frozenCount, pinnedRight = [], initialState, onStateChange } = params
   // 初始化 state, 默认按列的 key 顺序
   let state: TableState = {
     data: {
       mode,
       query: { filterText: '' },
       clientFilterText: '',
-      sort: null,
+      sort: [],
       columnFilters: {}, // 初始无筛选
+      advancedFilter: null,
+      groupBy: [],
+      collapsedGroups: [],
       totalRows: 0,  // 行数初始化
       currentPage: 0, 
     },
@@ -34,7 +46,8 @@ export function createTableStore(params: {
       order: columns.map((c) => c.key),
       frozenCount,
       widthOverrides: {},
-      hiddenKeys: [] // 初始无隐藏列
+      hiddenKeys: [], // 初始无隐藏列
+      pinnedRight
     }
   }
 
@@ -55,6 +68,58 @@ export function createTableStore(params: {
     onStateChange?.(next, prev, action)
   }
 
+  // 排序列表和 query 上的排序字段要一起改, sortKey/sortDirection 只是 sorts[0] 的兼容写法
+  function withSorts(prev: TableState, sorts: ISortItem[]): TableState {
+    const nextQuery: ITableQuery = {
+      ...prev.data.query,
+      sortKey: sorts[0]?.key,
+      sortDirection: sorts[0]?.direction,
+      sorts
+    }
+    return { ...prev, data: { ...prev.data, sort: sorts, query: nextQuery }}
+  }
+
+  /**
+   * 列固定到左侧 / 右侧 / 取消
+   * - 左侧是 "前 N 列" 模型: 固定到左 = 挪到冻结区末尾 + N 加一, 取消 = 挪到冻结区后面 + N 减一
+   * - 右侧是集合: 菜单固定到右时挪到 order 最后 (显示在最右), 取消后就留在非固定列的末尾
+   * - 拖拽固定传了 order 时, 位置以拖拽落点为准, 只改冻结数 / 右侧集合
+   */
+  function pinColumn(
+    prev: TableState['columns'],
+    key: string,
+    position: 'left' | 'right' | null,
+    dragOrder?: string[]
+  ): TableState['columns'] {
+    const { hiddenKeys, frozenCount } = prev
+    // 当前左侧冻结区的列 (可见, 非右侧固定, 按 order 的前 N 个)
+    const leftKeys = prev.order
+      .filter(k => !hiddenKeys.includes(k) && !prev.pinnedRight.includes(k))
+      .slice(0, frozenCount)
+    const wasLeft = leftKeys.includes(key)
+    const current = wasLeft ? 'left' : prev.pinnedRight.includes(key) ? 'right' : null
+    if (current === position && !dragOrder) return prev
+    const pinnedRight = prev.pinnedRight.filter(k => k !== key)
+    let order = dragOrder ?? prev.order
+    let nextFrozen = wasLeft ? frozenCount - 1 : frozenCount
+
+    if (!dragOrder) {
+      // 挪到 剩下的冻结列 后面 (固定到左 / 从左侧取消固定) 或者 最后 (固定到右)
+      const rest = order.filter(k => k !== key)
+      const lastLeft = leftKeys.filter(k => k !== key).pop()
+      if (position === 'right') {
+        order = [...rest, key]
+      } else if (position === 'left' || wasLeft) {
+        const at = lastLeft ? rest.indexOf(lastLeft) + 1 : 0
+        order = [...rest.slice(0, at), key, ...rest.slice(at)]
+      }
+    }
+    if (position === 'left') nextFrozen++
+    if (position === 'right') pinnedRight.push(key)
+
+    return { ...prev, order, frozenCount: nextFrozen, pinnedRight }
+  }
+
   function reduce(prev: TableState, action: TableAction): TableState {
     switch(action.type) {
       case 'INIT_FROM_CONFIG': {
@@ -99,34 +164,36 @@ export function createTableStore(params: {
       }
 
       case 'SORT_SET': {
-        // { key: 'sales', direction: 'acs' }
-        const sort: SortValue = action.payload.sort
-        const nextQuery: ITableQuery = {
-          ...prev.data.query,
-          sortKey: sort?.key,
-          sortDirection: sort?.direction
-        }
-        return { ...prev, data: { ...prev.data, sort, query: nextQuery }}
+        // { key: 'sales', direction: 'acs' }, 单列排序直接覆盖整个排序列表
+        const sort = action.payload.sort
+        return withSorts(prev, sort ? [sort] : [])
+      }
+
+      case 'SORT_LIST_SET': {
+        return withSorts(prev, action.payload.sorts)
       }
 
       case 'SORT_TOGGLE': {
-        const key = action.payload.key 
-        const curr = prev.data.sort 
-        let next: SortValue
-        // 继续沿用排序三态: desc -> asc -> null 
-        if (curr && curr.key === key) { // 当前字段
-          if (curr.direction === 'desc') next = { key, direction: 'asc' }
-          else next = null 
+        const { key, multi } = action.payload
+        const curr = prev.data.sort
+        const existing = curr.find(s => s.key === key)
+        // 继续沿用排序三态: desc -> asc -> null, 没排过的字段先默认降序
+        const nextItem: ISortItem | null = !existing
+          ? { key, direction: 'desc' }
+          : existing.direction === 'desc' ? { key, direction: 'asc' } : null
+
+        let next: ISortItem[]
+        if (multi) {
+          // shift+点击: 已在列表中的原地切换 (保持优先级), 否则追加到末尾
+          if (!existing) next = [...curr, nextItem!]
+          else next = nextItem
+            ? curr.map(s => s.key === key ? nextItem : s)
+            : curr.filter(s => s.key !== key)
         } else {
-          // 点击排序的是其他字段, 则先默认降序
-          next = { key, direction: 'desc' }
-        }
-        const nextQuery: ITableQuery = {
-          ...prev.data.query,
-          sortKey: next?.key,
-          sortDirection: next?.direction
+          // 普通点击: 只保留当前字段
+          next = nextItem ? [nextItem] : []
         }
-        return { ...prev, data: { ...prev.data, sort: next, query: nextQuery }}
+        return withSorts(prev, next)
       }
 
       case 'COLUMN_ORDER_SET': {
@@ -147,6 +214,12 @@ export function createTableStore(params: {
         return { ...prev, columns: { ...prev.columns, frozenCount: action.payload.count }}
       }
 
+      case 'COLUMN_PIN_SET': {
+        const { key, position, order } = action.payload
+        const columns = pinColumn(prev.columns, key, position, order)
+        return columns === prev.columns ? prev : { ...prev, columns }
+      }
+
       case 'COLUMN_FILTER_SET': {
         const { key, filter } = action.payload
         const nextFilters = { ...prev.data.columnFilters, [key]: filter }
@@ -168,6 +241,15 @@ export function createTableStore(params: {
         }
       }
 
+      case 'ADVANCED_FILTER_SET': {
+        const { filter } = action.payload
+        const nextQuery: ITableQuery = { ...prev.data.query, advancedFilter: filter ?? undefined }
+        return {
+          ...prev,
+          data: { ...prev.data, advancedFilter: filter, query: nextQuery }
+        }
+      }
+
       case 'COLUMN_HIDE': {
         const { key } = action.payload
         const hiddenKeys = [...prev.columns.hiddenKeys]
@@ -244,6 +326,28 @@ export function createTableStore(params: {
         return { ...prev, columns: { ...prev.columns, order } }
       }
 
+      case 'GROUP_BY_SET': {
+        const groupBy = action.payload.groupBy
+        const nextQuery: ITableQuery = { ...prev.data.query, groupBy }
+        return {
+          ...prev,
+          data: { ...prev.data, groupBy, collapsedGroups: [], query: nextQuery }
+        }
+      }
+
+      case 'GROUP_TOGGLE': {
+        const { groupId } = action.payload
+        const collapsed = prev.data.collapsedGroups
+        const collapsedGroups = collapsed.includes(groupId)
+          ? collapsed.filter(id => id !== groupId)
+          : [...collapsed, groupId]
+        return { ...prev, data: { ...prev.data, collapsedGroups } }
+      }
+
+      case 'GROUP_COLLAPSE_SET': {
+        return { ...prev, data: { ...prev.data, collapsedGroups: action.payload.groupIds } }
+      }
+
       case 'SET_TOTAL_ROWS': {
         return {
           ...prev,
@@ -258,27 +362,74 @@ export function createTableStore(params: {
         }
       }
 
+      // 撤销和切视图都是整块换成一张快照
+      case 'HISTORY_RESTORE':
+      case 'VIEW_STATE_APPLY': {
+        const { snapshot } = action.payload
+        const restored = withSorts(prev, snapshot.sort)
+        const nextQuery: ITableQuery = {
+          ...restored.data.query,
+          filterText: snapshot.filterText,
+          columnFilters: snapshot.columnFilters,
+          advancedFilter: snapshot.advancedFilter ?? undefined,
+          groupBy: snapshot.groupBy
+        }
+        // 分组字段没变就保留折叠状态
+        const sameGroupBy = snapshot.groupBy.join('\u0000') === prev.data.groupBy.join('\u0000')
+        return {
+          ...restored,
+          data: {
+            ...restored.data,
+            query: nextQuery,
+            columnFilters: snapshot.columnFilters,
+            advancedFilter: snapshot.advancedFilter,
+            clientFilterText: snapshot.clientFilterText,
+            groupBy: snapshot.groupBy,
+            collapsedGroups: sameGroupBy ? prev.data.collapsedGroups : []
+          },
+          columns: snapshot.columns
+        }
+      }
+
       default:
         return prev
     }
   }
 
+  function baseDispatch(action: TableAction): void {
+    const prev = state 
+    const next = reduce(prev, action)
+    if (next === prev) return
+    state = next 
+    emit(next, prev, action) // 向外通知事件
+  }
+
+  const middlewares: TableMiddleware[] = []
+  const getState = () => state
+
   return {
-    getState() {
-      return state
-    },
+    getState,
     
     dispatch(action: TableAction) {
-      const prev = state 
-      const next = reduce(prev, action)
-      if (next === prev) return
-      state = next 
-      emit(next, prev, action) // 向外通知事件
+      // 先挂的中间件在最外层
+      const run = middlewares.reduceRight<(a: TableAction) => void>(
+        (next, middleware) => (a) => middleware(a, next, getState),
+        baseDispatch
+      )
+      run(action)
     },
 
     subscribe(listener: StateListener) {
       listeners.add(listener)
       return () => listeners.delete(listener)
+    },
+
+    use(middleware: TableMiddleware) {
+      middlewares.push(middleware)
+      return () => {
+        const index = middlewares.indexOf(middleware)
+        if (index >= 0) middlewares.splice(index, 1)
+      }
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,63 @@
+import type { TableMiddleware } from "@/table/state/createTableStore";
+import type { HistorySnapshot, TableAction, TableState } from "@/table/state/types";
+import type { UndoHistory } from "@/table/core/UndoHistory";
+
+/** 从 state 里抠出撤销要还原的部分 */
+export function takeSnapshot(state: TableState): HistorySnapshot {
+  return {
+    sort: state.data.sort,
+    columnFilters: state.data.columnFilters,
+    advancedFilter: state.data.advancedFilter,
+    filterText: state.data.query.filterText ?? '',
+    clientFilterText: state.data.clientFilterText,
+    groupBy: state.data.groupBy,
+    columns: state.columns
+  }
+}
+
+/** 连续触发的同类 action 合成一步: 拖列宽按列合并, 搜索框连续输入合并 */
+function getGroupKey(action: TableAction): string | undefined {
+  switch (action.type) {
+    case 'COLUMN_WIDTH_SET':
+      return `COLUMN_WIDTH_SET:${action.payload.key}`
+    case 'SET_FILTER_TEXT':
+      return 'SET_FILTER_TEXT'
+    default:
+      return undefined
+  }
+}
+
+/**
+ * 撤销历史中间件
+ * - action 前后各拍一张快照, 撤销/重做就是 dispatch 一个 HISTORY_RESTORE 回到对应快照
+ * - state 是不可变的, 快照直接引用, 不用深拷贝
+ * - HISTORY_RESTORE 自己不进历史, 不然撤销一次就又多一条
+ */
+export function createHistoryMiddleware(params: {
+  history: UndoHistory
+  shouldRecord: (action: TableAction) => boolean
+}): TableMiddleware {
+  const { history, shouldRecord } = params
+
+  return (action, next, getState) => {
+    if (action.type === 'HISTORY_RESTORE' || !shouldRecord(action)) {
+      next(action)
+      return
+    }
+
+    const prevState = getState()
+    next(action)
+    const nextState = getState()
+    if (nextState === prevState) return // reducer 没改, 不记
+
+    const before = takeSnapshot(prevState)
+    const after = takeSnapshot(nextState)
+    const source = action.type
+    history.push({
+      label: source,
+      groupKey: getGroupKey(action),
+      undo: () => next({ type: 'HISTORY_RESTORE', payload: { snapshot: before, source } }),
+      redo: () => next({ type: 'HISTORY_RESTORE', payload: { snapshot: after, source } })
+    })
+  }
+}
@@ -1,7 +1,7 @@
-import type { IColumn, ITableQuery, ColumnFilterValue } from "@/types";
+import type { IColumn, ITableQuery, ColumnFilterValue, IFilterGroup, ISortItem } from "@/types";
 
 export type TableMode = 'client' | 'server'
-export type SortValue = { key: string, direction: 'asc' | 'desc' } | null 
+export type SortValue = ISortItem | null 
 
 export interface TableState {
   // 数据域状态: 决定是 client/server + query
@@ -9,8 +9,11 @@ export interface TableState {
     mode: TableMode
     query: ITableQuery // 当前 serverQuery, 未来拓展列级别的过滤, 类似飞书表格
     clientFilterText: string // client下, 全局关键字搜索
-    sort: SortValue  // 排序三态:  desc->asc-null
+    sort: ISortItem[]  // 多列排序, 数组顺序即优先级; 每列仍是排序三态: desc->asc-null
     columnFilters: Record<string, ColumnFilterValue> // 列值筛选 (升级为联合类型)
+    advancedFilter: IFilterGroup | null // 高级筛选 (筛选器面板), null 表示没有
+    groupBy: string[] // 行分组字段, 顺序即层级, 空数组表示不分组
+    collapsedGroups: string[] // 折叠着的分组 id, 分组字段一变就清空
     totalRows: number // 总行数
     currentPage: number // server 模式下的当前页码
   }
@@ -18,29 +21,49 @@ export interface TableState {
   columns: {
     order: string[] // 列 key 的顺序, 未来拖拽列就靠它
     frozenCount: number // 冻结前 N 列
+    pinnedRight: string[] // 固定在右侧的列 key, 不管在 order 里哪个位置, 都排在最后显示 (彼此之间按 order)
     widthOverrides: Record<string, number>  // 列宽重写(px 数值), 未设置用默认配置
     hiddenKeys: string[] // 隐藏的列 key 数组
   }
 }
 
+// 撤销/重做要还原的那部分 state (行数/页码这些跟着数据走, 不还原)
+export interface HistorySnapshot {
+  sort: ISortItem[]
+  columnFilters: Record<string, ColumnFilterValue>
+  advancedFilter: IFilterGroup | null
+  filterText: string
+  clientFilterText: string
+  groupBy: string[]
+  columns: TableState['columns']
+}
+
 // ======= Action 设计 (先覆盖排序/筛选/列顺序/冻结列/列宽) ============
 export type TableAction = 
   | { type: 'INIT_FROM_CONFIG'; payload: { mode: TableMode; columns: IColumn[]; frozenCount: number }}
   | { type: 'SET_MODE'; payload: { mode: TableMode }}
   | { type: 'SET_FILTER_TEXT'; payload: { text: string }}
   | { type: 'CLEAR_FILTER_TEXT' } // 清空筛选
-  | { type: 'SORT_TOGGLE'; payload: { key: string }}
-  | { type: 'SORT_SET'; payload: { sort: SortValue }} // 列值排序
+  | { type: 'SORT_TOGGLE'; payload: { key: string; multi?: boolean }} // multi: shift+点击, 追加为次级排序
+  | { type: 'SORT_SET'; payload: { sort: SortValue }} // 列值排序 (单列, 会覆盖掉其他排序)
+  | { type: 'SORT_LIST_SET'; payload: { sorts: ISortItem[] }} // 整体设置多列排序
   | { type: 'COLUMN_ORDER_SET'; payload: { order: string[]} }  // 设置列顺序
   | { type: 'COLUMN_REORDER'; payload: { fromIndex: number; toIndex: number } } // 拖拽面板列字段调顺序
   | { type: 'COLUMN_WIDTH_SET'; payload: { key: string; width: number }}  // 设置列宽
   | { type: 'FROZEN_COUNT_SET'; payload: { count: number }}  // 冻结前 N 列设置
+  | { type: 'COLUMN_PIN_SET'; payload: { key: string; position: 'left' | 'right' | null; order?: string[] }} // 固定到左/右侧或取消, 拖拽固定时带上落点后的列顺序
   | { type: 'COLUMN_FILTER_SET'; payload: { key: string; filter: ColumnFilterValue } } // 列值筛选
   | { type: 'COLUMN_FILTER_CLEAR'; payload: { key: string } } // 清空筛选
+  | { type: 'ADVANCED_FILTER_SET'; payload: { filter: IFilterGroup | null } } // 高级筛选, null 清空
   | { type: 'COLUMN_HIDE'; payload: { key: string } }  // 隐藏列
   | { type: 'COLUMN_SHOW'; payload: { key: string } }  // 显示列
   | { type: 'COLUMN_BATCH_HIDE'; payload: { keys: string[] } }  // 批量隐藏
   | { type: 'COLUMN_BATCH_SHOW'; payload: { keys: string[] } }  // 批量显示
   | { type: 'COLUMNS_RESET_VISIBILITY'; payload?: {} }
+  | { type: 'GROUP_BY_SET'; payload: { groupBy: string[] } } // 设置行分组字段
+  | { type: 'GROUP_TOGGLE'; payload: { groupId: string } } // 展开/折叠单个分组
+  | { type: 'GROUP_COLLAPSE_SET'; payload: { groupIds: string[] } } // 整体设置折叠的分组 (全部展开/全部折叠)
   | { type: 'SET_TOTAL_ROWS'; payload: { totalRows: number } }  // 设置总行数
-  | { type: 'SET_CURRENT_PAGE'; payload: { page: number } } // server 模式下设置当前页码
\ No newline at end of file
+  | { type: 'SET_CURRENT_PAGE'; payload: { page: number } } // server 模式下设置当前页码
+  | { type: 'HISTORY_RESTORE'; payload: { snapshot: HistorySnapshot; source: TableAction['type'] } } // 撤销/重做, source 是被撤销的那个 action
+  | { type: 'VIEW_STATE_APPLY'; payload: { snapshot: HistorySnapshot } } // 切换/恢复保存的视图
@@ -1,11 +1,16 @@
 import type { DataStrategy } from "@/table/data/DataStrategy";
 import { DOMRenderer } from "@/dom/DOMRenderer";
-import { VirtualScroller } from "@/scroll/VirtualScroller";
-import { IConfig, IPageInfo } from "@/types";
+import { VirtualScroller, hasVariableRowHeight } from "@/scroll/VirtualScroller";
+import { IConfig, IPageInfo, ICellRange } from "@/types";
 import { calculatePageRange } from "@/utils/pageUtils";
 import { RenderScenario, RenderMethod, RenderProtocalValidator } from "@/table/viewport/RenderProtocol";
 import type { RowSelectionManager } from "@/table/interaction/RowSelectionManager";
+import type { EditChangeTracker } from "@/table/core/EditChangeTracker";
+import type { RowDetailManager } from "@/table/interaction/RowDetailManager";
+import { getHeaderTotalHeight } from "@/table/model/ColumnGroupModel";
 
+const DEFAULT_DETAIL_HEIGHT = 200 // 详情区还没量到时的估计高度
+const DETAIL_TOGGLE_WIDTH = 32 // 展开按钮列宽, 和 css 里的 .vt-detail-toggle-cell 一致
 
 export class VirtualViewport {
   private config: IConfig
@@ -20,9 +25,28 @@ export class VirtualViewport {
   private headerRow?: HTMLDivElement
   private onCheckboxClick?: (rowIndex: number) => void
   private onSelectAllClick?: () => void
+  private onGroupToggle?: (groupId: string) => void // 点分组头展开/折叠
+  private editTracker?: EditChangeTracker // 单元格编辑的脏数据, 用来画脏标记
+  private detailManager?: RowDetailManager // 主从表的展开状态, 没配 detailRenderer 就没有
+
+  // 键盘导航: 当前焦点单元格 (按列 key 记, 列拖拽换位后焦点跟着列走)
+  private focusedCell: { rowIndex: number; key: string } | null = null
+  private focusedEl: HTMLDivElement | null = null
+  // 区域选择: 覆盖层画在行上面, 不去动每个单元格的 class
+  private range: ICellRange | null = null
+  private rangeOverlay: HTMLDivElement | null = null
+  private renderStartRow = 0 // 当前渲染窗口第一行, 行的 top 都相对它算
 
   private visibleRows = new Set<number>() // 当前可见行下标集合
   private rowElementMap = new Map<number, HTMLDivElement>() // 行下标 -> 行 DOM 映射
+  private pendingFlash = new Map<number, string[]>() // 要闪的行还没画出来 (整体重画中), 数据画上去再闪
+  // 可变行高: 数据画上去之后算出 / 量出来的行高先攒着, 下一帧一起改进 scroller 再重排
+  private pendingRowHeights = new Map<number, number | null>() // null = 等着量 (autoRowHeight)
+  private rowHeightFrame: number | null = null
+  private onScrollHeightChange?: (scroller: VirtualScroller) => void
+  // 主从表: 详情区是主行下面单独的 div, 高度算进主行在 scroller 里的行高
+  private detailElementMap = new Map<number, HTMLDivElement>() // 行下标 -> 详情区 DOM
+  private appliedDetailHeights = new Map<number, number>() // 行下标 -> 已经算进 scroller 行高的详情区高度
 
   constructor(params: {
     config: IConfig;
@@ -36,6 +60,8 @@ export class VirtualViewport {
     headerRow?: HTMLDivElement
     onCheckboxClick?: (rowIndex: number) => void
     onSelectAllClick?: () => void
+    onGroupToggle?: (groupId: string) => void
+    onScrollHeightChange?: (scroller: VirtualScroller) => void // 行高修正后总高变了, 外面同步滚动区高度
   }) {
     // 初始化时, 值由 VirtaulTable 传递过来
     this.config = params.config;
@@ -49,17 +75,36 @@ export class VirtualViewport {
     this.headerRow = params.headerRow
     this.onCheckboxClick = params.onCheckboxClick
     this.onSelectAllClick = params.onSelectAllClick
+    this.onGroupToggle = params.onGroupToggle
+    this.onScrollHeightChange = params.onScrollHeightChange
+    if (params.onGroupToggle) {
+      this.bindGroupToggleEvents()
+    }
     if (params.selectionManager) {
       this.bindSelectionEvents()
     }
     if (this.config.onRowClick || this.config.onCellClick) {
       this.bindRowClickEvents()
     }
+    if (this.dataStrategy.isRowFailed) {
+      this.bindRetryEvents()
+    }
   }
 
   // 允许在外部 totalRows 变化后, 替换 scroller , 针对数据筛选场景
   public setScroller(scroller: VirtualScroller) {
     this.scroller = scroller
+    // 新 scroller 的行高都是估的, 旧的修正按行下标记的, 行数 / 顺序变了就不作数了
+    // 真实行高等行画出来时再改进去, 不在这里扫全部行
+    this.pendingRowHeights.clear()
+    this.appliedDetailHeights.clear()
+    this.selectionManager?.markRowsMoved()
+    // 展开的详情区不在可视区也要占位 (滚动条长度 / scrollToRowKey 要算对), 按 key 找到新下标补上
+    if (this.detailManager?.hasExpanded()) {
+      for (const rowIndex of this.detailManager.findExpandedRows(predicate => this.dataStrategy.findRow(predicate))) {
+        this.setRowSlot(rowIndex, this.getBaseRowHeight(rowIndex), this.getDetailHeight(rowIndex))
+      }
+    }
   }
 
   /** mount 完成后注入 selectionManager（避免改动 lifecycle 链） */
@@ -76,6 +121,259 @@ export class VirtualViewport {
     this.bindSelectionEvents()
   }
 
+  /** mount 完成后注入主从表展开状态, 已经画出来的行里之前展开过的 (重建前 / 换查询前) 补上详情区 */
+  public setDetailManager(manager: RowDetailManager): void {
+    this.detailManager = manager
+    this.bindDetailToggleEvents()
+    this.applyRowDetails([...this.rowElementMap.keys()])
+  }
+
+  /** 注入编辑脏数据记录器, 渲染行时顺带画脏标记 */
+  public setEditTracker(tracker: EditChangeTracker): void {
+    this.editTracker = tracker
+  }
+
+  /** 重新渲染单行数据 (编辑完成后), 不在可视区就不管 */
+  public refreshRow(rowIndex: number): void {
+    const rowEl = this.rowElementMap.get(rowIndex)
+    const rowData = this.dataStrategy.getRow(rowIndex)
+    if (!rowEl || !rowData) return
+    this.renderer.updateDataRow(rowEl, rowData, rowIndex)
+    this.applyDirtyMarks(rowEl, rowData)
+    this.trackRowHeight(rowIndex, rowData)
+    this.syncDetailRow(rowIndex, true)
+    this.applyFocusUI()
+  }
+
+  /** 重新渲染所有可见行的数据 (提交/撤销编辑后), 不清 dom */
+  public refreshRowsData(): void {
+    for (const rowIndex of this.rowElementMap.keys()) {
+      this.refreshRow(rowIndex)
+    }
+  }
+
+  /**
+   * 单元格闪一下 (实时推送改了值), 调之前行已经重画过了
+   * 行还没画出来 (刚整体重画, 或 server 在拉页) 就先记着, 数据画上去再闪, 滚出可视区就算了
+   */
+  public flashCells(rowIndex: number, keys: string[]): void {
+    const rowEl = this.rowElementMap.get(rowIndex)
+    if (rowEl && this.dataStrategy.getRow(rowIndex)) {
+      this.applyFlash(rowEl, keys)
+    } else {
+      this.pendingFlash.set(rowIndex, keys)
+    }
+  }
+
+  private applyFlash(rowEl: HTMLDivElement, keys: string[]): void {
+    for (const key of keys) {
+      const cell = rowEl.querySelector<HTMLDivElement>(`.vt-table-cell[data-column-key="${CSS.escape(key)}"]`)
+      if (!cell) continue
+      // 上一次还没闪完的话, 去掉 class 强制回流, 动画才会重新开始
+      cell.classList.remove('vt-cell-flash')
+      void cell.offsetWidth
+      cell.classList.add('vt-cell-flash')
+      cell.addEventListener('animationend', () => cell.classList.remove('vt-cell-flash'), { once: true })
+    }
+  }
+
+  /** 给改过但未提交的单元格打上脏标记 */
+  private applyDirtyMarks(rowEl: HTMLDivElement, rowData: Record<string, any>): void {
+    if (!this.editTracker) return
+    const cells = rowEl.querySelectorAll<HTMLDivElement>('.vt-table-cell:not(.vt-checkbox-cell)')
+    cells.forEach(cell => {
+      const key = cell.dataset.columnKey
+      cell.classList.toggle('vt-cell-dirty', !!key && this.editTracker!.isDirty(rowData, key))
+    })
+  }
+
+  // ========== 焦点单元格 (键盘导航) =========
+
+  public getFocusedCell(): { rowIndex: number; key: string } | null {
+    return this.focusedCell
+  }
+
+  /** 焦点单元格的 dom, 不在可视区就是 null */
+  public getFocusedCellElement(): HTMLDivElement | null {
+    return this.focusedEl?.isConnected ? this.focusedEl : null
+  }
+
+  /** 一屏能放下多少行, PageUp/PageDown 用 */
+  public getPageRowCount(): number {
+    const viewportHeight = this.scrollContainer.clientHeight - this.getFixedTopHeight()
+    return Math.max(1, Math.floor(viewportHeight / this.config.rowHeight))
+  }
+
+  /**
+   * 移动焦点到指定单元格, 并保证它被渲染出来
+   * 目标行可能远在 buffer 之外, 所以先滚过去再同步渲染一次, 不等下一帧
+   */
+  public focusCell(rowIndex: number, key: string): void {
+    const total = this.config.totalRows
+    if (total <= 0 || !key) return
+    const target = Math.min(Math.max(0, rowIndex), total - 1)
+    this.focusedCell = { rowIndex: target, key }
+    this.revealCell(target, key)
+    this.applyFocusUI()
+  }
+
+  public clearFocus(): void {
+    this.focusedCell = null
+    this.applyFocusUI()
+  }
+
+  /** 滚动容器让单元格完整露出 (冻结列区域要让开), 并立即渲染 */
+  public revealCell(rowIndex: number, key: string): void {
+    this.scrollCellIntoView(rowIndex, key)
+    void this.updateVisibleRowsInternal()
+  }
+
+  private scrollCellIntoView(rowIndex: number, key: string): void {
+    const container = this.scrollContainer
+    // 纵向: 行顶/行底 换算成 scrollTop
+    const viewportHeight = container.clientHeight - this.getFixedTopHeight()
+    const rowTop = this.scroller.getScrollTopForRow(rowIndex)
+    const rowBottom = this.scroller.getScrollTopForRow(rowIndex + 1)
+    if (rowTop < container.scrollTop) {
+      container.scrollTop = rowTop
+    } else if (rowBottom > container.scrollTop + viewportHeight) {
+      container.scrollTop = rowBottom - viewportHeight
+    }
+
+    // 横向: 左右固定列是 sticky 的, 永远可见, 不用滚
+    const colIndex = this.config.columns.findIndex(c => c.key === key)
+    if (colIndex < 0 || colIndex < this.config.frozenColumns) return
+    const { lefts, frozenWidth, rightStart, pinnedRightWidth } = this.getColumnLayout()
+    if (colIndex >= rightStart) return
+    const cellLeft = lefts[colIndex]
+    const cellRight = lefts[colIndex + 1]
+    const viewWidth = container.clientWidth - pinnedRightWidth
+    if (cellLeft < container.scrollLeft + frozenWidth) {
+      container.scrollLeft = cellLeft - frozenWidth
+    } else if (cellRight > container.scrollLeft + viewWidth) {
+      container.scrollLeft = cellRight - viewWidth
+    }
+  }
+
+  /** 把焦点样式 + aria-activedescendant 同步到 dom */
+  private applyFocusUI(): void {
+    if (this.focusedEl) {
+      this.focusedEl.classList.remove('vt-cell-focused')
+      this.focusedEl.removeAttribute('id')
+      this.focusedEl.removeAttribute('aria-selected')
+      this.focusedEl = null
+    }
+    const focus = this.focusedCell
+    const rowEl = focus ? this.rowElementMap.get(focus.rowIndex) : undefined
+    const cell = rowEl?.querySelector<HTMLDivElement>(
+      `.vt-table-cell[data-column-key="${CSS.escape(focus!.key)}"]`
+    )
+    if (!focus || !cell) {
+      this.scrollContainer.removeAttribute('aria-activedescendant')
+      return
+    }
+    cell.id = `vt-cell-${this.config.tableId}-${focus.rowIndex}-${focus.key}`
+    cell.classList.add('vt-cell-focused')
+    cell.setAttribute('aria-selected', 'true')
+    this.scrollContainer.setAttribute('aria-activedescendant', cell.id)
+    this.focusedEl = cell
+  }
+
+  /**
+   * 各列在内容区里的左边界 (lefts[i+1] 就是第 i 列右边界) + 冻结区总宽 + 右侧固定区起点/总宽
+   * 宽度口径和 DOMRenderer 一致, 复选框列固定 40, 主从表的展开按钮列固定 32
+   */
+  private getColumnLayout(): { lefts: number[]; frozenWidth: number; rightStart: number; pinnedRightWidth: number } {
+    const checkboxWidth = (this.config.rowSelection?.enabled ? 40 : 0) +
+      (this.config.detailRenderer ? DETAIL_TOGGLE_WIDTH : 0)
+    const columns = this.config.columns
+    const lefts = [checkboxWidth]
+    columns.forEach((col, i) => {
+      lefts.push(lefts[i] + (col.width || 120))
+    })
+    // 右侧固定列 TableStateSync 已经挪到最后了
+    const rightStart = columns.length - this.config.pinnedRightColumns.length
+    return {
+      lefts,
+      frozenWidth: lefts[this.config.frozenColumns] ?? checkboxWidth,
+      rightStart,
+      pinnedRightWidth: lefts[columns.length] - lefts[rightStart]
+    }
+  }
+
+  // ========== 区域选择覆盖层 =========
+
+  public setRange(range: ICellRange | null): void {
+    this.range = range
+    this.renderRangeOverlay()
+  }
+
+  /**
+   * 按当前滚动位置摆放覆盖层
+   * - 只画已渲染的那几行, 选了十万行也不会撑出一个超高 div
+   * - 冻结列是 sticky 的, 视觉位置要加上 scrollLeft; 非冻结部分不能盖到冻结区上
+   * - 右侧固定列贴着可视区右边, 非固定部分同样不能盖到右侧固定区上
+   */
+  private renderRangeOverlay(): void {
+    const range = this.range
+    const firstRow = this.renderStartRow
+    const lastRow = firstRow + this.visibleRows.size - 1
+    const columns = this.config.columns
+    const c1 = range ? columns.findIndex(c => c.key === range.columnKeys[0]) : -1
+    const c2 = range ? columns.findIndex(c => c.key === range.columnKeys[range.columnKeys.length - 1]) : -1
+    const top = range ? Math.max(range.startRow, firstRow) : 0
+    const bottom = range ? Math.min(range.endRow, lastRow) : -1
+
+    if (!range || c1 < 0 || c2 < 0 || top > bottom) {
+      if (this.rangeOverlay) this.rangeOverlay.style.display = 'none'
+      return
+    }
+
+    const { lefts, frozenWidth, rightStart, pinnedRightWidth } = this.getColumnLayout()
+    const frozen = this.config.frozenColumns
+    const scrollLeft = this.scrollContainer.scrollLeft
+    const viewRight = scrollLeft + this.scrollContainer.clientWidth
+    const totalWidth = lefts[columns.length]
+    // 第 i 列的边 x (内容坐标) 换成视觉坐标
+    const visualX = (i: number, x: number) => {
+      if (i < frozen) return x + scrollLeft
+      if (i >= rightStart) return Math.min(x, viewRight - (totalWidth - x))
+      return Math.min(Math.max(x, scrollLeft + frozenWidth), viewRight - pinnedRightWidth)
+    }
+    const visualLeft = (i: number) => visualX(i, lefts[i])
+    const visualRight = (i: number) => visualX(i, lefts[i + 1])
+    const left = visualLeft(c1)
+    const right = visualRight(c2)
+    if (right <= left) {
+      if (this.rangeOverlay) this.rangeOverlay.style.display = 'none'
+      return
+    }
+
+    if (!this.rangeOverlay) {
+      this.rangeOverlay = document.createElement('div')
+      this.rangeOverlay.className = 'vt-range-overlay'
+    }
+    const overlay = this.rangeOverlay
+    // refresh() 会清空 virtualContent, 挂回去
+    if (overlay.parentElement !== this.virtualContent) {
+      this.virtualContent.appendChild(overlay)
+    }
+    overlay.style.display = ''
+    const firstTop = this.scroller.getRowOffset(firstRow)
+    overlay.style.top = `${this.scroller.getRowOffset(top) - firstTop}px`
+    overlay.style.height = `${this.scroller.getRowOffset(bottom + 1) - this.scroller.getRowOffset(top)}px`
+    overlay.style.left = `${left}px`
+    overlay.style.width = `${right - left}px`
+    // 区域边缘被裁掉时 (上下滚出去了), 那一侧不画边框
+    overlay.classList.toggle('vt-range-clip-top', range.startRow < firstRow)
+    overlay.classList.toggle('vt-range-clip-bottom', range.endRow > lastRow)
+  }
+
+  // 表头 + 总结行高度 (sticky 在顶部, 会盖住数据行)
+  private getFixedTopHeight(): number {
+    return getHeaderTotalHeight(this.config) + (this.config.showSummary ? this.config.summaryHeight : 0)
+  }
+
   /** 绑定行点击 / 单元格点击事件委托 */
   private bindRowClickEvents(): void {
     this.scrollContainer.addEventListener('click', (e: MouseEvent) => {
@@ -106,6 +404,63 @@ export class VirtualViewport {
     })
   }
 
+  /** 加载失败占位行上的 "重试" (捕获阶段拦下, 不当成行点击) */
+  private bindRetryEvents(): void {
+    this.scrollContainer.addEventListener('click', (e: MouseEvent) => {
+      if (!(e.target as HTMLElement).closest('.vt-row-retry')) return
+      e.stopPropagation()
+      this.retryFailedRows()
+    }, true)
+  }
+
+  /** 清掉失败标记, 可视区里的失败占位行换回骨架行重新拉 */
+  public retryFailedRows(): void {
+    this.dataStrategy.clearFailedPages?.()
+    for (const [rowIndex, rowEl] of this.rowElementMap) {
+      if (!rowEl.classList.contains('vt-error-row')) continue
+      const skeleton = this.renderer.createSkeletonRow(rowIndex, this.selectionManager?.has(rowIndex) ?? false)
+      skeleton.style.top = rowEl.style.top
+      skeleton.style.height = rowEl.style.height
+      rowEl.replaceWith(skeleton)
+      this.rowElementMap.set(rowIndex, skeleton)
+      this.updateRowData(rowIndex).catch(console.warn)
+    }
+  }
+
+  /** 某行所在页加载失败了, 骨架行换成失败占位行 */
+  private showRowError(rowIndex: number): void {
+    const rowEl = this.rowElementMap.get(rowIndex)
+    if (!rowEl || rowEl.classList.contains('vt-error-row')) return
+    const errorEl = this.renderer.createErrorRow(rowIndex)
+    errorEl.style.top = rowEl.style.top
+    errorEl.style.height = rowEl.style.height
+    rowEl.replaceWith(errorEl)
+    this.rowElementMap.set(rowIndex, errorEl)
+  }
+
+  /** 主从表展开按钮 (捕获阶段拦下, 不当成行点击 / 单元格点击) */
+  private bindDetailToggleEvents(): void {
+    this.scrollContainer.addEventListener('click', (e: MouseEvent) => {
+      const btn = (e.target as HTMLElement).closest<HTMLButtonElement>('.vt-detail-toggle')
+      if (!btn) return
+      e.stopPropagation()
+      const rowIndex = parseInt(btn.dataset.rowIndex ?? '-1', 10)
+      if (rowIndex < 0 || !this.detailManager) return
+      this.detailManager.toggle(rowIndex)
+      this.refreshRowDetail(rowIndex)
+    }, true)
+  }
+
+  /** 绑定分组头点击 (整行都能点), 只有分组头才有 data-group-id */
+  private bindGroupToggleEvents(): void {
+    this.scrollContainer.addEventListener('click', (e: MouseEvent) => {
+      const rowEl = (e.target as HTMLElement).closest<HTMLDivElement>('.vt-group-row')
+      const groupId = rowEl?.dataset.groupId
+      if (groupId === undefined) return
+      this.onGroupToggle?.(groupId)
+    })
+  }
+
   /** 绑定 checkbox 事件委托（只绑一次） */
   private bindSelectionEvents(): void {
     this.scrollContainer.addEventListener('click', (e: MouseEvent) => {
@@ -159,13 +514,11 @@ export class VirtualViewport {
     // 获取当前滚动位置和可视区高度
     const { scrollTop, clientHeight }  = this.scrollContainer
     // 表头 + 总结行高度要固定住
-    const fixedTopHeight = this.config.headerHeight + (this.config.showSummary? this.config.summaryHeight : 0)
+    const fixedTopHeight = getHeaderTotalHeight(this.config) + (this.config.showSummary? this.config.summaryHeight : 0)
     // 滚动高度不能小于 0 
     const contentScrollTop = Math.max(0, scrollTop - fixedTopHeight)
-    // 计算可视区高度, 要减去表头和汇总行高度
-    const viewportHeight = clientHeight 
-      - this.config.headerHeight 
-      - (this.config.showSummary ? this.config.summaryHeight : 0)
+    // 计算可视区高度, 要减去表头 (含分组行) 和汇总行高度
+    const viewportHeight = clientHeight - fixedTopHeight
 
     // 计算可视区行范围, 一级 translateY, contentHeight 
     const { 
@@ -182,6 +535,8 @@ export class VirtualViewport {
       this.config.totalRows, 
       this.config.pageSize)
     this.onPageChange?.(pageInfo)  // 用实例方法, 而非 config
+    // 告诉数据策略当前渲染到哪些行 (分页缓存保护可视页 + 预取)
+    this.dataStrategy.setVisibleRange?.(startRow, endRow)
 
     // 设置虚拟内容区的位置和高度
     this.virtualContent.style.transform = `translateY(${translateY}px)`
@@ -194,10 +549,40 @@ export class VirtualViewport {
       newVisibleSet.add(rowIndex)
       // 若当前行不在可视区中, 则创建骨架行 + 异步加载行数据
       if (!this.visibleRows.has(rowIndex)) {
+        // 分组头没有异步数据, 直接画好
+        const group = this.dataStrategy.getGroupRow?.(rowIndex)
+        if (group) {
+          const rowEl = this.renderer.createGroupRow(rowIndex, group)
+          this.placeRow(rowEl, rowIndex, startRow)
+          fragment.appendChild(rowEl)
+          this.rowElementMap.set(rowIndex, rowEl)
+          continue
+        }
+        // 所在页 (游标模式是下一批) 已经加载失败了, 不自动再拉, 等点重试
+        if (this.dataStrategy.isRowFailed?.(rowIndex)) {
+          const rowEl = this.renderer.createErrorRow(rowIndex)
+          this.placeRow(rowEl, rowIndex, startRow)
+          fragment.appendChild(rowEl)
+          this.rowElementMap.set(rowIndex, rowEl)
+          continue
+        }
+        // 游标分页的 "加载中" 哨兵行: 露出来了就拉下一批, 拉完行数变化由策略通知外面同步
+        if (this.dataStrategy.isSentinelRow?.(rowIndex)) {
+          const rowEl = this.renderer.createLoadingRow(rowIndex)
+          this.placeRow(rowEl, rowIndex, startRow)
+          fragment.appendChild(rowEl)
+          this.rowElementMap.set(rowIndex, rowEl)
+          // 重试完还失败, 换成失败占位行, 别一直挂着 "加载中"
+          this.dataStrategy.ensurePageForRow(rowIndex).catch((err) => {
+            if (this.dataStrategy.isRowFailed?.(rowIndex)) this.showRowError(rowIndex)
+            else console.warn(err)
+          })
+          continue
+        }
         const isSelected = this.selectionManager?.has(rowIndex) ?? false
         const rowEl = this.renderer.createSkeletonRow(rowIndex, isSelected)
         // 这里 top 依赖 startRow, 保证每次滚动时, 越往后的行 top 值越大, 逐行排
-        rowEl.style.top = `${(rowIndex - startRow) * this.config.rowHeight}px`
+        this.placeRow(rowEl, rowIndex, startRow)
         fragment.appendChild(rowEl)
         this.rowElementMap.set(rowIndex, rowEl)
         //异步填充数据, 失败只 warn, 不中断渲染
@@ -206,7 +591,7 @@ export class VirtualViewport {
       } else {
         // 当前行已在可视区里面, 则无需重复创建 dom, 只更新 top 即可
         const rowEl = this.rowElementMap.get(rowIndex)!
-        rowEl.style.top = `${(rowIndex - startRow) * this.config.rowHeight}px`
+        this.placeRow(rowEl, rowIndex, startRow)
       }
       
     }
@@ -224,10 +609,19 @@ export class VirtualViewport {
           deleteRow.remove()
           this.rowElementMap.delete(rowIndex)
         }
+        this.detailElementMap.get(rowIndex)?.remove()
+        this.detailElementMap.delete(rowIndex)
       }
     }
+    // 滚出去的行不用再闪了
+    for (const rowIndex of this.pendingFlash.keys()) {
+      if (!newVisibleSet.has(rowIndex)) this.pendingFlash.delete(rowIndex)
+    }
     // 更新可视区的行 (下标)
     this.visibleRows = newVisibleSet
+    this.renderStartRow = startRow
+    this.applyFocusUI()
+    this.renderRangeOverlay()
   }
 
   // ======== 规则2: 数据泌冲只能 updateRowData() =========
@@ -246,7 +640,8 @@ export class VirtualViewport {
     }
     
     try {
-      let rowData = this.dataStrategy.getRow(rowIndex)
+      // 只有这里算缓存命中, 别处取行都是 getRow
+      let rowData = this.dataStrategy.readRow ? this.dataStrategy.readRow(rowIndex) : this.dataStrategy.getRow(rowIndex)
       if (!rowData) {
         // 缓存页中没有该行数据, 则触发异步数据加载 (分页模式)
         const pageIndex = Math.floor(rowIndex / this.config.pageSize)
@@ -258,10 +653,31 @@ export class VirtualViewport {
         if (rowEl) {
           // 关键: 渲染行数据, 务必传 rowIndex, 用来实现自定义渲染单元格的标识
           this.renderer.updateDataRow(rowEl, rowData, rowIndex) 
-          
+          this.applyDirtyMarks(rowEl, rowData)
+          this.trackRowHeight(rowIndex, rowData)
+          // 展开也是按 rowKey 记的, 有数据了才知道这行展没展开
+          this.syncDetailRow(rowIndex)
+          // 选中是按 rowKey 记的, 骨架行那会儿还不知道 key, 数据回来后再对一次
+          if (this.selectionManager) {
+            this.renderer.setRowSelected(rowEl, this.selectionManager.has(rowIndex))
+          }
+          // cellClassName 会重置 class, 焦点样式补回来
+          if (this.focusedCell?.rowIndex === rowIndex) {
+            this.applyFocusUI()
+          }
+          const flashKeys = this.pendingFlash.get(rowIndex)
+          if (flashKeys) {
+            this.pendingFlash.delete(rowIndex)
+            this.applyFlash(rowEl, flashKeys)
+          }
         }
       }
     } catch (error) {
+      // 重试完了还失败 (换查询被丢掉的不算), 换成失败占位行, 别一直挂着骨架屏
+      if (this.dataStrategy.isRowFailed?.(rowIndex)) {
+        this.showRowError(rowIndex)
+        return
+      }
       console.warn(`Faild to update row ${rowIndex}`, error)
     }
   }
@@ -290,13 +706,169 @@ export class VirtualViewport {
     // 清空当前渲染状态缓存
     this.visibleRows.clear()
     this.rowElementMap.clear()
+    this.detailElementMap.clear()
+    // 行数变了, 给读屏软件同步一下 (+1 是表头)
+    this.scrollContainer.setAttribute('aria-rowcount', String(this.config.totalRows + 1))
     this.updateVisibleRows() // 重新渲染可视区
   }
 
+  // ========== 可变行高 =========
+
+  /**
+   * 行的 top 相对渲染窗口第一行算; 配了 getRowHeight 的行高写死, autoRowHeight 的让内容撑
+   * 展开了的行, 详情区紧跟在主行下面 (scroller 里的行高 = 主行 + 详情区)
+   */
+  private placeRow(rowEl: HTMLDivElement, rowIndex: number, startRow: number): void {
+    const top = this.scroller.getRowOffset(rowIndex) - this.scroller.getRowOffset(startRow)
+    const baseHeight = this.getBaseRowHeight(rowIndex)
+    rowEl.style.top = `${top}px`
+    if (this.config.getRowHeight) {
+      rowEl.style.height = `${baseHeight}px`
+    }
+    const detailEl = this.detailElementMap.get(rowIndex)
+    if (detailEl) detailEl.style.top = `${top + baseHeight}px`
+  }
+
+  /** 改 scroller 里某行的行高 = 主行 + 详情区, 顺便记下详情区占了多少, 返回变化量 */
+  private setRowSlot(rowIndex: number, baseHeight: number, detailHeight: number): number {
+    if (detailHeight > 0) {
+      this.appliedDetailHeights.set(rowIndex, detailHeight)
+    } else {
+      this.appliedDetailHeights.delete(rowIndex)
+    }
+    return this.scroller.setRowHeight(rowIndex, baseHeight + detailHeight)
+  }
+
+  /** 主行自己的高度 (不含详情区) */
+  private getBaseRowHeight(rowIndex: number): number {
+    return this.scroller.getRowHeight(rowIndex) - (this.appliedDetailHeights.get(rowIndex) ?? 0)
+  }
+
+  /** 这一行现在应该给详情区留多高, 没展开是 0 */
+  private getDetailHeight(rowIndex: number): number {
+    return this.detailManager?.getDetailHeight(rowIndex, this.config.detailHeight ?? DEFAULT_DETAIL_HEIGHT) ?? 0
+  }
+
+  /** 行数据画上去了, 记下要修正的行高, 下一帧统一处理 */
+  private trackRowHeight(rowIndex: number, rowData: Record<string, any>): void {
+    if (!hasVariableRowHeight(this.config)) return
+    const { getRowHeight, autoRowHeight, rowHeight } = this.config
+    this.pendingRowHeights.set(rowIndex, getRowHeight ? getRowHeight(rowData, rowIndex) : autoRowHeight ? null : rowHeight)
+    if (this.rowHeightFrame === null) {
+      this.rowHeightFrame = requestAnimationFrame(() => this.flushRowHeights())
+    }
+  }
+
+  /**
+   * 把攒的行高改进 scroller, 总高变了通知外面, 再按新偏移重排可视行
+   * 平滑修正: 视口顶部那行上面的行高变了, scrollTop 跟着挪同样的量, 看着的内容不跳
+   */
+  private flushRowHeights(): void {
+    this.rowHeightFrame = null
+    // 先统一读 (量高度), 再统一写, 免得读写交替反复回流
+    const heights: Array<[number, number, number]> = [] // [行下标, 主行高, 详情区高]
+    for (const [rowIndex, height] of this.pendingRowHeights) {
+      const rowEl = this.rowElementMap.get(rowIndex)
+      if (height === null && !rowEl?.isConnected) continue
+      const detailEl = this.detailElementMap.get(rowIndex)
+      let detailHeight = this.getDetailHeight(rowIndex)
+      if (detailHeight > 0 && detailEl?.isConnected) {
+        detailHeight = detailEl.offsetHeight
+        this.detailManager!.setDetailHeight(rowIndex, detailHeight)
+      }
+      heights.push([rowIndex, height ?? rowEl!.offsetHeight, detailHeight])
+    }
+    this.pendingRowHeights.clear()
+
+    const container = this.scrollContainer
+    const contentScrollTop = Math.max(0, container.scrollTop - this.getFixedTopHeight())
+    const anchorRow = this.scroller.getRowAtScrollTop(contentScrollTop)
+    let shiftAbove = 0
+    let changed = false
+    for (const [rowIndex, height, detailHeight] of heights) {
+      const delta = this.setRowSlot(rowIndex, height, detailHeight)
+      if (delta === 0) continue
+      changed = true
+      if (rowIndex < anchorRow) shiftAbove += delta
+    }
+    if (!changed) return
+
+    if (this.scroller.updateScrollHeight()) {
+      this.onScrollHeightChange?.(this.scroller)
+    }
+    if (shiftAbove !== 0 && contentScrollTop > 0) {
+      container.scrollTop += shiftAbove / this.scroller.getScrollScale()
+    }
+    void this.updateVisibleRowsInternal()
+  }
+
+  // ========== 主从表 (展开行) =========
+
+  /** 某行展开状态变了 (点了按钮 / 调了 API): 改这一行的占位高度, 画上或拿掉详情区, 后面的行跟着挪 */
+  public refreshRowDetail(rowIndex: number): void {
+    this.applyRowDetails([rowIndex])
+  }
+
+  /** 展开状态整批变了 (全部收起之类): 已经占了详情区高度的行 + 可视区里的行都重新对一遍 */
+  public refreshAllRowDetails(): void {
+    this.applyRowDetails(new Set([...this.appliedDetailHeights.keys(), ...this.rowElementMap.keys()]))
+  }
+
+  private applyRowDetails(rowIndexes: Iterable<number>): void {
+    for (const rowIndex of rowIndexes) {
+      if (this.dataStrategy.getGroupRow?.(rowIndex) || !this.dataStrategy.getRow(rowIndex)) continue
+      this.setRowSlot(rowIndex, this.getBaseRowHeight(rowIndex), this.getDetailHeight(rowIndex))
+      this.syncDetailRow(rowIndex)
+    }
+    if (this.scroller.updateScrollHeight()) {
+      this.onScrollHeightChange?.(this.scroller)
+    }
+    void this.updateVisibleRowsInternal()
+  }
+
+  /**
+   * 让某行的详情区和展开状态对上: 没展开 / 还没数据就拿掉, 展开了就画出来摆到主行下面
+   * rerender: 行数据改了 (编辑 / 推送), 详情区整个重画
+   */
+  private syncDetailRow(rowIndex: number, rerender = false): void {
+    const detailRenderer = this.config.detailRenderer
+    const rowEl = this.rowElementMap.get(rowIndex)
+    if (!detailRenderer || !rowEl) return
+    const rowData = this.dataStrategy.getRow(rowIndex)
+    const expanded = !!rowData && !!this.detailManager?.isExpanded(rowIndex)
+    this.renderer.setRowExpanded(rowEl, expanded)
+
+    const current = this.detailElementMap.get(rowIndex)
+    if (!expanded) {
+      current?.remove()
+      this.detailElementMap.delete(rowIndex)
+      return
+    }
+    if (current && !rerender) return
+    const detailEl = this.renderer.createDetailRow(rowIndex, detailRenderer(rowData!), this.scrollContainer.clientWidth)
+    detailEl.style.top = `${parseFloat(rowEl.style.top || '0') + this.getBaseRowHeight(rowIndex)}px`
+    if (current) {
+      current.replaceWith(detailEl)
+    } else {
+      this.virtualContent.appendChild(detailEl)
+    }
+    this.detailElementMap.set(rowIndex, detailEl)
+    // 详情区真实高度等画出来量
+    this.trackRowHeight(rowIndex, rowData!)
+  }
+
   // 销毁: 释放引用 + 清空缓存 
   public destroy() {
     this.visibleRows.clear()
     this.rowElementMap.clear()
+    this.detailElementMap.clear()
+    this.appliedDetailHeights.clear()
+    this.pendingFlash.clear()
+    this.pendingRowHeights.clear()
+    if (this.rowHeightFrame !== null) {
+      cancelAnimationFrame(this.rowHeightFrame)
+      this.rowHeightFrame = null
+    }
   }
 
 
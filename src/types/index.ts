@@ -1,4 +1,5 @@
 import type { IPanelConfig } from "@/table/panel/IPanel"
+import type { IPivotConfig, IPivotDataQuery, IPivotDataResponse } from "@/types/pivot"
 
 // ======== 基础类型 ==========
 
@@ -16,6 +17,33 @@ export type ColumnFilterValue =
   | { kind: 'dateRange', start?: string, end?: string } // yyyy-MM-dd
   | { kind: 'numberRange', min?: number, max?: number }
 
+// 高级筛选的运算符 (筛选器面板): contains / startsWith / endsWith / regex 忽略大小写, equals / in 这类按值精确匹配
+export type FilterOperator =
+  | 'equals' | 'notEquals'
+  | 'contains' | 'notContains' | 'startsWith' | 'endsWith' | 'regex'
+  | 'isEmpty' | 'isNotEmpty'
+  | 'gt' | 'gte' | 'lt' | 'lte' | 'between'
+  | 'in' | 'notIn'
+
+// 高级筛选的单个条件, 如 { field: 'age', operator: 'between', value: '20', valueTo: '30' }
+export interface IFilterCondition {
+  type: 'condition'
+  field: string
+  operator: FilterOperator
+  value?: string // 比较值, isEmpty / isNotEmpty / in / notIn 不用
+  valueTo?: string // between 的上限 (含)
+  values?: string[] // in / notIn 的候选值
+}
+
+// 高级筛选的条件组, 可以嵌套, 如 A 且 (B 或 C)
+export interface IFilterGroup {
+  type: 'group'
+  logic: 'and' | 'or'
+  conditions: FilterNode[]
+}
+
+export type FilterNode = IFilterCondition | IFilterGroup
+
 // 拓展排序, 筛选参数
 export interface SortFilterParmas {
   sortField?: string
@@ -23,13 +51,33 @@ export interface SortFilterParmas {
   filterText: string
 }
 
+// 单个排序项, 多列排序时数组顺序即优先级
+export interface ISortItem {
+  key: string
+  direction: 'asc' | 'desc'
+}
+
 // 服务端查询参数, 用于分页接口, 如排序, 筛选等
 // 关键点: 字段要尽量扁平, 方便拼接缓存 key 和后端处理
 export interface ITableQuery {
-  sortKey?: string // 排序字段名 key
+  sortKey?: string // 排序字段名 key (= sorts[0], 兼容老的单列排序)
   sortDirection?: 'asc' | 'desc'
+  sorts?: ISortItem[] // 多列排序, 如 region 升序后再按 salary 降序
   filterText?: string // 模糊搜索关键词
   columnFilters?: Record<string, ColumnFilterValue> // 列值筛选 (key -> 筛选值结构)
+  advancedFilter?: IFilterGroup // 高级筛选 (筛选器面板), 和列筛选是 且 的关系; 纯 JSON, server 模式原样交给后端
+  groupBy?: string[] // 行分组字段, 顺序即层级 (仅 client 模式)
+}
+
+// 行分组的分组头 (client 模式 groupBy 时, 和数据行混排在同一个行下标空间里)
+export interface IGroupRow {
+  id: string       // 从第一层到本组的分组值路径, 折叠状态按它记
+  field: string    // 本层分组字段
+  value: any       // 本组的分组值
+  level: number    // 第几层分组, 0 开始
+  count: number    // 组内数据行数
+  expanded: boolean
+  summary: Record<string, any> // 组内按列 summaryType 算的聚合值
 }
 
 // sever模式: 标准分页响应
@@ -39,6 +87,13 @@ export interface IPageResponse<T = Record<string, any>> {
   summary?: Record<string, any> // 总结行数据(可选), 随分页数据一并返回
 }
 
+// 游标分页响应 (无限滚动): 没有总数, nextCursor 为空表示到底了
+export interface ICursorPageResponse<T = Record<string, any>> {
+  list: T[]
+  nextCursor: string | null
+  summary?: Record<string, any>
+}
+
 // server模式: 页码展示
 export interface IPageInfo {
   startPage: number
@@ -62,12 +117,48 @@ export interface IColumn {
   sortable?: boolean
   filter?: IColumnFilterConfig  // 列筛选配置 (不配置则表示不可筛选)
   summaryType?: 'sum' | 'avg' | 'count' | 'none' // 总结行聚合类型
+  // 导出 xlsx 时数字 / 日期列的 Excel 格式码, 如 '#,##0.00' / '0%' / 'yyyy-mm-dd hh:mm', 不配按 dataType 给默认
+  numberFormat?: string
   // 自定义渲染器: 支持返回 html 字符串或 dom 元素
   render?: (value: any, row: Record<string, any>, rowIndex: number) => string | HTMLDivElement
   // 单元格样式制定: 根据值返回 className
   cellClassName?: (value: any, row: Record<string, any>) => string
   // 单元格行内样式, 支持各种 html 元素 (条件格式更方便)
   cellStyle?: (value: any, row: Record<string, any>, rowIndex: number) => Partial<CSSStyleDeclaration> | null 
+  // 单元格编辑: true 或按行判断, 双击/回车进入编辑, 编辑器按 dataType 选 (set 筛选列用下拉)
+  editable?: boolean | ((row: Record<string, any>, rowIndex: number) => boolean)
+  // 编辑校验: 返回 string 作为错误提示, 返回 false 用默认提示, 其余视为通过
+  validate?: (value: any, row: Record<string, any>) => string | boolean | void
+  // 计算列表达式, 如 'salary * 0.1 + age', 引用别的列直接写 key (带空格的写 [first name])
+  // 值算好写进行数据里, 依赖的字段改了自动重算; 计算列不能再配 editable
+  expression?: string
+}
+
+// 表头分组 (多行表头): children 是列 key 或者下一层分组, 一列只能在一个分组里
+export interface IColumnGroup {
+  groupId: string
+  title: string
+  children: Array<string | IColumnGroup>
+}
+
+// ======= 单元格编辑 ===========
+export interface ICellChange {
+  oldValue: any
+  newValue: any
+}
+
+// 一行里所有未提交的修改
+export interface IRowChange {
+  row: Record<string, any> // 修改后的整行数据 (没有计算列时就是数据源里的那个对象; 有的话是去掉计算列的拷贝)
+  rowIndex: number // 编辑时的行下标, 排序/筛选后可能会变, 别拿它当主键
+  changes: Record<string, ICellChange> // 列 key -> 新旧值
+}
+
+// 单元格区域选择 (拖选 / Shift+方向键), 行闭区间 + 按显示顺序的列 key
+export interface ICellRange {
+  startRow: number
+  endRow: number
+  columnKeys: string[]
 }
 
 // ======= 右侧面板配置 =========
@@ -93,11 +184,108 @@ export interface SidePanelConfigInternal {
 }
 
 
+// ======= 行主键 ===========
+// 行的唯一标识, 选中/定位都靠它, 排序筛选后也不会串行
+export type RowKey = string | number
+
+// ======= 实时推送: 行事务 ===========
+// 按 rowKey 增删改一批行, 需要配置 rowKey (update 里每条至少要带主键字段)
+export interface IRowTransaction {
+  add?: Record<string, any>[]    // 新行, client 模式排在当前结果末尾, 下次排序/筛选才归位
+  update?: Record<string, any>[] // 部分字段 + 主键, 只改给了的字段
+  remove?: RowKey[]
+}
+
+export interface IRowTransactionResult {
+  added: number
+  updated: number   // 真的有值变化的行数
+  removed: number
+  missing: RowKey[] // update/remove 没找到的主键 (server 模式是没在缓存页里)
+}
+
+// ======= 撤销/重做配置 ===========
+export interface IHistoryConfig {
+  depth?: number       // 最多保留多少步, 默认 100
+  groupWindow?: number // 这么多毫秒内的同类操作合成一步 (拖列宽/连续输入), 默认 500
+}
+
+// ======= 分页加载失败重试 ===========
+export interface IRetryConfig {
+  retries?: number   // 失败后最多再试几次, 默认 2
+  baseDelay?: number // 第一次重试前等多久 (ms), 之后每次翻倍, 默认 500
+  maxDelay?: number  // 单次等待上限 (ms), 默认 5000
+}
+
+// 加载失败时 onError 收到的信息
+export interface ITableErrorInfo {
+  error: Error
+  status?: number    // RequestError 带的 HTTP 状态码, 超时 / 断网没有
+  pageIndex?: number // 哪一页失败了, client 模式拉全量失败没有页码
+  phase: 'bootstrap' | 'page' | 'worker' // 首屏加载失败 (会盖一层错误提示) / 滚动中某页失败 (那几行显示重试) / client 模式 worker 起不来 (已回退主线程, 数据照常显示)
+}
+
+// ======= 视图持久化 ===========
+// 一个 "视图" = 用户把表格调成的样子, 不含数据本身
+export interface IViewState {
+  columns: {
+    order: string[]                 // 列顺序 (含隐藏列)
+    widths: Record<string, number>  // 列宽 px
+    hiddenKeys: string[]
+    frozenCount: number
+    pinnedRight: string[]           // 固定在右侧的列
+  }
+  sort: ISortItem[]
+  columnFilters: Record<string, ColumnFilterValue>
+  advancedFilter: IFilterGroup | null
+  filterText: string
+  groupBy: string[]
+  pivot: {
+    enabled: boolean
+    config: IPivotConfig | null
+  }
+  sidePanel: {
+    activePanel: string | null  // null 表示面板收起
+  }
+}
+
+// 用户保存的具名视图
+export interface ISavedView {
+  id: string
+  name: string
+  state: IViewState
+  updatedAt: number
+}
+
+// 存储适配器: 全部异步, localStorage / IndexedDB / 用户自己的后端都按这个接
+export interface IViewStorageAdapter {
+  load(key: string): Promise<unknown | null>
+  save(key: string, value: unknown): Promise<void>
+  remove(key: string): Promise<void>
+}
+
+export interface IViewPersistenceConfig {
+  storage?: 'localStorage' | 'indexedDB' | IViewStorageAdapter // 默认 localStorage
+  key?: string        // 存储 key, 默认 Dtable-view-{tableId}
+  autoSave?: boolean  // 视图变化自动保存, 默认 true
+}
+
 // ======= 行选中配置 ===========
 export interface IRowSelectionConfig {
   enabled: boolean
-  // 选中状态变化时回调
-  onSelect?: (selectedRows: Record<string, any>[], selectedIndices: number[]) => void
+  // 选中状态变化时回调 (selectedKeys 仅配置了 rowKey 时有意义, 否则就是行下标)
+  onSelect?: (selectedRows: Record<string, any>[], selectedIndices: number[], selectedKeys: RowKey[]) => void
+}
+
+// ======= 数据源适配器 ===========
+// 把不同后端 (REST / GraphQL / 查询串...) 的接口收拢成一套, 表格只认这个
+// 只有 getPage 必填; getAll 有的话 client 模式一次拉全量, 不用一页页循环
+// signal: 查询条件变了, 旧请求会被 abort, 传给 fetch 就行
+export interface IDataSource {
+  getPage(pageIndex: number, pageSize: number, query: ITableQuery, signal?: AbortSignal): Promise<IPageResponse>
+  getCursorPage?(cursor: string | null, pageSize: number, query: ITableQuery, signal?: AbortSignal): Promise<ICursorPageResponse> // 游标分页的后端
+  getSummary?(query: ITableQuery, signal?: AbortSignal): Promise<Record<string, any>>
+  getFilterOptions?(key: string, query: ITableQuery, signal?: AbortSignal): Promise<string[]>
+  getAll?(query?: ITableQuery): Promise<Record<string, any>[]>
 }
 
 // ======= 回调函数类型 ===========
@@ -109,6 +297,8 @@ export interface ITableCallbacks {
   // 行点击回调
   onRowClick?: (row: Record<string, any>, rowIndex: number, event: MouseEvent) => void
   onCellClick?: (value: any, key: string, row: Record<string, any>, rowIndex: number, event: MouseEvent) => void
+  // 数据加载失败 (重试完了还是失败才会调)
+  onError?: (info: ITableErrorInfo) => void
 }
 
 // =========== 内部配置 (运行时, 所有字段必填) ===========
@@ -124,33 +314,57 @@ export interface IConfig extends ITableCallbacks {
   headerHeight: number
   summaryHeight: number
   rowHeight: number
+  // 按行给行高 (多行备注之类), 行数据还没拉回来的先按 rowHeight 估, 拉回来再修正
+  getRowHeight?: (row: Record<string, any>, rowIndex: number) => number
+  autoRowHeight?: boolean // 行高按渲染出来的内容自动量 (单元格文字会换行), 和 getRowHeight 二选一
   minColumnWidth?: number // 默认最新列宽, 默认 100
   // 数据
   totalRows: number 
   columns: IColumn[] // 约定必填
+  columnGroups: IColumnGroup[] // 表头分组, 每多一层表头多一行 (高度同 headerHeight), 组内的列拖拽只能在组内换位置
   // 功能
   frozenColumns: number
+  pinnedRightColumns: string[] // 固定在右侧的列 key (操作列 / 状态列之类), 和左侧冻结的前 N 列互不影响
   showSummary: boolean
   // 分页
   pageSize: number // 每页多少行
   bufferRows: number // 缓冲区行数
   maxCachedPages: number // 最大缓存页面数 (仅数据)
+  retry?: boolean | IRetryConfig // 分页加载失败自动重试 (指数退避), 默认重试 2 次, false 关掉
   // 可选功能-右侧管理面板
   sidePanel?: SidePanelConfig
+  // 行主键: 字段名 或 取值函数, 不配置则退化为行下标 (排序筛选后选中会串行)
+  rowKey?: string | ((row: Record<string, any>) => RowKey)
   // 行选中
   rowSelection?: IRowSelectionConfig
+  // 主从表: 配了就多一列展开按钮, 展开的行下面跟一块详情区 (返回元素或 html 字符串), 展开状态按 rowKey 记
+  detailRenderer?: (row: Record<string, any>) => HTMLElement | string
+  detailHeight?: number // 详情区渲染出来之前按这个高度估, 默认 200
+  // 撤销/重做: 列隐藏/顺序/列宽/冻结/排序/筛选 这些操作进历史, false 则只撤销单元格编辑
+  history?: boolean | IHistoryConfig
+  // 视图持久化: 列/排序/筛选/透视/侧边栏 整体存下来, 刷新后还原; 配了侧边栏会多一个 "视图" 面板
+  viewPersistence?: boolean | IViewPersistenceConfig
   // 底部栏状态
   showStatusBar?: boolean  // 是否显示底部状态, 默认 true
   statusBarHeight?: number // 状态栏高度, 默认 32px
   // 数据源配置(可选)
+  dataSource?: IDataSource // 数据源适配器, 下面没配的 fetchXxx 都从它补上
+  dataStrategy?: string // registerDataStrategy 注册过的策略名, 配了就不按数据量自动选 client/server
+  flashCells?: boolean // transaction 推送改了值的单元格闪一下, 默认 false
+  clientWorker?: boolean // client 模式的筛选/排序/汇总/透视丢到 Web Worker 算, 不配就按行数自动 (5w 行以上)
   initialData?: Record<string, any>[] // 全量数据
   fetchAllData?: () => Promise<Record<string, any>[]>
-  fetchPageData?(pageIndex: number, query?: ITableQuery): Promise<IPageResponse>
-  fetchSummaryData?(query?: ITableQuery): Promise<Record<string, any>>
+  // 带 signal 的几个: 查询条件变了 (比如搜索框还在打字) 旧请求会被 abort, 透传给 fetch 即可
+  fetchPageData?(pageIndex: number, query?: ITableQuery, signal?: AbortSignal): Promise<IPageResponse>
+  fetchSummaryData?(query?: ITableQuery, signal?: AbortSignal): Promise<Record<string, any>>
+  fetchCursorPage?(cursor: string | null, query: ITableQuery, signal?: AbortSignal): Promise<ICursorPageResponse> // 游标分页 (无限滚动), 配了就用 'cursor' 策略, cursor 首次为 null
   fetchFilterOptions?: (params: { // server 模式下拉取某列的可选筛选值
     key: string 
     query: ITableQuery
+    signal?: AbortSignal // 换了一列的筛选弹窗, 上一个还没回来的会被 abort
   }) => Promise<string[]>
+  saveRows?: (changes: IRowChange[]) => Promise<void> // commitChanges 时保存修改 (server 模式必配)
+  fetchPivotData?: (config: IPivotConfig, query: IPivotDataQuery) => Promise<IPivotDataResponse> // server 模式透视: 后端 GROUP BY, 一次返回一层
   
 }
 
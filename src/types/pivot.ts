@@ -8,6 +8,8 @@
  * 4. IPivotFlatRow   : 展平后的行, 用于虚拟滚动渲染
  */
 
+import type { ITableQuery } from "@/types";
+
 // 聚合类型
 export type AggregationType = 'sum' | 'count' | 'avg' | 'max' | 'min'
 
@@ -51,6 +53,9 @@ export interface IPivotTreeNode {
   isExpanded: boolean
   rowCount: number
   rawRows?: Record<string, any>[]
+  groupPath?: string[]  // server 模式: 从顶层到本节点的分组值, 懒加载子分组时传给后端
+  isLoading?: boolean   // server 模式: 子分组加载中
+  rowIndex?: number     // worker 建树: 明细节点回传时只带行在全量数据里的下标, 主线程再补 rawRows
 }
 
 // 展平后的行 (用于虚拟滚动)
@@ -64,6 +69,7 @@ export interface IPivotFlatRow {
   rowCount?: number
   isExpanded?: boolean
   parentId?: string
+  isLoading?: boolean
 }
 
 /**
@@ -97,6 +103,39 @@ export interface IPivotColNode {
   ancestorColValues?: string[]  // 仅叶子节点有值: 从根到本节点的列分组值路径
 }
 
+/**
+ * server 模式透视查询: 当前表格查询条件 + 要展开的分组路径
+ *
+ * groupPath = []                 → 第一层分组 (rowGroups[0])
+ * groupPath = ['华东']           → 华东 下面的 rowGroups[1] 分组
+ * groupPath = ['华东', '研发部'] → 再下一层, 以此类推
+ */
+export interface IPivotDataQuery extends ITableQuery {
+  groupPath: string[]
+}
+
+/**
+ * server 模式透视响应: 只返回 groupPath 下一层的分组, 子分组展开时再请求
+ *
+ * values 的 key 就是 cellKey, 和前端聚合时一样 ('salary' / 'salary__华东__Product-0')
+ * colValues / grandTotal 只在第一层 (groupPath = []) 返回, 用来建列树和总计行
+ */
+export interface IPivotDataResponse {
+  groups: {
+    value: any
+    rowCount: number
+    values: Record<string, any>
+  }[]
+  colValues?: string[][]  // 列分组值组合, 如 [['华东', 'Product-0'], ['华东', 'Product-1']]
+  grandTotal?: Record<string, any>
+}
+
+// PivotTable 的 server 数据源, 由 VirtualTable 带上当前查询条件包一层
+export type PivotGroupLoader = (config: IPivotConfig, groupPath: string[]) => Promise<IPivotDataResponse>
+
+// client 模式开了 worker 时的建树函数: 列树 + 行树一起在 worker 里建好
+export type PivotTreeBuilder = (config: IPivotConfig) => Promise<{ colTree: IPivotColNode; tree: IPivotTreeNode }>
+
 /**
  * 向后兼容: 将旧的单字段格式转为数组格式
  */
@@ -1,7 +1,11 @@
+import type { PageCacheStats } from "@/table/data/DataStrategy";
+
 // 性能监控工具类
 export class PerformanceMonitor {
 
   private static enabled = false // 默认关闭, 生产环境下不影响性能
+  // 各表格的分页缓存统计来源, key 一般是 tableId
+  private static cacheSources = new Map<string, () => PageCacheStats>()
 
   public static enable() {
     this.enabled = true 
@@ -11,6 +15,31 @@ export class PerformanceMonitor {
     this.enabled = false 
   }
 
+  // 登记分页缓存统计来源, 返回注销函数
+  public static trackCache(name: string, getStats: () => PageCacheStats): () => void {
+    this.cacheSources.set(name, getStats)
+    return () => {
+      if (this.cacheSources.get(name) === getStats) this.cacheSources.delete(name)
+    }
+  }
+
+  // 所有登记过的分页缓存统计, 带上命中率
+  public static getCacheStats(): Record<string, PageCacheStats & { hitRate: number }> {
+    const result: Record<string, PageCacheStats & { hitRate: number }> = {}
+    this.cacheSources.forEach((getStats, name) => {
+      const stats = getStats()
+      const total = stats.hits + stats.misses
+      result[name] = { ...stats, hitRate: total > 0 ? stats.hits / total : 0 }
+    })
+    return result
+  }
+
+  // 控制台打一张表看看, 只在开启时打
+  public static logCacheStats(): void {
+    if (!this.enabled) return
+    console.table(this.getCacheStats())
+  }
+
   // 测量同步函数执行时间
   public static measure<T>(name: string, fn: () => T, threshold = 10): T {
     if (!this.enabled) {
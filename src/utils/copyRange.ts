@@ -0,0 +1,77 @@
+import type { IColumn } from '@/types'
+
+export interface RangeStats {
+  count: number        // 非空单元格数
+  numericCount: number // 数值单元格数, 平均值按它算
+  sum: number
+  avg: number
+}
+
+/**
+ * 把选中区域复制到剪贴板
+ * - text/plain: TSV, 粘到 Excel/WPS 里自动分列
+ * - text/html: <table>, 粘到富文本 (邮件/文档) 里还是表格
+ * 不带表头, 和在 Excel 里框选复制的行为一致
+ */
+export async function copyRangeToClipboard(rows: Record<string, any>[], columns: IColumn[]): Promise<void> {
+  const text = buildTSV(rows, columns)
+  const html = buildHTML(rows, columns)
+
+  // ClipboardItem 需要安全上下文 (https/localhost), 不支持就只写纯文本
+  if (typeof ClipboardItem !== 'undefined' && navigator.clipboard?.write) {
+    await navigator.clipboard.write([
+      new ClipboardItem({
+        'text/plain': new Blob([text], { type: 'text/plain' }),
+        'text/html': new Blob([html], { type: 'text/html' })
+      })
+    ])
+    return
+  }
+  await navigator.clipboard.writeText(text)
+}
+
+/** 区域的 求和 / 平均 / 计数, 状态栏显示用 */
+export function calcRangeStats(rows: Record<string, any>[], columns: IColumn[]): RangeStats {
+  let count = 0
+  let numericCount = 0
+  let sum = 0
+  for (const row of rows) {
+    for (const col of columns) {
+      const value = row[col.key]
+      if (value === undefined || value === null || value === '') continue
+      count++
+      const num = typeof value === 'number' ? value : Number(value)
+      if (typeof value !== 'boolean' && !isNaN(num)) {
+        numericCount++
+        sum += num
+      }
+    }
+  }
+  return { count, numericCount, sum, avg: numericCount > 0 ? sum / numericCount : 0 }
+}
+
+function toText(value: any): string {
+  return value !== undefined && value !== null ? String(value) : ''
+}
+
+/** TSV 里不能有 tab / 换行, 换成空格, 不然粘过去就串格了 */
+function buildTSV(rows: Record<string, any>[], columns: IColumn[]): string {
+  return rows
+    .map(row => columns.map(col => toText(row[col.key]).replace(/[\t\r\n]+/g, ' ')).join('\t'))
+    .join('\n')
+}
+
+function buildHTML(rows: Record<string, any>[], columns: IColumn[]): string {
+  const body = rows
+    .map(row => `<tr>${columns.map(col => `<td>${escapeHTML(toText(row[col.key]))}</td>`).join('')}</tr>`)
+    .join('')
+  return `<table><tbody>${body}</tbody></table>`
+}
+
+function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
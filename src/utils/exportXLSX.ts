@@ -0,0 +1,379 @@
+import type { IColumn } from '@/types'
+import { createZip } from '@/utils/zip'
+import { triggerDownload } from '@/utils/exportCSV'
+
+export interface ExportXLSXOptions {
+  filename?: string         // 文件名（不含 .xlsx 后缀）
+  onlySelected?: boolean    // 仅导出选中行
+  sheetName?: string        // 数据 sheet 的名字，默认 '数据'
+  includeSummary?: boolean  // 最后带上总结行，默认跟 showSummary 一致
+  includePivot?: boolean    // 透视模式下多导一个「透视」sheet（当前展开的样子），默认 true
+}
+
+/** 一个 sheet: 第一行是表头 (始终冻结), 下面是数据行, 可选最后一行总结行 */
+export interface XLSXSheet {
+  name: string
+  columns: Pick<IColumn, 'key' | 'title' | 'width' | 'dataType' | 'numberFormat'>[]
+  rows: Record<string, any>[]
+  summary?: Record<string, any> | null // 加粗放在最后
+  boldRows?: Set<number>               // 要加粗的数据行 (rows 下标), 透视的小计 / 总计用
+  frozenColumns?: number               // 左侧冻结几列
+}
+
+/** Excel 单 sheet 最多 1,048,576 行, 去掉表头和总结行 */
+const MAX_SHEET_ROWS = 1_048_574
+
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+const NS_MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main'
+const NS_REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+const NS_PKG_REL = 'http://schemas.openxmlformats.org/package/2006/relationships'
+
+// sheet xml 攒到这么多字符就编码成一块字节, 大表不拼成一整个字符串 (会超 V8 字符串上限)
+const SHEET_CHUNK_CHARS = 1 << 20
+
+// 'yyyy-mm-dd' / 'yyyy/m/d', 可以带时间; 和 inferColumnType 认的日期格式一致
+const DATE_RE = /^(\d{4})([-/])(\d{1,2})\2(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/
+
+/**
+ * 导出 xlsx (自己拼 OOXML + zip, 不走任何服务)
+ * - 按列 dataType 写成数字 / 日期 / 布尔单元格, 格式用 numberFormat 或默认格式
+ * - 列宽按表格里的像素宽换算, 表头 + 左侧冻结列在 Excel 里也冻结
+ * - 超过单 sheet 行数上限的自动拆成多个 sheet, 不用像 CSV 那样下载好几个文件
+ */
+export function exportXLSX(sheets: XLSXSheet[], filename = 'export'): void {
+  triggerDownload(buildXLSXBlob(sheets), `${filename}.xlsx`)
+}
+
+export function buildXLSXBlob(sheets: XLSXSheet[]): Blob {
+  const parts = splitOversizedSheets(sheets)
+  const names = uniqueSheetNames(parts.map(sheet => sheet.name))
+  const styles = new StyleRegistry()
+  const encoder = new TextEncoder()
+
+  // 先拼 sheet, 用到的样式都登记完了再出 styles.xml
+  const sheetFiles = parts.map((sheet, i) => ({
+    name: `xl/worksheets/sheet${i + 1}.xml`,
+    data: buildSheetXML(sheet, styles, encoder),
+  }))
+
+  const zip = createZip([
+    { name: '[Content_Types].xml', data: encoder.encode(buildContentTypes(parts.length)) },
+    { name: '_rels/.rels', data: encoder.encode(buildRootRels()) },
+    { name: 'xl/workbook.xml', data: encoder.encode(buildWorkbook(names)) },
+    { name: 'xl/_rels/workbook.xml.rels', data: encoder.encode(buildWorkbookRels(parts.length)) },
+    { name: 'xl/styles.xml', data: encoder.encode(styles.toXML()) },
+    ...sheetFiles,
+  ])
+  return new Blob(zip, { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
+}
+
+// ========== sheet ==========
+
+/** sheet xml 按块编码: 一行一行往里写, 攒够 SHEET_CHUNK_CHARS 就转成字节 */
+function buildSheetXML(sheet: XLSXSheet, styles: StyleRegistry, encoder: TextEncoder): Uint8Array<ArrayBuffer>[] {
+  const { columns, rows, summary, boldRows } = sheet
+  const frozen = Math.min(Math.max(0, sheet.frozenColumns ?? 0), columns.length)
+  const lastRow = rows.length + 1 + (summary ? 1 : 0)
+  const lastCell = columns.length > 0 ? `${columnName(columns.length - 1)}${lastRow}` : 'A1'
+
+  const chunks: Uint8Array<ArrayBuffer>[] = []
+  let out: string[] = []
+  let pending = 0
+  const push = (xml: string) => {
+    out.push(xml)
+    pending += xml.length
+    if (pending >= SHEET_CHUNK_CHARS) flush()
+  }
+  const flush = () => {
+    if (out.length === 0) return
+    chunks.push(encoder.encode(out.join('')))
+    out = []
+    pending = 0
+  }
+
+  push(XML_HEAD)
+  push(`<worksheet xmlns="${NS_MAIN}" xmlns:r="${NS_REL}">`)
+  push(`<dimension ref="A1:${lastCell}"/>`)
+  push(buildSheetViews(frozen))
+  push('<sheetFormatPr defaultRowHeight="15"/>')
+  if (columns.length > 0) {
+    push('<cols>')
+    columns.forEach((col, i) => {
+      push(`<col min="${i + 1}" max="${i + 1}" width="${pxToChars(col.width || 120)}" customWidth="1"/>`)
+    })
+    push('</cols>')
+  }
+
+  push('<sheetData>')
+  const headerStyle = styles.get(null, 'header')
+  push('<row r="1">')
+  columns.forEach((col, i) => push(stringCell(`${columnName(i)}1`, col.title, headerStyle)))
+  push('</row>')
+
+  rows.forEach((row, index) => {
+    push(buildRow(index + 2, row, columns, styles, boldRows?.has(index) ? 'bold' : 'body'))
+  })
+  if (summary) {
+    push(buildRow(rows.length + 2, summary, columns, styles, 'bold'))
+  }
+  push('</sheetData>')
+  push('</worksheet>')
+  flush()
+  return chunks
+}
+
+/** 冻结窗格: 表头一行总是冻结, 再加左侧冻结列 */
+function buildSheetViews(frozenColumns: number): string {
+  const topLeft = `${columnName(frozenColumns)}2`
+  const pane = frozenColumns > 0
+    ? `<pane xSplit="${frozenColumns}" ySplit="1" topLeftCell="${topLeft}" activePane="bottomRight" state="frozen"/>` +
+      `<selection pane="topRight"/><selection pane="bottomLeft"/><selection pane="bottomRight" activeCell="${topLeft}" sqref="${topLeft}"/>`
+    : `<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>` +
+      `<selection pane="bottomLeft" activeCell="A2" sqref="A2"/>`
+  return `<sheetViews><sheetView workbookViewId="0">${pane}</sheetView></sheetViews>`
+}
+
+function buildRow(
+  rowNumber: number,
+  row: Record<string, any>,
+  columns: XLSXSheet['columns'],
+  styles: StyleRegistry,
+  kind: CellKind
+): string {
+  let xml = `<row r="${rowNumber}">`
+  columns.forEach((col, i) => {
+    xml += buildCell(`${columnName(i)}${rowNumber}`, row[col.key], col, styles, kind)
+  })
+  return xml + '</row>'
+}
+
+/**
+ * 按列 dataType 写单元格, 值转不过去 (比如数字列里混了文字) 就按文本写, 不丢内容
+ * 空值不写单元格
+ */
+function buildCell(
+  ref: string,
+  value: any,
+  col: XLSXSheet['columns'][number],
+  styles: StyleRegistry,
+  kind: CellKind
+): string {
+  if (value === null || value === undefined || value === '') return ''
+
+  if (col.dataType === 'date') {
+    const serial = toExcelDate(value)
+    if (serial !== null) {
+      const format = col.numberFormat ?? (Number.isInteger(serial) ? 'yyyy-mm-dd' : 'yyyy-mm-dd hh:mm')
+      return `<c r="${ref}" s="${styles.get(format, kind)}"><v>${serial}</v></c>`
+    }
+  }
+
+  if (col.dataType === 'number' || (col.dataType !== 'date' && typeof value === 'number')) {
+    const num = typeof value === 'number' ? value : Number(String(value).replace(/,/g, ''))
+    if (Number.isFinite(num) && String(value).trim() !== '') {
+      // 没配格式: 整数千分位, 小数保留两位; 没声明 dataType 的数字保持常规格式
+      const format = col.numberFormat ?? (col.dataType === 'number' ? (Number.isInteger(num) ? '#,##0' : '#,##0.00') : null)
+      return `<c r="${ref}" s="${styles.get(format, kind)}"><v>${num}</v></c>`
+    }
+  }
+
+  if (typeof value === 'boolean') {
+    return `<c r="${ref}" s="${styles.get(null, kind)}" t="b"><v>${value ? 1 : 0}</v></c>`
+  }
+
+  return stringCell(ref, value instanceof Date ? value.toISOString() : String(value), styles.get(null, kind))
+}
+
+// 文本直接写 inlineStr, 不建共享字符串表
+function stringCell(ref: string, text: string, style: number): string {
+  return `<c r="${ref}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${escapeXML(text)}</t></is></c>`
+}
+
+/** 日期 -> Excel 序列号 (1900-01-01 起的天数, 小数部分是时间), 转不了返回 null */
+function toExcelDate(value: any): number | null {
+  let parts: number[]
+  if (value instanceof Date || typeof value === 'number') {
+    // Date 对象 / 时间戳按本地时间取年月日, Excel 里没有时区
+    const date = new Date(value)
+    if (isNaN(date.getTime())) return null
+    parts = [date.getFullYear(), date.getMonth() + 1, date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds()]
+  } else {
+    const match = String(value).trim().match(DATE_RE)
+    if (!match) return null
+    parts = [match[1], match[3], match[4], match[5] ?? 0, match[6] ?? 0, match[7] ?? 0].map(Number)
+  }
+  const [year, month, day, hour, minute, second] = parts
+  const ms = Date.UTC(year, month - 1, day, hour, minute, second)
+  // 25569 = 1970-01-01 的序列号 (已经算上了 Excel 把 1900 当闰年的那一天)
+  const serial = ms / 86_400_000 + 25569
+  return Math.round(serial * 86_400) / 86_400 // 按秒取整, 避免浮点尾巴
+}
+
+// ========== 样式 ==========
+
+type CellKind = 'body' | 'bold' | 'header'
+
+/**
+ * cellXfs 按需登记: (数字格式, 普通 / 加粗 / 表头) 一种组合一个下标
+ * 字体 0 常规 1 加粗; 填充 0/1 是 Excel 规定的占位, 2 是表头底色; 边框 1 是表头下边线
+ */
+class StyleRegistry {
+  private formats = new Map<string, number>() // 格式码 -> numFmtId, 自定义的从 164 开始
+  private xfs: string[] = ['<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>']
+  private xfIndex = new Map<string, number>([['0|body', 0]])
+
+  public get(format: string | null, kind: CellKind): number {
+    const numFmtId = format ? this.getFormatId(format) : 0
+    const key = `${numFmtId}|${kind}`
+    const existing = this.xfIndex.get(key)
+    if (existing !== undefined) return existing
+
+    const fontId = kind === 'body' ? 0 : 1
+    const fillId = kind === 'header' ? 2 : 0
+    const borderId = kind === 'header' ? 1 : 0
+    let xf = `<xf numFmtId="${numFmtId}" fontId="${fontId}" fillId="${fillId}" borderId="${borderId}" xfId="0"`
+    if (numFmtId) xf += ' applyNumberFormat="1"'
+    if (fontId) xf += ' applyFont="1"'
+    if (fillId) xf += ' applyFill="1" applyBorder="1"'
+    this.xfs.push(`${xf}/>`)
+    this.xfIndex.set(key, this.xfs.length - 1)
+    return this.xfs.length - 1
+  }
+
+  private getFormatId(format: string): number {
+    let id = this.formats.get(format)
+    if (id === undefined) {
+      id = 164 + this.formats.size
+      this.formats.set(format, id)
+    }
+    return id
+  }
+
+  public toXML(): string {
+    const numFmts = Array.from(this.formats, ([code, id]) => `<numFmt numFmtId="${id}" formatCode="${escapeXML(code)}"/>`)
+    return XML_HEAD +
+      `<styleSheet xmlns="${NS_MAIN}">` +
+      (numFmts.length > 0 ? `<numFmts count="${numFmts.length}">${numFmts.join('')}</numFmts>` : '') +
+      '<fonts count="2">' +
+      '<font><sz val="11"/><name val="Calibri"/><family val="2"/></font>' +
+      '<font><b/><sz val="11"/><name val="Calibri"/><family val="2"/></font>' +
+      '</fonts>' +
+      '<fills count="3">' +
+      '<fill><patternFill patternType="none"/></fill>' +
+      '<fill><patternFill patternType="gray125"/></fill>' +
+      '<fill><patternFill patternType="solid"><fgColor rgb="FFF3F4F6"/><bgColor indexed="64"/></patternFill></fill>' +
+      '</fills>' +
+      '<borders count="2">' +
+      '<border><left/><right/><top/><bottom/><diagonal/></border>' +
+      '<border><left/><right/><top/><bottom style="thin"><color rgb="FFD3D3D5"/></bottom><diagonal/></border>' +
+      '</borders>' +
+      '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+      `<cellXfs count="${this.xfs.length}">${this.xfs.join('')}</cellXfs>` +
+      '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+      '</styleSheet>'
+  }
+}
+
+// ========== 工作簿 / 包结构 ==========
+
+function buildContentTypes(sheetCount: number): string {
+  const sheets = Array.from({ length: sheetCount }, (_, i) =>
+    `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+  ).join('')
+  return XML_HEAD +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    sheets +
+    '</Types>'
+}
+
+function buildRootRels(): string {
+  return XML_HEAD +
+    `<Relationships xmlns="${NS_PKG_REL}">` +
+    `<Relationship Id="rId1" Type="${NS_REL}/officeDocument" Target="xl/workbook.xml"/>` +
+    '</Relationships>'
+}
+
+function buildWorkbook(names: string[]): string {
+  const sheets = names.map((name, i) => `<sheet name="${escapeXML(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')
+  return XML_HEAD +
+    `<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}">` +
+    `<bookViews><workbookView/></bookViews><sheets>${sheets}</sheets>` +
+    '</workbook>'
+}
+
+function buildWorkbookRels(sheetCount: number): string {
+  const sheets = Array.from({ length: sheetCount }, (_, i) =>
+    `<Relationship Id="rId${i + 1}" Type="${NS_REL}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+  ).join('')
+  return XML_HEAD +
+    `<Relationships xmlns="${NS_PKG_REL}">` +
+    sheets +
+    `<Relationship Id="rId${sheetCount + 1}" Type="${NS_REL}/styles" Target="styles.xml"/>` +
+    '</Relationships>'
+}
+
+// ========== 辅助 ==========
+
+/** 行数超过上限的 sheet 拆成几个, 总结行只放最后一个 */
+function splitOversizedSheets(sheets: XLSXSheet[]): XLSXSheet[] {
+  return sheets.flatMap(sheet => {
+    if (sheet.rows.length <= MAX_SHEET_ROWS) return [sheet]
+    const count = Math.ceil(sheet.rows.length / MAX_SHEET_ROWS)
+    return Array.from({ length: count }, (_, i) => {
+      const start = i * MAX_SHEET_ROWS
+      const boldRows = sheet.boldRows && new Set(
+        Array.from(sheet.boldRows).filter(r => r >= start && r < start + MAX_SHEET_ROWS).map(r => r - start)
+      )
+      return {
+        ...sheet,
+        name: `${sheet.name} (${i + 1})`,
+        rows: sheet.rows.slice(start, start + MAX_SHEET_ROWS),
+        summary: i === count - 1 ? sheet.summary : null,
+        boldRows,
+      }
+    })
+  })
+}
+
+/** sheet 名: 不能有 []:*?/\ , 最长 31 个字符, 不能重名 (不分大小写) */
+function uniqueSheetNames(names: string[]): string[] {
+  const used = new Set<string>()
+  return names.map((raw, i) => {
+    const base = raw.replace(/[[\]:*?/\\]/g, '_').trim().slice(0, 31) || `Sheet${i + 1}`
+    let name = base
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      const suffix = ` (${n})`
+      name = base.slice(0, 31 - suffix.length) + suffix
+    }
+    used.add(name.toLowerCase())
+    return name
+  })
+}
+
+/** 列下标 -> Excel 列名: 0 -> A, 25 -> Z, 26 -> AA */
+function columnName(index: number): string {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+/** 像素宽 -> Excel 列宽 (默认字体下一个字符约 7px, 两边留白 5px) */
+function pxToChars(px: number): number {
+  return Math.max(1, Math.round(((px - 5) / 7) * 100) / 100)
+}
+
+function escapeXML(text: string): string {
+  return text
+    // xml 1.0 不允许的控制字符直接去掉, 不然 Excel 打不开
+    .replace(/[\x00-\x08\x0B\x0C\x0E-\x1F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
@@ -0,0 +1,442 @@
+/**
+ * 计算列表达式: 自己解析求值, 不用 eval / new Function
+ *
+ * 支持:
+ * - 字段名直接写 (salary, 工龄), 带空格或符号的用方括号 [first name]
+ * - 数字, 字符串 ('a' / "a"), true / false / null
+ * - + - * / %, 比较 < <= > >= == !=, && || !, 三元 a ? b : c, 括号
+ * - 函数: round(x, 位数) floor ceil abs min max if coalesce concat len year month day
+ *
+ * 求值规则 (按表格数据的习惯来, 不是 JS 原样):
+ * - 数字字符串 ('12000') 参与运算按数字算, + 两边都是数字才相加, 否则拼字符串
+ * - 空值 (null / undefined / '') 参与算术结果为 null, 除以 0 也是 null, 不出 NaN / Infinity
+ */
+
+export class ExpressionError extends Error {
+  constructor(
+    message: string,
+    public position?: number // 出错的字符位置, 编辑器里标红用
+  ) {
+    super(message)
+    this.name = 'ExpressionError'
+  }
+}
+
+export interface CompiledExpression {
+  source: string
+  dependencies: string[] // 用到的字段名, 依赖追踪用
+  evaluate(row: Record<string, any>): any
+}
+
+type Evaluator = (row: Record<string, any>) => any
+
+type Token =
+  | { type: 'number'; value: number; pos: number }
+  | { type: 'string'; value: string; pos: number }
+  | { type: 'ident'; value: string; pos: number; quoted: boolean }
+  | { type: 'op'; value: string; pos: number }
+  | { type: 'eof'; pos: number }
+
+// 长的写前面, 先匹配 <= 再匹配 <
+const OPERATORS = ['&&', '||', '==', '!=', '<=', '>=', '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '(', ')', ',']
+const IDENT_START = /[A-Za-z_$一-龥]/
+const IDENT_PART = /[\w$一-龥]/
+
+// ===== 词法 ==========
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+  while (i < source.length) {
+    const ch = source[i]
+    if (/\s/.test(ch)) {
+      i++
+      continue
+    }
+    const pos = i
+
+    if (/\d/.test(ch) || (ch === '.' && /\d/.test(source[i + 1] ?? ''))) {
+      const match = source.slice(i).match(/^\d*\.?\d+(?:[eE][+-]?\d+)?/)!
+      tokens.push({ type: 'number', value: Number(match[0]), pos })
+      i += match[0].length
+      continue
+    }
+
+    if (ch === '"' || ch === "'") {
+      let value = ''
+      i++
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\' && i + 1 < source.length) i++
+        value += source[i++]
+      }
+      if (i >= source.length) throw new ExpressionError('字符串没有结束引号', pos)
+      i++
+      tokens.push({ type: 'string', value, pos })
+      continue
+    }
+
+    if (ch === '[') {
+      const end = source.indexOf(']', i)
+      if (end < 0) throw new ExpressionError('字段名缺少 ]', pos)
+      const value = source.slice(i + 1, end).trim()
+      if (!value) throw new ExpressionError('[] 里字段名不能为空', pos)
+      tokens.push({ type: 'ident', value, pos, quoted: true })
+      i = end + 1
+      continue
+    }
+
+    if (IDENT_START.test(ch)) {
+      let value = ''
+      while (i < source.length && IDENT_PART.test(source[i])) value += source[i++]
+      tokens.push({ type: 'ident', value, pos, quoted: false })
+      continue
+    }
+
+    const op = OPERATORS.find(candidate => source.startsWith(candidate, i))
+    if (!op) throw new ExpressionError(`不认识的字符 "${ch}"`, pos)
+    tokens.push({ type: 'op', value: op, pos })
+    i += op.length
+  }
+  tokens.push({ type: 'eof', pos: source.length })
+  return tokens
+}
+
+// ===== 值的转换 ==========
+
+/** 转数字, 转不了 / 空值返回 null */
+function toNumber(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null
+  if (typeof value === 'boolean') return value ? 1 : 0
+  const num = typeof value === 'number' ? value : Number(String(value).trim())
+  return Number.isFinite(num) ? num : null
+}
+
+function isBlank(value: any): boolean {
+  return value === null || value === undefined || value === ''
+}
+
+/** NaN / Infinity 一律当空值 */
+function finite(value: number): number | null {
+  return Number.isFinite(value) ? value : null
+}
+
+function arithmetic(op: string, left: any, right: any): any {
+  const a = toNumber(left)
+  const b = toNumber(right)
+  if (op === '+') {
+    if (a !== null && b !== null) return finite(a + b)
+    // 有一边不是数字: 两边都空就是空, 否则拼字符串
+    if (isBlank(left) && isBlank(right)) return null
+    if (typeof left === 'string' || typeof right === 'string') return String(left ?? '') + String(right ?? '')
+    return null
+  }
+  if (a === null || b === null) return null
+  switch (op) {
+    case '-': return finite(a - b)
+    case '*': return finite(a * b)
+    case '/': return b === 0 ? null : finite(a / b)
+    case '%': return b === 0 ? null : finite(a % b)
+  }
+  return null
+}
+
+function compare(op: string, left: any, right: any): boolean {
+  const a = toNumber(left)
+  const b = toNumber(right)
+  // 两边都是数字按数字比, 否则按字符串比
+  const [x, y]: [any, any] = a !== null && b !== null ? [a, b] : [String(left ?? ''), String(right ?? '')]
+  switch (op) {
+    case '==': return x === y
+    case '!=': return x !== y
+    case '<': return x < y
+    case '<=': return x <= y
+    case '>': return x > y
+    case '>=': return x >= y
+  }
+  return false
+}
+
+/** yyyy-MM-dd / yyyy/M/d 或 Date, 取年月日 */
+function datePart(value: any, part: 'year' | 'month' | 'day'): number | null {
+  let date: Date | null = null
+  if (value instanceof Date) {
+    date = value
+  } else if (typeof value === 'string') {
+    const match = value.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/)
+    if (match) date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  }
+  if (!date || isNaN(date.getTime())) return null
+  if (part === 'year') return date.getFullYear()
+  if (part === 'month') return date.getMonth() + 1
+  return date.getDate()
+}
+
+// ===== 内置函数 ==========
+
+interface BuiltinFunction {
+  minArgs: number
+  maxArgs: number
+  call(args: Evaluator[], row: Record<string, any>): any
+}
+
+function numeric(fn: (n: number) => number): BuiltinFunction {
+  return {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([arg], row) => {
+      const n = toNumber(arg(row))
+      return n === null ? null : finite(fn(n))
+    }
+  }
+}
+
+function extreme(pick: (values: number[]) => number): BuiltinFunction {
+  return {
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: (args, row) => {
+      const values = args.map(arg => toNumber(arg(row))).filter((n): n is number => n !== null)
+      return values.length > 0 ? pick(values) : null
+    }
+  }
+}
+
+const FUNCTIONS: Record<string, BuiltinFunction> = {
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    call: ([value, digits], row) => {
+      const n = toNumber(value(row))
+      if (n === null) return null
+      const factor = 10 ** (digits ? toNumber(digits(row)) ?? 0 : 0)
+      return finite(Math.round(n * factor) / factor)
+    }
+  },
+  floor: numeric(Math.floor),
+  ceil: numeric(Math.ceil),
+  abs: numeric(Math.abs),
+  min: extreme(values => Math.min(...values)),
+  max: extreme(values => Math.max(...values)),
+  if: {
+    minArgs: 2,
+    maxArgs: 3,
+    // 只算选中的那个分支
+    call: ([cond, then, otherwise], row) => (cond(row) ? then(row) : otherwise ? otherwise(row) : null)
+  },
+  coalesce: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: (args, row) => {
+      for (const arg of args) {
+        const value = arg(row)
+        if (!isBlank(value)) return value
+      }
+      return null
+    }
+  },
+  concat: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    call: (args, row) => args.map(arg => String(arg(row) ?? '')).join('')
+  },
+  len: {
+    minArgs: 1,
+    maxArgs: 1,
+    call: ([arg], row) => String(arg(row) ?? '').length
+  },
+  year: { minArgs: 1, maxArgs: 1, call: ([arg], row) => datePart(arg(row), 'year') },
+  month: { minArgs: 1, maxArgs: 1, call: ([arg], row) => datePart(arg(row), 'month') },
+  day: { minArgs: 1, maxArgs: 1, call: ([arg], row) => datePart(arg(row), 'day') },
+}
+
+// ===== 语法 (递归下降, 直接编译成闭包, 求值时不再走语法树) ==========
+
+class Parser {
+  private index = 0
+  public dependencies = new Set<string>()
+
+  constructor(private tokens: Token[]) {}
+
+  public parse(): Evaluator {
+    const evaluator = this.ternary()
+    const token = this.peek()
+    if (token.type !== 'eof') throw new ExpressionError(`多余的内容 "${describe(token)}"`, token.pos)
+    return evaluator
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++]
+  }
+
+  /** 当前是这个运算符就吃掉 */
+  private accept(...ops: string[]): string | null {
+    const token = this.peek()
+    if (token.type === 'op' && ops.includes(token.value)) {
+      this.index++
+      return token.value
+    }
+    return null
+  }
+
+  private expect(op: string): void {
+    const token = this.peek()
+    if (!this.accept(op)) throw new ExpressionError(`缺少 "${op}"`, token.pos)
+  }
+
+  private ternary(): Evaluator {
+    const cond = this.or()
+    if (!this.accept('?')) return cond
+    const then = this.ternary()
+    this.expect(':')
+    const otherwise = this.ternary()
+    return row => (cond(row) ? then(row) : otherwise(row))
+  }
+
+  private or(): Evaluator {
+    let left = this.and()
+    while (this.accept('||')) {
+      const a = left
+      const b = this.and()
+      left = row => a(row) || b(row)
+    }
+    return left
+  }
+
+  private and(): Evaluator {
+    let left = this.comparison()
+    while (this.accept('&&')) {
+      const a = left
+      const b = this.comparison()
+      left = row => a(row) && b(row)
+    }
+    return left
+  }
+
+  private comparison(): Evaluator {
+    let left = this.additive()
+    let op: string | null
+    while ((op = this.accept('==', '!=', '<', '<=', '>', '>='))) {
+      const a = left
+      const b = this.additive()
+      const operator = op
+      left = row => compare(operator, a(row), b(row))
+    }
+    return left
+  }
+
+  private additive(): Evaluator {
+    let left = this.multiplicative()
+    let op: string | null
+    while ((op = this.accept('+', '-'))) {
+      const a = left
+      const b = this.multiplicative()
+      const operator = op
+      left = row => arithmetic(operator, a(row), b(row))
+    }
+    return left
+  }
+
+  private multiplicative(): Evaluator {
+    let left = this.unary()
+    let op: string | null
+    while ((op = this.accept('*', '/', '%'))) {
+      const a = left
+      const b = this.unary()
+      const operator = op
+      left = row => arithmetic(operator, a(row), b(row))
+    }
+    return left
+  }
+
+  private unary(): Evaluator {
+    if (this.accept('!')) {
+      const operand = this.unary()
+      return row => !operand(row)
+    }
+    if (this.accept('-')) {
+      const operand = this.unary()
+      return row => {
+        const n = toNumber(operand(row))
+        return n === null ? null : -n
+      }
+    }
+    if (this.accept('+')) {
+      const operand = this.unary()
+      return row => toNumber(operand(row))
+    }
+    return this.primary()
+  }
+
+  private primary(): Evaluator {
+    const token = this.next()
+    switch (token.type) {
+      case 'number':
+      case 'string': {
+        const value = token.value
+        return () => value
+      }
+
+      case 'ident': {
+        if (!token.quoted) {
+          if (token.value === 'true') return () => true
+          if (token.value === 'false') return () => false
+          if (token.value === 'null') return () => null
+          if (this.accept('(')) return this.call(token.value, token.pos)
+        }
+        const key = token.value
+        this.dependencies.add(key)
+        return row => row[key]
+      }
+
+      case 'op':
+        if (token.value === '(') {
+          const inner = this.ternary()
+          this.expect(')')
+          return inner
+        }
+        throw new ExpressionError(`这里不该出现 "${token.value}"`, token.pos)
+
+      case 'eof':
+        throw new ExpressionError('表达式不完整', token.pos)
+    }
+  }
+
+  private call(name: string, pos: number): Evaluator {
+    const fn = FUNCTIONS[name.toLowerCase()]
+    if (!fn) throw new ExpressionError(`不支持的函数 "${name}"`, pos)
+    const args: Evaluator[] = []
+    if (!this.accept(')')) {
+      do {
+        args.push(this.ternary())
+      } while (this.accept(','))
+      this.expect(')')
+    }
+    if (args.length < fn.minArgs || args.length > fn.maxArgs) {
+      throw new ExpressionError(`函数 ${name} 的参数个数不对`, pos)
+    }
+    return row => fn.call(args, row)
+  }
+}
+
+function describe(token: Token): string {
+  return token.type === 'eof' ? '' : String(token.value)
+}
+
+/** 编译表达式, 语法不对抛 ExpressionError */
+export function compileExpression(source: string): CompiledExpression {
+  if (!source.trim()) throw new ExpressionError('表达式不能为空', 0)
+  const parser = new Parser(tokenize(source))
+  const evaluator = parser.parse()
+  return {
+    source,
+    dependencies: [...parser.dependencies],
+    evaluate: (row) => {
+      const value = evaluator(row)
+      return typeof value === 'number' ? finite(value) : value ?? null
+    }
+  }
+}
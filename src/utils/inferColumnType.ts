@@ -9,7 +9,7 @@ import type { ColumnDataType, IColumn } from "@/types";
  * - 包含日期 => 'date
  * - 其他任何 => 'string'
  */
-export function inferColumnTypes(columns: IColumn[], data: Record<string, any>[]): IColumn[] {
+export function inferColumnTypes<T extends Pick<IColumn, 'key' | 'dataType'>>(columns: T[], data: Record<string, any>[]): T[] {
   if (data.length === 0) return columns
 
   // 采样前 100 行即可, 不足 100 行也行
@@ -101,3 +101,35 @@ function isDateString(value: unknown): value is string {
   )
 }
 
+
+
+/**
+ * 把粘贴/导入的文本按列类型转成数据值, 判定规则和上面推断类型保持一致
+ * - 空串: 一律 null
+ * - number: 能被 Number 解析的非空串 (允许千分位逗号)
+ * - date: 同 isDateString, 统一成 '-' 分隔
+ * - boolean: true/false/1/0/是/否
+ * - string: 原样
+ * @returns 转不了时返回 error 信息
+ */
+export function coerceValue(raw: string, dataType?: ColumnDataType): { value: any } | { error: string } {
+  const text = raw.trim()
+  if (text === '') return { value: null }
+
+  switch (dataType) {
+    case 'number': {
+      const num = Number(text.replace(/,/g, ''))
+      return isFinite(num) ? { value: num } : { error: `"${raw}" 不是数字` }
+    }
+    case 'date':
+      return isDateString(text) ? { value: text.replace(/\//g, '-') } : { error: `"${raw}" 不是日期 (yyyy-MM-dd)` }
+    case 'boolean': {
+      const lower = text.toLowerCase()
+      if (['true', '1', '是'].includes(lower)) return { value: true }
+      if (['false', '0', '否'].includes(lower)) return { value: false }
+      return { error: `"${raw}" 不是布尔值` }
+    }
+    default:
+      return { value: raw }
+  }
+}
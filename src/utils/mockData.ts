@@ -68,18 +68,21 @@ export async function mockFechPageData(
     )
   }
 
-  // 4. 应用排序
-  if (query?.sortKey && query.sortDirection) {
-    const key = query.sortKey
-    const dir = query.sortDirection
+  // 4. 应用排序 (多列: 前一列相等才比下一列)
+  const sorts = query?.sorts?.length
+    ? query.sorts
+    : (query?.sortKey && query.sortDirection ? [{ key: query.sortKey, direction: query.sortDirection }] : [])
+  if (sorts.length > 0) {
     filtered.sort((a, b) => {
-      const aVal = a[key]
-      const bVal = b[key]
-      if (aVal == null && bVal == null) return 0
-      if (aVal == null) return 1
-      if (bVal == null) return -1
-      if (aVal < bVal) return dir === 'asc' ? -1 : 1
-      if (aVal > bVal) return dir === 'asc' ? 1 : -1
+      for (const { key, direction: dir } of sorts) {
+        const aVal = a[key]
+        const bVal = b[key]
+        if (aVal == null && bVal == null) continue
+        if (aVal == null) return 1
+        if (bVal == null) return -1
+        if (aVal < bVal) return dir === 'asc' ? -1 : 1
+        if (aVal > bVal) return dir === 'asc' ? 1 : -1
+      }
       return 0
     })
   }
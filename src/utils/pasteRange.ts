@@ -0,0 +1,129 @@
+import type { IColumn } from "@/types";
+import { coerceValue } from "@/utils/inferColumnType";
+
+/**
+ * 解析剪贴板里的 TSV (Excel/WPS 复制出来的格式) 成二维数组
+ * - 行用 \n 或 \r\n 分隔, 末尾那个空行 Excel 会自带, 去掉
+ * - 单元格里有换行/tab 时 Excel 会用双引号包起来, 内部 "" 代表一个 "
+ */
+export function parseTSV(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (ch === '"') {
+        inQuotes = false
+      } else {
+        cell += ch
+      }
+      continue
+    }
+
+    if (ch === '"' && cell === '') {
+      inQuotes = true
+    } else if (ch === '\t') {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += ch
+    }
+  }
+  // 最后一行没有换行结尾
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+export interface PasteCellChange {
+  row: Record<string, any>
+  rowIndex: number
+  key: string
+  oldValue: any
+  newValue: any
+}
+
+export interface PastePlan {
+  changes: PasteCellChange[]      // 要写入的单元格 (含新行)
+  newRows: Record<string, any>[]  // 超出行数时要追加的新行 (空对象, 值在 changes 里)
+  errors: string[]                // 被拒的行, 一行一条
+  truncated: number               // 没地方放, 被丢掉的行数 (不能追加时)
+}
+
+/**
+ * 把粘贴内容换算成要改的单元格, 不动任何数据
+ * - 只写可编辑列, 不可编辑的列跳过
+ * - 一行里有一个值转换/校验不过, 整行都不要
+ * - 超出总行数: 能追加就生成新行, 不能就截掉
+ */
+export function buildPastePlan(params: {
+  matrix: string[][]
+  startRow: number
+  columns: IColumn[] // 从焦点列开始往右的列
+  totalRows: number
+  getRow: (rowIndex: number) => Record<string, any> | undefined
+  canAppend: boolean
+}): PastePlan {
+  const { matrix, startRow, columns, totalRows, getRow, canAppend } = params
+  const plan: PastePlan = { changes: [], newRows: [], errors: [], truncated: 0 }
+
+  for (let r = 0; r < matrix.length; r++) {
+    const existing = getRow(startRow + r)
+    const isNew = !existing
+    if (isNew && (!canAppend || startRow + r < totalRows)) {
+      // server 模式不能追加; 行号在范围内但数据没拿到也不敢瞎写
+      plan.truncated++
+      continue
+    }
+    const row = existing ?? {}
+    const rowIndex = isNew ? totalRows + plan.newRows.length : startRow + r
+
+    const rowChanges: PasteCellChange[] = []
+    const preview: Record<string, any> = { ...row }
+    let error: string | null = null
+
+    for (let c = 0; c < matrix[r].length && c < columns.length; c++) {
+      const col = columns[c]
+      const editable = typeof col.editable === 'function' ? col.editable(row, rowIndex) : !!col.editable
+      if (!editable) continue
+
+      const coerced = coerceValue(matrix[r][c], col.dataType)
+      if ('error' in coerced) {
+        error = `${col.title}: ${coerced.error}`
+        break
+      }
+      preview[col.key] = coerced.value
+      if (col.validate) {
+        const result = col.validate(coerced.value, preview)
+        if (result === false || typeof result === 'string') {
+          error = `${col.title}: ${typeof result === 'string' ? result : '值不合法'}`
+          break
+        }
+      }
+      if (!isNew && row[col.key] === coerced.value) continue
+      rowChanges.push({ row, rowIndex, key: col.key, oldValue: row[col.key], newValue: coerced.value })
+    }
+
+    if (error) {
+      plan.errors.push(`第 ${rowIndex + 1} 行 ${error}`)
+      continue
+    }
+    if (isNew) plan.newRows.push(row)
+    plan.changes.push(...rowChanges)
+  }
+  return plan
+}
@@ -0,0 +1,106 @@
+/**
+ * 最小 zip 打包 (xlsx 就是个 zip), 不引第三方
+ * - 只用 store (不压缩): 同步、代码少, 代价是文件比 Excel 自己存的大几倍
+ * - 不支持 zip64, 单个文件 / 整包都不能超过 4GB (百万行的 xlsx 也到不了)
+ * - 大文件可以分块传进来, 输出也是一块块的, 不拼成一整个 buffer
+ */
+
+export interface ZipEntry {
+  name: string      // 包内路径, 如 'xl/workbook.xml'
+  data: Uint8Array<ArrayBuffer> | Uint8Array<ArrayBuffer>[] // 分块的按顺序拼起来就是文件内容
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1
+    }
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+// 分块接着算, 和整块一次算的结果一样
+function crc32(chunks: Uint8Array[]): number {
+  let crc = 0xFFFFFFFF
+  for (const data of chunks) {
+    for (let i = 0; i < data.length; i++) {
+      crc = CRC_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8)
+    }
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0
+}
+
+// zip 里的时间是 dos 格式 (本地时间, 精确到 2 秒)
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+/** 打包成 zip, 返回的各块按顺序就是整个文件 (直接交给 Blob) */
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer>[] {
+  const encoder = new TextEncoder()
+  const stamp = toDosDateTime(new Date())
+  const localParts: Uint8Array<ArrayBuffer>[] = []
+  const centralParts: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const chunks = Array.isArray(entry.data) ? entry.data : [entry.data]
+    const crc = crc32(chunks)
+    const size = chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+
+    // 本地文件头 (30 字节 + 文件名)
+    const local = new Uint8Array(30 + name.length)
+    const lv = new DataView(local.buffer)
+    lv.setUint32(0, 0x04034B50, true)
+    lv.setUint16(4, 20, true)        // 解压所需版本 2.0
+    lv.setUint16(6, 0x0800, true)    // 文件名是 utf-8
+    lv.setUint16(8, 0, true)         // store
+    lv.setUint16(10, stamp.time, true)
+    lv.setUint16(12, stamp.date, true)
+    lv.setUint32(14, crc, true)
+    lv.setUint32(18, size, true)
+    lv.setUint32(22, size, true)
+    lv.setUint16(26, name.length, true)
+    local.set(name, 30)
+    localParts.push(local, ...chunks)
+
+    // 中央目录项 (46 字节 + 文件名)
+    const central = new Uint8Array(46 + name.length)
+    const cv = new DataView(central.buffer)
+    cv.setUint32(0, 0x02014B50, true)
+    cv.setUint16(4, 20, true)
+    cv.setUint16(6, 20, true)
+    cv.setUint16(8, 0x0800, true)
+    cv.setUint16(10, 0, true)
+    cv.setUint16(12, stamp.time, true)
+    cv.setUint16(14, stamp.date, true)
+    cv.setUint32(16, crc, true)
+    cv.setUint32(20, size, true)
+    cv.setUint32(24, size, true)
+    cv.setUint16(28, name.length, true)
+    cv.setUint32(42, offset, true)   // 本地文件头的位置
+    central.set(name, 46)
+    centralParts.push(central)
+
+    offset += local.length + size
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0)
+  // 中央目录结束记录 (22 字节)
+  const end = new Uint8Array(22)
+  const ev = new DataView(end.buffer)
+  ev.setUint32(0, 0x06054B50, true)
+  ev.setUint16(8, entries.length, true)
+  ev.setUint16(10, entries.length, true)
+  ev.setUint32(12, centralSize, true)
+  ev.setUint32(16, offset, true)
+
+  return [...localParts, ...centralParts, end]
+}